@@ -1,5 +1,5 @@
 
-import React, { useState, useMemo, useRef } from 'react';
+import React, { useState, useMemo, useRef, useEffect } from 'react';
 import { 
   Activity, 
   BarChart3, 
@@ -11,7 +11,6 @@ import {
   Download,
   Layers,
   FlaskConical,
-  Quote,
   CheckSquare,
   Square,
   Settings2,
@@ -28,51 +27,154 @@ import {
   AlertTriangle,
   ArrowRight,
   Target,
-  ClipboardCheck
+  ClipboardCheck,
+  TrendingUp,
+  HeartPulse,
+  Grid3x3,
+  Calculator,
+  Trash2,
+  ListFilter,
+  Table
 } from 'lucide-react';
-import { Dataset, DataVariable } from './types';
+import { CorrelationMethod, CorrelationResult, Dataset, DataVariable, MissingCode, PAdjustMethod, PostHocMethod, VariableType } from './types';
 import FileUpload from './components/FileUpload';
 import DistributionPlot from './components/DistributionPlot';
 import CorrelationHeatmap from './components/CorrelationHeatmap';
-import { getCorrelationMatrix, calculateGroupStats, calculateSummaryStats } from './utils/statistics';
-import { ResponsiveContainer, ScatterChart, Scatter, XAxis, YAxis, ZAxis, CartesianGrid, Tooltip, BarChart, Bar, ErrorBar } from 'recharts';
+import GroupInferencePanel, { GroupTestFamily } from './components/GroupInferencePanel';
+import ContingencyTable from './components/ContingencyTable';
+import EpiMeasuresPanel from './components/EpiMeasuresPanel';
+import RegressionPanel from './components/RegressionPanel';
+import SurvivalPanel from './components/SurvivalPanel';
+import MissingDataPanel from './components/MissingDataPanel';
+import TableOnePanel from './components/TableOnePanel';
+import DescriptiveStatsTable from './components/DescriptiveStatsTable';
+import ReportExportMenu from './components/ReportExportMenu';
+import ScatterPlot from './components/ScatterPlot';
+import GroupPlot from './components/GroupPlot';
+import AcademicDraft from './components/AcademicDraft';
+import LevelOrderEditor from './components/LevelOrderEditor';
+import DerivedVariableDialog from './components/DerivedVariableDialog';
+import FilterBuilder from './components/FilterBuilder';
+import { calculateGroupStats, calculateSummaryStats, CORRELATION_METHODS, formatCI, getSignificanceStars, toNumeric, VarianceAssumption } from './utils/statistics';
+import { ComputeHandle, isCancelledError, runComputeTask } from './utils/computeClient';
+import { addVariable, removeVariable, replaceVariables, setVariableMissingCodes, setVariableType } from './utils/dataset';
+import { describeNumericDetails, describeVariable, isCategoricalType, isDateType, VARIABLE_TYPES } from './utils/variableTypes';
+import { buildReportSections } from './utils/report';
+import { applyRowFilter, createEmptyFilter, describeSubset, RowFilter, withSubsetNote } from './utils/filter';
+import { P_ADJUST_METHODS } from './utils/multipleComparisons';
+import { calculateRankGroupStats, toDunnAdjustment } from './utils/nonparametric';
+import { calculateContingencyTable } from './utils/contingency';
+import { copyHtmlToClipboard, escapeHtml, WORD_CELL_STYLE, WORD_HEADER_ROW_STYLE, WORD_NOTE_STYLE, WORD_TABLE_STYLE } from './utils/clipboard';
+import { buildTwoByTwo, calculateEpiMeasures, calculateStratifiedEpiMeasures, guessPositiveLevel } from './utils/epi';
+import { ResponsiveContainer, XAxis, YAxis, CartesianGrid, Tooltip, BarChart, Bar, ErrorBar, Legend } from 'recharts';
 import * as htmlToImage from 'html-to-image';
 
-type Tab = 'overview' | 'univariate' | 'bivariate' | 'focused';
+type Tab = 'overview' | 'table1' | 'univariate' | 'bivariate' | 'focused' | 'regression' | 'survival' | 'missing';
+type CrosstabView = 'contingency' | 'epi';
+
+const CROSSTAB_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#06b6d4', '#ec4899', '#64748b'];
+/** A numerical X with more distinct values than this is not cross-tabulated, as each value would be a row */
+const MAX_CROSSTAB_LEVELS = 10;
+
+const TYPE_BADGE_STYLES: Record<VariableType, string> = {
+  numerical: 'bg-blue-50 text-blue-600',
+  categorical: 'bg-emerald-50 text-emerald-600',
+  binary: 'bg-teal-50 text-teal-600',
+  ordinal: 'bg-lime-50 text-lime-700',
+  date: 'bg-amber-50 text-amber-600',
+  datetime: 'bg-amber-50 text-amber-600',
+  id: 'bg-slate-100 text-slate-500',
+  text: 'bg-purple-50 text-purple-600',
+  unknown: 'bg-slate-100 text-slate-400'
+};
 
 const App: React.FC = () => {
   const [dataset, setDataset] = useState<Dataset | null>(null);
   const [activeTab, setActiveTab] = useState<Tab>('overview');
-  const [loading, setLoading] = useState(false);
   
   const [selectedVarNames, setSelectedVarNames] = useState<Set<string>>(new Set());
   const [isVarSelectorOpen, setIsVarSelectorOpen] = useState(false);
+  const [isDerivedDialogOpen, setIsDerivedDialogOpen] = useState(false);
+  const [rowFilter, setRowFilter] = useState<RowFilter>(createEmptyFilter);
+  const [isFilterBuilderOpen, setIsFilterBuilderOpen] = useState(false);
   const [varSearchQuery, setVarSearchQuery] = useState('');
   const [matrixScale, setMatrixScale] = useState(1);
+  const [correlationMethod, setCorrelationMethod] = useState<CorrelationMethod>('pearson');
+  const [matrixAdjustment, setMatrixAdjustment] = useState<PAdjustMethod>('none');
+  const [correlationResults, setCorrelationResults] = useState<CorrelationResult[]>([]);
+  const [correlationProgress, setCorrelationProgress] = useState<number | null>(null);
+  const [missingCodesProgress, setMissingCodesProgress] = useState<number | null>(null);
 
   const [xVar, setXVar] = useState<string>('');
   const [yVar, setYVar] = useState<string>('');
   const [xAsCategorical, setXAsCategorical] = useState<boolean>(false);
+  const [confLevel, setConfLevel] = useState(0.95);
+  const [postHocMethod, setPostHocMethod] = useState<PostHocMethod>('none');
+  const [varianceAssumption, setVarianceAssumption] = useState<VarianceAssumption>('auto');
+  const [groupTestFamily, setGroupTestFamily] = useState<GroupTestFamily>('parametric');
+  const [crosstabView, setCrosstabView] = useState<CrosstabView>('contingency');
+  const [exposedLevel, setExposedLevel] = useState('');
+  const [outcomeLevel, setOutcomeLevel] = useState('');
+  const [stratifierVar, setStratifierVar] = useState('');
 
   const heatmapRef = useRef<HTMLDivElement>(null);
   const scatterRef = useRef<HTMLDivElement>(null);
+  const missingCodesTaskRef = useRef<ComputeHandle<Dataset> | null>(null);
+
+  // Every analysis runs on the rows passing the filter; edits to variables go to the full dataset
+  const activeDataset = useMemo(() => (dataset ? applyRowFilter(dataset, rowFilter) : null), [dataset, rowFilter]);
 
   const filteredVariables = useMemo(() => {
-    if (!dataset) return [];
-    return dataset.variables.filter(v => selectedVarNames.has(v.name));
-  }, [dataset, selectedVarNames]);
+    if (!activeDataset) return [];
+    return activeDataset.variables.filter(v => selectedVarNames.has(v.name));
+  }, [activeDataset, selectedVarNames]);
+
+  const filteredVariableNames = useMemo(() => filteredVariables.map(v => v.name), [filteredVariables]);
 
   const filteredNumericNames = useMemo(() => {
     return filteredVariables.filter(v => v.type === 'numerical').map(v => v.name);
   }, [filteredVariables]);
 
-  const correlationResults = useMemo(() => {
-    if (!dataset || filteredNumericNames.length < 2) return [];
-    return getCorrelationMatrix(dataset.data, filteredNumericNames);
-  }, [dataset, filteredNumericNames]);
+  // Numeric columns are extracted once per dataset and copied to the worker for each matrix
+  const numericColumns = useMemo(() => new Map<string, Float64Array>(), [activeDataset]);
+
+  useEffect(() => {
+    if (!activeDataset || filteredNumericNames.length < 2) {
+      setCorrelationResults([]);
+      setCorrelationProgress(null);
+      return;
+    }
+    const columns: Record<string, Float64Array> = {};
+    filteredNumericNames.forEach(name => {
+      if (!numericColumns.has(name)) numericColumns.set(name, Float64Array.from(activeDataset.data, row => toNumeric(row[name])));
+      columns[name] = numericColumns.get(name)!;
+    });
+
+    setCorrelationProgress(0);
+    const task = runComputeTask(
+      'correlationMatrix',
+      { columns, vars: filteredNumericNames, options: { method: correlationMethod, confLevel, adjustment: matrixAdjustment } },
+      progress => setCorrelationProgress(progress.fraction)
+    );
+    task.promise
+      .then(results => {
+        setCorrelationResults(results);
+        setCorrelationProgress(null);
+      })
+      .catch(err => {
+        if (isCancelledError(err)) return;
+        console.error('Failed to compute correlation matrix', err);
+        setCorrelationProgress(null);
+      });
+    // A newer selection or setting supersedes the running matrix
+    return task.cancel;
+  }, [activeDataset, numericColumns, filteredNumericNames, correlationMethod, confLevel, matrixAdjustment]);
 
   const handleDataLoaded = (data: Dataset) => {
-    setLoading(true);
+    // Codes still being applied belong to the previous dataset
+    missingCodesTaskRef.current?.cancel();
+    setMissingCodesProgress(null);
+    setRowFilter(createEmptyFilter());
     setDataset(data);
     
     const initialSelection = new Set<string>();
@@ -84,16 +186,16 @@ const App: React.FC = () => {
     if (numericOnly.length >= 2) {
       setXVar(numericOnly[0]);
       setYVar(numericOnly[1]);
-    } else if (data.variables.length >= 2) {
-      setXVar(data.variables[0].name);
-      setYVar(data.variables[1].name);
+    } else {
+      const analysable = data.variables.filter(v => v.type === 'numerical' || isCategoricalType(v.type));
+      if (analysable.length >= 2) {
+        setXVar(analysable[0].name);
+        setYVar(analysable[1].name);
+      }
     }
 
-    setTimeout(() => {
-      setLoading(false);
-      setActiveTab('overview');
-      window.scrollTo({ top: 0, behavior: 'smooth' });
-    }, 500);
+    setActiveTab('overview');
+    window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
   /**
@@ -103,16 +205,16 @@ const App: React.FC = () => {
   const forceNumericalAll = () => {
     if (!dataset) return;
     
-    setLoading(true);
-    
     const updatedVariables = dataset.variables.map(v => {
+      // Dates and identifiers only look numeric ("2024-03-15" parses as 2024), so they are left alone
+      if (v.type === 'numerical' || isDateType(v.type) || v.type === 'id') return v;
       const nonNullValues = v.values.filter(val => val !== null && val !== undefined && String(val).trim() !== '');
       
-      // Force anything that has at least 10% numeric content or if the user specifically requested it
+      // Force anything that has at least 10% numeric content
       const numericCount = nonNullValues.filter(val => !isNaN(parseFloat(String(val)))).length;
       const shouldBeNumeric = numericCount > 0 && (numericCount / nonNullValues.length) > 0.1;
 
-      if (shouldBeNumeric || v.type === 'numerical') {
+      if (shouldBeNumeric) {
         const numericValues = v.values.map(val => {
           if (val === null || val === undefined || String(val).trim() === '') return null;
           const parsed = parseFloat(String(val));
@@ -123,36 +225,66 @@ const App: React.FC = () => {
           ...v,
           type: 'numerical' as const,
           values: numericValues,
+          levels: undefined,
           stats: calculateSummaryStats(numericValues, 'numerical')
         };
       }
       return v;
     });
 
-    const updatedData = dataset.data.map(row => {
-      const newRow = { ...row };
-      updatedVariables.forEach(v => {
-        if (v.type === 'numerical') {
-          const val = row[v.name];
-          if (val !== null && val !== undefined) {
-            const parsed = parseFloat(String(val));
-            newRow[v.name] = isNaN(parsed) ? null : parsed;
-          }
-        }
+    setDataset(replaceVariables(dataset, updatedVariables));
+    alert('Variable re-classification complete. Variables with numeric content are now available for correlation analysis.');
+  };
+
+  const changeVariableType = (name: string, type: VariableType, levels?: string[]) => {
+    if (!dataset) return;
+    setDataset(setVariableType(dataset, name, type, levels));
+  };
+
+  /**
+   * Re-applies the dataset-wide missing codes in the worker, since every column is rebuilt
+   */
+  const applyDatasetMissingCodes = (codes: MissingCode[]) => {
+    if (!dataset) return;
+    missingCodesTaskRef.current?.cancel();
+    setMissingCodesProgress(0);
+    const task = runComputeTask('applyMissingCodes', { dataset, missingCodes: codes }, progress => setMissingCodesProgress(progress.fraction));
+    missingCodesTaskRef.current = task;
+    task.promise
+      .then(updated => {
+        setDataset(updated);
+        setMissingCodesProgress(null);
+      })
+      .catch(err => {
+        if (isCancelledError(err)) return;
+        console.error('Failed to apply missing codes', err);
+        setMissingCodesProgress(null);
       });
-      return newRow;
-    });
+  };
+
+  const changeVariableMissingCodes = (name: string, codes: MissingCode[]) => {
+    if (!dataset) return;
+    setDataset(setVariableMissingCodes(dataset, name, codes));
+  };
+
+  const addDerivedVariable = (variable: DataVariable) => {
+    if (!dataset) return;
+    setDataset(addVariable(dataset, variable));
+    setSelectedVarNames(prev => new Set(prev).add(variable.name));
+    setIsDerivedDialogOpen(false);
+  };
 
-    setDataset({
-      ...dataset,
-      data: updatedData,
-      variables: updatedVariables,
-      numericalVariables: updatedVariables.filter(v => v.type === 'numerical').map(v => v.name),
-      categoricalVariables: updatedVariables.filter(v => v.type === 'categorical').map(v => v.name)
+  const deleteVariable = (name: string) => {
+    if (!dataset) return;
+    setDataset(removeVariable(dataset, name));
+    setSelectedVarNames(prev => {
+      const next = new Set(prev);
+      next.delete(name);
+      return next;
     });
-    
-    setLoading(false);
-    alert('Variable re-classification complete. Variables with numeric content are now available for correlation analysis.');
+    if (xVar === name) setXVar('');
+    if (yVar === name) setYVar('');
+    if (stratifierVar === name) setStratifierVar('');
   };
 
   const toggleVariable = (name: string) => {
@@ -177,56 +309,40 @@ const App: React.FC = () => {
   const handleCopyTableForWord = async () => {
     if (!filteredNumericNames.length) return;
 
-    let html = `<table border="1" style="border-collapse: collapse; width: 100%; font-family: sans-serif; font-size: 10pt;">`;
+    let html = `<table border="1" style="${WORD_TABLE_STYLE}">`;
     
     // Header Row
-    html += `<tr style="background-color: #f1f5f9;">`;
-    html += `<th style="padding: 8px; border: 1px solid #cbd5e1;">Variable</th>`;
+    html += `<tr style="${WORD_HEADER_ROW_STYLE}">`;
+    html += `<th style="${WORD_CELL_STYLE}">Variable</th>`;
     filteredNumericNames.forEach(name => {
-      html += `<th style="padding: 8px; border: 1px solid #cbd5e1;">${name}</th>`;
+      html += `<th style="${WORD_CELL_STYLE}">${escapeHtml(name)}</th>`;
     });
     html += `</tr>`;
 
     // Data Rows
     filteredNumericNames.forEach(yVar => {
       html += `<tr>`;
-      html += `<td style="padding: 8px; border: 1px solid #cbd5e1; font-weight: bold; background-color: #f8fafc;">${yVar}</td>`;
+      html += `<td style="${WORD_CELL_STYLE} font-weight: bold; background-color: #f8fafc;">${escapeHtml(yVar)}</td>`;
       filteredNumericNames.forEach(xVar => {
         const res = correlationResults.find(r => r.x === xVar && r.y === yVar);
         const val = res ? `${res.r.toFixed(3)}${res.significance}` : '-';
-        html += `<td style="padding: 8px; border: 1px solid #cbd5e1; text-align: center;">${val}</td>`;
+        html += `<td style="${WORD_CELL_STYLE} text-align: center;">${val}</td>`;
       });
       html += `</tr>`;
     });
     html += `</table>`;
+    const methodInfo = CORRELATION_METHODS[correlationMethod];
+    const adjustmentNote = matrixAdjustment === 'none' ? '' : ` Significance is based on ${P_ADJUST_METHODS[matrixAdjustment].description}.`;
+    const subsetNote = activeDataset ? describeSubset(activeDataset) : '';
+    html += `<p style="${WORD_NOTE_STYLE}"><i>Note.</i> Values are ${methodInfo.description}s (${methodInfo.symbol}).${adjustmentNote}${subsetNote ? ` ${escapeHtml(subsetNote)}` : ''} * p &lt; .05, ** p &lt; .01, *** p &lt; .001.</p>`;
 
-    try {
-      const blob = new Blob([html], { type: 'text/html' });
-      const data = [new ClipboardItem({ 'text/html': blob })];
-      await navigator.clipboard.write(data);
-      alert('Table copied! You can now paste directly into Microsoft Word.');
-    } catch (err) {
-      console.error('Failed to copy table', err);
-      // Fallback for browsers that don't support ClipboardItem for HTML
-      const tempElement = document.createElement('div');
-      tempElement.innerHTML = html;
-      tempElement.style.position = 'fixed';
-      tempElement.style.left = '-9999px';
-      document.body.appendChild(tempElement);
-      const range = document.createRange();
-      range.selectNode(tempElement);
-      window.getSelection()?.removeAllRanges();
-      window.getSelection()?.addRange(range);
-      document.execCommand('copy');
-      document.body.removeChild(tempElement);
-      alert('Table copied using fallback. You can now paste into Word.');
-    }
+    const copied = await copyHtmlToClipboard(html);
+    alert(copied ? 'Table copied! You can now paste directly into Microsoft Word.' : 'Table copied using fallback. You can now paste into Word.');
   };
 
   const handleDownload = async (ref: React.RefObject<HTMLDivElement>, filename: string) => {
     if (!ref.current) return;
     try {
-      setLoading(true);
       const element = ref.current;
       
       const target = element.querySelector('table') || element;
@@ -257,49 +373,203 @@ const App: React.FC = () => {
     } catch (err) {
       console.error('Failed to export image', err);
       alert('Export failed. The matrix may be too large for your browser to process as a single image.');
-    } finally {
-      setLoading(false);
     }
   };
 
   const reset = () => {
+    missingCodesTaskRef.current?.cancel();
+    setMissingCodesProgress(null);
+    setRowFilter(createEmptyFilter());
     setDataset(null);
     setActiveTab('overview');
     setXAsCategorical(false);
     setSelectedVarNames(new Set());
     setMatrixScale(1);
+    setCorrelationMethod('pearson');
+    setConfLevel(0.95);
+    setMatrixAdjustment('none');
+    setPostHocMethod('none');
+    setVarianceAssumption('auto');
+    setGroupTestFamily('parametric');
+    setCrosstabView('contingency');
+    setExposedLevel('');
+    setOutcomeLevel('');
+    setStratifierVar('');
   };
 
-  const focusedScatterData = useMemo(() => {
-    if (!dataset || !xVar || !yVar) return [];
-    return dataset.data
-      .map(row => ({ x: row[xVar], y: row[yVar] }))
-      .filter(p => p.x !== null && p.x !== undefined && p.y !== null && p.y !== undefined);
-  }, [dataset, xVar, yVar]);
+  // A categorical outcome switches the focused view to a contingency table of X by Y
+  const yIsCategorical = useMemo(() => {
+    const variable = activeDataset?.variables.find(v => v.name === yVar);
+    return !!variable && isCategoricalType(variable.type);
+  }, [activeDataset, yVar]);
 
-  const groupStats = useMemo(() => {
-    if (!dataset || !xVar || !yVar || !xAsCategorical) return null;
+  // User-defined level orders (ordinal variables) carry through to tables, tests and plots
+  const xLevels = useMemo(() => activeDataset?.variables.find(v => v.name === xVar)?.levels ?? [], [activeDataset, xVar]);
+  const yLevels = useMemo(() => activeDataset?.variables.find(v => v.name === yVar)?.levels ?? [], [activeDataset, yVar]);
+
+  // Numerical codes (1/2/3) cross-tabulate fine; a continuous X needs binning first
+  const xCrosstabLevels = useMemo(() => {
+    const variable = activeDataset?.variables.find(v => v.name === xVar);
+    return variable?.type === 'numerical' ? variable.stats.unique : 0;
+  }, [activeDataset, xVar]);
+  const xTooManyLevels = yIsCategorical && xCrosstabLevels > MAX_CROSSTAB_LEVELS;
+
+  const contingencyTable = useMemo(() => {
+    if (!activeDataset || !xVar || !yVar || !yIsCategorical || xTooManyLevels) return null;
+    return calculateContingencyTable(activeDataset.data, xVar, yVar, xLevels, yLevels);
+  }, [activeDataset, xVar, yVar, yIsCategorical, xTooManyLevels, xLevels, yLevels]);
+
+  // Fall back to a sensible default when the chosen level does not exist for the current variables
+  const activeExposedLevel = contingencyTable
+    ? (contingencyTable.rowLevels.includes(exposedLevel) ? exposedLevel : guessPositiveLevel(contingencyTable.rowLevels))
+    : '';
+  const activeOutcomeLevel = contingencyTable
+    ? (contingencyTable.colLevels.includes(outcomeLevel) ? outcomeLevel : guessPositiveLevel(contingencyTable.colLevels))
+    : '';
+  const activeStratifier = stratifierVar && stratifierVar !== xVar && stratifierVar !== yVar ? stratifierVar : '';
+
+  const epiMeasures = useMemo(() => {
+    if (!activeDataset || !contingencyTable) return null;
+    return calculateEpiMeasures(buildTwoByTwo(activeDataset.data, xVar, yVar, activeExposedLevel, activeOutcomeLevel), confLevel);
+  }, [activeDataset, contingencyTable, xVar, yVar, activeExposedLevel, activeOutcomeLevel, confLevel]);
+
+  const stratifiedEpi = useMemo(() => {
+    if (!activeDataset || !contingencyTable || !activeStratifier) return null;
+    const stratumOrder = activeDataset.variables.find(v => v.name === activeStratifier)?.levels;
+    return calculateStratifiedEpiMeasures(activeDataset.data, xVar, yVar, activeStratifier, activeExposedLevel, activeOutcomeLevel, confLevel, stratumOrder);
+  }, [activeDataset, contingencyTable, xVar, yVar, activeStratifier, activeExposedLevel, activeOutcomeLevel, confLevel]);
+
+  const crosstabChartData = useMemo(() => {
+    if (!contingencyTable) return [];
+    return contingencyTable.rowLevels.map((level, i) => {
+      const entry: Record<string, any> = { name: level };
+      contingencyTable.colLevels.forEach((col, j) => {
+        entry[col] = contingencyTable.rowTotals[i] > 0 ? (contingencyTable.counts[i][j] / contingencyTable.rowTotals[i]) * 100 : 0;
+      });
+      return entry;
+    });
+  }, [contingencyTable]);
+
+  const outcomeGroups = useMemo(() => {
+    if (!activeDataset || !xVar || !yVar || !xAsCategorical || yIsCategorical) return null;
     const groups: Record<string, number[]> = {};
-    dataset.data.forEach(row => {
+    activeDataset.data.forEach(row => {
       const xVal = row[xVar] === null || row[xVar] === undefined ? 'Missing' : String(row[xVar]);
-      const yVal = Number(row[yVar]);
+      const yVal = row[yVar] === null || row[yVar] === undefined || row[yVar] === '' ? NaN : Number(row[yVar]);
       if (xVal !== 'Missing' && !isNaN(yVal)) {
         if (!groups[xVal]) groups[xVal] = [];
         groups[xVal].push(yVal);
       }
     });
-    return calculateGroupStats(groups);
-  }, [dataset, xVar, yVar, xAsCategorical]);
+    return groups;
+  }, [activeDataset, xVar, yVar, xAsCategorical, yIsCategorical]);
+
+  const groupStats = useMemo(() => {
+    if (!outcomeGroups || groupTestFamily !== 'parametric') return null;
+    return calculateGroupStats(outcomeGroups, { confLevel, postHoc: postHocMethod, variance: varianceAssumption, order: xLevels });
+  }, [outcomeGroups, groupTestFamily, confLevel, postHocMethod, varianceAssumption, xLevels]);
+
+  const rankStats = useMemo(() => {
+    if (!outcomeGroups || groupTestFamily !== 'nonparametric') return null;
+    return calculateRankGroupStats(outcomeGroups, toDunnAdjustment(postHocMethod), xLevels);
+  }, [outcomeGroups, groupTestFamily, postHocMethod, xLevels]);
+
+  const activeGroupTest = groupTestFamily === 'parametric' ? groupStats : rankStats;
 
   const academicSummaryText = useMemo(() => {
-    if (!dataset || !xVar || !yVar) return "";
+    if (!activeDataset || !xVar || !yVar) return "";
+    const ciLabel = `${Math.round(confLevel * 100)}% CI`;
+    if (yIsCategorical && crosstabView === 'epi' && epiMeasures) {
+      const m = epiMeasures;
+      const fmt = (e: { estimate: number; lower: number; upper: number }, digits = 2) =>
+        `${e.estimate.toFixed(digits)}, ${ciLabel} [${e.lower.toFixed(digits)}, ${isFinite(e.upper) ? e.upper.toFixed(digits) : '∞'}]`;
+      const exposedText = `${xVar} = ${activeExposedLevel}`;
+      let text = `The risk of ${yVar} = ${activeOutcomeLevel} was ${(m.riskExposed * 100).toFixed(1)}% (${m.table.a}/${m.table.a + m.table.b}) among subjects with ${exposedText} and ${(m.riskUnexposed * 100).toFixed(1)}% (${m.table.c}/${m.table.c + m.table.d}) among all others. `;
+      text += `The risk ratio was ${fmt(m.riskRatio)} and the odds ratio was ${fmt(m.oddsRatio)}, with a risk difference of ${fmt(m.riskDifference, 3)}.`;
+      if (m.zeroCellCorrected) text += ` Because of a zero cell, 0.5 was added to each cell when estimating ratio measures.`;
+      if (stratifiedEpi) {
+        text += ` After stratification by ${activeStratifier}, the Mantel-Haenszel risk ratio was ${fmt(stratifiedEpi.riskRatio)} and the Mantel-Haenszel odds ratio was ${fmt(stratifiedEpi.oddsRatio)}`;
+        text += ` (Cochran-Mantel-Haenszel χ²(1) = ${stratifiedEpi.chiSquare.statistic.toFixed(2)}, ${stratifiedEpi.chiSquare.p < 0.001 ? 'p < .001' : `p = ${stratifiedEpi.chiSquare.p.toFixed(3)}`}).`;
+        text += stratifiedEpi.breslowDay.p < 0.05
+          ? ` The Breslow-Day test indicated heterogeneity of odds ratios across strata, χ²(${stratifiedEpi.breslowDay.df}) = ${stratifiedEpi.breslowDay.statistic.toFixed(2)}, p = ${stratifiedEpi.breslowDay.p < 0.001 ? '< .001' : stratifiedEpi.breslowDay.p.toFixed(3)}.`
+          : ` The Breslow-Day test did not indicate heterogeneity of odds ratios across strata (p = ${stratifiedEpi.breslowDay.p.toFixed(3)}).`;
+      }
+      return text;
+    }
+    if (yIsCategorical) {
+      if (!contingencyTable) return "";
+      const t = contingencyTable;
+      const useFisher = t.recommendedTest === 'fisher' && t.fisher;
+      const p = useFisher ? t.fisher!.p : t.chiSquare.p;
+      const pText = p < 0.001 ? "p < .001" : `p = ${p.toFixed(3)}`;
+      const sigText = p < 0.05 ? "a significant" : "no significant";
+      const chiText = `χ²(${t.chiSquare.df}, N = ${t.total}) = ${t.chiSquare.statistic.toFixed(2)}`;
+      let text: string;
+      if (useFisher) {
+        text = `Because ${t.lowExpectedCells} of ${t.rowLevels.length * t.colLevels.length} cells had expected counts below 5, Fisher's exact test was used to examine the association between ${xVar} and ${yVar}. `;
+        text += `There was ${sigText} association between ${xVar} and ${yVar} (Fisher's exact ${pText}; ${chiText}), Cramér's V = ${t.cramersV.toFixed(2)}. `;
+      } else {
+        text = `A chi-square test of independence was performed to examine the association between ${xVar} and ${yVar}. `;
+        text += `There was ${sigText} association between these variables, ${chiText}, ${pText}, Cramér's V = ${t.cramersV.toFixed(2)}. `;
+      }
+      const breakdown = t.rowLevels.map((level, i) => {
+        const top = t.counts[i].reduce((best, count, j) => (count > t.counts[i][best] ? j : best), 0);
+        const pct = t.rowTotals[i] > 0 ? (t.counts[i][top] / t.rowTotals[i]) * 100 : 0;
+        return `${pct.toFixed(1)}% of ${level} (n = ${t.rowTotals[i]}) were ${t.colLevels[top]}`;
+      }).join("; ");
+      text += `Row percentages showed that ${breakdown}.`;
+      return text;
+    }
+    if (xAsCategorical && rankStats) {
+      const pText = rankStats.p < 0.001 ? "p < .001" : `p = ${rankStats.p.toFixed(3)}`;
+      const sigText = rankStats.p < 0.05 ? "significantly" : "not significantly";
+      const medians = rankStats.groups.map(g => `${g.name} (Mdn = ${g.median.toFixed(2)}, IQR = ${g.q1.toFixed(2)}–${g.q3.toFixed(2)}, n = ${g.n})`).join(", ");
+      if (rankStats.test === 'Mann-Whitney U') {
+        let text = `A Mann-Whitney U test was conducted to compare ${yVar} between levels of ${xVar}. `;
+        text += `${yVar} was ${sigText} different between ${medians}, U = ${rankStats.statistic.toFixed(1)}, ${rankStats.exact ? '' : `z = ${rankStats.z!.toFixed(2)}, `}${pText}, with a rank-biserial correlation of r = ${rankStats.effectSize.value.toFixed(2)}.`;
+        return text;
+      }
+      let text = `A Kruskal-Wallis H test was conducted to compare ${yVar} across the ${rankStats.groups.length} levels of ${xVar}. `;
+      text += `The distributions of ${yVar} differed ${sigText} between groups, H(${rankStats.df}) = ${rankStats.statistic.toFixed(2)}, ${pText}, ε² = ${rankStats.effectSize.value.toFixed(3)}. `;
+      text += `Group medians were: ${medians}.`;
+      const sigPairs = rankStats.pairwise.filter(pair => pair.pAdjusted < 0.05);
+      const adjText = rankStats.adjustment === 'none' ? 'without adjustment' : `with ${P_ADJUST_METHODS[rankStats.adjustment].label} adjustment`;
+      text += sigPairs.length > 0
+        ? ` Dunn's post-hoc tests ${adjText} indicated significant differences between ${sigPairs.map(pair => `${pair.group1} and ${pair.group2} (z = ${pair.z.toFixed(2)}, ${pair.pAdjusted < 0.001 ? 'p < .001' : `p = ${pair.pAdjusted.toFixed(3)}`})`).join(', ')}.`
+        : ` Dunn's post-hoc tests ${adjText} indicated no significant pairwise differences.`;
+      return text;
+    }
     if (xAsCategorical && groupStats) {
       const isSig = groupStats.p < 0.05;
       const pText = groupStats.p < 0.001 ? "p < .001" : `p = ${groupStats.p.toFixed(3)}`;
-      let text = `A ${groupStats.test.toLowerCase()} was performed to examine the effect of ${xVar} on ${yVar}. `;
-      text += `Results indicated a statistically ${isSig ? "significant" : "non-significant"} effect, F(${groupStats.dfB}, ${groupStats.dfW}) = ${groupStats.f.toFixed(2)}, ${pText}, η² = ${groupStats.etaSq.toFixed(3)}. `;
-      const groupMeans = groupStats.groups.map(g => `${g.name} (M = ${g.mean.toFixed(2)}, SD = ${Math.sqrt(g.variance).toFixed(2)})`).join(", ");
+      const dfW = groupStats.equalVariance ? String(groupStats.dfW) : groupStats.dfW.toFixed(2);
+      const statText = groupStats.t !== undefined
+        ? `t(${dfW}) = ${groupStats.t.toFixed(2)}`
+        : `F(${groupStats.dfB}, ${dfW}) = ${groupStats.f.toFixed(2)}`;
+      const testNames: Record<string, string> = {
+        'Independent T-test': 'An independent-samples t-test',
+        "Welch's T-test": "Welch's t-test",
+        'One-way ANOVA': 'A one-way analysis of variance (ANOVA)',
+        "Welch's ANOVA": "Welch's analysis of variance"
+      };
+      let text = `${testNames[groupStats.test] ?? groupStats.test} was performed to examine the effect of ${xVar} on ${yVar}. `;
+      const bf = groupStats.assumptions.brownForsythe;
+      if (!isNaN(bf.p)) {
+        text += `The Brown-Forsythe test ${bf.p < 0.05 ? 'indicated' : 'did not indicate'} heterogeneity of variances, F(${bf.df1}, ${bf.df2}) = ${bf.f.toFixed(2)}, ${bf.p < 0.001 ? 'p < .001' : `p = ${bf.p.toFixed(3)}`}${groupStats.equalVariance ? '' : ", so Welch's correction was applied"}. `;
+      }
+      text += `Results indicated a statistically ${isSig ? "significant" : "non-significant"} effect, ${statText}, ${pText}, η² = ${groupStats.etaSq.toFixed(3)}. `;
+      const groupMeans = groupStats.groups.map(g => `${g.name} (M = ${g.mean.toFixed(2)}, SD = ${Math.sqrt(g.variance).toFixed(2)}, ${ciLabel} ${formatCI(g.ciLower, g.ciUpper)})`).join(", ");
       text += `Descriptive statistics showed the following group means: ${groupMeans}.`;
+      if (groupStats.pairwise.length === 1) {
+        const pair = groupStats.pairwise[0];
+        text += ` The mean difference between ${pair.group1} and ${pair.group2} was ${pair.meanDiff.toFixed(2)}, ${ciLabel} ${formatCI(pair.ciLower, pair.ciUpper)}.`;
+      } else if (groupStats.pairwise.length > 1) {
+        const sigPairs = groupStats.pairwise.filter(pair => pair.pAdjusted < 0.05);
+        const adjText = groupStats.postHoc === 'none' ? 'unadjusted pairwise t-tests' : P_ADJUST_METHODS[groupStats.postHoc].description;
+        text += sigPairs.length > 0
+          ? ` Post-hoc comparisons (${adjText}) indicated significant differences between ${sigPairs.map(pair => `${pair.group1} and ${pair.group2} (${pair.pAdjusted < 0.001 ? 'p < .001' : `p = ${pair.pAdjusted.toFixed(3)}`})`).join(', ')}.`
+          : ` Post-hoc comparisons (${adjText}) indicated no significant pairwise differences.`;
+      }
       return text;
     } else if (!xAsCategorical) {
       const res = correlationResults.find(r => r.x === xVar && r.y === yVar);
@@ -309,22 +579,54 @@ const App: React.FC = () => {
       const direction = res.r > 0 ? "positive" : "negative";
       const magnitude = Math.abs(res.r) > 0.7 ? "strong" : Math.abs(res.r) > 0.3 ? "moderate" : "weak";
       const df = res.n - 2;
-      let text = `The association between ${xVar} and ${yVar} was evaluated using Pearson's product-moment correlation coefficient. `;
-      text += `A ${magnitude} ${direction} correlation was observed between the variables, r(${df}) = ${res.r.toFixed(3)}, ${pText}. `;
+      const methodInfo = CORRELATION_METHODS[res.method];
+      // APA reports r and rs with degrees of freedom; Kendall's tau is conventionally reported with N
+      const statText = res.method === 'pearson'
+        ? `r(${df}) = ${res.r.toFixed(3)}`
+        : res.method === 'spearman' ? `rs(${df}) = ${res.r.toFixed(3)}` : `τb = ${res.r.toFixed(3)}, N = ${res.n}`;
+      let text = `The association between ${xVar} and ${yVar} was evaluated using ${methodInfo.description}. `;
+      text += `A ${magnitude} ${direction} ${res.method === 'pearson' ? 'correlation' : 'monotonic association'} was observed between the variables, ${statText}, ${ciLabel} ${formatCI(res.ciLower, res.ciUpper)}, ${pText}. `;
       if (isSig) {
         text += `This indicates that higher levels of ${xVar} are significantly associated with ${res.r > 0 ? "higher" : "lower"} values of ${yVar}.`;
       }
       return text;
     }
     return "";
-  }, [xVar, yVar, xAsCategorical, groupStats, correlationResults, dataset]);
+  }, [xVar, yVar, xAsCategorical, yIsCategorical, contingencyTable, crosstabView, epiMeasures, stratifiedEpi, activeExposedLevel, activeOutcomeLevel, activeStratifier, groupStats, rankStats, correlationResults, activeDataset, confLevel]);
+
+  /**
+   * Collects the report sections from the active rows and columns, the correlation matrix and the Focused tab
+   */
+  const getReportSections = () => {
+    if (!activeDataset) return [];
+    const pairCorrelation = !xAsCategorical && !yIsCategorical ? correlationResults.find(r => r.x === xVar && r.y === yVar) ?? null : null;
+    return buildReportSections({
+      dataset: activeDataset,
+      variableNames: filteredVariableNames,
+      correlations: correlationResults,
+      focused: xVar && yVar ? {
+        xVar,
+        yVar,
+        confLevel,
+        contingency: contingencyTable,
+        epi: crosstabView === 'epi' ? epiMeasures : null,
+        groupStats,
+        rankStats,
+        correlation: pairCorrelation,
+        summaryText: academicSummaryText
+      } : null
+    });
+  };
+
+  // Dates, identifiers and free text have no place in a two-variable test
+  const focusedOptions = filteredVariables.filter(v => v.type === 'numerical' || isCategoricalType(v.type));
 
   const searchedVariables = useMemo(() => {
     if (!dataset) return [];
     return dataset.variables.filter(v => v.name.toLowerCase().includes(varSearchQuery.toLowerCase()));
   }, [dataset, varSearchQuery]);
 
-  if (!dataset) {
+  if (!dataset || !activeDataset) {
     return (
       <div className="min-h-screen bg-slate-50 font-sans text-slate-900 selection:bg-blue-100">
         <header className="bg-white/90 backdrop-blur-md sticky top-0 z-50 border-b border-slate-200">
@@ -359,7 +661,7 @@ const App: React.FC = () => {
                 </p>
               </div>
               <div className="py-12">
-                <FileUpload onDataLoaded={handleDataLoaded} isLoading={loading} />
+                <FileUpload onDataLoaded={handleDataLoaded} />
               </div>
               <div className="flex flex-wrap justify-center gap-10 text-[10px] font-bold text-slate-400 uppercase tracking-widest pt-12">
                 <div className="flex items-center space-x-2"><ShieldCheck className="w-5 h-5 text-emerald-500" /><span>Secure Browser Analysis</span></div>
@@ -427,7 +729,7 @@ const App: React.FC = () => {
             <div className="grid grid-cols-1 md:grid-cols-3 gap-10">
               {[
                 { icon: <BarChart3 className="text-blue-600" />, title: "Distributions", desc: "Automated histograms and missing data analysis for categorical and numeric variables." },
-                { icon: <RefreshCcw className="text-emerald-600" />, title: "Correlation Matrices", desc: "Interactive heatmaps with standard significance markers (*, **, ***) and Pearson's r." },
+                { icon: <RefreshCcw className="text-emerald-600" />, title: "Correlation Matrices", desc: "Interactive heatmaps with standard significance markers (*, **, ***) using Pearson, Spearman or Kendall coefficients." },
                 { icon: <PieChart className="text-indigo-600" />, title: "Focused Stats", desc: "Subset comparison using ANOVA and Independent T-tests with automated result drafting." }
               ].map((feat, i) => (
                 <div key={i} className="bg-white p-10 rounded-[2.5rem] border border-slate-200 shadow-sm hover:shadow-2xl transition-all hover:-translate-y-2 group">
@@ -452,15 +754,20 @@ const App: React.FC = () => {
         </div>
         <nav className="flex-1 p-4 space-y-1">
           <button onClick={() => setActiveTab('overview')} className={`w-full flex items-center space-x-3 px-4 py-3 rounded-xl transition-all ${activeTab === 'overview' ? 'bg-blue-50 text-blue-700 font-bold shadow-sm' : 'text-slate-500 hover:bg-slate-50'}`}><LayoutDashboard className="w-5 h-5" /><span>Dashboard</span></button>
+          <button onClick={() => setActiveTab('table1')} className={`w-full flex items-center space-x-3 px-4 py-3 rounded-xl transition-all ${activeTab === 'table1' ? 'bg-blue-50 text-blue-700 font-bold shadow-sm' : 'text-slate-500 hover:bg-slate-50'}`}><Table className="w-5 h-5" /><span>Table 1</span></button>
           <button onClick={() => setActiveTab('univariate')} className={`w-full flex items-center space-x-3 px-4 py-3 rounded-xl transition-all ${activeTab === 'univariate' ? 'bg-blue-50 text-blue-700 font-bold shadow-sm' : 'text-slate-500 hover:bg-slate-50'}`}><BarChart3 className="w-5 h-5" /><span>Distributions</span></button>
           <button onClick={() => setActiveTab('bivariate')} className={`w-full flex items-center space-x-3 px-4 py-3 rounded-xl transition-all ${activeTab === 'bivariate' ? 'bg-blue-50 text-blue-700 font-bold shadow-sm' : 'text-slate-500 hover:bg-slate-50'}`}><RefreshCcw className="w-5 h-5" /><span>Correlation</span></button>
           <button onClick={() => setActiveTab('focused')} className={`w-full flex items-center space-x-3 px-4 py-3 rounded-xl transition-all ${activeTab === 'focused' ? 'bg-blue-50 text-blue-700 font-bold shadow-sm' : 'text-slate-500 hover:bg-slate-50'}`}><PieChart className="w-5 h-5" /><span>Focused Analysis</span></button>
+          <button onClick={() => setActiveTab('regression')} className={`w-full flex items-center space-x-3 px-4 py-3 rounded-xl transition-all ${activeTab === 'regression' ? 'bg-blue-50 text-blue-700 font-bold shadow-sm' : 'text-slate-500 hover:bg-slate-50'}`}><TrendingUp className="w-5 h-5" /><span>Regression</span></button>
+          <button onClick={() => setActiveTab('survival')} className={`w-full flex items-center space-x-3 px-4 py-3 rounded-xl transition-all ${activeTab === 'survival' ? 'bg-blue-50 text-blue-700 font-bold shadow-sm' : 'text-slate-500 hover:bg-slate-50'}`}><HeartPulse className="w-5 h-5" /><span>Survival</span></button>
+          <button onClick={() => setActiveTab('missing')} className={`w-full flex items-center space-x-3 px-4 py-3 rounded-xl transition-all ${activeTab === 'missing' ? 'bg-blue-50 text-blue-700 font-bold shadow-sm' : 'text-slate-500 hover:bg-slate-50'}`}><Grid3x3 className="w-5 h-5" /><span>Missing Data</span></button>
           <div className="pt-8 pb-2">
              <div className="px-4 text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-4">Configuration</div>
              <button onClick={() => setIsVarSelectorOpen(true)} className={`w-full flex items-center justify-between px-4 py-3 rounded-xl border transition-all ${isVarSelectorOpen ? 'bg-indigo-50 border-indigo-200 text-indigo-700 font-bold' : 'bg-white border-slate-100 text-slate-600 hover:bg-slate-50'}`}>
                <div className="flex items-center space-x-3"><Settings2 className="w-5 h-5" /><span>Variable Set</span></div>
                <span className="text-[10px] bg-indigo-100 text-indigo-700 px-2 py-0.5 rounded-full font-black">{selectedVarNames.size}</span>
              </button>
+             <button onClick={() => setIsDerivedDialogOpen(true)} className="mt-2 w-full flex items-center space-x-3 px-4 py-3 rounded-xl border bg-white border-slate-100 text-slate-600 hover:bg-slate-50 transition-all"><Calculator className="w-5 h-5" /><span>New Variable</span></button>
           </div>
         </nav>
         <div className="p-4 border-t border-slate-100">
@@ -508,15 +815,33 @@ const App: React.FC = () => {
               
               <div className="flex-1 overflow-y-auto grid grid-cols-1 md:grid-cols-2 gap-2 content-start custom-scrollbar p-1">
                 {searchedVariables.map(v => (
-                  <button key={v.name} onClick={() => toggleVariable(v.name)} className={`flex items-center space-x-4 p-4 rounded-2xl border text-left transition-all group ${selectedVarNames.has(v.name) ? 'bg-blue-50 border-blue-300 ring-4 ring-blue-50' : 'bg-white border-slate-100 hover:border-slate-300'}`}>
-                    <div className="flex-shrink-0">
-                      {selectedVarNames.has(v.name) ? <CheckSquare className="w-6 h-6 text-blue-600" /> : <Square className="w-6 h-6 text-slate-300 group-hover:text-slate-400" />}
-                    </div>
-                    <div className="flex-1 overflow-hidden">
-                      <p className="text-sm font-bold text-slate-800 truncate">{v.name}</p>
-                      <p className={`text-[9px] uppercase font-black tracking-widest ${v.type === 'numerical' ? 'text-blue-500' : 'text-emerald-500'}`}>{v.type}</p>
+                  <div key={v.name} className={`p-4 rounded-2xl border transition-all ${selectedVarNames.has(v.name) ? 'bg-blue-50 border-blue-300 ring-4 ring-blue-50' : 'bg-white border-slate-100 hover:border-slate-300'}`}>
+                    <div className="flex items-center space-x-3">
+                      <button onClick={() => toggleVariable(v.name)} className="flex-1 flex items-center space-x-4 text-left overflow-hidden group">
+                        <div className="flex-shrink-0">
+                          {selectedVarNames.has(v.name) ? <CheckSquare className="w-6 h-6 text-blue-600" /> : <Square className="w-6 h-6 text-slate-300 group-hover:text-slate-400" />}
+                        </div>
+                        <div className="flex-1 overflow-hidden">
+                          <p className="text-sm font-bold text-slate-800 truncate">{v.name}</p>
+                          {v.label && <p className="text-xs text-slate-500 truncate" title={v.label}>{v.label}</p>}
+                        </div>
+                      </button>
+                      <select
+                        value={v.type}
+                        onChange={(e) => changeVariableType(v.name, e.target.value as VariableType)}
+                        title={VARIABLE_TYPES[v.type].description}
+                        className={`text-[9px] uppercase font-black tracking-widest px-2 py-1.5 rounded-lg outline-none cursor-pointer ${TYPE_BADGE_STYLES[v.type]}`}
+                      >
+                        {(Object.keys(VARIABLE_TYPES) as VariableType[]).filter(t => t !== 'unknown' || v.type === 'unknown').map(t => (
+                          <option key={t} value={t}>{VARIABLE_TYPES[t].label}{t === v.detectedType ? ' (auto)' : ''}</option>
+                        ))}
+                      </select>
+                      {v.derivation && (
+                        <button onClick={() => deleteVariable(v.name)} title="Delete derived variable" className="p-1.5 rounded-lg text-slate-300 hover:text-red-500 hover:bg-red-50 transition-colors"><Trash2 className="w-4 h-4" /></button>
+                      )}
                     </div>
-                  </button>
+                    {v.type === 'ordinal' && v.levels && <LevelOrderEditor levels={v.levels} onChange={(levels) => changeVariableType(v.name, 'ordinal', levels)} />}
+                  </div>
                 ))}
               </div>
             </div>
@@ -532,12 +857,30 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {isFilterBuilderOpen && (
+        <FilterBuilder dataset={dataset} filter={rowFilter} onCancel={() => setIsFilterBuilderOpen(false)} onApply={(filter) => { setRowFilter(filter); setIsFilterBuilderOpen(false); }} />
+      )}
+
+      {isDerivedDialogOpen && (
+        <DerivedVariableDialog dataset={dataset} onCancel={() => setIsDerivedDialogOpen(false)} onCreate={addDerivedVariable} />
+      )}
+
       <main className="flex-1 overflow-y-auto p-8 relative scroll-smooth">
         <div className="max-w-6xl mx-auto space-y-10">
           <div className="flex justify-between items-end border-b border-slate-200 pb-6">
             <div className="space-y-1">
               <h2 className="text-4xl font-black text-slate-900 tracking-tight capitalize">{activeTab}</h2>
               <p className="text-slate-500 font-medium">Analyzing {dataset.filename}</p>
+              {activeDataset.subset && (
+                <div className="flex items-center space-x-2 pt-1">
+                  <button onClick={() => setIsFilterBuilderOpen(true)} className="flex items-center space-x-2 px-3 py-1.5 bg-amber-50 border border-amber-200 rounded-xl text-xs font-bold text-amber-800 hover:bg-amber-100 transition-all max-w-xl" title={activeDataset.subset.description}>
+                    <ListFilter className="w-3.5 h-3.5 shrink-0" />
+                    <span className="truncate">{activeDataset.subset.description}</span>
+                    <span className="shrink-0 font-black">· n = {activeDataset.data.length} of {activeDataset.subset.totalRows}</span>
+                  </button>
+                  <button onClick={() => setRowFilter(createEmptyFilter())} title="Clear filter" className="p-1.5 rounded-lg text-amber-600 hover:bg-amber-100 transition-colors"><X className="w-4 h-4" /></button>
+                </div>
+              )}
             </div>
             <div className="flex items-center space-x-4 mb-1">
               <div className="flex items-center space-x-2 px-3 py-1.5 bg-slate-100 rounded-xl">
@@ -545,44 +888,70 @@ const App: React.FC = () => {
                 <span className="text-[10px] font-black text-slate-600 uppercase tracking-widest">{filteredNumericNames.length} Numerical Active</span>
               </div>
               <button onClick={() => setIsVarSelectorOpen(true)} className="flex items-center space-x-2 px-4 py-2 bg-white border border-slate-200 rounded-xl text-xs font-black text-slate-700 hover:border-blue-400 hover:bg-blue-50 transition-all shadow-sm"><Filter className="w-4 h-4" /><span>Select Columns</span></button>
+              <button onClick={() => setIsFilterBuilderOpen(true)} className={`flex items-center space-x-2 px-4 py-2 border rounded-xl text-xs font-black transition-all shadow-sm ${activeDataset.subset ? 'bg-amber-50 border-amber-200 text-amber-800 hover:bg-amber-100' : 'bg-white border-slate-200 text-slate-700 hover:border-blue-400 hover:bg-blue-50'}`}><ListFilter className="w-4 h-4" /><span>Filter Rows</span></button>
+              <ReportExportMenu filename={dataset.filename} getSections={getReportSections} />
             </div>
           </div>
 
           {activeTab === 'overview' && (
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {filteredVariables.map(v => (
-                <div key={v.name} className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm transition-all hover:shadow-lg hover:-translate-y-1 group">
-                  <div className="flex justify-between items-start mb-4">
-                    <h4 className="font-bold text-slate-800 truncate flex-1 pr-2" title={v.name}>{v.name}</h4>
-                    <span className={`text-[9px] uppercase font-black px-2 py-1 rounded-lg ${v.type === 'numerical' ? 'bg-blue-50 text-blue-600' : 'bg-emerald-50 text-emerald-600'}`}>{v.type}</span>
-                  </div>
-                  <div className="space-y-4">
-                    <div className="flex justify-between items-end">
-                      <div className="space-y-0.5">
-                        <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Missingness</p>
-                        <p className="text-sm font-bold text-slate-700">{v.stats.missing} entries</p>
+            <div className="space-y-10">
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {filteredVariables.map(v => (
+                  <div key={v.name} className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm transition-all hover:shadow-lg hover:-translate-y-1 group">
+                    <div className="flex justify-between items-start mb-4">
+                      <div className="flex-1 overflow-hidden pr-2">
+                        <h4 className="font-bold text-slate-800 truncate" title={v.name}>{v.name}</h4>
+                        {v.label && <p className="text-xs text-slate-500 truncate" title={v.label}>{v.label}</p>}
                       </div>
-                      <span className="text-sm font-black text-slate-400">{((v.stats.missing / dataset.data.length) * 100).toFixed(1)}%</span>
+                      <span className={`text-[9px] uppercase font-black px-2 py-1 rounded-lg ${TYPE_BADGE_STYLES[v.type]}`}>{VARIABLE_TYPES[v.type].label}</span>
                     </div>
-                    <div className="w-full bg-slate-100 h-2 rounded-full overflow-hidden shadow-inner">
-                      <div className="bg-gradient-to-r from-blue-500 to-indigo-500 h-full transition-all duration-500" style={{ width: `${((v.stats.count / dataset.data.length) * 100)}%` }}></div>
+                    <div className="space-y-4">
+                      <div className="space-y-0.5">
+                        <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Summary</p>
+                        <p className="text-sm font-bold text-slate-700">{describeVariable(v)}</p>
+                      </div>
+                      {v.type === 'numerical' && v.stats.count > 0 && (
+                        <div className="grid grid-cols-2 gap-2">
+                          {describeNumericDetails(v).map(d => (
+                            <div key={d.label} className="bg-slate-50 rounded-lg px-2.5 py-1.5 overflow-hidden">
+                              <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest truncate">{d.label}</p>
+                              <p className="text-xs font-bold text-slate-700 truncate" title={d.value}>{d.value}</p>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                      <div className="flex justify-between items-end">
+                        <div className="space-y-0.5">
+                          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Missingness</p>
+                          <p className="text-sm font-bold text-slate-700">{v.stats.missing} entries</p>
+                        </div>
+                        <span className="text-sm font-black text-slate-400">{((v.stats.missing / activeDataset.data.length) * 100).toFixed(1)}%</span>
+                      </div>
+                      <div className="w-full bg-slate-100 h-2 rounded-full overflow-hidden shadow-inner">
+                        <div className="bg-gradient-to-r from-blue-500 to-indigo-500 h-full transition-all duration-500" style={{ width: `${((v.stats.count / activeDataset.data.length) * 100)}%` }}></div>
+                      </div>
                     </div>
                   </div>
-                </div>
-              ))}
-              {filteredVariables.length === 0 && (
-                <div className="col-span-full py-24 text-center bg-white rounded-[2rem] border-4 border-dashed border-slate-100 flex flex-col items-center">
-                  <AlertTriangle className="w-12 h-12 text-slate-300 mb-4" />
-                  <p className="text-slate-400 font-bold text-lg">No variables selected in the Manager.</p>
-                </div>
-              )}
+                ))}
+                {filteredVariables.length === 0 && (
+                  <div className="col-span-full py-24 text-center bg-white rounded-[2rem] border-4 border-dashed border-slate-100 flex flex-col items-center">
+                    <AlertTriangle className="w-12 h-12 text-slate-300 mb-4" />
+                    <p className="text-slate-400 font-bold text-lg">No variables selected in the Manager.</p>
+                  </div>
+                )}
+              </div>
+              <DescriptiveStatsTable dataset={activeDataset} variableNames={filteredVariableNames} />
             </div>
           )}
 
+          {activeTab === 'table1' && (
+            <TableOnePanel dataset={activeDataset} variableNames={filteredVariableNames} />
+          )}
+
           {activeTab === 'univariate' && (
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-10">
               {filteredVariables.map(v => (
-                <div key={v.name} className="bg-white p-8 rounded-[2rem] border border-slate-200 shadow-sm"><h3 className="text-xl font-black text-slate-800 mb-6">{v.name}</h3><DistributionPlot variable={v} /></div>
+                <div key={v.name} className="bg-white p-8 rounded-[2rem] border border-slate-200 shadow-sm"><h3 className="text-xl font-black text-slate-800 mb-6">{v.name}{v.label && <span className="ml-3 text-sm font-medium text-slate-400">{v.label}</span>}</h3><DistributionPlot variable={v} /></div>
               ))}
             </div>
           )}
@@ -599,10 +968,20 @@ const App: React.FC = () => {
               ) : (
                 <>
                   <div className="flex items-center justify-between bg-white p-5 rounded-[2rem] border border-slate-200 shadow-sm">
-                    <div className="flex items-center space-x-3 bg-slate-50 rounded-2xl p-1.5 border border-slate-100">
-                      <button onClick={() => setMatrixScale(Math.max(0.4, matrixScale - 0.1))} className="p-2.5 hover:bg-white rounded-xl transition-all text-slate-600 shadow-sm"><Minus className="w-4 h-4" /></button>
-                      <div className="px-5 text-xs font-black text-slate-500 min-w-[60px] text-center">{Math.round(matrixScale * 100)}%</div>
-                      <button onClick={() => setMatrixScale(Math.min(2.0, matrixScale + 0.1))} className="p-2.5 hover:bg-white rounded-xl transition-all text-slate-600 shadow-sm"><Plus className="w-4 h-4" /></button>
+                    <div className="flex items-center space-x-4">
+                      <div className="flex items-center space-x-1 bg-slate-50 rounded-2xl p-1.5 border border-slate-100">
+                        {(Object.keys(CORRELATION_METHODS) as CorrelationMethod[]).map(m => (
+                          <button key={m} onClick={() => setCorrelationMethod(m)} className={`px-4 py-2 rounded-xl text-xs font-black transition-all ${correlationMethod === m ? 'bg-white text-blue-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}>{CORRELATION_METHODS[m].label}</button>
+                        ))}
+                      </div>
+                      <select value={matrixAdjustment} onChange={(e) => setMatrixAdjustment(e.target.value as PAdjustMethod)} title="Multiple-comparison correction" className="px-4 py-3 bg-slate-50 border border-slate-100 rounded-2xl text-xs font-black text-slate-600 outline-none cursor-pointer">
+                        {(Object.keys(P_ADJUST_METHODS) as PostHocMethod[]).filter(m => m !== 'tukey' && m !== 'gamesHowell').map(m => <option key={m} value={m}>{m === 'none' ? 'No Correction' : P_ADJUST_METHODS[m].label}</option>)}
+                      </select>
+                      <div className="flex items-center space-x-3 bg-slate-50 rounded-2xl p-1.5 border border-slate-100">
+                        <button onClick={() => setMatrixScale(Math.max(0.4, matrixScale - 0.1))} className="p-2.5 hover:bg-white rounded-xl transition-all text-slate-600 shadow-sm"><Minus className="w-4 h-4" /></button>
+                        <div className="px-5 text-xs font-black text-slate-500 min-w-[60px] text-center">{Math.round(matrixScale * 100)}%</div>
+                        <button onClick={() => setMatrixScale(Math.min(2.0, matrixScale + 0.1))} className="p-2.5 hover:bg-white rounded-xl transition-all text-slate-600 shadow-sm"><Plus className="w-4 h-4" /></button>
+                      </div>
                     </div>
                     <div className="flex items-center space-x-3">
                       <button onClick={handleCopyTableForWord} className="flex items-center space-x-3 px-6 py-3 bg-indigo-50 text-indigo-700 rounded-2xl hover:bg-indigo-100 shadow-sm text-sm font-black transition-all active:scale-95 border border-indigo-100"><ClipboardCheck className="w-4 h-4" /><span>Copy Table for Word</span></button>
@@ -610,7 +989,13 @@ const App: React.FC = () => {
                     </div>
                   </div>
                   <div className="bg-white rounded-[2rem] border border-slate-200 shadow-sm overflow-hidden">
-                    <div ref={heatmapRef} className="p-10 overflow-auto custom-scrollbar" style={{ maxHeight: '75vh' }}>
+                    {correlationProgress !== null && (
+                      <div className="px-10 pt-6 space-y-2">
+                        <div className="flex justify-between text-xs font-bold text-blue-600"><span>Computing {filteredNumericNames.length * (filteredNumericNames.length - 1) / 2} correlations...</span><span>{Math.round(correlationProgress * 100)}%</span></div>
+                        <div className="h-2 bg-blue-50 rounded-full overflow-hidden"><div className="h-full bg-blue-600 rounded-full transition-all" style={{ width: `${correlationProgress * 100}%` }}></div></div>
+                      </div>
+                    )}
+                    <div ref={heatmapRef} className={`p-10 overflow-auto custom-scrollbar transition-opacity ${correlationProgress !== null ? 'opacity-50' : ''}`} style={{ maxHeight: '75vh' }}>
                       <CorrelationHeatmap results={correlationResults} variables={filteredNumericNames} scale={matrixScale} />
                     </div>
                   </div>
@@ -626,14 +1011,14 @@ const App: React.FC = () => {
                   <div className="flex-1 space-y-2">
                     <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Predictor (X Variable)</label>
                     <select value={xVar} onChange={(e) => setXVar(e.target.value)} className="w-full p-4 bg-slate-50 border border-slate-200 rounded-2xl outline-none font-bold appearance-none transition-all focus:ring-4 focus:ring-blue-50 cursor-pointer">
-                      {dataset.variables.filter(v => selectedVarNames.has(v.name)).map(v => <option key={v.name} value={v.name}>{v.name} ({v.type})</option>)}
+                      {focusedOptions.map(v => <option key={v.name} value={v.name}>{v.name} ({VARIABLE_TYPES[v.type].label})</option>)}
                     </select>
                   </div>
-                  <button onClick={() => setXAsCategorical(!xAsCategorical)} className={`px-6 py-4 rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all flex items-center space-x-3 border h-[56px] shadow-sm ${xAsCategorical ? 'bg-emerald-600 text-white border-emerald-600 shadow-emerald-100' : 'bg-white text-slate-500 border-slate-200 hover:border-blue-400 hover:text-blue-600'}`}><Layers className="w-5 h-5" /><span>{xAsCategorical ? 'Group Analysis' : 'Scatter Analysis'}</span></button>
+                  {!yIsCategorical && <button onClick={() => setXAsCategorical(!xAsCategorical)} className={`px-6 py-4 rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all flex items-center space-x-3 border h-[56px] shadow-sm ${xAsCategorical ? 'bg-emerald-600 text-white border-emerald-600 shadow-emerald-100' : 'bg-white text-slate-500 border-slate-200 hover:border-blue-400 hover:text-blue-600'}`}><Layers className="w-5 h-5" /><span>{xAsCategorical ? 'Group Analysis' : 'Scatter Analysis'}</span></button>}
                   <div className="flex-1 space-y-2">
                     <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Outcome (Y Variable)</label>
                     <select value={yVar} onChange={(e) => setYVar(e.target.value)} className="w-full p-4 bg-slate-50 border border-slate-200 rounded-2xl outline-none font-bold appearance-none transition-all focus:ring-4 focus:ring-blue-50 cursor-pointer">
-                      {dataset.numericalVariables.filter(v => selectedVarNames.has(v)).map(v => <option key={v} value={v}>{v}</option>)}
+                      {focusedOptions.map(v => <option key={v.name} value={v.name}>{v.name} ({VARIABLE_TYPES[v.type].label})</option>)}
                     </select>
                   </div>
                   <button onClick={() => handleDownload(scatterRef, `epidemiology-plot-${xVar}-${yVar}`)} className="flex items-center space-x-3 px-8 py-4 bg-slate-900 text-white rounded-2xl hover:bg-slate-800 shadow-xl shadow-slate-200 text-sm font-black h-[56px] transition-all active:scale-95"><Download className="w-5 h-5" /><span>Save Plot</span></button>
@@ -642,54 +1027,144 @@ const App: React.FC = () => {
                 <div className="grid grid-cols-1 lg:grid-cols-3 gap-10">
                   <div ref={scatterRef} className="lg:col-span-2 bg-slate-50 rounded-[2rem] p-10 relative border border-slate-100 min-h-[550px]">
                     <div className="absolute top-6 left-6 z-20 bg-white/95 backdrop-blur-md p-5 rounded-[1.5rem] border border-slate-200 shadow-xl min-w-[220px]">
-                       {xAsCategorical ? (
-                         groupStats && <div className="space-y-1.5"><p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{groupStats.test}</p><p className="text-2xl font-black text-slate-900">p = {groupStats.p < 0.001 ? '< 0.001' : groupStats.p.toFixed(3)}</p></div>
+                       {yIsCategorical ? (
+                         contingencyTable && <div className="space-y-1.5"><p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{contingencyTable.recommendedTest === 'fisher' ? "Fisher's Exact Test" : 'Chi-square Test'}</p><p className="text-2xl font-black text-slate-900">V = {contingencyTable.cramersV.toFixed(3)} {getSignificanceStars(contingencyTable.recommendedTest === 'fisher' ? contingencyTable.fisher!.p : contingencyTable.chiSquare.p)}</p></div>
+                       ) : xAsCategorical ? (
+                         activeGroupTest && <div className="space-y-1.5"><p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{activeGroupTest.test}</p><p className="text-2xl font-black text-slate-900">p = {activeGroupTest.p < 0.001 ? '< 0.001' : activeGroupTest.p.toFixed(3)}</p></div>
                        ) : (
                          (() => {
                             const res = correlationResults.find(r => r.x === xVar && r.y === yVar);
-                            return res ? <div className="space-y-1.5"><p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Pearson Association</p><p className="text-2xl font-black text-slate-900">{res.r.toFixed(3)} {res.significance}</p></div> : null;
+                            return res ? <div className="space-y-1.5"><p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{CORRELATION_METHODS[res.method].label} Association</p><p className="text-2xl font-black text-slate-900">{res.r.toFixed(3)} {getSignificanceStars(res.p)}</p></div> : null;
                          })()
                        )}
                     </div>
-                    <div className="h-[480px] w-full">
-                      <ResponsiveContainer width="100%" height="100%">
-                        {xAsCategorical ? (
-                          <BarChart data={dataset.data} margin={{ top: 120, right: 30, left: 20, bottom: 40 }}>
+                    {xTooManyLevels ? (
+                      <div className="h-[480px] w-full flex flex-col items-center justify-center text-center">
+                        <AlertTriangle className="w-12 h-12 text-amber-400 mb-4" />
+                        <p className="text-slate-700 font-bold text-lg">{xVar} has {xCrosstabLevels} distinct values, too many for a contingency table.</p>
+                        <p className="text-slate-400 font-medium text-sm mt-2 max-w-md">Choose a categorical, binary or ordinal predictor, or bin {xVar} into groups with New Variable.</p>
+                      </div>
+                    ) : yIsCategorical ? (
+                      <div className="h-[480px] w-full">
+                        <ResponsiveContainer width="100%" height="100%">
+                          <BarChart data={crosstabChartData} margin={{ top: 120, right: 30, left: 20, bottom: 40 }}>
                             <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" vertical={false} />
-                            <XAxis dataKey={xVar} />
-                            <YAxis />
-                            <Tooltip />
-                            <Bar dataKey={yVar} fill="#10b981" radius={[8, 8, 0, 0]} barSize={50} />
+                            <XAxis dataKey="name" />
+                            <YAxis domain={[0, 100]} unit="%" />
+                            <Tooltip formatter={(value: number) => `${value.toFixed(1)}%`} />
+                            <Legend />
+                            {(contingencyTable?.colLevels ?? []).map((level, j) => (
+                              <Bar key={level} dataKey={level} stackId="crosstab" fill={CROSSTAB_COLORS[j % CROSSTAB_COLORS.length]} />
+                            ))}
                           </BarChart>
-                        ) : (
-                          <ScatterChart margin={{ top: 120, right: 20, bottom: 40, left: 20 }}>
-                            <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
-                            <XAxis type="number" dataKey="x" name={xVar} /><YAxis type="number" dataKey="y" name={yVar} /><ZAxis type="number" range={[60, 60]} /><Tooltip /><Scatter name="Observations" data={focusedScatterData} fill="#3b82f6" fillOpacity={0.4} stroke="#2563eb" strokeWidth={1} />
-                          </ScatterChart>
-                        )}
-                      </ResponsiveContainer>
-                    </div>
+                        </ResponsiveContainer>
+                      </div>
+                    ) : xAsCategorical ? (
+                      outcomeGroups && <GroupPlot groups={outcomeGroups} levels={xLevels} xVar={xVar} yVar={yVar} confLevel={confLevel} test={activeGroupTest} />
+                    ) : (
+                      <ScatterPlot dataset={activeDataset} xVar={xVar} yVar={yVar} confLevel={confLevel} />
+                    )}
                   </div>
                   <div className="space-y-8">
                     <div className="bg-white p-8 rounded-[2rem] border border-slate-100 shadow-sm">
                       <h4 className="text-xs font-black text-slate-400 uppercase tracking-[0.2em] mb-6 border-b border-slate-50 pb-4 flex items-center"><FlaskConical className="w-5 h-5 mr-3 text-blue-500" />Statistical Inference</h4>
+                      <div className="flex items-center justify-between mb-4">
+                        <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Confidence Level</p>
+                        <select value={confLevel} onChange={(e) => setConfLevel(Number(e.target.value))} className="px-3 py-1.5 bg-slate-50 border border-slate-200 rounded-xl text-xs font-black text-slate-700 outline-none cursor-pointer">
+                          {[0.9, 0.95, 0.99].map(level => <option key={level} value={level}>{Math.round(level * 100)}%</option>)}
+                        </select>
+                      </div>
                       <div className="bg-slate-50 p-6 rounded-2xl border border-slate-100 text-center shadow-inner">
-                        <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">Confidence Level (p)</p>
-                        <p className="text-3xl font-black text-slate-900 tracking-tighter">{xAsCategorical ? (groupStats?.p.toFixed(4) || "N/A") : (correlationResults.find(r => r.x === xVar && r.y === yVar)?.p.toFixed(4) || "N/A")}</p>
+                        <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">P-value</p>
+                        <p className="text-3xl font-black text-slate-900 tracking-tighter">{yIsCategorical ? (contingencyTable ? (contingencyTable.recommendedTest === 'fisher' ? contingencyTable.fisher!.p : contingencyTable.chiSquare.p).toFixed(4) : "N/A") : xAsCategorical ? (activeGroupTest?.p.toFixed(4) || "N/A") : (correlationResults.find(r => r.x === xVar && r.y === yVar)?.p.toFixed(4) || "N/A")}</p>
                       </div>
+                      {yIsCategorical && contingencyTable && (
+                        <div className="mt-6 space-y-2">
+                          {[
+                            { label: 'Pearson Chi-square', value: `χ²(${contingencyTable.chiSquare.df}) = ${contingencyTable.chiSquare.statistic.toFixed(2)}, p = ${contingencyTable.chiSquare.p < 0.001 ? '< .001' : contingencyTable.chiSquare.p.toFixed(3)}` },
+                            { label: "Fisher's Exact", value: contingencyTable.fisher ? `p = ${contingencyTable.fisher.p < 0.001 ? '< .001' : contingencyTable.fisher.p.toFixed(3)}` : 'Table too large' },
+                            { label: "Cramér's V", value: contingencyTable.cramersV.toFixed(3) }
+                          ].map(({ label, value }) => (
+                            <div key={label} className="flex justify-between items-center text-xs p-3 bg-slate-50 rounded-xl border border-slate-100">
+                              <span className="font-bold text-slate-700">{label}</span>
+                              <span className="font-mono text-slate-600 whitespace-nowrap">{value}</span>
+                            </div>
+                          ))}
+                          {contingencyTable.recommendedTest === 'fisher' && <p className="text-[10px] font-bold text-amber-600">Small expected counts: Fisher's exact test is reported.</p>}
+                        </div>
+                      )}
+                      {!xAsCategorical && !yIsCategorical && (() => {
+                        const res = correlationResults.find(r => r.x === xVar && r.y === yVar);
+                        return res ? (
+                          <div className="mt-4 bg-slate-50 p-6 rounded-2xl border border-slate-100 text-center shadow-inner">
+                            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">{Math.round(confLevel * 100)}% CI for {CORRELATION_METHODS[res.method].symbol}</p>
+                            <p className="text-xl font-black text-slate-900 tracking-tight">{formatCI(res.ciLower, res.ciUpper, 3)}</p>
+                          </div>
+                        ) : null;
+                      })()}
+                      {xAsCategorical && !yIsCategorical && (
+                        <GroupInferencePanel
+                          family={groupTestFamily}
+                          onFamilyChange={setGroupTestFamily}
+                          groupStats={groupStats}
+                          rankStats={rankStats}
+                          confLevel={confLevel}
+                          postHocMethod={postHocMethod}
+                          onPostHocChange={setPostHocMethod}
+                          varianceAssumption={varianceAssumption}
+                          onVarianceAssumptionChange={setVarianceAssumption}
+                        />
+                      )}
                     </div>
                   </div>
                 </div>
 
-                {academicSummaryText && (
-                  <div className="mt-10 bg-white rounded-[2rem] border border-slate-200 shadow-md overflow-hidden border-l-[10px] border-l-blue-600 transition-all hover:shadow-xl">
-                    <div className="p-5 bg-slate-50 border-b flex justify-between items-center"><h4 className="text-xs font-black text-slate-900 uppercase tracking-widest">Academic Draft Output (APA Style)</h4><button onClick={() => { navigator.clipboard.writeText(academicSummaryText); alert('Copied to clipboard'); }} className="px-5 py-2 bg-white border border-slate-200 rounded-xl text-xs font-bold text-slate-700 hover:bg-blue-600 hover:text-white hover:border-blue-600 transition-all shadow-sm">Copy Draft</button></div>
-                    <div className="p-10 relative"><Quote className="absolute top-6 left-6 w-16 h-16 text-slate-100 -z-0" /><div className="relative z-10 text-slate-700 leading-relaxed text-lg font-serif italic">{academicSummaryText}</div></div>
+                {contingencyTable && (
+                  <div className="mt-10 bg-white p-8 rounded-[2rem] border border-slate-200 shadow-sm space-y-6">
+                    <div className="flex items-center space-x-1 bg-slate-50 rounded-2xl p-1.5 border border-slate-100 w-fit">
+                      {(['contingency', 'epi'] as CrosstabView[]).map(view => (
+                        <button key={view} onClick={() => setCrosstabView(view)} className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${crosstabView === view ? 'bg-white text-blue-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}>{view === 'contingency' ? 'Contingency Table' : '2×2 Epi Measures'}</button>
+                      ))}
+                    </div>
+                    {crosstabView === 'contingency' ? (
+                      <ContingencyTable table={contingencyTable} />
+                    ) : (
+                      <EpiMeasuresPanel
+                        exposureVar={xVar}
+                        outcomeVar={yVar}
+                        exposureLevels={contingencyTable.rowLevels}
+                        outcomeLevels={contingencyTable.colLevels}
+                        exposedLevel={activeExposedLevel}
+                        outcomeLevel={activeOutcomeLevel}
+                        onExposedLevelChange={setExposedLevel}
+                        onOutcomeLevelChange={setOutcomeLevel}
+                        stratifierOptions={dataset.categoricalVariables.filter(v => v !== xVar && v !== yVar)}
+                        stratifierVar={activeStratifier}
+                        onStratifierChange={setStratifierVar}
+                        measures={epiMeasures}
+                        stratified={stratifiedEpi}
+                        confLevel={confLevel}
+                      />
+                    )}
                   </div>
                 )}
+
+                {academicSummaryText && <AcademicDraft text={withSubsetNote(academicSummaryText, activeDataset)} />}
               </div>
             </div>
           )}
+
+          {activeTab === 'regression' && (
+            <RegressionPanel dataset={activeDataset} variableNames={filteredVariables.map(v => v.name)} confLevel={confLevel} onConfLevelChange={setConfLevel} />
+          )}
+
+          {activeTab === 'survival' && (
+            <SurvivalPanel dataset={activeDataset} variableNames={filteredVariables.map(v => v.name)} confLevel={confLevel} onConfLevelChange={setConfLevel} />
+          )}
+
+          {activeTab === 'missing' && (
+            <MissingDataPanel dataset={activeDataset} variableNames={filteredVariableNames} applyingProgress={missingCodesProgress} onDatasetMissingCodesChange={applyDatasetMissingCodes} onVariableMissingCodesChange={changeVariableMissingCodes} />
+          )}
         </div>
       </main>
     </div>
@@ -0,0 +1,16 @@
+
+import React from 'react';
+import { Quote } from 'lucide-react';
+
+interface AcademicDraftProps {
+  text: string;
+}
+
+const AcademicDraft: React.FC<AcademicDraftProps> = ({ text }) => (
+  <div className="mt-10 bg-white rounded-[2rem] border border-slate-200 shadow-md overflow-hidden border-l-[10px] border-l-blue-600 transition-all hover:shadow-xl">
+    <div className="p-5 bg-slate-50 border-b flex justify-between items-center"><h4 className="text-xs font-black text-slate-900 uppercase tracking-widest">Academic Draft Output (APA Style)</h4><button onClick={() => { navigator.clipboard.writeText(text); alert('Copied to clipboard'); }} className="px-5 py-2 bg-white border border-slate-200 rounded-xl text-xs font-bold text-slate-700 hover:bg-blue-600 hover:text-white hover:border-blue-600 transition-all shadow-sm">Copy Draft</button></div>
+    <div className="p-10 relative"><Quote className="absolute top-6 left-6 w-16 h-16 text-slate-100 -z-0" /><div className="relative z-10 text-slate-700 leading-relaxed text-lg font-serif italic">{text}</div></div>
+  </div>
+);
+
+export default AcademicDraft;
@@ -0,0 +1,88 @@
+
+import React, { useState } from 'react';
+import { ContingencyTableResult } from '../utils/contingency';
+
+type PercentMode = 'none' | 'row' | 'column' | 'total';
+
+const PERCENT_MODES: Record<PercentMode, string> = {
+  none: 'Counts',
+  row: 'Row %',
+  column: 'Column %',
+  total: 'Total %'
+};
+
+interface ContingencyTableProps {
+  table: ContingencyTableResult;
+}
+
+const ContingencyTable: React.FC<ContingencyTableProps> = ({ table }) => {
+  const [percentMode, setPercentMode] = useState<PercentMode>('row');
+
+  // Margins use index -1; their percentages fall back to the grand total
+  const getPercent = (count: number, i: number, j: number) => {
+    const denominator = percentMode === 'row' && i !== -1 ? table.rowTotals[i]
+      : percentMode === 'column' && j !== -1 ? table.colTotals[j]
+      : table.total;
+    return denominator > 0 ? (count / denominator) * 100 : NaN;
+  };
+
+  const renderCell = (count: number, i: number, j: number, expected?: number) => {
+    const pct = getPercent(count, i, j);
+    return (
+      <div className="flex flex-col items-center">
+        <span className="font-bold text-slate-800">{count}</span>
+        {percentMode !== 'none' && !isNaN(pct) && <span className="text-[10px] font-mono text-slate-500">{pct.toFixed(1)}%</span>}
+        {expected !== undefined && expected < 5 && <span className="text-[9px] font-mono text-amber-600" title="Expected count below 5">E = {expected.toFixed(1)}</span>}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{table.rowVar} × {table.colVar} <span className="text-slate-300">N = {table.total}</span></p>
+        <div className="flex items-center space-x-1 bg-slate-50 rounded-xl p-1 border border-slate-100">
+          {(Object.keys(PERCENT_MODES) as PercentMode[]).map(mode => (
+            <button key={mode} onClick={() => setPercentMode(mode)} className={`px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${percentMode === mode ? 'bg-white text-blue-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}>{PERCENT_MODES[mode]}</button>
+          ))}
+        </div>
+      </div>
+      <div className="overflow-x-auto custom-scrollbar">
+        <table className="border-collapse bg-white text-xs" style={{ width: 'max-content', minWidth: '100%' }}>
+          <thead>
+            <tr>
+              <th className="p-3 border border-slate-200 bg-slate-50 text-left text-[10px] font-black text-slate-400 uppercase tracking-widest">{table.rowVar} \ {table.colVar}</th>
+              {table.colLevels.map(level => (
+                <th key={level} className="p-3 border border-slate-200 bg-slate-50 font-semibold text-slate-600 uppercase tracking-wider whitespace-nowrap" title={level}>{level}</th>
+              ))}
+              <th className="p-3 border border-slate-200 bg-slate-100 font-black text-slate-700 uppercase tracking-wider">Total</th>
+            </tr>
+          </thead>
+          <tbody>
+            {table.rowLevels.map((level, i) => (
+              <tr key={level}>
+                <th className="p-3 border border-slate-200 bg-slate-50 text-left font-semibold text-slate-600 uppercase tracking-wider whitespace-nowrap" title={level}>{level}</th>
+                {table.counts[i].map((count, j) => (
+                  <td key={table.colLevels[j]} className="p-3 border border-slate-200 text-center">{renderCell(count, i, j, table.expected[i][j])}</td>
+                ))}
+                <td className="p-3 border border-slate-200 bg-slate-50 text-center">{renderCell(table.rowTotals[i], i, -1)}</td>
+              </tr>
+            ))}
+            <tr>
+              <th className="p-3 border border-slate-200 bg-slate-100 text-left font-black text-slate-700 uppercase tracking-wider">Total</th>
+              {table.colTotals.map((count, j) => (
+                <td key={table.colLevels[j]} className="p-3 border border-slate-200 bg-slate-50 text-center">{renderCell(count, -1, j)}</td>
+              ))}
+              <td className="p-3 border border-slate-200 bg-slate-100 text-center">{renderCell(table.total, -1, -1)}</td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+      {table.lowExpectedCells > 0 && (
+        <p className="text-[10px] font-bold text-amber-600">{table.lowExpectedCells} of {table.counts.length * table.colLevels.length} cells have an expected count below 5.</p>
+      )}
+    </div>
+  );
+};
+
+export default ContingencyTable;
@@ -1,6 +1,8 @@
 
 import React from 'react';
 import { CorrelationResult } from '../types';
+import { CORRELATION_METHODS, formatCI } from '../utils/statistics';
+import { P_ADJUST_METHODS } from '../utils/multipleComparisons';
 
 interface CorrelationHeatmapProps {
   results: CorrelationResult[];
@@ -21,6 +23,7 @@ const CorrelationHeatmap: React.FC<CorrelationHeatmapProps> = ({ results, variab
   const fontSizeMain = `${Math.max(8, 14 * scale)}px`;
   const fontSizeSub = `${Math.max(6, 10 * scale)}px`;
   const minCellWidth = `${Math.max(40, 80 * scale)}px`;
+  const adjustment = results[0]?.adjustment ?? 'none';
 
   return (
     <div className="w-full">
@@ -68,8 +71,11 @@ const CorrelationHeatmap: React.FC<CorrelationHeatmapProps> = ({ results, variab
                       {/* Tooltip on hover */}
                       <div className="absolute z-30 hidden group-hover:block bg-slate-900 text-white text-[10px] p-2 rounded-lg shadow-xl -translate-y-full left-1/2 -translate-x-1/2 mt-[-8px] whitespace-nowrap pointer-events-none">
                         <div className="font-bold border-b border-white/20 mb-1 pb-1">{xVar} &times; {yVar}</div>
-                        <div>r = {res.r.toFixed(4)}</div>
+                        <div className="opacity-60">{CORRELATION_METHODS[res.method].label}</div>
+                        <div>{CORRELATION_METHODS[res.method].symbol} = {res.r.toFixed(4)}</div>
+                        <div>{Math.round(res.confLevel * 100)}% CI {formatCI(res.ciLower, res.ciUpper, 3)}</div>
                         <div>p = {res.p.toFixed(4)}</div>
+                        {res.adjustment !== 'none' && <div>p adj = {res.pAdjusted.toFixed(4)}</div>}
                         <div>n = {res.n}</div>
                       </div>
                     </td>
@@ -81,6 +87,7 @@ const CorrelationHeatmap: React.FC<CorrelationHeatmapProps> = ({ results, variab
         </table>
       </div>
       <div className="mt-6 flex items-center justify-end space-x-6 text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+        {adjustment !== 'none' && <span className="text-indigo-500">{P_ADJUST_METHODS[adjustment].label} adjusted</span>}
         <div className="flex items-center space-x-1.5">
           <span className="w-2 h-2 rounded-full bg-slate-200"></span>
           <span>* p &lt; 0.05</span>
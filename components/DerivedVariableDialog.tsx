@@ -0,0 +1,347 @@
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Calculator, X, AlertCircle } from 'lucide-react';
+import { Dataset, DataVariable, DateUnit, Derivation } from '../types';
+import { createDerivedVariable, subsetRows } from '../utils/dataset';
+import { DATE_UNITS, parseCutpoints, TRANSFORM_FUNCTIONS } from '../utils/transform';
+import { FORMULA_FUNCTIONS } from '../utils/formula';
+import { describeVariable, isCategoricalType, isDateType, VARIABLE_TYPES } from '../utils/variableTypes';
+import { getCategoryLevels } from '../utils/statistics';
+
+interface DerivedVariableDialogProps {
+  dataset: Dataset;
+  onCancel: () => void;
+  onCreate: (variable: DataVariable) => void;
+}
+
+type DerivationKind = Derivation['kind'];
+type TransformFn = keyof typeof TRANSFORM_FUNCTIONS;
+
+const DERIVATION_KINDS: Record<DerivationKind, { label: string; description: string }> = {
+  recode: { label: 'Recode', description: 'Rename or collapse the levels of a categorical variable' },
+  bin: { label: 'Bin', description: 'Group a numerical variable into quantiles or at cut-points' },
+  transform: { label: 'Transform', description: 'Log, square root or z-score of a numerical variable' },
+  formula: { label: 'Formula', description: 'Compute a value from other columns, e.g. BMI' },
+  dateDiff: { label: 'Date Difference', description: 'Time elapsed between two date variables' }
+};
+
+const PREVIEW_ROWS = 8;
+/** The preview is computed on evenly spaced rows so typing stays responsive on large datasets */
+const PREVIEW_SAMPLE_SIZE = 2000;
+const PREVIEW_DELAY_MS = 300;
+
+const formatCell = (value: any) => (value === null || value === undefined ? '' : typeof value === 'number' ? String(Number(value.toFixed(4))) : String(value));
+
+const DerivedVariableDialog: React.FC<DerivedVariableDialogProps> = ({ dataset, onCancel, onCreate }) => {
+  const numericNames = dataset.variables.filter(v => v.type === 'numerical').map(v => v.name);
+  const categoricalNames = dataset.variables.filter(v => isCategoricalType(v.type)).map(v => v.name);
+  const dateNames = dataset.variables.filter(v => isDateType(v.type)).map(v => v.name);
+
+  const [kind, setKind] = useState<DerivationKind>('formula');
+  const [name, setName] = useState('');
+  const [recodeSource, setRecodeSource] = useState(categoricalNames[0] ?? '');
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [numericSource, setNumericSource] = useState(numericNames[0] ?? '');
+  const [binMethod, setBinMethod] = useState<'quantiles' | 'cutpoints'>('quantiles');
+  const [groups, setGroups] = useState(4);
+  const [cutpointsText, setCutpointsText] = useState('');
+  const [transformFn, setTransformFn] = useState<TransformFn>('ln');
+  const [expression, setExpression] = useState('');
+  const [startDate, setStartDate] = useState(dateNames[0] ?? '');
+  const [endDate, setEndDate] = useState(dateNames[1] ?? dateNames[0] ?? '');
+  const [dateUnit, setDateUnit] = useState<DateUnit>('years');
+  const [createError, setCreateError] = useState<string | null>(null);
+
+  const recodeVariable = dataset.variables.find(v => v.name === recodeSource);
+  const recodeLevels = useMemo(() => (recodeVariable ? recodeVariable.levels ?? getCategoryLevels(recodeVariable.values) : []), [recodeVariable]);
+
+  // Each level starts out mapped to itself; clearing a level makes it missing
+  useEffect(() => setMapping(Object.fromEntries(recodeLevels.map(l => [l, l]))), [recodeLevels]);
+
+  const cutpoints = parseCutpoints(cutpointsText);
+
+  const derivation: Derivation = (() => {
+    switch (kind) {
+      case 'recode': return { kind, source: recodeSource, mapping };
+      case 'bin': return binMethod === 'quantiles'
+        ? { kind, source: numericSource, method: 'quantiles', groups }
+        : { kind, source: numericSource, method: 'cutpoints', cutpoints: cutpoints ?? [] };
+      case 'transform': return { kind, source: numericSource, fn: transformFn };
+      case 'formula': return { kind, expression };
+      case 'dateDiff': return { kind, start: startDate, end: endDate, unit: dateUnit };
+    }
+  })();
+
+  const suggestedName = (() => {
+    switch (kind) {
+      case 'recode': return recodeSource ? `${recodeSource}_recoded` : '';
+      case 'bin': return numericSource ? `${numericSource}_${binMethod === 'quantiles' ? `q${groups}` : 'group'}` : '';
+      case 'transform': return numericSource ? (transformFn === 'zscore' ? `z_${numericSource}` : `${transformFn}_${numericSource}`) : '';
+      case 'formula': return 'new_variable';
+      case 'dateDiff': return `${dateUnit}_${startDate}_to_${endDate}`;
+    }
+  })();
+  const effectiveName = name.trim() || suggestedName;
+  const cutpointsInvalid = kind === 'bin' && binMethod === 'cutpoints' && cutpoints === null;
+
+  const sample = useMemo(() => {
+    const n = dataset.data.length;
+    if (n <= PREVIEW_SAMPLE_SIZE) return dataset;
+    const keep = new Array<boolean>(n).fill(false);
+    for (let i = 0; i < PREVIEW_SAMPLE_SIZE; i++) keep[Math.floor((i * n) / PREVIEW_SAMPLE_SIZE)] = true;
+    return subsetRows(dataset, keep, `${PREVIEW_SAMPLE_SIZE} evenly spaced rows`);
+  }, [dataset]);
+
+  // The preview follows the form once typing pauses
+  const [previewInput, setPreviewInput] = useState({ name: effectiveName, derivation, cutpointsInvalid });
+  useEffect(() => {
+    setCreateError(null);
+    const timer = setTimeout(() => setPreviewInput({ name: effectiveName, derivation, cutpointsInvalid }), PREVIEW_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [effectiveName, JSON.stringify(derivation), cutpointsInvalid]);
+
+  const preview = useMemo((): { variable: DataVariable } | { error: string } => {
+    if (previewInput.cutpointsInvalid) return { error: 'Cut-points must be numbers separated by commas.' };
+    try {
+      return { variable: createDerivedVariable(sample, previewInput.name, previewInput.derivation) };
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : String(err) };
+    }
+  }, [sample, previewInput]);
+
+  // The preview may be stale or sampled, so the full column is computed from the current form
+  const handleCreate = () => {
+    try {
+      onCreate(createDerivedVariable(dataset, effectiveName, derivation));
+    } catch (err) {
+      setCreateError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const sourceNames = kind === 'recode' ? categoricalNames : kind === 'dateDiff' ? dateNames : numericNames;
+  const noSources = kind !== 'formula' && sourceNames.length === 0;
+  const previewSources = kind === 'formula' ? [] : Array.from(new Set(kind === 'dateDiff' ? [startDate, endDate] : [kind === 'recode' ? recodeSource : numericSource]));
+
+  const insertColumn = (column: string) => {
+    const reference = /^[A-Za-z_][A-Za-z0-9_.]*$/.test(column) ? column : `[${column}]`;
+    setExpression(prev => (prev.trim() === '' ? reference : `${prev.trimEnd()} ${reference}`));
+  };
+
+  const selectClass = 'w-full p-3 bg-slate-50 border border-slate-200 rounded-2xl outline-none font-bold text-sm cursor-pointer';
+  const labelClass = 'text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 backdrop-blur-sm p-6">
+      <div className="bg-white rounded-[2rem] shadow-2xl w-full max-w-4xl h-[85vh] flex flex-col overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+        <div className="p-8 border-b border-slate-100 flex items-center justify-between bg-white sticky top-0 z-10">
+          <div className="flex items-center space-x-4">
+            <div className="w-12 h-12 bg-blue-50 rounded-2xl flex items-center justify-center"><Calculator className="w-6 h-6 text-blue-600" /></div>
+            <div><h3 className="text-2xl font-black text-slate-900">New Variable</h3><p className="text-sm text-slate-500 font-medium">{DERIVATION_KINDS[kind].description}</p></div>
+          </div>
+          <button onClick={onCancel} className="p-2 hover:bg-slate-100 rounded-full transition-colors"><X className="w-6 h-6 text-slate-400" /></button>
+        </div>
+
+        <div className="p-8 space-y-6 flex-1 overflow-y-auto custom-scrollbar">
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(DERIVATION_KINDS) as DerivationKind[]).map(k => (
+              <button key={k} onClick={() => setKind(k)} className={`px-4 py-2 rounded-xl text-xs font-black transition-all ${kind === k ? 'bg-blue-600 text-white shadow-lg shadow-blue-200' : 'bg-slate-50 text-slate-500 hover:bg-slate-100'}`}>{DERIVATION_KINDS[k].label}</button>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <label className={labelClass}>Name</label>
+            <input type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder={suggestedName} className="w-full p-3 bg-slate-50 border border-slate-200 rounded-2xl outline-none font-bold text-sm focus:ring-2 focus:ring-blue-500 transition-all" />
+          </div>
+
+          {noSources && (
+            <p className="text-sm text-slate-500 font-medium">The dataset has no {kind === 'recode' ? 'categorical' : kind === 'dateDiff' ? 'date' : 'numerical'} variables to use.</p>
+          )}
+
+          {kind === 'recode' && !noSources && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <label className={labelClass}>Source Variable</label>
+                <select value={recodeSource} onChange={(e) => setRecodeSource(e.target.value)} className={selectClass}>
+                  {categoricalNames.map(n => <option key={n} value={n}>{n}</option>)}
+                </select>
+              </div>
+              <table className="w-full border-collapse text-xs">
+                <thead>
+                  <tr>
+                    {['Current Level', 'N', 'New Level'].map(h => (
+                      <th key={h} className="p-3 border border-slate-200 bg-slate-50 text-left font-semibold text-slate-600 uppercase tracking-wider">{h}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {recodeLevels.map(level => (
+                    <tr key={level}>
+                      <td className="p-3 border border-slate-200 font-bold text-slate-700">{level}</td>
+                      <td className="p-3 border border-slate-200 font-mono text-slate-500">{recodeVariable?.stats.frequencies?.[level] ?? 0}</td>
+                      <td className="p-2 border border-slate-200">
+                        <input type="text" value={mapping[level] ?? level} onChange={(e) => setMapping(prev => ({ ...prev, [level]: e.target.value }))} placeholder="missing" className="w-full p-2 bg-white border border-slate-200 rounded-xl outline-none text-xs font-bold focus:ring-2 focus:ring-blue-500" />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="text-[10px] font-bold text-slate-400">Give several levels the same new name to collapse them; leave a level blank to make it missing.</p>
+            </div>
+          )}
+
+          {(kind === 'bin' || kind === 'transform') && !noSources && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <label className={labelClass}>Source Variable</label>
+                <select value={numericSource} onChange={(e) => setNumericSource(e.target.value)} className={selectClass}>
+                  {numericNames.map(n => <option key={n} value={n}>{n}</option>)}
+                </select>
+              </div>
+              {kind === 'transform' && (
+                <div className="space-y-2 md:col-span-2">
+                  <label className={labelClass}>Function</label>
+                  <select value={transformFn} onChange={(e) => setTransformFn(e.target.value as TransformFn)} title={TRANSFORM_FUNCTIONS[transformFn].description} className={selectClass}>
+                    {(Object.keys(TRANSFORM_FUNCTIONS) as TransformFn[]).map(fn => <option key={fn} value={fn}>{TRANSFORM_FUNCTIONS[fn].label}</option>)}
+                  </select>
+                  <p className="text-[10px] font-bold text-slate-400">{TRANSFORM_FUNCTIONS[transformFn].description}</p>
+                </div>
+              )}
+              {kind === 'bin' && (
+                <>
+                  <div className="space-y-2">
+                    <label className={labelClass}>Method</label>
+                    <select value={binMethod} onChange={(e) => setBinMethod(e.target.value as 'quantiles' | 'cutpoints')} className={selectClass}>
+                      <option value="quantiles">Quantile groups</option>
+                      <option value="cutpoints">Custom cut-points</option>
+                    </select>
+                  </div>
+                  {binMethod === 'quantiles' ? (
+                    <div className="space-y-2">
+                      <label className={labelClass}>Groups</label>
+                      <select value={groups} onChange={(e) => setGroups(Number(e.target.value))} className={selectClass}>
+                        {[2, 3, 4, 5, 10].map(g => <option key={g} value={g}>{g}</option>)}
+                      </select>
+                    </div>
+                  ) : (
+                    <div className="space-y-2">
+                      <label className={labelClass}>Cut-Points</label>
+                      <input type="text" value={cutpointsText} onChange={(e) => setCutpointsText(e.target.value)} placeholder="e.g. 18, 40, 65" className={`w-full p-3 bg-slate-50 border rounded-2xl outline-none font-mono font-bold text-sm ${cutpoints === null ? 'border-red-300 ring-2 ring-red-50' : 'border-slate-200'}`} />
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+
+          {kind === 'formula' && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <label className={labelClass}>Formula</label>
+                <textarea value={expression} onChange={(e) => setExpression(e.target.value)} rows={3} placeholder="e.g. weight / (height / 100)^2" className="w-full p-4 bg-slate-50 border border-slate-200 rounded-2xl outline-none font-mono text-sm focus:ring-2 focus:ring-blue-500 transition-all resize-none" />
+                <p className="text-[10px] font-bold text-slate-400">Operators: + − * / ^, comparisons (== != &lt; &lt;= &gt; &gt;=), and, or, not. Text goes in quotes ('Male'); names with spaces in brackets ([Weight (kg)]). Comparisons give 1 or 0.</p>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <p className={labelClass}>Columns · click to insert</p>
+                  <div className="flex flex-wrap gap-1.5 max-h-40 overflow-y-auto custom-scrollbar">
+                    {dataset.variables.map(v => (
+                      <button key={v.name} onClick={() => insertColumn(v.name)} title={VARIABLE_TYPES[v.type].label} className="px-2 py-1 rounded-lg text-[11px] font-mono font-bold bg-white border border-slate-200 text-slate-600 hover:border-blue-400 hover:text-blue-600 transition-all">{v.name}</button>
+                    ))}
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <p className={labelClass}>Functions</p>
+                  <div className="max-h-40 overflow-y-auto custom-scrollbar space-y-1">
+                    {Object.values(FORMULA_FUNCTIONS).map(fn => (
+                      <p key={fn.signature} className="text-[11px] text-slate-500"><span className="font-mono font-bold text-slate-700">{fn.signature}</span> · {fn.description}</p>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {kind === 'dateDiff' && !noSources && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <label className={labelClass}>From</label>
+                <select value={startDate} onChange={(e) => setStartDate(e.target.value)} className={selectClass}>
+                  {dateNames.map(n => <option key={n} value={n}>{n}</option>)}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <label className={labelClass}>To</label>
+                <select value={endDate} onChange={(e) => setEndDate(e.target.value)} className={selectClass}>
+                  {dateNames.map(n => <option key={n} value={n}>{n}</option>)}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <label className={labelClass}>Unit</label>
+                <select value={dateUnit} onChange={(e) => setDateUnit(e.target.value as DateUnit)} className={selectClass}>
+                  {(Object.keys(DATE_UNITS) as DateUnit[]).map(u => <option key={u} value={u}>{DATE_UNITS[u].label}</option>)}
+                </select>
+              </div>
+              <p className="md:col-span-3 text-[10px] font-bold text-slate-400">Months and years use average lengths (365.25 days per year), so results are fractional; negative values mean the second date is earlier.</p>
+            </div>
+          )}
+
+          {createError && (
+            <div className="flex items-center space-x-3 text-red-600 bg-red-50 px-4 py-3 rounded-2xl">
+              <AlertCircle className="w-4 h-4 shrink-0" />
+              <span className="text-sm font-bold">{createError}</span>
+            </div>
+          )}
+
+          {'error' in preview ? (
+            !noSources && (
+              <div className="flex items-center space-x-3 text-red-600 bg-red-50 px-4 py-3 rounded-2xl">
+                <AlertCircle className="w-4 h-4 shrink-0" />
+                <span className="text-sm font-bold">{preview.error}</span>
+              </div>
+            )
+          ) : (
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Preview</p>
+                <p className="text-[10px] font-bold text-slate-400">{VARIABLE_TYPES[preview.variable.type].label} · {preview.variable.stats.missing} missing</p>
+              </div>
+              {sample !== dataset && (
+                <p className="text-[10px] font-bold text-slate-400">Previewing {sample.data.length.toLocaleString()} of {dataset.data.length.toLocaleString()} rows; quantile cut-points and z-scores are estimated from them until the variable is created.</p>
+              )}
+              <p className="text-sm font-bold text-slate-700">{describeVariable(preview.variable)}</p>
+              <table className="w-full border-collapse text-xs">
+                <thead>
+                  <tr>
+                    {[...previewSources, effectiveName].map((h, i) => (
+                      <th key={i} className="p-2 border border-slate-200 bg-slate-50 text-left font-semibold text-slate-600">{h}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.variable.values.slice(0, PREVIEW_ROWS).map((value, row) => (
+                    <tr key={row}>
+                      {previewSources.map(s => (
+                        <td key={s} className="p-2 border border-slate-200 font-mono text-slate-500">{formatCell(sample.data[row][s])}</td>
+                      ))}
+                      <td className="p-2 border border-slate-200 font-mono font-bold text-slate-800">{formatCell(value)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-slate-100 flex items-center justify-between bg-slate-50">
+          <p className="text-xs font-bold text-slate-500">Values are computed once from the current data.</p>
+          <div className="flex gap-3">
+            <button onClick={onCancel} className="px-6 py-3 text-sm font-bold text-slate-600 bg-white border border-slate-200 rounded-2xl hover:bg-slate-100 transition-colors">Cancel</button>
+            <button onClick={handleCreate} disabled={!('variable' in preview)} className="px-6 py-3 text-sm font-black text-white bg-blue-600 rounded-2xl hover:bg-blue-700 shadow-lg shadow-blue-200 transition-all active:scale-95 disabled:opacity-50">Create Variable</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DerivedVariableDialog;
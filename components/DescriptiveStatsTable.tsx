@@ -0,0 +1,97 @@
+
+import React, { useState } from 'react';
+import { ClipboardCheck, Download } from 'lucide-react';
+import { Dataset, VariableStats } from '../types';
+import { DESCRIPTIVE_COLUMNS, DESCRIPTIVES_NOTE } from '../utils/report';
+import { describeSubset } from '../utils/filter';
+import { copyHtmlToClipboard, escapeHtml, WORD_CELL_STYLE, WORD_HEADER_ROW_STYLE, WORD_NOTE_STYLE, WORD_TABLE_STYLE } from '../utils/clipboard';
+import { downloadFile, toCsv } from '../utils/download';
+
+interface DescriptiveStatsTableProps {
+  dataset: Dataset;
+  variableNames: string[];
+}
+
+const buildNote = (subsetNote: string): string => (subsetNote ? `${DESCRIPTIVES_NOTE} ${subsetNote}` : DESCRIPTIVES_NOTE);
+
+/**
+ * Builds the Word-pasteable descriptive statistics table with its note
+ */
+const buildDescriptivesHtml = (rows: { name: string; stats: VariableStats }[], digits: number, subsetNote: string): string => {
+  let html = `<table border="1" style="${WORD_TABLE_STYLE}">`;
+  html += `<tr style="${WORD_HEADER_ROW_STYLE}">`;
+  ['Variable', ...DESCRIPTIVE_COLUMNS.map(c => c.label)].forEach(h => {
+    html += `<th style="${WORD_CELL_STYLE}">${escapeHtml(h)}</th>`;
+  });
+  html += `</tr>`;
+  rows.forEach(row => {
+    html += `<tr><td style="${WORD_CELL_STYLE} font-weight: bold;">${escapeHtml(row.name)}</td>`;
+    DESCRIPTIVE_COLUMNS.forEach(c => {
+      html += `<td style="${WORD_CELL_STYLE} text-align: center;">${escapeHtml(c.value(row.stats, digits))}</td>`;
+    });
+    html += `</tr>`;
+  });
+  html += `</table>`;
+  html += `<p style="${WORD_NOTE_STYLE}"><i>Note.</i> ${escapeHtml(buildNote(subsetNote))}</p>`;
+  return html;
+};
+
+/**
+ * Descriptive statistics for every active numerical variable, one row per variable, exportable
+ * to Word and CSV
+ */
+const DescriptiveStatsTable: React.FC<DescriptiveStatsTableProps> = ({ dataset, variableNames }) => {
+  const [digits, setDigits] = useState(2);
+
+  const rows = dataset.variables
+    .filter(v => v.type === 'numerical' && variableNames.includes(v.name))
+    .map(v => ({ name: v.name, stats: v.stats }));
+
+  if (rows.length === 0) return null;
+
+  const handleCopy = async () => {
+    const copied = await copyHtmlToClipboard(buildDescriptivesHtml(rows, digits, describeSubset(dataset)));
+    alert(copied ? 'Table copied! You can now paste directly into Microsoft Word.' : 'Table copied using fallback. You can now paste into Word.');
+  };
+
+  const handleDownloadCsv = () => {
+    const csv = toCsv([['Variable', ...DESCRIPTIVE_COLUMNS.map(c => c.label)], ...rows.map(row => [row.name, ...DESCRIPTIVE_COLUMNS.map(c => c.value(row.stats, digits))])]);
+    downloadFile(csv, `${dataset.filename.replace(/\.[^.]+$/, '')}_descriptives.csv`, 'text/csv;charset=utf-8');
+  };
+
+  return (
+    <div className="bg-white p-8 rounded-[2rem] border border-slate-200 shadow-sm space-y-4">
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Descriptive Statistics · Numerical Variables</p>
+        <div className="flex items-center space-x-3">
+          <select value={digits} onChange={(e) => setDigits(Number(e.target.value))} className="px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-xs font-bold text-slate-600 outline-none cursor-pointer">
+            {[0, 1, 2, 3, 4].map(d => <option key={d} value={d}>{d} decimals</option>)}
+          </select>
+          <button onClick={handleCopy} className="flex items-center space-x-2 px-4 py-2 bg-indigo-50 text-indigo-700 rounded-xl hover:bg-indigo-100 shadow-sm text-xs font-black transition-all active:scale-95 border border-indigo-100"><ClipboardCheck className="w-4 h-4" /><span>Copy Table for Word</span></button>
+          <button onClick={handleDownloadCsv} className="flex items-center space-x-2 px-4 py-2 bg-white text-slate-700 rounded-xl hover:bg-slate-50 shadow-sm text-xs font-black transition-all active:scale-95 border border-slate-200"><Download className="w-4 h-4" /><span>CSV</span></button>
+        </div>
+      </div>
+      <div className="overflow-x-auto custom-scrollbar">
+        <table className="w-full border-collapse text-xs">
+          <thead>
+            <tr>
+              <th className="p-3 border border-slate-200 bg-slate-50 text-left font-semibold text-slate-600 uppercase tracking-wider sticky left-0">Variable</th>
+              {DESCRIPTIVE_COLUMNS.map(c => <th key={c.label} className="p-3 border border-slate-200 bg-slate-50 text-center font-semibold text-slate-600 whitespace-nowrap">{c.label}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.name} className="hover:bg-slate-50">
+                <td className="p-3 border border-slate-200 font-bold text-slate-800 whitespace-nowrap bg-white sticky left-0">{row.name}</td>
+                {DESCRIPTIVE_COLUMNS.map(c => <td key={c.label} className="p-3 border border-slate-200 text-center font-mono text-slate-700 whitespace-nowrap">{c.value(row.stats, digits)}</td>)}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-[10px] font-bold text-slate-400">{buildNote(describeSubset(dataset))}</p>
+    </div>
+  );
+};
+
+export default DescriptiveStatsTable;
@@ -1,63 +1,382 @@
 
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import { 
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, 
-  Cell, LabelList 
+  Cell, LabelList, ScatterChart, Scatter, ReferenceLine
 } from 'recharts';
 import { DataVariable } from '../types';
+import { formatIsoDateTime, parseDateValue } from '../utils/dates';
+import { BIN_RULES, BinRule, BoxStats, buildHistogram, calculateBoxStats, DensityPoint, getBinWidth, HistogramBin, kernelDensity } from '../utils/density';
+import { calculateQQPoints, calculateShape, checkNormality } from '../utils/assumptions';
+import { normalQuantile } from '../utils/distributions';
+import { formatTick, getNiceTicks } from '../utils/ticks';
 
 interface DistributionPlotProps {
   variable: DataVariable;
 }
 
+const DAY_MS = 86400000;
+
+/**
+ * Counts dates per year, month or day, whichever gives a readable number of bars, including
+ * empty periods so gaps in data collection stay visible
+ */
+const binDates = (times: number[], min: number, max: number): { period: string; count: number }[] => {
+  const span = max - min;
+  const unit = span > 3 * 365 * DAY_MS ? 'year' : span > 90 * DAY_MS ? 'month' : 'day';
+  const keyLength = unit === 'year' ? 4 : unit === 'month' ? 7 : 10;
+  const counts = new Map<string, number>();
+  const start = new Date(min);
+  let cursor = Date.UTC(start.getUTCFullYear(), unit === 'year' ? 0 : start.getUTCMonth(), unit === 'day' ? start.getUTCDate() : 1);
+  while (cursor <= max) {
+    counts.set(formatIsoDateTime(cursor).slice(0, keyLength), 0);
+    const d = new Date(cursor);
+    cursor = unit === 'year'
+      ? Date.UTC(d.getUTCFullYear() + 1, 0, 1)
+      : unit === 'month' ? Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 1) : cursor + DAY_MS;
+  }
+  times.forEach(t => {
+    const key = formatIsoDateTime(t).slice(0, keyLength);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+  return Array.from(counts, ([period, count]) => ({ period, count }));
+};
+
+const EmptyPlot: React.FC<{ message: string }> = ({ message }) => (
+  <div className="h-64 flex items-center justify-center text-slate-400 text-sm italic">{message}</div>
+);
+
+/** Categories shown before the rest are pooled into "Other" */
+const TOP_CATEGORIES = 8;
+/** Q-Q plots with more points than this show evenly spaced quantiles instead */
+const MAX_QQ_POINTS = 500;
+const HISTOGRAM_MARGIN = { top: 16, right: 12, bottom: 24, left: 12 };
+const BOX_STRIP_HEIGHT = 34;
+
+const formatNumber = (x: number, digits = 2) => (isNaN(x) ? '-' : x.toFixed(digits));
+const formatP = (p: number) => (p < 0.001 ? '< .001' : p.toFixed(3));
+
+const ToggleChip: React.FC<{ active: boolean; onClick: () => void; children: React.ReactNode }> = ({ active, onClick, children }) => (
+  <button onClick={onClick} className={`px-3 py-1.5 rounded-lg text-[11px] font-bold border transition-all ${active ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-500 border-slate-200 hover:border-blue-400'}`}>{children}</button>
+);
+
+interface HistogramChartProps {
+  width?: number;
+  height?: number;
+  bins: HistogramBin[];
+  density: DensityPoint[];
+  normal: DensityPoint[];
+  box: BoxStats | null;
+  total: number;
+}
+
+/**
+ * Histogram drawn as SVG so bars can sit on a continuous axis under the density curves, with an
+ * optional box plot strip beneath sharing the same x scale. Curves are in expected counts per bin.
+ */
+const HistogramChart: React.FC<HistogramChartProps> = ({ width = 0, height = 0, bins, density, normal, box, total }) => {
+  if (width <= 0 || height <= 0 || bins.length === 0) return null;
+  const lo = bins[0].start;
+  const hi = bins[bins.length - 1].end;
+  const plotBottom = height - HISTOGRAM_MARGIN.bottom - (box ? BOX_STRIP_HEIGHT : 0);
+  const plotTop = HISTOGRAM_MARGIN.top;
+  const x = (v: number) => HISTOGRAM_MARGIN.left + ((v - lo) / (hi - lo)) * (width - HISTOGRAM_MARGIN.left - HISTOGRAM_MARGIN.right);
+  const maxCount = Math.max(...bins.map(b => b.count), ...density.map(d => d.density), ...normal.map(d => d.density), 1);
+  const y = (count: number) => plotBottom - (count / maxCount) * (plotBottom - plotTop);
+  const curve = (points: DensityPoint[]) => points.map((d, i) => `${i === 0 ? 'M' : 'L'} ${x(d.x)} ${y(d.density)}`).join(' ');
+  const ticks = getNiceTicks(lo, hi, 5).filter(t => t >= lo && t <= hi);
+  const boxY = plotBottom + BOX_STRIP_HEIGHT / 2 + 2;
+
+  return (
+    <svg width={width} height={height} fontFamily="sans-serif">
+      {bins.map((b, i) => (
+        <rect key={i} x={x(b.start) + 0.5} width={Math.max(x(b.end) - x(b.start) - 1, 0.5)} y={y(b.count)} height={plotBottom - y(b.count)} fill="#3b82f6" fillOpacity={0.8} rx={2}>
+          <title>{`${formatTick(b.start)} to ${formatTick(b.end)}: ${b.count} (${((b.count / total) * 100).toFixed(1)}%)`}</title>
+        </rect>
+      ))}
+      {density.length > 0 && <path d={curve(density)} fill="none" stroke="#0f172a" strokeWidth={2} />}
+      {normal.length > 0 && <path d={curve(normal)} fill="none" stroke="#ef4444" strokeWidth={2} strokeDasharray="5 4" />}
+      <line x1={HISTOGRAM_MARGIN.left} x2={width - HISTOGRAM_MARGIN.right} y1={plotBottom} y2={plotBottom} stroke="#cbd5e1" />
+      {box && (
+        <g>
+          <line x1={x(box.lowerWhisker)} x2={x(box.q1)} y1={boxY} y2={boxY} stroke="#475569" strokeWidth={1.5} />
+          <line x1={x(box.q3)} x2={x(box.upperWhisker)} y1={boxY} y2={boxY} stroke="#475569" strokeWidth={1.5} />
+          <rect x={x(box.q1)} width={Math.max(x(box.q3) - x(box.q1), 1)} y={boxY - 8} height={16} fill="#e2e8f0" stroke="#475569" strokeWidth={1.5} rx={2} />
+          <line x1={x(box.median)} x2={x(box.median)} y1={boxY - 8} y2={boxY + 8} stroke="#0f172a" strokeWidth={2.5} />
+          {box.outliers.map((o, i) => (
+            <circle key={i} cx={x(o)} cy={boxY} r={3} fill="none" stroke="#ef4444" strokeWidth={1.2}><title>{`Outlier: ${o}`}</title></circle>
+          ))}
+        </g>
+      )}
+      {ticks.map(t => (
+        <text key={t} x={x(t)} y={height - 8} textAnchor="middle" fontSize={9} fill="#94a3b8">{formatTick(t)}</text>
+      ))}
+    </svg>
+  );
+};
+
+/**
+ * Histogram with selectable bin rule, density and normal overlays, a box plot strip flagging
+ * outliers, a Q-Q plot, and shape and normality statistics
+ */
+const NumericDistribution: React.FC<{ variable: DataVariable }> = ({ variable }) => {
+  const [view, setView] = useState<'histogram' | 'qq'>('histogram');
+  const [binRule, setBinRule] = useState<BinRule>('sturges');
+  const [manualWidth, setManualWidth] = useState('');
+  const [showDensity, setShowDensity] = useState(false);
+  const [showNormal, setShowNormal] = useState(false);
+  const [showBox, setShowBox] = useState(true);
+
+  const nums = useMemo(() => variable.values.filter(v => typeof v === 'number' && !isNaN(v)) as number[], [variable]);
+  const box = useMemo(() => calculateBoxStats(nums), [nums]);
+  const shape = useMemo(() => calculateShape(nums), [nums]);
+  const normality = useMemo(() => checkNormality(nums), [nums]);
+
+  const autoWidth = useMemo(() => getBinWidth(nums, binRule === 'manual' ? 'sturges' : binRule), [nums, binRule]);
+  const width = binRule === 'manual' && Number(manualWidth) > 0 ? Number(manualWidth) : autoWidth;
+  const bins = useMemo(() => buildHistogram(nums, width, binRule === 'manual'), [nums, width, binRule]);
+  const binWidth = bins.length > 0 ? bins[0].end - bins[0].start : width;
+
+  const range = bins.length > 0 ? { from: bins[0].start, to: bins[bins.length - 1].end } : { from: 0, to: 0 };
+  const density = useMemo(
+    () => (showDensity ? kernelDensity(nums, { ...range, points: 80 }).map(d => ({ x: d.x, density: d.density * nums.length * binWidth })) : []),
+    [nums, showDensity, range.from, range.to, binWidth]
+  );
+  const normal = useMemo(() => {
+    if (!showNormal || !box || nums.length < 2) return [];
+    const sd = Math.sqrt(nums.reduce((a, b) => a + (b - box.mean) ** 2, 0) / (nums.length - 1));
+    if (!(sd > 0)) return [];
+    return Array.from({ length: 80 }, (_, i) => {
+      const at = range.from + ((range.to - range.from) * i) / 79;
+      const z = (at - box.mean) / sd;
+      return { x: at, density: (Math.exp(-0.5 * z * z) / (sd * Math.sqrt(2 * Math.PI))) * nums.length * binWidth };
+    });
+  }, [nums, box, showNormal, range.from, range.to, binWidth]);
+
+  const qqData = useMemo(() => {
+    if (view !== 'qq') return [];
+    const points = calculateQQPoints(nums);
+    if (points.length <= MAX_QQ_POINTS) return points;
+    return Array.from({ length: MAX_QQ_POINTS }, (_, i) => points[Math.round((i * (points.length - 1)) / (MAX_QQ_POINTS - 1))]);
+  }, [nums, view]);
+  // Reference line through the first and third quartiles, as in R's qqline
+  const qqLine = useMemo(() => {
+    if (!box || qqData.length === 0) return null;
+    const zq = normalQuantile(0.75);
+    const slope = (box.q3 - box.q1) / (2 * zq);
+    const at = (z: number) => ({ x: z, y: box.median + slope * z });
+    return [at(qqData[0].theoretical), at(qqData[qqData.length - 1].theoretical)];
+  }, [box, qqData]);
+
+  if (nums.length === 0) return <EmptyPlot message="No numerical data" />;
+
+  return (
+    <div className="space-y-4">
+      <div className="h-64 w-full">
+        {view === 'histogram' ? (
+          <ResponsiveContainer width="100%" height="100%">
+            <HistogramChart bins={bins} density={density} normal={normal} box={showBox ? box : null} total={nums.length} />
+          </ResponsiveContainer>
+        ) : (
+          <ResponsiveContainer width="100%" height="100%">
+            <ScatterChart margin={{ top: 10, right: 10, bottom: 10, left: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f1f5f9" />
+              <XAxis type="number" dataKey="theoretical" name="Theoretical" tick={{fontSize: 9, fill: '#94a3b8'}} tickFormatter={(v: number) => v.toFixed(1)} />
+              <YAxis type="number" dataKey="sample" name="Sample" tick={{fontSize: 9, fill: '#94a3b8'}} tickFormatter={formatTick} domain={['auto', 'auto']} width={44} />
+              <Tooltip formatter={(v: number) => v.toFixed(3)} />
+              {qqLine && <ReferenceLine segment={qqLine} stroke="#ef4444" strokeDasharray="4 4" />}
+              <Scatter data={qqData} fill="#3b82f6" fillOpacity={0.5} isAnimationActive={false} />
+            </ScatterChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex items-center space-x-1 bg-slate-100 rounded-lg p-1">
+          {(['histogram', 'qq'] as const).map(v => (
+            <button key={v} onClick={() => setView(v)} className={`px-2.5 py-1 rounded-md text-[10px] font-black uppercase tracking-widest transition-all ${view === v ? 'bg-white text-blue-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}>{v === 'histogram' ? 'Histogram' : 'Q-Q'}</button>
+          ))}
+        </div>
+        {view === 'histogram' && (
+          <>
+            <select value={binRule} onChange={(e) => setBinRule(e.target.value as BinRule)} title={BIN_RULES[binRule].description} className="px-2.5 py-1.5 bg-white border border-slate-200 rounded-lg text-[11px] font-bold text-slate-600 outline-none cursor-pointer">
+              {(Object.keys(BIN_RULES) as BinRule[]).map(rule => <option key={rule} value={rule}>{BIN_RULES[rule].label}</option>)}
+            </select>
+            {binRule === 'manual' && (
+              <input type="number" min={0} value={manualWidth} onChange={(e) => setManualWidth(e.target.value)} placeholder={formatTick(autoWidth)} className="w-24 px-2.5 py-1.5 bg-white border border-slate-200 rounded-lg text-[11px] font-bold outline-none focus:ring-2 focus:ring-blue-500" />
+            )}
+            <ToggleChip active={showDensity} onClick={() => setShowDensity(!showDensity)}>Density</ToggleChip>
+            <ToggleChip active={showNormal} onClick={() => setShowNormal(!showNormal)}>Normal</ToggleChip>
+            <ToggleChip active={showBox} onClick={() => setShowBox(!showBox)}>Box plot</ToggleChip>
+          </>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div className="bg-slate-50 rounded-xl p-3"><p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Skewness</p><p className="text-sm font-black text-slate-800">{formatNumber(shape.skewness)} <span className="text-[10px] font-bold text-slate-400">SE {formatNumber(shape.seSkewness)}</span></p></div>
+        <div className="bg-slate-50 rounded-xl p-3"><p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Excess Kurtosis</p><p className="text-sm font-black text-slate-800">{formatNumber(shape.kurtosis)} <span className="text-[10px] font-bold text-slate-400">SE {formatNumber(shape.seKurtosis)}</span></p></div>
+        <div className="bg-slate-50 rounded-xl p-3" title={normality ? `${normality.test} test` : 'Needs at least 3 distinct values (20 above n = 5000)'}>
+          <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">{normality ? normality.test : 'Normality'}</p>
+          <p className={`text-sm font-black ${normality && normality.p < 0.05 ? 'text-amber-600' : 'text-slate-800'}`}>{normality ? `${normality.symbol} = ${normality.statistic.toFixed(3)}, p ${normality.p < 0.001 ? '' : '= '}${formatP(normality.p)}` : '-'}</p>
+        </div>
+        <div className="bg-slate-50 rounded-xl p-3" title={box && box.outliers.length > 0 ? box.outliers.slice(0, 20).join(', ') : undefined}>
+          <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Outliers (1.5 × IQR)</p>
+          <p className={`text-sm font-black ${box && box.outliers.length > 0 ? 'text-red-500' : 'text-slate-800'}`}>{box ? box.outliers.length : 0}</p>
+        </div>
+      </div>
+      {view === 'histogram' && <p className="text-[10px] font-bold text-slate-400">{bins.length} bins of width {formatTick(binWidth)}.{showDensity ? ' Solid line: kernel density.' : ''}{showNormal ? ' Dashed line: normal curve with the sample mean and SD.' : ''}</p>}
+    </div>
+  );
+};
+
+/**
+ * Horizontal frequency bars for a categorical variable, showing the most frequent levels with
+ * the rest pooled into "Other" unless every level is requested
+ */
+const CategoryBars: React.FC<{ variable: DataVariable }> = ({ variable }) => {
+  const [showAll, setShowAll] = useState(false);
+  const totalCount = variable.stats.count;
+
+  // Binary variables keep their level order
+  const freqs = variable.stats.frequencies || {};
+  const entries = variable.type === 'binary' && variable.levels
+    ? variable.levels.map(level => [level, freqs[level] ?? 0] as [string, number])
+    : (Object.entries(freqs) as [string, number][]).sort((a, b) => b[1] - a[1]);
+  const pooled = !showAll && entries.length > TOP_CATEGORIES + 1;
+  const shown = pooled
+    ? [...entries.slice(0, TOP_CATEGORIES), [`Other (${entries.length - TOP_CATEGORIES} levels)`, entries.slice(TOP_CATEGORIES).reduce((acc, [, n]) => acc + n, 0)] as [string, number]]
+    : entries;
+  const data = shown.map(([name, count]) => ({
+    name,
+    count,
+    percentage: totalCount > 0 ? (count / totalCount) * 100 : 0
+  }));
+
+  return (
+    <div className="space-y-3">
+      <div className={`w-full ${showAll ? 'max-h-[480px] overflow-y-auto custom-scrollbar' : ''}`}>
+        <div style={{ height: Math.max(256, data.length * 28) }}>
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={data} layout="vertical" margin={{ top: 5, right: 80, left: 20, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#f1f5f9" />
+              <XAxis type="number" hide />
+              <YAxis dataKey="name" type="category" tick={{fontSize: 10, fill: '#64748b'}} width={80} interval={0} />
+              <Tooltip 
+                cursor={{fill: '#f8fafc'}} 
+                contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+                formatter={(value: number) => [`${value} (${((value / totalCount) * 100).toFixed(1)}%)`, 'N']}
+              />
+              <Bar dataKey="count" fill="#10b981" radius={[0, 4, 4, 0]}>
+                {pooled && data.map((_, i) => <Cell key={i} fill={i === TOP_CATEGORIES ? '#94a3b8' : '#10b981'} />)}
+                <LabelList 
+                  dataKey="count" 
+                  position="right" 
+                  style={{ fontSize: '10px', fill: '#334155', fontWeight: '700' }} 
+                  // Fix: Recharts LabelList formatter signature mismatch. 
+                  // Only one argument (value) is reliably provided by the LabelList component.
+                  // We calculate the percentage using totalCount from the closure scope.
+                  formatter={(val: number) => `${val} (${((val / totalCount) * 100).toFixed(1)}%)`}
+                />
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+      {entries.length > TOP_CATEGORIES + 1 && (
+        <button onClick={() => setShowAll(!showAll)} className="text-[11px] font-bold text-blue-600 hover:text-blue-700">
+          {showAll ? `Show top ${TOP_CATEGORIES} and Other` : `Show all ${entries.length} levels`}
+        </button>
+      )}
+    </div>
+  );
+};
+
 const DistributionPlot: React.FC<DistributionPlotProps> = ({ variable }) => {
   const totalCount = variable.stats.count;
 
-  if (variable.type === 'numerical') {
-    // Basic histogram logic
-    const nums = variable.values.filter(v => typeof v === 'number') as number[];
-    if (nums.length === 0) return <div className="h-64 flex items-center justify-center text-slate-400 text-sm italic">No numerical data</div>;
-
-    const min = Math.min(...nums);
-    const max = Math.max(...nums);
-    const binCount = 8;
-    const range = max - min;
-    const binSize = range / binCount || 1;
-    
-    const bins = Array.from({ length: binCount }, (_, i) => ({
-      bin: `${(min + i * binSize).toFixed(1)}`,
-      count: 0,
-      percentage: 0
-    }));
-
-    nums.forEach(n => {
-      let binIdx = Math.floor((n - min) / binSize);
-      if (binIdx >= binCount) binIdx = binCount - 1;
-      bins[binIdx].count++;
-    });
+  if (totalCount === 0) return <EmptyPlot message="No observed values" />;
 
-    bins.forEach(b => {
-      b.percentage = totalCount > 0 ? (b.count / totalCount) * 100 : 0;
+  if (variable.type === 'id') {
+    const counts = new Map<string, number>();
+    variable.values.forEach(v => {
+      if (v !== null) counts.set(v, (counts.get(v) ?? 0) + 1);
     });
+    const repeated = Array.from(counts).filter(([, n]) => n > 1).sort((a, b) => b[1] - a[1]);
+    return (
+      <div className="h-64 flex flex-col justify-center space-y-6 px-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div className="bg-slate-50 rounded-2xl p-5"><p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Unique IDs</p><p className="text-3xl font-black text-slate-900">{variable.stats.unique}</p></div>
+          <div className="bg-slate-50 rounded-2xl p-5"><p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Repeated IDs</p><p className={`text-3xl font-black ${repeated.length > 0 ? 'text-amber-600' : 'text-slate-900'}`}>{repeated.length}</p></div>
+        </div>
+        <p className="text-xs font-medium text-slate-500">
+          {repeated.length === 0
+            ? 'Every record has its own identifier.'
+            : `Most frequent: ${repeated.slice(0, 5).map(([id, n]) => `${id} (${n}×)`).join(', ')}. Repeated IDs usually mean repeated measures or duplicate records.`}
+        </p>
+      </div>
+    );
+  }
 
+  if (variable.type === 'text') {
+    const examples = Array.from(new Set(variable.values.filter(v => v !== null) as string[])).slice(0, 5);
+    return (
+      <div className="h-64 flex flex-col space-y-3 overflow-hidden">
+        <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{variable.stats.unique} distinct responses · {variable.stats.meanLength?.toFixed(0)} characters on average</p>
+        {examples.map((text, i) => (
+          <p key={i} className="text-xs text-slate-600 bg-slate-50 rounded-xl px-4 py-2.5 truncate" title={text}>"{text}"</p>
+        ))}
+      </div>
+    );
+  }
+
+  if (variable.type === 'date' || variable.type === 'datetime') {
+    const times = variable.values.map(v => parseDateValue(v)?.ms).filter((t): t is number => t !== undefined);
+    const bins = binDates(times, variable.stats.min!, variable.stats.max!);
     return (
       <div className="h-64 w-full">
         <ResponsiveContainer width="100%" height="100%">
           <BarChart data={bins} margin={{ top: 25, right: 10, left: 10, bottom: 20 }}>
             <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
-            <XAxis dataKey="bin" tick={{fontSize: 9, fill: '#94a3b8'}} height={30} />
+            <XAxis dataKey="period" tick={{fontSize: 9, fill: '#94a3b8'}} height={30} minTickGap={12} />
             <YAxis hide />
             <Tooltip 
               cursor={{fill: '#f8fafc'}} 
               contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
               formatter={(value: number) => [`${value} (${((value / totalCount) * 100).toFixed(1)}%)`, 'N']}
             />
-            <Bar dataKey="count" fill="#3b82f6" radius={[4, 4, 0, 0]}>
+            <Bar dataKey="count" fill="#f59e0b" radius={[4, 4, 0, 0]} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    );
+  }
+
+  if (variable.type === 'ordinal') {
+    const freqs = variable.stats.frequencies || {};
+    let cumulative = 0;
+    const data = (variable.levels ?? Object.keys(freqs)).map(level => {
+      const count = freqs[level] ?? 0;
+      cumulative += count;
+      return { name: level, count, cumulative: (cumulative / totalCount) * 100 };
+    });
+    return (
+      <div className="h-64 w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={data} margin={{ top: 25, right: 10, left: 10, bottom: 20 }}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+            <XAxis dataKey="name" tick={{fontSize: 9, fill: '#64748b'}} height={30} interval={0} />
+            <YAxis hide />
+            <Tooltip 
+              cursor={{fill: '#f8fafc'}} 
+              contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+              formatter={(value: number, _name: string, item: any) => [`${value} (${((value / totalCount) * 100).toFixed(1)}%, cumulative ${item.payload.cumulative.toFixed(1)}%)`, 'N']}
+            />
+            <Bar dataKey="count" fill="#84cc16" radius={[4, 4, 0, 0]}>
               <LabelList 
                 dataKey="count" 
                 position="top" 
                 style={{ fontSize: '10px', fill: '#475569', fontWeight: '700' }} 
-                formatter={(val: number) => val > 0 ? `${val}\n(${((val / totalCount) * 100).toFixed(1)}%)` : ''} 
+                formatter={(val: number) => `${((val / totalCount) * 100).toFixed(1)}%`} 
               />
             </Bar>
           </BarChart>
@@ -66,44 +385,9 @@ const DistributionPlot: React.FC<DistributionPlotProps> = ({ variable }) => {
     );
   }
 
-  // Categorical logic
-  const freqs = variable.stats.frequencies || {};
-  const data = (Object.entries(freqs) as [string, number][])
-    .sort((a, b) => b[1] - a[1])
-    .slice(0, 8) 
-    .map(([name, count]) => ({ 
-      name, 
-      count,
-      percentage: totalCount > 0 ? (count / totalCount) * 100 : 0
-    }));
+  if (variable.type === 'numerical') return <NumericDistribution variable={variable} />;
 
-  return (
-    <div className="h-64 w-full">
-      <ResponsiveContainer width="100%" height="100%">
-        <BarChart data={data} layout="vertical" margin={{ top: 5, right: 80, left: 20, bottom: 5 }}>
-          <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#f1f5f9" />
-          <XAxis type="number" hide />
-          <YAxis dataKey="name" type="category" tick={{fontSize: 10, fill: '#64748b'}} width={80} />
-          <Tooltip 
-            cursor={{fill: '#f8fafc'}} 
-            contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
-            formatter={(value: number) => [`${value} (${((value / totalCount) * 100).toFixed(1)}%)`, 'N']}
-          />
-          <Bar dataKey="count" fill="#10b981" radius={[0, 4, 4, 0]}>
-            <LabelList 
-              dataKey="count" 
-              position="right" 
-              style={{ fontSize: '10px', fill: '#334155', fontWeight: '700' }} 
-              // Fix: Recharts LabelList formatter signature mismatch. 
-              // Only one argument (value) is reliably provided by the LabelList component.
-              // We calculate the percentage using totalCount from the closure scope.
-              formatter={(val: number) => `${val} (${((val / totalCount) * 100).toFixed(1)}%)`}
-            />
-          </Bar>
-        </BarChart>
-      </ResponsiveContainer>
-    </div>
-  );
+  return <CategoryBars variable={variable} />;
 };
 
 export default DistributionPlot;
@@ -0,0 +1,190 @@
+
+import React from 'react';
+import { EpiEstimate, EpiMeasures, formatNNT, MantelHaenszelResult } from '../utils/epi';
+import { formatCI } from '../utils/statistics';
+
+interface EpiMeasuresPanelProps {
+  exposureVar: string;
+  outcomeVar: string;
+  exposureLevels: string[];
+  outcomeLevels: string[];
+  exposedLevel: string;
+  outcomeLevel: string;
+  onExposedLevelChange: (level: string) => void;
+  onOutcomeLevelChange: (level: string) => void;
+  stratifierOptions: string[];
+  stratifierVar: string;
+  onStratifierChange: (variable: string) => void;
+  measures: EpiMeasures | null;
+  stratified: MantelHaenszelResult | null;
+  confLevel: number;
+}
+
+const formatP = (p: number) => (isNaN(p) ? 'N/A' : p < 0.001 ? '< .001' : p.toFixed(3));
+
+const formatInterval = (e: EpiEstimate, digits = 2) => {
+  if (isNaN(e.lower) || isNaN(e.upper)) return 'N/A';
+  return `[${e.lower.toFixed(digits)}, ${isFinite(e.upper) ? e.upper.toFixed(digits) : '∞'}]`;
+};
+
+const selectClass = "w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-xs font-bold text-slate-700 outline-none cursor-pointer";
+
+const EpiMeasuresPanel: React.FC<EpiMeasuresPanelProps> = ({
+  exposureVar,
+  outcomeVar,
+  exposureLevels,
+  outcomeLevels,
+  exposedLevel,
+  outcomeLevel,
+  onExposedLevelChange,
+  onOutcomeLevelChange,
+  stratifierOptions,
+  stratifierVar,
+  onStratifierChange,
+  measures,
+  stratified,
+  confLevel
+}) => {
+  const ciLabel = `${Math.round(confLevel * 100)}% CI`;
+
+  const measureRows = measures ? [
+    { label: 'Risk Ratio', estimate: measures.riskRatio, digits: 2 },
+    { label: 'Odds Ratio (Woolf)', estimate: measures.oddsRatio, digits: 2 },
+    { label: 'Odds Ratio (exact, conditional MLE)', estimate: measures.oddsRatioExact, digits: 2 },
+    { label: 'Risk Difference', estimate: measures.riskDifference, digits: 3 },
+    { label: 'Attributable Fraction (Exposed)', estimate: measures.attributableFraction, digits: 3 }
+  ] : [];
+
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Exposed Level ({exposureVar})</label>
+          <select value={exposedLevel} onChange={(e) => onExposedLevelChange(e.target.value)} className={selectClass}>
+            {exposureLevels.map(level => <option key={level} value={level}>{level}</option>)}
+          </select>
+        </div>
+        <div className="space-y-2">
+          <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Outcome Level ({outcomeVar})</label>
+          <select value={outcomeLevel} onChange={(e) => onOutcomeLevelChange(e.target.value)} className={selectClass}>
+            {outcomeLevels.map(level => <option key={level} value={level}>{level}</option>)}
+          </select>
+        </div>
+        <div className="space-y-2">
+          <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Stratify By</label>
+          <select value={stratifierVar} onChange={(e) => onStratifierChange(e.target.value)} className={selectClass}>
+            <option value="">None (crude)</option>
+            {stratifierOptions.map(v => <option key={v} value={v}>{v}</option>)}
+          </select>
+        </div>
+      </div>
+
+      {measures && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <div className="space-y-2">
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">2×2 Table</p>
+            <table className="w-full border-collapse text-xs">
+              <thead>
+                <tr>
+                  <th className="p-3 border border-slate-200 bg-slate-50"></th>
+                  <th className="p-3 border border-slate-200 bg-slate-50 font-semibold text-slate-600">{outcomeVar} = {outcomeLevel}</th>
+                  <th className="p-3 border border-slate-200 bg-slate-50 font-semibold text-slate-600">Other</th>
+                  <th className="p-3 border border-slate-200 bg-slate-100 font-black text-slate-700">Risk</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[
+                  { label: `${exposureVar} = ${exposedLevel}`, cases: measures.table.a, nonCases: measures.table.b, risk: measures.riskExposed },
+                  { label: `${exposureVar} ≠ ${exposedLevel}`, cases: measures.table.c, nonCases: measures.table.d, risk: measures.riskUnexposed }
+                ].map(row => (
+                  <tr key={row.label}>
+                    <th className="p-3 border border-slate-200 bg-slate-50 text-left font-semibold text-slate-600">{row.label}</th>
+                    <td className="p-3 border border-slate-200 text-center font-bold text-slate-800">{row.cases}</td>
+                    <td className="p-3 border border-slate-200 text-center font-bold text-slate-800">{row.nonCases}</td>
+                    <td className="p-3 border border-slate-200 bg-slate-50 text-center font-mono text-slate-600">{isNaN(row.risk) ? 'N/A' : `${(row.risk * 100).toFixed(1)}%`}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {measures.zeroCellCorrected && <p className="text-[10px] font-bold text-amber-600">A zero cell was found: 0.5 was added to every cell for the Wald intervals.</p>}
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Measures of Association ({ciLabel})</p>
+            {measureRows.map(({ label, estimate, digits }) => (
+              <div key={`${label}-${estimate.method}`} className="flex justify-between items-center text-xs p-3 bg-slate-50 rounded-xl border border-slate-100">
+                <span className="font-bold text-slate-700">{label} <span className="text-slate-400 font-medium">{estimate.method}</span></span>
+                <span className="font-mono text-slate-600 whitespace-nowrap">{isFinite(estimate.estimate) ? estimate.estimate.toFixed(digits) : 'N/A'} {formatInterval(estimate, digits)}</span>
+              </div>
+            ))}
+            <div className="flex justify-between items-center text-xs p-3 bg-slate-50 rounded-xl border border-slate-100">
+              <span className="font-bold text-slate-700">Number Needed to Treat</span>
+              <span className="font-mono text-slate-600 whitespace-nowrap">{formatNNT(measures)}</span>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {stratifierVar && !stratified && (
+        <p className="text-xs font-bold text-amber-600">Mantel-Haenszel estimates need at least two strata with both exposed and unexposed subjects.</p>
+      )}
+
+      {stratified && (
+        <div className="space-y-4">
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Stratified by {stratifierVar}</p>
+          <div className="overflow-x-auto custom-scrollbar">
+            <table className="w-full border-collapse text-xs">
+              <thead>
+                <tr>
+                  {['Stratum', 'a / b / c / d', `Risk Ratio (${ciLabel})`, `Odds Ratio (${ciLabel})`, `Risk Difference (${ciLabel})`].map(h => (
+                    <th key={h} className="p-3 border border-slate-200 bg-slate-50 text-left font-semibold text-slate-600 uppercase tracking-wider whitespace-nowrap">{h}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {stratified.strata.map(({ level, measures: m }) => (
+                  <tr key={level}>
+                    <td className="p-3 border border-slate-200 font-bold text-slate-700">{level}</td>
+                    <td className="p-3 border border-slate-200 font-mono text-slate-500">{m.table.a} / {m.table.b} / {m.table.c} / {m.table.d}</td>
+                    <td className="p-3 border border-slate-200 font-mono text-slate-600">{m.riskRatio.estimate.toFixed(2)} {formatInterval(m.riskRatio)}</td>
+                    <td className="p-3 border border-slate-200 font-mono text-slate-600">{m.oddsRatio.estimate.toFixed(2)} {formatInterval(m.oddsRatio)}</td>
+                    <td className="p-3 border border-slate-200 font-mono text-slate-600">{m.riskDifference.estimate.toFixed(3)} {formatCI(m.riskDifference.lower, m.riskDifference.upper, 3)}</td>
+                  </tr>
+                ))}
+                {measures && (
+                  <tr className="bg-slate-50">
+                    <td className="p-3 border border-slate-200 font-black text-slate-700">Crude</td>
+                    <td className="p-3 border border-slate-200 font-mono text-slate-500">{measures.table.a} / {measures.table.b} / {measures.table.c} / {measures.table.d}</td>
+                    <td className="p-3 border border-slate-200 font-mono text-slate-600">{measures.riskRatio.estimate.toFixed(2)} {formatInterval(measures.riskRatio)}</td>
+                    <td className="p-3 border border-slate-200 font-mono text-slate-600">{measures.oddsRatio.estimate.toFixed(2)} {formatInterval(measures.oddsRatio)}</td>
+                    <td className="p-3 border border-slate-200 font-mono text-slate-600">{measures.riskDifference.estimate.toFixed(3)} {formatCI(measures.riskDifference.lower, measures.riskDifference.upper, 3)}</td>
+                  </tr>
+                )}
+                <tr className="bg-blue-50">
+                  <td className="p-3 border border-slate-200 font-black text-blue-700">Mantel-Haenszel</td>
+                  <td className="p-3 border border-slate-200"></td>
+                  <td className="p-3 border border-slate-200 font-mono font-bold text-blue-700">{stratified.riskRatio.estimate.toFixed(2)} {formatInterval(stratified.riskRatio)}</td>
+                  <td className="p-3 border border-slate-200 font-mono font-bold text-blue-700">{stratified.oddsRatio.estimate.toFixed(2)} {formatInterval(stratified.oddsRatio)}</td>
+                  <td className="p-3 border border-slate-200 font-mono font-bold text-blue-700">{stratified.riskDifference.estimate.toFixed(3)} {formatCI(stratified.riskDifference.lower, stratified.riskDifference.upper, 3)}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="flex justify-between items-center text-xs p-3 bg-slate-50 rounded-xl border border-slate-100">
+              <span className="font-bold text-slate-700">Cochran-Mantel-Haenszel</span>
+              <span className="font-mono text-slate-600">χ²({stratified.chiSquare.df}) = {stratified.chiSquare.statistic.toFixed(2)}, p = {formatP(stratified.chiSquare.p)}</span>
+            </div>
+            <div className="flex justify-between items-center text-xs p-3 bg-slate-50 rounded-xl border border-slate-100">
+              <span className="font-bold text-slate-700">Breslow-Day Homogeneity</span>
+              <span className={`font-mono ${stratified.breslowDay.p < 0.05 ? 'text-amber-600' : 'text-slate-600'}`}>χ²({stratified.breslowDay.df}) = {stratified.breslowDay.statistic.toFixed(2)}, p = {formatP(stratified.breslowDay.p)}</span>
+            </div>
+          </div>
+          {stratified.breslowDay.p < 0.05 && <p className="text-[10px] font-bold text-amber-600">Odds ratios differ across strata; the pooled estimate may hide effect modification.</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EpiMeasuresPanel;
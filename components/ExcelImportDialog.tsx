@@ -0,0 +1,182 @@
+
+import React, { useMemo, useState } from 'react';
+import { FileSpreadsheet, X, AlertCircle } from 'lucide-react';
+import * as XLSX from 'xlsx';
+import {
+  EXCEL_DATE_MODES,
+  ExcelDateMode,
+  ExcelImportOptions,
+  getDefaultImportOptions,
+  getSheetRange,
+  importExcelSheet,
+  MERGED_CELL_MODES,
+  MergedCellMode,
+  parseRange,
+  readSheetGrid
+} from '../utils/excelImport';
+
+interface ExcelImportDialogProps {
+  workbook: XLSX.WorkBook;
+  filename: string;
+  onCancel: () => void;
+  onImport: (rows: any[]) => void;
+}
+
+const PREVIEW_ROWS = 15;
+const PREVIEW_COLUMNS = 30;
+
+const ExcelImportDialog: React.FC<ExcelImportDialogProps> = ({ workbook, filename, onCancel, onImport }) => {
+  const [options, setOptions] = useState<ExcelImportOptions>(() => getDefaultImportOptions(workbook));
+  const [rangeInput, setRangeInput] = useState<string>(options.range);
+  const [error, setError] = useState<string | null>(null);
+
+  const sheet = workbook.Sheets[options.sheetName];
+  const range = parseRange(options.range);
+  const headerIndex = options.headerRow - 1;
+  const headerInRange = !!range && headerIndex >= range.s.r && headerIndex <= range.e.r;
+
+  const preview = useMemo(() => {
+    if (!sheet || !range) return [];
+    const visibleRange = { s: range.s, e: { r: range.e.r, c: Math.min(range.e.c, range.s.c + PREVIEW_COLUMNS - 1) } };
+    const rowsNeeded = Math.max(PREVIEW_ROWS, headerIndex - range.s.r + options.skipRows + 6);
+    return readSheetGrid(sheet, visibleRange, options.dateMode, options.mergedCells, rowsNeeded);
+  }, [sheet, options]);
+
+  const update = (patch: Partial<ExcelImportOptions>) => {
+    setError(null);
+    setOptions(prev => ({ ...prev, ...patch }));
+  };
+
+  const selectSheet = (sheetName: string) => {
+    const defaults = getDefaultImportOptions(workbook, sheetName);
+    setRangeInput(defaults.range);
+    update({ sheetName, range: defaults.range, headerRow: defaults.headerRow, skipRows: 0 });
+  };
+
+  const applyRange = (value: string) => {
+    setRangeInput(value);
+    const parsed = parseRange(value);
+    if (!parsed) return;
+    const normalized = XLSX.utils.encode_range(parsed);
+    const headerRow = options.headerRow - 1 < parsed.s.r || options.headerRow - 1 > parsed.e.r ? parsed.s.r + 1 : options.headerRow;
+    update({ range: normalized, headerRow });
+  };
+
+  const handleImport = () => {
+    const result = importExcelSheet(workbook, options);
+    if (!result || result.rows.length === 0) {
+      setError('No data rows were found below the header row in the selected range.');
+      return;
+    }
+    onImport(result.rows);
+  };
+
+  const columnLetters = range ? Array.from({ length: Math.min(range.e.c - range.s.c + 1, PREVIEW_COLUMNS) }, (_, i) => XLSX.utils.encode_col(range.s.c + i)) : [];
+  const dataRowCount = range && headerInRange ? Math.max(0, range.e.r - headerIndex - options.skipRows) : 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 backdrop-blur-sm p-6">
+      <div className="bg-white rounded-[2rem] shadow-2xl w-full max-w-5xl h-[85vh] flex flex-col overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+        <div className="p-8 border-b border-slate-100 flex items-center justify-between bg-white sticky top-0 z-10">
+          <div className="flex items-center space-x-4">
+            <div className="w-12 h-12 bg-emerald-50 rounded-2xl flex items-center justify-center"><FileSpreadsheet className="w-6 h-6 text-emerald-600" /></div>
+            <div><h3 className="text-2xl font-black text-slate-900">Import Workbook</h3><p className="text-sm text-slate-500 font-medium truncate max-w-md" title={filename}>{filename}</p></div>
+          </div>
+          <button onClick={onCancel} className="p-2 hover:bg-slate-100 rounded-full transition-colors"><X className="w-6 h-6 text-slate-400" /></button>
+        </div>
+
+        <div className="p-8 space-y-6 flex-1 flex flex-col overflow-hidden">
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+            <div className="space-y-2 col-span-2 lg:col-span-1">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Sheet</label>
+              <select value={options.sheetName} onChange={(e) => selectSheet(e.target.value)} className="w-full p-3 bg-slate-50 border border-slate-200 rounded-2xl outline-none font-bold text-sm cursor-pointer">
+                {workbook.SheetNames.map(name => <option key={name} value={name}>{name}{getSheetRange(workbook.Sheets[name]) ? '' : ' (empty)'}</option>)}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Cell Range</label>
+              <input type="text" value={rangeInput} onChange={(e) => applyRange(e.target.value)} placeholder="A1:F200" className={`w-full p-3 bg-slate-50 border rounded-2xl outline-none font-mono font-bold text-sm ${parseRange(rangeInput) ? 'border-slate-200' : 'border-red-300 ring-2 ring-red-50'}`} />
+            </div>
+            <div className="space-y-2">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Header Row</label>
+              <input type="number" min={range ? range.s.r + 1 : 1} max={range ? range.e.r + 1 : undefined} value={options.headerRow} onChange={(e) => update({ headerRow: Math.max(1, Math.floor(Number(e.target.value) || 1)) })} className={`w-full p-3 bg-slate-50 border rounded-2xl outline-none font-bold text-sm ${headerInRange ? 'border-slate-200' : 'border-red-300 ring-2 ring-red-50'}`} />
+            </div>
+            <div className="space-y-2">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Skip Rows After Header</label>
+              <input type="number" min={0} value={options.skipRows} onChange={(e) => update({ skipRows: Math.max(0, Math.floor(Number(e.target.value) || 0)) })} className="w-full p-3 bg-slate-50 border border-slate-200 rounded-2xl outline-none font-bold text-sm" />
+            </div>
+            <div className="space-y-2">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Dates</label>
+              <select value={options.dateMode} onChange={(e) => update({ dateMode: e.target.value as ExcelDateMode })} className="w-full p-3 bg-slate-50 border border-slate-200 rounded-2xl outline-none font-bold text-sm cursor-pointer">
+                {(Object.keys(EXCEL_DATE_MODES) as ExcelDateMode[]).map(mode => <option key={mode} value={mode}>{EXCEL_DATE_MODES[mode]}</option>)}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Merged Cells</label>
+              <select value={options.mergedCells} onChange={(e) => update({ mergedCells: e.target.value as MergedCellMode })} className="w-full p-3 bg-slate-50 border border-slate-200 rounded-2xl outline-none font-bold text-sm cursor-pointer">
+                {(Object.keys(MERGED_CELL_MODES) as MergedCellMode[]).map(mode => <option key={mode} value={mode}>{MERGED_CELL_MODES[mode]}</option>)}
+              </select>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Preview · click a row number to use it as the header</p>
+            <div className="flex items-center space-x-4 text-[10px] font-bold text-slate-400">
+              <span className="flex items-center space-x-1"><span className="w-3 h-3 rounded bg-blue-100 border border-blue-300"></span><span>Header</span></span>
+              <span className="flex items-center space-x-1"><span className="w-3 h-3 rounded bg-slate-100 border border-slate-200"></span><span>Skipped</span></span>
+            </div>
+          </div>
+
+          <div className="flex-1 overflow-auto custom-scrollbar border border-slate-200 rounded-2xl">
+            {preview.length === 0 ? (
+              <div className="h-full flex items-center justify-center text-sm font-medium text-slate-400">{sheet && getSheetRange(sheet) ? 'Enter a valid cell range such as A1:F200.' : 'This sheet is empty.'}</div>
+            ) : (
+              <table className="w-full border-collapse text-xs">
+                <thead className="sticky top-0 z-10">
+                  <tr>
+                    <th className="p-2 border-b border-r border-slate-200 bg-slate-50 w-12"></th>
+                    {columnLetters.map(letter => <th key={letter} className="p-2 border-b border-r border-slate-200 bg-slate-50 font-mono font-semibold text-slate-500">{letter}</th>)}
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.map((values, i) => {
+                    const rowIndex = range!.s.r + i;
+                    const isHeader = rowIndex === headerIndex;
+                    const isSkipped = rowIndex < headerIndex || (rowIndex > headerIndex && rowIndex <= headerIndex + options.skipRows);
+                    return (
+                      <tr key={rowIndex} className={isHeader ? 'bg-blue-50 font-bold text-blue-900' : isSkipped ? 'bg-slate-50 text-slate-300 line-through' : 'text-slate-700'}>
+                        <td className="p-0 border-b border-r border-slate-200 text-center">
+                          <button onClick={() => update({ headerRow: rowIndex + 1 })} className={`w-full p-2 font-mono ${isHeader ? 'text-blue-700 font-black' : 'text-slate-400 hover:text-blue-600 hover:bg-blue-50'}`}>{rowIndex + 1}</button>
+                        </td>
+                        {values.map((value, j) => (
+                          <td key={j} className="p-2 border-b border-r border-slate-100 whitespace-nowrap max-w-[200px] truncate">{value === null ? '' : String(value)}</td>
+                        ))}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {(error || (range && !headerInRange)) && (
+            <div className="flex items-center space-x-3 text-red-600 bg-red-50 px-4 py-3 rounded-2xl">
+              <AlertCircle className="w-4 h-4 shrink-0" />
+              <span className="text-sm font-bold">{error ?? `The header row must lie within ${options.range}.`}</span>
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-slate-100 flex items-center justify-between bg-slate-50">
+          <p className="text-xs font-bold text-slate-500">{range ? `${range.e.c - range.s.c + 1} columns · up to ${dataRowCount} data rows` : 'Invalid range'}</p>
+          <div className="flex gap-3">
+            <button onClick={onCancel} className="px-6 py-3 text-sm font-bold text-slate-600 bg-white border border-slate-200 rounded-2xl hover:bg-slate-100 transition-colors">Cancel</button>
+            <button onClick={handleImport} disabled={!range || !headerInRange} className="px-6 py-3 text-sm font-black text-white bg-blue-600 rounded-2xl hover:bg-blue-700 shadow-lg shadow-blue-200 transition-all active:scale-95 disabled:opacity-50">Import Data</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExcelImportDialog;
@@ -1,142 +1,119 @@
 
-import React, { useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Upload, FileText, AlertCircle } from 'lucide-react';
-import { Dataset, DataVariable, VariableType } from '../types';
-import { calculateSummaryStats } from '../utils/statistics';
+import { Dataset } from '../types';
+import { ComputeHandle, isCancelledError, runComputeTask } from '../utils/computeClient';
+import { ComputeProgress } from '../utils/computeTasks';
+import { COMMON_MISSING_CODES, parseMissingCodes, toggleMissingCode } from '../utils/dataset';
 import * as XLSX from 'xlsx';
+import ExcelImportDialog from './ExcelImportDialog';
 
 interface FileUploadProps {
   onDataLoaded: (dataset: Dataset) => void;
-  isLoading: boolean;
 }
 
-const FileUpload: React.FC<FileUploadProps> = ({ onDataLoaded, isLoading }) => {
+const FileUpload: React.FC<FileUploadProps> = ({ onDataLoaded }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const taskRef = useRef<ComputeHandle<unknown> | null>(null);
+
+  const [progress, setProgress] = useState<ComputeProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingWorkbook, setPendingWorkbook] = useState<{ workbook: XLSX.WorkBook; filename: string } | null>(null);
+  const [missingCodesText, setMissingCodesText] = useState('');
+
+  // A file still loading when the component goes away is abandoned
+  useEffect(() => () => taskRef.current?.cancel(), []);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
+    // Allow the same file to be chosen again after an error
+    e.target.value = '';
+    setError(null);
 
-    const reader = new FileReader();
     const isExcel = file.name.endsWith('.xlsx') || file.name.endsWith('.xls');
-
-    reader.onload = (event) => {
-      if (isExcel) {
-        const data = new Uint8Array(event.target?.result as ArrayBuffer);
-        const workbook = XLSX.read(data, { type: 'array' });
-        const firstSheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[firstSheetName];
-        const jsonData = XLSX.utils.sheet_to_json(worksheet);
-        processRawData(jsonData, file.name);
-      } else {
-        const text = event.target?.result as string;
-        parseCSV(text, file.name);
-      }
-    };
-
     if (isExcel) {
-      reader.readAsArrayBuffer(file);
+      runInWorker(file.name, runComputeTask('readWorkbook', { file }, setProgress), workbook => setPendingWorkbook({ workbook, filename: file.name }));
     } else {
-      reader.readAsText(file);
+      runInWorker(file.name, runComputeTask('loadFile', { file, missingCodes: parseMissingCodes(missingCodesText) }, setProgress), onDataLoaded);
     }
   };
 
-  const parseCSV = (text: string, filename: string) => {
-    const lines = text.split(/\r?\n/).filter(l => l.trim() !== '');
-    if (lines.length < 2) return;
-
-    const headers = lines[0].split(',').map(h => h.trim().replace(/^"|"$/g, ''));
-    const rows = lines.slice(1).map(line => {
-      const values = line.split(/,(?=(?:(?:[^"]*"){2})*[^"]*$)/).map(v => v.trim().replace(/^"|"$/g, ''));
-      const obj: any = {};
-      headers.forEach((h, i) => {
-        const val = values[i];
-        if (val === '' || val === undefined) obj[h] = null;
-        else if (!isNaN(Number(val)) && val.trim() !== '') obj[h] = Number(val);
-        else obj[h] = val;
-      });
-      return obj;
-    });
-
-    processRawData(rows, filename);
-  };
-
-  const processRawData = (rows: any[], filename: string) => {
-    if (rows.length === 0) return;
-    const headers = Object.keys(rows[0]);
-
-    const variables: DataVariable[] = headers.map(h => {
-      const rawValues = rows.map(r => r[h]);
-      const nonNull = rawValues.filter(v => v !== null && v !== undefined && String(v).trim() !== '');
-      
-      let type: VariableType = 'categorical';
-      let processedValues = rawValues;
-
-      if (nonNull.length > 0) {
-        // More lenient detection: if > 50% of non-nulls are numeric, treat as numerical
-        const numericCount = nonNull.filter(v => !isNaN(Number(v)) && typeof v !== 'boolean').length;
-        const isNumericMajority = (numericCount / nonNull.length) > 0.5;
-
-        if (isNumericMajority) {
-          type = 'numerical';
-          processedValues = rawValues.map(v => {
-            if (v === null || v === undefined || String(v).trim() === '') return null;
-            const num = Number(v);
-            return isNaN(num) ? null : num;
-          });
-        }
+  /**
+   * Parsing and summary statistics run in a worker; choosing another file cancels the current one
+   */
+  const runInWorker = async <T,>(filename: string, task: ComputeHandle<T>, onDone: (result: T) => void) => {
+    taskRef.current?.cancel();
+    taskRef.current = task;
+    setProgress({ stage: 'Reading file', fraction: 0 });
+    try {
+      onDone(await task.promise);
+    } catch (err) {
+      if (isCancelledError(err)) return;
+      setError(`Could not read ${filename}: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      if (taskRef.current === task) {
+        taskRef.current = null;
+        setProgress(null);
       }
+    }
+  };
 
-      return {
-        name: h,
-        type,
-        values: processedValues,
-        stats: calculateSummaryStats(processedValues, type)
-      };
-    });
-
-    // Update the row-based data to match processed variable values (casting)
-    const processedRows = rows.map((row, idx) => {
-      const newRow = { ...row };
-      variables.forEach(v => {
-        newRow[v.name] = v.values[idx];
-      });
-      return newRow;
-    });
-
-    onDataLoaded({
-      filename,
-      data: processedRows,
-      variables,
-      numericalVariables: variables.filter(v => v.type === 'numerical').map(v => v.name),
-      categoricalVariables: variables.filter(v => v.type === 'categorical').map(v => v.name)
-    });
+  const handleWorkbookImport = (rows: any[]) => {
+    if (!pendingWorkbook) return;
+    const { filename } = pendingWorkbook;
+    setPendingWorkbook(null);
+    runInWorker(filename, runComputeTask('buildDataset', { rows, filename, missingCodes: parseMissingCodes(missingCodesText) }, setProgress), onDataLoaded);
   };
 
   return (
-    <div className="max-w-xl mx-auto p-12 bg-white rounded-3xl border-2 border-dashed border-slate-200 hover:border-blue-400 transition-all cursor-pointer group flex flex-col items-center justify-center space-y-4 shadow-sm hover:shadow-xl hover:-translate-y-1"
-         onClick={() => fileInputRef.current?.click()}>
-      <input 
-        type="file" 
-        ref={fileInputRef} 
-        className="hidden" 
-        accept=".csv, .xlsx, .xls" 
-        onChange={handleFileChange} 
-      />
-      <div className="p-5 bg-blue-50 rounded-2xl group-hover:bg-blue-100 transition-colors shadow-inner">
-        <Upload className="w-10 h-10 text-blue-600" />
-      </div>
-      <div className="text-center">
-        <h3 className="text-xl font-bold text-slate-800">Upload Your Dataset</h3>
-        <p className="text-sm text-slate-500 mt-2 max-w-xs">Supported formats: CSV, Excel (.xlsx, .xls). Data is processed entirely in your browser.</p>
+    <>
+      <div className="max-w-xl mx-auto p-12 bg-white rounded-3xl border-2 border-dashed border-slate-200 hover:border-blue-400 transition-all cursor-pointer group flex flex-col items-center justify-center space-y-4 shadow-sm hover:shadow-xl hover:-translate-y-1"
+           onClick={() => fileInputRef.current?.click()}>
+        <input 
+          type="file" 
+          ref={fileInputRef} 
+          className="hidden" 
+          accept=".csv, .tsv, .txt, .xlsx, .xls, .sav, .dta, .xpt" 
+          onChange={handleFileChange} 
+        />
+        <div className="p-5 bg-blue-50 rounded-2xl group-hover:bg-blue-100 transition-colors shadow-inner">
+          <Upload className="w-10 h-10 text-blue-600" />
+        </div>
+        <div className="text-center">
+          <h3 className="text-xl font-bold text-slate-800">Upload Your Dataset</h3>
+          <p className="text-sm text-slate-500 mt-2 max-w-xs">Supported formats: CSV/TSV (any delimiter), Excel (.xlsx, .xls), SPSS (.sav), Stata (.dta) and SAS transport (.xpt). Data is processed entirely in your browser.</p>
+        </div>
+        {progress !== null && (
+          <div className="w-full max-w-xs space-y-2">
+            <div className="flex justify-between text-xs font-bold text-blue-600"><span>{progress.stage}...</span><span>{Math.round(progress.fraction * 100)}%</span></div>
+            <div className="h-2 bg-blue-50 rounded-full overflow-hidden"><div className="h-full bg-blue-600 rounded-full transition-all" style={{ width: `${progress.fraction * 100}%` }}></div></div>
+          </div>
+        )}
+        {error && (
+          <div className="flex items-center space-x-3 text-red-600 bg-red-50 px-4 py-2 rounded-2xl">
+            <AlertCircle className="w-4 h-4 shrink-0" />
+            <span className="text-sm font-bold">{error}</span>
+          </div>
+        )}
       </div>
-      {isLoading && (
-        <div className="flex items-center space-x-3 text-blue-600 bg-blue-50 px-4 py-2 rounded-full">
-          <div className="w-4 h-4 border-2 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
-          <span className="text-sm font-bold">Analyzing Statistics...</span>
+      <div className="max-w-xl mx-auto mt-6 space-y-3">
+        <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Missing Value Codes (All Columns)</label>
+        <input type="text" value={missingCodesText} onChange={(e) => setMissingCodesText(e.target.value)} placeholder="e.g. -99, NA, ." className="w-full p-3 bg-white border border-slate-200 rounded-2xl outline-none font-mono font-bold text-sm focus:ring-2 focus:ring-blue-500 transition-all" />
+        <div className="flex flex-wrap gap-2">
+          {COMMON_MISSING_CODES.map(code => {
+            const active = parseMissingCodes(missingCodesText).map(String).includes(code);
+            return (
+              <button key={code} onClick={() => setMissingCodesText(toggleMissingCode(missingCodesText, code))} className={`px-3 py-1 rounded-lg text-xs font-mono font-bold border transition-all ${active ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-500 border-slate-200 hover:border-blue-400'}`}>{code}</button>
+            );
+          })}
         </div>
+        <p className="text-xs text-slate-400 font-medium">Cells matching these codes are treated as missing. SPSS missing values are applied automatically; codes can be changed per variable later in the Missing Data tab.</p>
+      </div>
+      {pendingWorkbook && (
+        <ExcelImportDialog workbook={pendingWorkbook.workbook} filename={pendingWorkbook.filename} onCancel={() => setPendingWorkbook(null)} onImport={handleWorkbookImport} />
       )}
-    </div>
+    </>
   );
 };
 
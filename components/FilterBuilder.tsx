@@ -0,0 +1,180 @@
+
+import React, { useMemo, useState } from 'react';
+import { ListFilter, Plus, Trash2, X } from 'lucide-react';
+import { Dataset, DataVariable } from '../types';
+import {
+  createEmptyFilter,
+  createFilterCondition,
+  evaluateRowFilter,
+  FILTER_OPERATORS,
+  FilterCondition,
+  FilterGroup,
+  FilterOperator,
+  getFilterLevels,
+  getFilterOperators,
+  isConditionComplete,
+  RowFilter
+} from '../utils/filter';
+import { isDateType } from '../utils/variableTypes';
+
+interface FilterBuilderProps {
+  dataset: Dataset;
+  filter: RowFilter;
+  onCancel: () => void;
+  onApply: (filter: RowFilter) => void;
+}
+
+const MAX_LEVEL_CHIPS = 60;
+
+const inputClass = 'p-2.5 bg-white border border-slate-200 rounded-xl outline-none font-bold text-xs focus:ring-2 focus:ring-blue-500';
+
+/**
+ * Value entry suited to the variable and operator: level chips, a level picker for ordinal
+ * comparisons, date pickers, or number and text fields
+ */
+const ConditionValue: React.FC<{ variable: DataVariable; condition: FilterCondition; onChange: (patch: Partial<FilterCondition>) => void }> = ({ variable, condition, onChange }) => {
+  const { operator } = condition;
+  if (operator === 'missing' || operator === 'notMissing') return null;
+
+  if (operator === 'in' || operator === 'notIn') {
+    const levels = getFilterLevels(variable);
+    const toggle = (level: string) => onChange({ values: condition.values.includes(level) ? condition.values.filter(l => l !== level) : [...condition.values, level] });
+    return (
+      <div className="flex flex-wrap gap-1.5 max-h-28 overflow-y-auto custom-scrollbar">
+        {levels.slice(0, MAX_LEVEL_CHIPS).map(level => (
+          <button key={level} onClick={() => toggle(level)} className={`px-2.5 py-1 rounded-lg text-[11px] font-bold border transition-all ${condition.values.includes(level) ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-500 border-slate-200 hover:border-blue-400'}`}>{level}</button>
+        ))}
+        {levels.length > MAX_LEVEL_CHIPS && <span className="text-[10px] font-bold text-slate-400 self-center">+{levels.length - MAX_LEVEL_CHIPS} more levels</span>}
+      </div>
+    );
+  }
+
+  const field = (key: 'value' | 'value2') => {
+    if (variable.type === 'ordinal') {
+      return (
+        <select value={condition[key]} onChange={(e) => onChange({ [key]: e.target.value })} className={`${inputClass} cursor-pointer`}>
+          <option value="">Choose level</option>
+          {getFilterLevels(variable).map(level => <option key={level} value={level}>{level}</option>)}
+        </select>
+      );
+    }
+    const type = isDateType(variable.type) ? 'date' : variable.type === 'numerical' ? 'number' : 'text';
+    return <input type={type} value={condition[key]} onChange={(e) => onChange({ [key]: e.target.value })} placeholder="Value" className={`${inputClass} w-36`} />;
+  };
+
+  return operator === 'between' ? (
+    <div className="flex items-center space-x-2">{field('value')}<span className="text-xs font-bold text-slate-400">and</span>{field('value2')}</div>
+  ) : field('value');
+};
+
+const CombinatorToggle: React.FC<{ value: 'and' | 'or'; onChange: (value: 'and' | 'or') => void; labels: [string, string] }> = ({ value, onChange, labels }) => (
+  <div className="flex items-center space-x-1 bg-slate-100 rounded-xl p-1 w-fit">
+    {(['and', 'or'] as const).map((c, i) => (
+      <button key={c} onClick={() => onChange(c)} className={`px-3 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${value === c ? 'bg-white text-blue-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}>{labels[i]}</button>
+    ))}
+  </div>
+);
+
+/**
+ * Builds the row filter: conditions on any variable, combined with AND/OR within and across
+ * groups. The number of matching rows updates as conditions are edited.
+ */
+const FilterBuilder: React.FC<FilterBuilderProps> = ({ dataset, filter, onCancel, onApply }) => {
+  const [draft, setDraft] = useState<RowFilter>(filter);
+  const variables = dataset.variables.filter(v => v.type !== 'unknown');
+
+  const matching = useMemo(() => evaluateRowFilter(dataset, draft).filter(Boolean).length, [dataset, draft]);
+
+  const updateGroup = (gi: number, patch: Partial<FilterGroup>) =>
+    setDraft(prev => ({ ...prev, groups: prev.groups.map((g, i) => (i === gi ? { ...g, ...patch } : g)) }));
+
+  const updateCondition = (gi: number, ci: number, patch: Partial<FilterCondition>) =>
+    updateGroup(gi, { conditions: draft.groups[gi].conditions.map((c, i) => (i === ci ? { ...c, ...patch } : c)) });
+
+  const changeVariable = (gi: number, ci: number, name: string) => {
+    const variable = dataset.variables.find(v => v.name === name);
+    updateGroup(gi, { conditions: draft.groups[gi].conditions.map((c, i) => (i === ci ? createFilterCondition(variable) : c)) });
+  };
+
+  const removeCondition = (gi: number, ci: number) => {
+    const conditions = draft.groups[gi].conditions.filter((_, i) => i !== ci);
+    // An emptied group disappears unless it is the only one
+    if (conditions.length === 0 && draft.groups.length > 1) setDraft(prev => ({ ...prev, groups: prev.groups.filter((_, i) => i !== gi) }));
+    else updateGroup(gi, { conditions });
+  };
+
+  const addGroup = () => setDraft(prev => ({ ...prev, groups: [...prev.groups, { combinator: 'and', conditions: [createFilterCondition(variables[0])] }] }));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 backdrop-blur-sm p-6">
+      <div className="bg-white rounded-[2rem] shadow-2xl w-full max-w-4xl h-[85vh] flex flex-col overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+        <div className="p-8 border-b border-slate-100 flex items-center justify-between bg-white sticky top-0 z-10">
+          <div className="flex items-center space-x-4">
+            <div className="w-12 h-12 bg-blue-50 rounded-2xl flex items-center justify-center"><ListFilter className="w-6 h-6 text-blue-600" /></div>
+            <div><h3 className="text-2xl font-black text-slate-900">Filter Rows</h3><p className="text-sm text-slate-500 font-medium">Restrict every analysis to a subgroup of records.</p></div>
+          </div>
+          <button onClick={onCancel} className="p-2 hover:bg-slate-100 rounded-full transition-colors"><X className="w-6 h-6 text-slate-400" /></button>
+        </div>
+
+        <div className="p-8 space-y-4 flex-1 overflow-y-auto custom-scrollbar">
+          {draft.groups.map((group, gi) => (
+            <React.Fragment key={gi}>
+              {gi > 0 && (
+                <div className="flex justify-center">
+                  {gi === 1 ? (
+                    <CombinatorToggle value={draft.combinator} onChange={combinator => setDraft(prev => ({ ...prev, combinator }))} labels={['And', 'Or']} />
+                  ) : (
+                    <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{draft.combinator}</span>
+                  )}
+                </div>
+              )}
+              <div className="bg-slate-50 border border-slate-200 rounded-3xl p-5 space-y-3">
+                <div className="flex items-center justify-between">
+                  <CombinatorToggle value={group.combinator} onChange={combinator => updateGroup(gi, { combinator })} labels={['Match all', 'Match any']} />
+                  <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Group {gi + 1}</p>
+                </div>
+                {group.conditions.map((condition, ci) => {
+                  const variable = dataset.variables.find(v => v.name === condition.variable);
+                  const complete = isConditionComplete(condition, dataset);
+                  return (
+                    <div key={ci} className={`flex flex-wrap items-start gap-2 bg-white p-3 rounded-2xl border ${complete ? 'border-slate-200' : 'border-dashed border-slate-300'}`}>
+                      <select value={condition.variable} onChange={(e) => changeVariable(gi, ci, e.target.value)} className={`${inputClass} cursor-pointer max-w-[200px]`}>
+                        <option value="">Choose variable</option>
+                        {variables.map(v => <option key={v.name} value={v.name}>{v.name}</option>)}
+                      </select>
+                      {variable && (
+                        <>
+                          <select value={condition.operator} onChange={(e) => updateCondition(gi, ci, { operator: e.target.value as FilterOperator })} className={`${inputClass} cursor-pointer`}>
+                            {getFilterOperators(variable.type).map(op => <option key={op} value={op}>{FILTER_OPERATORS[op].label}</option>)}
+                          </select>
+                          <div className="flex-1 min-w-[160px]">
+                            <ConditionValue variable={variable} condition={condition} onChange={patch => updateCondition(gi, ci, patch)} />
+                          </div>
+                        </>
+                      )}
+                      <button onClick={() => removeCondition(gi, ci)} title="Remove condition" className="p-2 rounded-lg text-slate-300 hover:text-red-500 hover:bg-red-50 transition-colors ml-auto"><Trash2 className="w-4 h-4" /></button>
+                    </div>
+                  );
+                })}
+                <button onClick={() => updateGroup(gi, { conditions: [...group.conditions, createFilterCondition(variables[0])] })} className="flex items-center space-x-2 px-3 py-2 text-xs font-bold text-blue-600 hover:bg-blue-50 rounded-xl transition-colors"><Plus className="w-4 h-4" /><span>Add condition</span></button>
+              </div>
+            </React.Fragment>
+          ))}
+          <button onClick={addGroup} className="w-full py-3 border-2 border-dashed border-slate-200 rounded-3xl text-xs font-black text-slate-500 hover:border-blue-300 hover:text-blue-600 transition-all">Add group</button>
+          <p className="text-[10px] font-bold text-slate-400">Dashed conditions are incomplete and ignored. Records with a missing value fail every condition except "is missing".</p>
+        </div>
+
+        <div className="p-6 border-t border-slate-100 flex items-center justify-between bg-slate-50">
+          <p className="text-xs font-bold text-slate-500">{matching} of {dataset.data.length} records match</p>
+          <div className="flex gap-3">
+            <button onClick={() => onApply(createEmptyFilter())} className="px-6 py-3 text-sm font-bold text-red-500 bg-white border border-red-100 rounded-2xl hover:bg-red-50 transition-colors">Clear Filter</button>
+            <button onClick={onCancel} className="px-6 py-3 text-sm font-bold text-slate-600 bg-white border border-slate-200 rounded-2xl hover:bg-slate-100 transition-colors">Cancel</button>
+            <button onClick={() => onApply(draft)} disabled={matching === 0} className="px-6 py-3 text-sm font-black text-white bg-blue-600 rounded-2xl hover:bg-blue-700 shadow-lg shadow-blue-200 transition-all active:scale-95 disabled:opacity-50">Apply Filter</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FilterBuilder;
@@ -0,0 +1,153 @@
+
+import React from 'react';
+import { PostHocMethod } from '../types';
+import { formatCI, GroupStatsResult, VarianceAssumption } from '../utils/statistics';
+import { RankTestResult } from '../utils/nonparametric';
+import { P_ADJUST_METHODS } from '../utils/multipleComparisons';
+
+export type GroupTestFamily = 'parametric' | 'nonparametric';
+
+interface GroupInferencePanelProps {
+  family: GroupTestFamily;
+  onFamilyChange: (family: GroupTestFamily) => void;
+  groupStats: GroupStatsResult | null;
+  rankStats: RankTestResult | null;
+  confLevel: number;
+  postHocMethod: PostHocMethod;
+  onPostHocChange: (method: PostHocMethod) => void;
+  varianceAssumption: VarianceAssumption;
+  onVarianceAssumptionChange: (assumption: VarianceAssumption) => void;
+}
+
+const formatP = (p: number) => (isNaN(p) ? 'N/A' : p < 0.001 ? '< .001' : p.toFixed(3));
+
+const GroupInferencePanel: React.FC<GroupInferencePanelProps> = ({
+  family,
+  onFamilyChange,
+  groupStats,
+  rankStats,
+  confLevel,
+  postHocMethod,
+  onPostHocChange,
+  varianceAssumption,
+  onVarianceAssumptionChange
+}) => {
+  const appliedPostHoc: PostHocMethod = family === 'parametric' ? (groupStats?.postHoc ?? postHocMethod) : (rankStats?.adjustment ?? 'none');
+  // Dunn's test only supports p-value adjustments, not studentized range procedures
+  const postHocOptions = (Object.keys(P_ADJUST_METHODS) as PostHocMethod[])
+    .filter(m => family === 'parametric' || (m !== 'tukey' && m !== 'gamesHowell'));
+
+  const postHocSelect = (
+    <select value={postHocMethod} onChange={(e) => onPostHocChange(e.target.value as PostHocMethod)} className="px-3 py-1.5 bg-slate-50 border border-slate-200 rounded-xl text-[10px] font-black text-slate-700 outline-none cursor-pointer">
+      {postHocOptions.map(m => <option key={m} value={m}>{P_ADJUST_METHODS[m].label}</option>)}
+      {!postHocOptions.includes(postHocMethod) && <option value={postHocMethod} disabled>{P_ADJUST_METHODS[postHocMethod].label}</option>}
+    </select>
+  );
+
+  return (
+    <div className="mt-6 space-y-6">
+      <div className="flex items-center space-x-1 bg-slate-50 rounded-2xl p-1.5 border border-slate-100">
+        {(['parametric', 'nonparametric'] as GroupTestFamily[]).map(f => (
+          <button key={f} onClick={() => onFamilyChange(f)} className={`flex-1 px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${family === f ? 'bg-white text-blue-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}>{f === 'parametric' ? 'Parametric' : 'Non-parametric'}</button>
+        ))}
+      </div>
+
+      {family === 'parametric' && groupStats && (
+        <>
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Assumption Checks</p>
+              <select value={varianceAssumption} onChange={(e) => onVarianceAssumptionChange(e.target.value as VarianceAssumption)} className="px-3 py-1.5 bg-slate-50 border border-slate-200 rounded-xl text-[10px] font-black text-slate-700 outline-none cursor-pointer">
+                <option value="auto">Auto (Welch if unequal)</option>
+                <option value="equal">Assume Equal Variances</option>
+                <option value="welch">Always Welch</option>
+              </select>
+            </div>
+            <p className="text-xs font-bold text-slate-600">Test used: <span className="text-slate-900">{groupStats.test}</span></p>
+            {[
+              { label: "Levene's Test", res: groupStats.assumptions.levene },
+              { label: 'Brown-Forsythe', res: groupStats.assumptions.brownForsythe }
+            ].map(({ label, res }) => (
+              <div key={label} className="flex justify-between items-center text-xs p-3 bg-slate-50 rounded-xl border border-slate-100">
+                <span className="font-bold text-slate-700">{label}</span>
+                <span className={`font-mono whitespace-nowrap ${res.p < 0.05 ? 'text-amber-600' : 'text-slate-600'}`}>{isNaN(res.p) ? 'N/A' : `F = ${res.f.toFixed(2)}, p = ${formatP(res.p)}`}</span>
+              </div>
+            ))}
+            {groupStats.assumptions.normality.map(res => (
+              <div key={res.group} className="flex justify-between items-center text-xs p-3 bg-slate-50 rounded-xl border border-slate-100">
+                <span className="font-bold text-slate-700 truncate pr-2" title={res.group}>Shapiro-Wilk: {res.group}</span>
+                <span className={`font-mono whitespace-nowrap ${res.p < 0.05 ? 'text-amber-600' : 'text-slate-600'}`}>{isNaN(res.p) ? 'N/A' : `W = ${res.w.toFixed(3)}, p = ${formatP(res.p)}`}</span>
+              </div>
+            ))}
+          </div>
+          <div className="space-y-2">
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Group Means ({Math.round(confLevel * 100)}% CI)</p>
+            {groupStats.groups.map(g => (
+              <div key={g.name} className="flex justify-between items-center text-xs p-3 bg-slate-50 rounded-xl border border-slate-100">
+                <span className="font-bold text-slate-700 truncate pr-2" title={g.name}>{g.name} <span className="text-slate-400 font-medium">n = {g.n}</span></span>
+                <span className="font-mono text-slate-600 whitespace-nowrap">{g.mean.toFixed(2)} {formatCI(g.ciLower, g.ciUpper)}</span>
+              </div>
+            ))}
+          </div>
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Pairwise Differences{appliedPostHoc !== postHocMethod && <span className="text-amber-600"> ({P_ADJUST_METHODS[appliedPostHoc].label})</span>}</p>
+              {postHocSelect}
+            </div>
+            <div className="max-h-64 overflow-y-auto custom-scrollbar space-y-2">
+              {groupStats.pairwise.map(pair => (
+                <div key={`${pair.group1}-${pair.group2}`} className="text-xs p-3 bg-slate-50 rounded-xl border border-slate-100 space-y-1">
+                  <div className="flex justify-between font-bold text-slate-700"><span className="truncate pr-2">{pair.group1} − {pair.group2}</span><span>{pair.sig}</span></div>
+                  <div className="flex justify-between font-mono text-slate-500"><span>Δ = {pair.meanDiff.toFixed(2)} {formatCI(pair.ciLower, pair.ciUpper)}</span><span>{appliedPostHoc === 'none' ? 'p' : 'p adj'} = {formatP(pair.pAdjusted)}</span></div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+
+      {family === 'nonparametric' && rankStats && (
+        <>
+          <div className="space-y-2">
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{rankStats.test} Test</p>
+            <div className="flex justify-between items-center text-xs p-3 bg-slate-50 rounded-xl border border-slate-100">
+              <span className="font-bold text-slate-700">{rankStats.test === 'Mann-Whitney U' ? 'U' : `H(${rankStats.df})`}</span>
+              <span className="font-mono text-slate-600">{rankStats.statistic.toFixed(2)}{rankStats.z !== undefined ? `, z = ${rankStats.z.toFixed(2)}` : ''}{rankStats.exact ? ' (exact)' : ''}</span>
+            </div>
+            <div className="flex justify-between items-center text-xs p-3 bg-slate-50 rounded-xl border border-slate-100">
+              <span className="font-bold text-slate-700">{rankStats.effectSize.name}</span>
+              <span className="font-mono text-slate-600">{rankStats.effectSize.symbol} = {rankStats.effectSize.value.toFixed(3)}</span>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Group Medians [IQR]</p>
+            {rankStats.groups.map(g => (
+              <div key={g.name} className="flex justify-between items-center text-xs p-3 bg-slate-50 rounded-xl border border-slate-100">
+                <span className="font-bold text-slate-700 truncate pr-2" title={g.name}>{g.name} <span className="text-slate-400 font-medium">n = {g.n}</span></span>
+                <span className="font-mono text-slate-600 whitespace-nowrap">{g.median.toFixed(2)} {formatCI(g.q1, g.q3)}</span>
+              </div>
+            ))}
+          </div>
+          {rankStats.pairwise.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Dunn's Post-hoc{appliedPostHoc !== postHocMethod && <span className="text-amber-600"> ({P_ADJUST_METHODS[appliedPostHoc].label})</span>}</p>
+                {postHocSelect}
+              </div>
+              <div className="max-h-64 overflow-y-auto custom-scrollbar space-y-2">
+                {rankStats.pairwise.map(pair => (
+                  <div key={`${pair.group1}-${pair.group2}`} className="text-xs p-3 bg-slate-50 rounded-xl border border-slate-100 space-y-1">
+                    <div className="flex justify-between font-bold text-slate-700"><span className="truncate pr-2">{pair.group1} − {pair.group2}</span><span>{pair.sig}</span></div>
+                    <div className="flex justify-between font-mono text-slate-500"><span>z = {pair.z.toFixed(2)}</span><span>{rankStats.adjustment === 'none' ? 'p' : 'p adj'} = {formatP(pair.pAdjusted)}</span></div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default GroupInferencePanel;
@@ -0,0 +1,255 @@
+
+import React, { useMemo, useState } from 'react';
+import { ResponsiveContainer } from 'recharts';
+import { calculateTInterval, getSignificanceStars, orderGroupNames } from '../utils/statistics';
+import { BoxStats, calculateBoxStats, DensityPoint, kernelDensity } from '../utils/density';
+import { formatTick, getNiceTicks } from '../utils/ticks';
+
+interface GroupComparison {
+  group1: string;
+  group2: string;
+  pAdjusted: number;
+}
+
+interface GroupPlotProps {
+  groups: Record<string, number[]>;
+  /** Level order of the grouping variable; other groups follow in natural sort order */
+  levels?: string[];
+  xVar: string;
+  yVar: string;
+  confLevel: number;
+  /** Result of the active group test; brackets come from its pairwise comparisons */
+  test: { p: number; pairwise: GroupComparison[] } | null;
+}
+
+type GroupPlotType = 'box' | 'violin' | 'mean';
+
+const GROUP_PLOT_TYPES: Record<GroupPlotType, string> = {
+  box: 'Box Plot',
+  violin: 'Violin + Points',
+  mean: 'Mean ± CI'
+};
+
+interface GroupSummary {
+  name: string;
+  values: number[];
+  box: BoxStats;
+  ci: { lower: number; upper: number };
+  density: DensityPoint[];
+}
+
+const GROUP_COLORS = ['#3b82f6', '#ef4444', '#10b981', '#f59e0b', '#8b5cf6', '#06b6d4', '#ec4899', '#64748b'];
+const MARGIN = { top: 120, right: 20, bottom: 56, left: 64 };
+const BRACKET_STEP = 22;
+const MAX_BRACKETS = 12;
+/** Points drawn per violin; larger groups are thinned evenly */
+const MAX_POINTS_PER_GROUP = 1500;
+
+/** Repeatable horizontal offset in [-0.5, 0.5) for a point */
+const noise = (i: number) => {
+  const s = Math.sin(i * 12.9898 + 78.233) * 43758.5453;
+  return s - Math.floor(s) - 0.5;
+};
+
+/**
+ * Stacks brackets so that overlapping spans sit on different rows, shortest spans lowest
+ */
+const layoutBrackets = (pairs: { from: number; to: number; p: number }[]) => {
+  const rows: { from: number; to: number }[][] = [];
+  return [...pairs]
+    .sort((a, b) => (a.to - a.from) - (b.to - b.from) || a.from - b.from)
+    .map(pair => {
+      let row = rows.findIndex(r => r.every(o => pair.to < o.from || pair.from > o.to));
+      if (row === -1) row = rows.push([]) - 1;
+      rows[row].push(pair);
+      return { ...pair, row };
+    });
+};
+
+interface ChartProps {
+  width?: number;
+  height?: number;
+  summaries: GroupSummary[];
+  type: GroupPlotType;
+  brackets: ReturnType<typeof layoutBrackets>;
+  xVar: string;
+  yVar: string;
+}
+
+/**
+ * SVG drawing of the chosen group plot; ResponsiveContainer supplies the size
+ */
+const GroupChart: React.FC<ChartProps> = ({ width = 0, height = 0, summaries, type, brackets, xVar, yVar }) => {
+  if (width <= 0 || height <= 0) return null;
+  const bracketRows = brackets.reduce((acc, b) => Math.max(acc, b.row + 1), 0);
+  const plotTop = MARGIN.top + bracketRows * BRACKET_STEP;
+  const plotBottom = height - MARGIN.bottom;
+  const plotWidth = width - MARGIN.left - MARGIN.right;
+  const band = plotWidth / summaries.length;
+  const centre = (i: number) => MARGIN.left + band * (i + 0.5);
+
+  const extremes = summaries.flatMap(s => (type === 'mean' ? [s.ci.lower, s.ci.upper, s.box.mean] : [s.box.min, s.box.max]));
+  const lo = Math.min(...extremes);
+  const hi = Math.max(...extremes);
+  const ticks = getNiceTicks(lo, hi);
+  const domain: [number, number] = [Math.min(ticks[0], lo), Math.max(ticks[ticks.length - 1], hi)];
+  const y = (v: number) => plotBottom - ((v - domain[0]) / (domain[1] - domain[0] || 1)) * (plotBottom - plotTop);
+
+  const halfWidth = Math.min(band * 0.3, 60);
+  const maxDensity = Math.max(...summaries.flatMap(s => s.density.map(d => d.density)), 0);
+
+  return (
+    <svg width={width} height={height} fontFamily="sans-serif">
+      {ticks.map(t => (
+        <g key={t}>
+          <line x1={MARGIN.left} x2={width - MARGIN.right} y1={y(t)} y2={y(t)} stroke="#e2e8f0" strokeDasharray="3 3" />
+          <text x={MARGIN.left - 8} y={y(t)} textAnchor="end" dominantBaseline="middle" fontSize={11} fill="#64748b">{formatTick(t)}</text>
+        </g>
+      ))}
+      <line x1={MARGIN.left} x2={MARGIN.left} y1={plotTop} y2={plotBottom} stroke="#94a3b8" />
+      <line x1={MARGIN.left} x2={width - MARGIN.right} y1={plotBottom} y2={plotBottom} stroke="#94a3b8" />
+      <text transform={`translate(16, ${(plotTop + plotBottom) / 2}) rotate(-90)`} textAnchor="middle" fontSize={12} fill="#475569">{yVar}</text>
+      <text x={MARGIN.left + plotWidth / 2} y={height - 8} textAnchor="middle" fontSize={12} fill="#475569">{xVar}</text>
+
+      {summaries.map((s, i) => {
+        const cx = centre(i);
+        const color = GROUP_COLORS[i % GROUP_COLORS.length];
+        const { box } = s;
+        return (
+          <g key={s.name}>
+            <text x={cx} y={plotBottom + 16} textAnchor="middle" fontSize={11} fontWeight={700} fill="#334155">{s.name}</text>
+            <text x={cx} y={plotBottom + 30} textAnchor="middle" fontSize={10} fill="#94a3b8">n = {box.n}</text>
+
+            {type === 'box' && (
+              <>
+                <line x1={cx} x2={cx} y1={y(box.upperWhisker)} y2={y(box.q3)} stroke={color} strokeWidth={1.5} />
+                <line x1={cx} x2={cx} y1={y(box.q1)} y2={y(box.lowerWhisker)} stroke={color} strokeWidth={1.5} />
+                {[box.lowerWhisker, box.upperWhisker].map((w, k) => <line key={k} x1={cx - halfWidth / 3} x2={cx + halfWidth / 3} y1={y(w)} y2={y(w)} stroke={color} strokeWidth={1.5} />)}
+                <rect x={cx - halfWidth / 1.5} width={(halfWidth * 2) / 1.5} y={y(box.q3)} height={Math.max(y(box.q1) - y(box.q3), 1)} fill={color} fillOpacity={0.15} stroke={color} strokeWidth={1.5} rx={3} />
+                <line x1={cx - halfWidth / 1.5} x2={cx + halfWidth / 1.5} y1={y(box.median)} y2={y(box.median)} stroke={color} strokeWidth={2.5} />
+                <path d={`M ${cx - 4} ${y(box.mean)} L ${cx + 4} ${y(box.mean)} M ${cx} ${y(box.mean) - 4} L ${cx} ${y(box.mean) + 4}`} stroke="#0f172a" strokeWidth={1.5} />
+                {box.outliers.map((o, k) => <circle key={k} cx={cx} cy={y(o)} r={3} fill="none" stroke={color} strokeWidth={1.2} />)}
+              </>
+            )}
+
+            {type === 'violin' && (
+              <>
+                {s.density.length > 1 && maxDensity > 0 && (
+                  <path
+                    d={[
+                      ...s.density.map((d, k) => `${k === 0 ? 'M' : 'L'} ${cx + (d.density / maxDensity) * halfWidth} ${y(d.x)}`),
+                      ...[...s.density].reverse().map(d => `L ${cx - (d.density / maxDensity) * halfWidth} ${y(d.x)}`),
+                      'Z'
+                    ].join(' ')}
+                    fill={color}
+                    fillOpacity={0.15}
+                    stroke={color}
+                    strokeWidth={1.5}
+                  />
+                )}
+                {s.values.map((v, k) => <circle key={k} cx={cx + noise(k) * halfWidth * 0.8} cy={y(v)} r={2.2} fill={color} fillOpacity={0.35} />)}
+                <line x1={cx} x2={cx} y1={y(box.q3)} y2={y(box.q1)} stroke="#0f172a" strokeWidth={4} strokeLinecap="round" />
+                <circle cx={cx} cy={y(box.median)} r={3.5} fill="#fff" stroke="#0f172a" strokeWidth={1.5} />
+              </>
+            )}
+
+            {type === 'mean' && (
+              <>
+                <line x1={cx} x2={cx} y1={y(s.ci.upper)} y2={y(s.ci.lower)} stroke={color} strokeWidth={2} />
+                {[s.ci.lower, s.ci.upper].map((c, k) => <line key={k} x1={cx - 10} x2={cx + 10} y1={y(c)} y2={y(c)} stroke={color} strokeWidth={2} />)}
+                <circle cx={cx} cy={y(box.mean)} r={6} fill={color} stroke="#fff" strokeWidth={2} />
+              </>
+            )}
+          </g>
+        );
+      })}
+
+      {brackets.map(b => {
+        const x1 = centre(b.from);
+        const x2 = centre(b.to);
+        const top = plotTop - (b.row + 1) * BRACKET_STEP + 8;
+        return (
+          <g key={`${b.from}-${b.to}`}>
+            <path d={`M ${x1} ${top + 6} L ${x1} ${top} L ${x2} ${top} L ${x2} ${top + 6}`} fill="none" stroke="#475569" strokeWidth={1.2} />
+            <text x={(x1 + x2) / 2} y={top - 3} textAnchor="middle" fontSize={11} fontWeight={700} fill="#334155">{getSignificanceStars(b.p) || 'ns'}</text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+/**
+ * Distribution of a numerical outcome across the levels of a categorical predictor as box plots,
+ * violins with the raw points, or means with confidence intervals, with significance brackets
+ * from the pairwise comparisons of the active test.
+ */
+const GroupPlot: React.FC<GroupPlotProps> = ({ groups, levels, xVar, yVar, confLevel, test }) => {
+  const [type, setType] = useState<GroupPlotType>('box');
+  const [showBrackets, setShowBrackets] = useState(true);
+
+  const summaries = useMemo(() => orderGroupNames(groups, levels).flatMap(name => {
+    const box = calculateBoxStats(groups[name]);
+    if (!box) return [];
+    const values = groups[name];
+    const sd = Math.sqrt(values.reduce((a, b) => a + (b - box.mean) ** 2, 0) / (values.length - 1 || 1));
+    const stride = Math.ceil(values.length / MAX_POINTS_PER_GROUP);
+    return [{
+      name,
+      values: stride > 1 ? values.filter((_, i) => i % stride === 0) : values,
+      box,
+      ci: values.length > 1 ? calculateTInterval(box.mean, sd / Math.sqrt(values.length), values.length - 1, confLevel) : { lower: box.mean, upper: box.mean },
+      density: type === 'violin' ? kernelDensity(values, { points: 60 }) : []
+    }];
+  }), [groups, levels, confLevel, type]);
+
+  // With two groups the overall test is the only comparison; otherwise show the significant pairs
+  const comparisons = useMemo(() => {
+    if (!test) return [];
+    const names = summaries.map(s => s.name);
+    const pairs = names.length === 2
+      ? [{ from: 0, to: 1, p: test.pairwise[0]?.pAdjusted ?? test.p }]
+      : test.pairwise
+        .filter(pair => pair.pAdjusted < 0.05)
+        .map(pair => {
+          const [a, b] = [names.indexOf(pair.group1), names.indexOf(pair.group2)];
+          return { from: Math.min(a, b), to: Math.max(a, b), p: pair.pAdjusted };
+        })
+        .filter(pair => pair.from !== -1);
+    return pairs;
+  }, [test, summaries]);
+  const brackets = useMemo(() => (showBrackets ? layoutBrackets(comparisons.slice(0, MAX_BRACKETS)) : []), [comparisons, showBrackets]);
+
+  const thinned = summaries.some(s => s.values.length < s.box.n);
+
+  return (
+    <div className="space-y-6">
+      <div className="h-[480px] w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <GroupChart summaries={summaries} type={type} brackets={brackets} xVar={xVar} yVar={yVar} />
+        </ResponsiveContainer>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex items-center space-x-1 bg-slate-100 rounded-xl p-1">
+          {(Object.keys(GROUP_PLOT_TYPES) as GroupPlotType[]).map(t => (
+            <button key={t} onClick={() => setType(t)} className={`px-3 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${type === t ? 'bg-white text-blue-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}>{GROUP_PLOT_TYPES[t]}</button>
+          ))}
+        </div>
+        <button onClick={() => setShowBrackets(!showBrackets)} className={`px-4 py-2 rounded-xl text-xs font-bold border transition-all ${showBrackets ? 'bg-blue-600 text-white border-blue-600 shadow-sm' : 'bg-white text-slate-600 border-slate-200 hover:border-blue-400'}`}>Significance brackets</button>
+      </div>
+
+      <p className="text-[10px] font-bold text-slate-400">
+        {type === 'box' && 'Boxes span the interquartile range with the median as a line and the mean as +; whiskers reach the most extreme values within 1.5 × IQR and circles mark outliers.'}
+        {type === 'violin' && `Violins show Gaussian kernel density estimates; the bar marks the IQR and the dot the median.${thinned ? ' Large groups show an evenly thinned subset of points.' : ''}`}
+        {type === 'mean' && `Dots are group means with ${Math.round(confLevel * 100)}% confidence intervals.`}
+        {showBrackets && (summaries.length === 2
+          ? ' The bracket shows the result of the group test.'
+          : ` Brackets mark pairs that differ after adjustment${comparisons.length > MAX_BRACKETS ? ` (first ${MAX_BRACKETS} of ${comparisons.length} shown)` : ''}.`)}
+        {' * p < .05, ** p < .01, *** p < .001.'}
+      </p>
+    </div>
+  );
+};
+
+export default GroupPlot;
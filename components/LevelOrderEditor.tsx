@@ -0,0 +1,38 @@
+
+import React from 'react';
+import { ChevronUp, ChevronDown } from 'lucide-react';
+
+interface LevelOrderEditorProps {
+  levels: string[];
+  onChange: (levels: string[]) => void;
+}
+
+/**
+ * Reorders the levels of an ordinal variable, lowest first
+ */
+const LevelOrderEditor: React.FC<LevelOrderEditorProps> = ({ levels, onChange }) => {
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= levels.length) return;
+    const next = [...levels];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div className="mt-3 pt-3 border-t border-slate-100 space-y-1">
+      <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-2">Level Order (Lowest First)</p>
+      {levels.map((level, i) => (
+        <div key={level} className="flex items-center justify-between bg-white border border-slate-100 rounded-xl px-3 py-1.5">
+          <span className="text-xs font-bold text-slate-700 truncate"><span className="text-slate-400 mr-2">{i + 1}.</span>{level}</span>
+          <div className="flex items-center">
+            <button onClick={() => move(i, -1)} disabled={i === 0} className="p-1 rounded-lg text-slate-400 hover:text-blue-600 hover:bg-blue-50 disabled:opacity-30 disabled:hover:bg-transparent"><ChevronUp className="w-4 h-4" /></button>
+            <button onClick={() => move(i, 1)} disabled={i === levels.length - 1} className="p-1 rounded-lg text-slate-400 hover:text-blue-600 hover:bg-blue-50 disabled:opacity-30 disabled:hover:bg-transparent"><ChevronDown className="w-4 h-4" /></button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default LevelOrderEditor;
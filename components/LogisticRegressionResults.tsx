@@ -0,0 +1,171 @@
+
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine } from 'recharts';
+import { LogisticRegressionResult } from '../utils/regression';
+import { formatCI, getSignificanceStars } from '../utils/statistics';
+import { escapeHtml, WORD_CELL_STYLE, WORD_HEADER_ROW_STYLE, WORD_NOTE_STYLE, WORD_TABLE_STYLE } from '../utils/clipboard';
+
+interface LogisticRegressionResultsProps {
+  model: LogisticRegressionResult;
+}
+
+const formatP = (p: number) => (isNaN(p) ? 'N/A' : p < 0.001 ? '< .001' : p.toFixed(3));
+
+/**
+ * Builds the Word-pasteable adjusted odds ratio table with an APA-style note
+ */
+export const buildOddsRatioTableHtml = (model: LogisticRegressionResult, subsetNote = ''): string => {
+  const ciLabel = `${Math.round(model.confLevel * 100)}% CI`;
+  let html = `<table border="1" style="${WORD_TABLE_STYLE}">`;
+  html += `<tr style="${WORD_HEADER_ROW_STYLE}">`;
+  ['Predictor', 'B', 'SE', 'Adjusted OR', ciLabel, 'p'].forEach(h => {
+    html += `<th style="${WORD_CELL_STYLE}">${h}</th>`;
+  });
+  html += `</tr>`;
+  model.coefficients.forEach(c => {
+    const isIntercept = c.variable === '(Intercept)';
+    html += `<tr>`;
+    html += `<td style="${WORD_CELL_STYLE} font-weight: bold; background-color: #f8fafc;">${escapeHtml(c.term)}</td>`;
+    [c.estimate.toFixed(3), c.se.toFixed(3), isIntercept ? '' : c.oddsRatio.toFixed(2), isIntercept ? '' : formatCI(c.orLower, c.orUpper), `${formatP(c.p)}${getSignificanceStars(c.p)}`].forEach(val => {
+      html += `<td style="${WORD_CELL_STYLE} text-align: center;">${escapeHtml(val)}</td>`;
+    });
+    html += `</tr>`;
+  });
+  html += `</table>`;
+  const references = Object.entries(model.referenceLevels).map(([v, level]) => `${v} = ${level}`).join('; ');
+  html += `<p style="${WORD_NOTE_STYLE}"><i>Note.</i> Outcome: ${escapeHtml(model.outcome)} = ${escapeHtml(model.eventLevel)} (${model.events} events, N = ${model.n}). OR = odds ratio adjusted for all other predictors in the model. `;
+  html += `Model χ²(${model.lrDf}) = ${model.lrChiSquare.toFixed(2)}, p ${model.lrP < 0.001 ? '&lt; .001' : `= ${model.lrP.toFixed(3)}`}; Nagelkerke R² = ${model.nagelkerkeR2.toFixed(3)}; Hosmer-Lemeshow χ²(${model.hosmerLemeshow.df}) = ${model.hosmerLemeshow.statistic.toFixed(2)}, p = ${model.hosmerLemeshow.p.toFixed(3)}; AUC = ${model.auc.estimate.toFixed(3)}.`;
+  if (references) html += ` Reference categories: ${escapeHtml(references)}.`;
+  if (subsetNote) html += ` ${escapeHtml(subsetNote)}`;
+  html += ` * p &lt; .05, ** p &lt; .01, *** p &lt; .001.</p>`;
+  return html;
+};
+
+const LogisticRegressionResults: React.FC<LogisticRegressionResultsProps> = ({ model }) => {
+  const ciLabel = `${Math.round(model.confLevel * 100)}% CI`;
+  const eventsPerParameter = Math.min(model.events, model.n - model.events) / Math.max(1, model.coefficients.length - 1);
+
+  return (
+    <>
+      {(!model.converged || eventsPerParameter < 10) && (
+        <div className="bg-amber-50 p-6 rounded-[2rem] border border-amber-100 flex items-center space-x-4">
+          <AlertTriangle className="w-6 h-6 text-amber-500 shrink-0" />
+          <p className="text-amber-800 text-sm font-medium">
+            {!model.converged
+              ? `The model did not converge after ${model.iterations} iterations, which usually indicates complete or quasi-complete separation. Estimates are unreliable.`
+              : `Only ${eventsPerParameter.toFixed(1)} events per predictor parameter; estimates may be unstable (10 or more is recommended).`}
+          </p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-6">
+        {[
+          { label: 'N (Events)', value: `${model.n} (${model.events})` },
+          { label: `Model χ²(${model.lrDf})`, value: `${model.lrChiSquare.toFixed(2)}${getSignificanceStars(model.lrP)}` },
+          { label: 'Nagelkerke R²', value: model.nagelkerkeR2.toFixed(3) },
+          { label: 'AIC', value: model.aic.toFixed(1) },
+          { label: 'AUC', value: model.auc.estimate.toFixed(3) }
+        ].map(card => (
+          <div key={card.label} className="bg-white p-6 rounded-[2rem] border border-slate-200 shadow-sm">
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">{card.label}</p>
+            <p className="text-2xl font-black text-slate-900 tracking-tight">{card.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-white p-8 rounded-[2rem] border border-slate-200 shadow-sm space-y-4">
+        <div className="flex items-center justify-between">
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Adjusted Odds Ratios: {model.outcome} = {model.eventLevel}</p>
+          <p className="text-[10px] font-bold text-slate-400">Likelihood-ratio p = {formatP(model.lrP)}{model.excluded > 0 ? ` · ${model.excluded} incomplete rows excluded` : ''}</p>
+        </div>
+        <div className="overflow-x-auto custom-scrollbar">
+          <table className="w-full border-collapse text-xs">
+            <thead>
+              <tr>
+                {['Predictor', 'B', 'SE', 'z', 'Adjusted OR', ciLabel, 'p'].map(h => (
+                  <th key={h} className="p-3 border border-slate-200 bg-slate-50 text-left font-semibold text-slate-600 uppercase tracking-wider whitespace-nowrap">{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {model.coefficients.map(c => {
+                const isIntercept = c.variable === '(Intercept)';
+                return (
+                  <tr key={c.term}>
+                    <td className="p-3 border border-slate-200 font-bold text-slate-700 whitespace-nowrap">{c.term}</td>
+                    <td className="p-3 border border-slate-200 font-mono text-slate-500">{c.estimate.toFixed(3)}</td>
+                    <td className="p-3 border border-slate-200 font-mono text-slate-500">{c.se.toFixed(3)}</td>
+                    <td className="p-3 border border-slate-200 font-mono text-slate-500">{c.statistic.toFixed(2)}</td>
+                    <td className="p-3 border border-slate-200 font-mono font-bold text-slate-800">{isIntercept ? '' : c.oddsRatio.toFixed(2)}</td>
+                    <td className="p-3 border border-slate-200 font-mono text-slate-500 whitespace-nowrap">{isIntercept ? '' : formatCI(c.orLower, c.orUpper)}</td>
+                    <td className="p-3 border border-slate-200 font-mono text-slate-700 whitespace-nowrap">{formatP(c.p)} <span className="text-blue-600 font-black">{getSignificanceStars(c.p)}</span></td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+        {Object.keys(model.referenceLevels).length > 0 && (
+          <p className="text-[10px] font-bold text-slate-400">Reference categories: {Object.entries(model.referenceLevels).map(([v, level]) => `${v} = ${level}`).join('; ')}</p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-10">
+        <div className="bg-white p-8 rounded-[2rem] border border-slate-200 shadow-sm space-y-4">
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Predictor Tests</p>
+          <table className="w-full border-collapse text-xs">
+            <thead>
+              <tr>
+                {['Predictor', 'df', 'Wald χ²', 'p', 'LR χ²', 'p'].map((h, i) => (
+                  <th key={`${h}-${i}`} className="p-3 border border-slate-200 bg-slate-50 text-left font-semibold text-slate-600 uppercase tracking-wider whitespace-nowrap">{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {model.termTests.map(t => (
+                <tr key={t.variable}>
+                  <td className="p-3 border border-slate-200 font-bold text-slate-700">{t.variable}</td>
+                  <td className="p-3 border border-slate-200 font-mono text-slate-500">{t.df}</td>
+                  <td className="p-3 border border-slate-200 font-mono text-slate-500">{t.waldChiSquare.toFixed(2)}</td>
+                  <td className="p-3 border border-slate-200 font-mono text-slate-700">{formatP(t.waldP)}</td>
+                  <td className="p-3 border border-slate-200 font-mono text-slate-500">{t.lrChiSquare.toFixed(2)}</td>
+                  <td className="p-3 border border-slate-200 font-mono text-slate-700">{formatP(t.lrP)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="flex justify-between items-center text-xs p-3 bg-slate-50 rounded-xl border border-slate-100">
+            <span className="font-bold text-slate-700">Hosmer-Lemeshow</span>
+            <span className={`font-mono ${model.hosmerLemeshow.p < 0.05 ? 'text-amber-600' : 'text-slate-600'}`}>χ²({model.hosmerLemeshow.df}) = {model.hosmerLemeshow.statistic.toFixed(2)}, p = {formatP(model.hosmerLemeshow.p)}</span>
+          </div>
+          <div className="flex justify-between items-center text-xs p-3 bg-slate-50 rounded-xl border border-slate-100">
+            <span className="font-bold text-slate-700">Deviance (Null)</span>
+            <span className="font-mono text-slate-600">{model.deviance.toFixed(2)} ({model.nullDeviance.toFixed(2)})</span>
+          </div>
+        </div>
+
+        <div className="bg-white p-8 rounded-[2rem] border border-slate-200 shadow-sm">
+          <div className="flex items-center justify-between mb-4">
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">ROC Curve</p>
+            <p className="text-xs font-mono text-slate-600">AUC = {model.auc.estimate.toFixed(3)} {formatCI(model.auc.lower, model.auc.upper, 3)}</p>
+          </div>
+          <div className="h-[320px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={model.roc} margin={{ top: 10, right: 20, bottom: 20, left: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                <XAxis type="number" dataKey="fpr" domain={[0, 1]} name="1 - Specificity" tickFormatter={(v: number) => v.toFixed(1)} />
+                <YAxis type="number" dataKey="tpr" domain={[0, 1]} name="Sensitivity" tickFormatter={(v: number) => v.toFixed(1)} />
+                <Tooltip formatter={(v: number) => v.toFixed(3)} labelFormatter={(v: number) => `1 - Specificity: ${Number(v).toFixed(3)}`} />
+                <ReferenceLine segment={[{ x: 0, y: 0 }, { x: 1, y: 1 }]} stroke="#94a3b8" strokeDasharray="4 4" />
+                <Line type="linear" dataKey="tpr" name="Sensitivity" stroke="#3b82f6" strokeWidth={2} dot={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default LogisticRegressionResults;
@@ -0,0 +1,350 @@
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { Dataset, MissingCode } from '../types';
+import { MissingDataInput, MissingDataReport } from '../utils/missingData';
+import { isCancelledError, runComputeTask } from '../utils/computeClient';
+import { COMMON_MISSING_CODES, parseMissingCodes, toggleMissingCode } from '../utils/dataset';
+import { isCategoricalType, VARIABLE_TYPES } from '../utils/variableTypes';
+import { getSignificanceStars, toNumeric } from '../utils/statistics';
+import { withSubsetNote } from '../utils/filter';
+import AcademicDraft from './AcademicDraft';
+
+interface MissingDataPanelProps {
+  dataset: Dataset;
+  variableNames: string[];
+  /** Fraction done while new dataset-wide codes are being applied, otherwise null */
+  applyingProgress: number | null;
+  onDatasetMissingCodesChange: (codes: MissingCode[]) => void;
+  onVariableMissingCodesChange: (name: string, codes: MissingCode[]) => void;
+}
+
+const MAX_PATTERNS = 15;
+
+const formatP = (p: number) => (isNaN(p) ? 'N/A' : p < 0.001 ? '< .001' : p.toFixed(3));
+const formatPercent = (count: number, total: number) => (total > 0 ? `${((count / total) * 100).toFixed(1)}%` : '-');
+const formatNumber = (x: number | undefined) => (x === undefined || isNaN(x) ? '-' : x.toFixed(2));
+const codesToText = (codes: MissingCode[] | undefined) => (codes ?? []).join(', ');
+
+/**
+ * Text field for a comma-separated list of codes that commits on blur or Enter, so that every
+ * keystroke does not rebuild the variable
+ */
+const CodesInput: React.FC<{ codes: MissingCode[] | undefined; onCommit: (codes: MissingCode[]) => void }> = ({ codes, onCommit }) => {
+  const [text, setText] = useState(codesToText(codes));
+  useEffect(() => setText(codesToText(codes)), [codes]);
+
+  const commit = () => {
+    if (text.trim() !== codesToText(codes)) onCommit(parseMissingCodes(text));
+  };
+
+  return (
+    <input
+      type="text"
+      value={text}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => { if (e.key === 'Enter') commit(); }}
+      placeholder="none"
+      className="w-full p-2 bg-slate-50 border border-slate-200 rounded-xl outline-none font-mono text-xs focus:ring-2 focus:ring-blue-500 transition-all"
+    />
+  );
+};
+
+/**
+ * APA-style paragraph describing how much data is missing and the result of Little's test
+ */
+const buildMissingSummary = (report: MissingDataReport): string => {
+  const incomplete = report.rows - report.completeRows;
+  const withMissing = report.variables.filter((_, j) => report.missingCounts[j] > 0);
+  let text = `Of ${report.rows} records, ${report.completeRows} (${formatPercent(report.completeRows, report.rows)}) had complete data on the ${report.variables.length} variables analysed. `;
+  if (incomplete === 0) return text + 'No values were missing.';
+  text += `Missing values occurred in ${withMissing.length} variable${withMissing.length === 1 ? '' : 's'} (${withMissing.map(name => `${name}: ${formatPercent(report.missingCounts[report.variables.indexOf(name)], report.rows)}`).join(', ')}), forming ${report.patterns.length} distinct patterns. `;
+  if (report.mcar) {
+    const { statistic, df, p } = report.mcar;
+    const pText = p < 0.001 ? 'p < .001' : `p = ${p.toFixed(3)}`;
+    text += p < 0.05
+      ? `Little's MCAR test was significant, χ²(${df}) = ${statistic.toFixed(2)}, ${pText}, indicating that the data were not missing completely at random.`
+      : `Little's MCAR test was not significant, χ²(${df}) = ${statistic.toFixed(2)}, ${pText}, consistent with data missing completely at random.`;
+  }
+  return text;
+};
+
+/**
+ * Missing-value codes and the structure of missingness: per-variable counts, the most frequent
+ * patterns, which variables tend to be missing together, Little's MCAR test and how complete
+ * cases differ from incomplete ones.
+ */
+const MissingDataPanel: React.FC<MissingDataPanelProps> = ({ dataset, variableNames, applyingProgress, onDatasetMissingCodesChange, onVariableMissingCodesChange }) => {
+  const [datasetCodesText, setDatasetCodesText] = useState(codesToText(dataset.missingCodes));
+  const [report, setReport] = useState<MissingDataReport | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+
+  useEffect(() => setDatasetCodesText(codesToText(dataset.missingCodes)), [dataset.missingCodes]);
+
+  const variables = useMemo(
+    () => dataset.variables.filter(v => variableNames.includes(v.name) && v.type !== 'unknown'),
+    [dataset, variableNames]
+  );
+
+  useEffect(() => {
+    if (variables.length === 0) {
+      setReport(null);
+      setProgress(null);
+      return;
+    }
+    const inputs: MissingDataInput[] = variables.map(v =>
+      v.type === 'numerical'
+        ? { name: v.name, kind: 'numeric', values: Float64Array.from(v.values, toNumeric) }
+        : { name: v.name, kind: isCategoricalType(v.type) ? 'categorical' : 'other', values: v.values }
+    );
+
+    setProgress(0);
+    const task = runComputeTask('missingDataReport', { variables: inputs }, p => setProgress(p.fraction));
+    task.promise
+      .then(result => {
+        setReport(result);
+        setProgress(null);
+      })
+      .catch(err => {
+        if (isCancelledError(err)) return;
+        console.error('Failed to analyse missing data', err);
+        setProgress(null);
+      });
+    return task.cancel;
+  }, [variables]);
+
+  const pendingCodes = parseMissingCodes(datasetCodesText);
+  const codesChanged = codesToText(pendingCodes) !== codesToText(dataset.missingCodes);
+
+  // Only variables with something missing take part in the pattern matrix and heatmap
+  const missingIdx = report ? report.variables.map((_, j) => j).filter(j => report.missingCounts[j] > 0) : [];
+  const shownPatterns = report ? report.patterns.slice(0, MAX_PATTERNS) : [];
+  const summaryText = useMemo(() => (report ? buildMissingSummary(report) : ''), [report]);
+
+  return (
+    <div className="space-y-10">
+      <div className="bg-white p-8 rounded-[2rem] border border-slate-200 shadow-sm space-y-6">
+        <div className="flex flex-col md:flex-row md:items-end gap-4">
+          <div className="flex-1 space-y-2">
+            <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Dataset-Wide Missing Codes</label>
+            <input type="text" value={datasetCodesText} onChange={(e) => setDatasetCodesText(e.target.value)} placeholder="e.g. -99, NA, ." className="w-full p-4 bg-slate-50 border border-slate-200 rounded-2xl outline-none font-mono font-bold text-sm focus:ring-2 focus:ring-blue-500 transition-all" />
+          </div>
+          <button onClick={() => onDatasetMissingCodesChange(pendingCodes)} disabled={!codesChanged || applyingProgress !== null} className="px-6 py-4 bg-blue-600 text-white rounded-2xl text-xs font-black uppercase tracking-widest shadow-lg shadow-blue-500/20 hover:bg-blue-700 transition-all disabled:opacity-40 disabled:shadow-none">Apply</button>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {COMMON_MISSING_CODES.map(code => {
+            const active = pendingCodes.map(String).includes(code);
+            return (
+              <button key={code} onClick={() => setDatasetCodesText(toggleMissingCode(datasetCodesText, code))} className={`px-3 py-1 rounded-lg text-xs font-mono font-bold border transition-all ${active ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-500 border-slate-200 hover:border-blue-400'}`}>{code}</button>
+            );
+          })}
+        </div>
+        <p className="text-[10px] font-bold text-slate-400">Values matching these codes are treated as missing in every imported column; derived variables keep their computed values. Types detected automatically are re-detected; types set by hand are kept.</p>
+        {applyingProgress !== null && (
+          <div className="space-y-2">
+            <div className="flex justify-between text-xs font-bold text-blue-600"><span>Applying missing codes...</span><span>{Math.round(applyingProgress * 100)}%</span></div>
+            <div className="h-2 bg-blue-50 rounded-full overflow-hidden"><div className="h-full bg-blue-600 rounded-full transition-all" style={{ width: `${applyingProgress * 100}%` }}></div></div>
+          </div>
+        )}
+      </div>
+
+      {variables.length === 0 && (
+        <div className="bg-amber-50 p-10 rounded-[2rem] border border-amber-100 flex items-center space-x-4">
+          <AlertTriangle className="w-8 h-8 text-amber-500 shrink-0" />
+          <p className="text-amber-800 font-medium">Select at least one variable in the Manager to analyse its missing values.</p>
+        </div>
+      )}
+
+      {progress !== null && (
+        <div className="bg-white p-8 rounded-[2rem] border border-slate-200 shadow-sm space-y-2">
+          <div className="flex justify-between text-xs font-bold text-blue-600"><span>Analysing missing data...</span><span>{Math.round(progress * 100)}%</span></div>
+          <div className="h-2 bg-blue-50 rounded-full overflow-hidden"><div className="h-full bg-blue-600 rounded-full transition-all" style={{ width: `${progress * 100}%` }}></div></div>
+        </div>
+      )}
+
+      {report && variables.length > 0 && (
+        <>
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-6">
+            {[
+              { label: 'Records', value: String(report.rows) },
+              { label: 'Complete Cases', value: `${report.completeRows} (${formatPercent(report.completeRows, report.rows)})` },
+              { label: 'Variables With Missing', value: `${missingIdx.length} of ${report.variables.length}` },
+              { label: 'Cells Missing', value: formatPercent(report.missingCounts.reduce((a, b) => a + b, 0), report.rows * report.variables.length) }
+            ].map(tile => (
+              <div key={tile.label} className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm space-y-1">
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{tile.label}</p>
+                <p className="text-2xl font-black text-slate-900 tracking-tight">{tile.value}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="bg-white p-8 rounded-[2rem] border border-slate-200 shadow-sm space-y-4">
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Missing Values by Variable</p>
+            <div className="overflow-x-auto custom-scrollbar">
+              <table className="w-full border-collapse text-xs">
+                <thead>
+                  <tr>
+                    {['Variable', 'Type', 'Missing', '%', 'From Codes', 'Own Codes'].map(h => (
+                      <th key={h} className="p-3 border border-slate-200 bg-slate-50 text-left font-semibold text-slate-600 uppercase tracking-wider whitespace-nowrap">{h}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {variables.map((v, j) => (
+                    <tr key={v.name}>
+                      <td className="p-3 border border-slate-200 font-bold text-slate-700">{v.name}</td>
+                      <td className="p-3 border border-slate-200 text-slate-500">{VARIABLE_TYPES[v.type].label}</td>
+                      <td className="p-3 border border-slate-200 font-mono text-slate-600">{report.missingCounts[j]}</td>
+                      <td className="p-3 border border-slate-200 w-40">
+                        <div className="flex items-center space-x-2">
+                          <div className="flex-1 bg-slate-100 h-2 rounded-full overflow-hidden"><div className="h-full bg-red-400" style={{ width: formatPercent(report.missingCounts[j], report.rows) }}></div></div>
+                          <span className="font-mono text-slate-500 w-12 text-right">{formatPercent(report.missingCounts[j], report.rows)}</span>
+                        </div>
+                      </td>
+                      <td className="p-3 border border-slate-200 font-mono text-slate-500">{v.stats.codedMissing ?? 0}</td>
+                      <td className="p-3 border border-slate-200 min-w-[140px]"><CodesInput codes={v.missingCodes} onCommit={codes => onVariableMissingCodesChange(v.name, codes)} /></td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {missingIdx.length > 0 && (
+            <>
+              <div className="bg-white p-8 rounded-[2rem] border border-slate-200 shadow-sm space-y-4">
+                <div className="flex items-center justify-between">
+                  <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Missingness Patterns</p>
+                  <p className="text-[10px] font-bold text-slate-400">{report.patterns.length > MAX_PATTERNS ? `${MAX_PATTERNS} most frequent of ${report.patterns.length}` : `${report.patterns.length} patterns`}</p>
+                </div>
+                <div className="overflow-x-auto custom-scrollbar">
+                  <table className="border-collapse text-xs">
+                    <thead>
+                      <tr>
+                        <th className="p-2 border border-slate-200 bg-slate-50 text-left font-semibold text-slate-600 uppercase tracking-wider">Rows</th>
+                        <th className="p-2 border border-slate-200 bg-slate-50 text-left font-semibold text-slate-600 uppercase tracking-wider">%</th>
+                        {missingIdx.map(j => (
+                          <th key={j} className="p-2 border border-slate-200 bg-slate-50 font-semibold text-slate-600 max-w-[80px] truncate" title={report.variables[j]}>{report.variables[j]}</th>
+                        ))}
+                        <th className="p-2 border border-slate-200 bg-slate-50 text-left font-semibold text-slate-600 uppercase tracking-wider">Missing</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {shownPatterns.map((pattern, i) => (
+                        <tr key={i}>
+                          <td className="p-2 border border-slate-200 font-mono font-bold text-slate-700">{pattern.count}</td>
+                          <td className="p-2 border border-slate-200 font-mono text-slate-500">{formatPercent(pattern.count, report.rows)}</td>
+                          {missingIdx.map(j => (
+                            <td key={j} className={`p-2 border border-white min-w-[40px] ${pattern.missing[j] ? 'bg-red-400' : 'bg-blue-100'}`} title={`${report.variables[j]}: ${pattern.missing[j] ? 'missing' : 'observed'}`}></td>
+                          ))}
+                          <td className="p-2 border border-slate-200 font-mono text-slate-500">{pattern.missing.filter(Boolean).length}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                <p className="text-[10px] font-bold text-slate-400">Red = missing, blue = observed. Variables without missing values are omitted.</p>
+              </div>
+
+              {missingIdx.length > 1 && (
+                <div className="bg-white p-8 rounded-[2rem] border border-slate-200 shadow-sm space-y-4">
+                  <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Co-Missingness</p>
+                  <div className="overflow-x-auto custom-scrollbar">
+                    <table className="border-collapse text-xs">
+                      <thead>
+                        <tr>
+                          <th className="p-2 border border-slate-200 bg-slate-50"></th>
+                          {missingIdx.map(j => (
+                            <th key={j} className="p-2 border border-slate-200 bg-slate-50 font-semibold text-slate-600 max-w-[80px] truncate" title={report.variables[j]}>{report.variables[j]}</th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {missingIdx.map(a => (
+                          <tr key={a}>
+                            <th className="p-2 border border-slate-200 bg-slate-50 text-left font-semibold text-slate-600 whitespace-nowrap">{report.variables[a]}</th>
+                            {missingIdx.map(b => {
+                              const share = report.coMissing[a][b] / report.missingCounts[a];
+                              return (
+                                <td key={b} className="p-2 border border-white text-center font-mono min-w-[56px]" style={{ backgroundColor: `rgba(239, 68, 68, ${share * 0.85})`, color: share > 0.5 ? '#fff' : '#475569' }} title={`${report.coMissing[a][b]} of ${report.missingCounts[a]} rows missing ${report.variables[a]} also miss ${report.variables[b]}`}>
+                                  {a === b ? '-' : `${Math.round(share * 100)}%`}
+                                </td>
+                              );
+                            })}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  <p className="text-[10px] font-bold text-slate-400">Share of rows missing the row variable that also miss the column variable.</p>
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 lg:grid-cols-3 gap-10">
+                <div className="bg-white p-8 rounded-[2rem] border border-slate-200 shadow-sm space-y-4">
+                  <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Little's MCAR Test</p>
+                  {report.mcar ? (
+                    <>
+                      <p className="text-3xl font-black text-slate-900 tracking-tight">χ²({report.mcar.df}) = {report.mcar.statistic.toFixed(2)}<span className="text-blue-600">{getSignificanceStars(report.mcar.p)}</span></p>
+                      <p className="text-sm font-mono text-slate-600">p = {formatP(report.mcar.p)}</p>
+                      <p className="text-xs text-slate-500 font-medium">
+                        {report.mcar.p < 0.05
+                          ? 'Missingness depends on the data, so complete-case analysis may be biased. Consider multiple imputation.'
+                          : 'No evidence against data missing completely at random; complete-case analysis loses power but should not be biased.'}
+                      </p>
+                      <p className="text-[10px] font-bold text-slate-400">
+                        {report.mcar.variables.length} numerical variables, {report.mcar.patterns} patterns.
+                        {!report.mcar.converged && ` EM did not converge within ${report.mcar.iterations} iterations.`}
+                      </p>
+                    </>
+                  ) : (
+                    <p className="text-sm text-slate-500 font-medium">The test needs numerical variables with at least two missingness patterns and a non-singular covariance matrix.</p>
+                  )}
+                </div>
+
+                <div className="lg:col-span-2 bg-white p-8 rounded-[2rem] border border-slate-200 shadow-sm space-y-4">
+                  <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Complete vs Incomplete Cases</p>
+                  {report.comparisons.length > 0 ? (
+                    <table className="w-full border-collapse text-xs">
+                      <thead>
+                        <tr>
+                          {['Variable', 'Complete', 'Incomplete', 'Test', 'p'].map(h => (
+                            <th key={h} className="p-3 border border-slate-200 bg-slate-50 text-left font-semibold text-slate-600 uppercase tracking-wider whitespace-nowrap">{h}</th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {report.comparisons.map(c => {
+                          const describe = (group: typeof c.complete) => group.frequencies
+                            ? Object.entries(group.frequencies).sort((a, b) => b[1] - a[1]).slice(0, 3).map(([level, count]) => `${level} ${formatPercent(count, group.n)}`).join(', ')
+                            : `${formatNumber(group.mean)} (${formatNumber(group.sd)})`;
+                          return (
+                            <tr key={c.variable}>
+                              <td className="p-3 border border-slate-200 font-bold text-slate-700">{c.variable}</td>
+                              <td className="p-3 border border-slate-200 font-mono text-slate-500">{describe(c.complete)} <span className="text-slate-400">n={c.complete.n}</span></td>
+                              <td className="p-3 border border-slate-200 font-mono text-slate-500">{describe(c.incomplete)} <span className="text-slate-400">n={c.incomplete.n}</span></td>
+                              <td className="p-3 border border-slate-200 text-slate-500 whitespace-nowrap">{c.test}</td>
+                              <td className={`p-3 border border-slate-200 font-mono font-bold ${c.p < 0.05 ? 'text-red-600' : 'text-slate-700'}`}>{formatP(c.p)}</td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  ) : (
+                    <p className="text-sm text-slate-500 font-medium">At least two complete and two incomplete cases are needed to compare them.</p>
+                  )}
+                  <p className="text-[10px] font-bold text-slate-400">Numerical variables show mean (SD); categorical ones their most common levels. Each variable is compared on the rows where it is observed.</p>
+                </div>
+              </div>
+            </>
+          )}
+
+          <AcademicDraft text={withSubsetNote(summaryText, dataset)} />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MissingDataPanel;
@@ -0,0 +1,273 @@
+
+import React, { useMemo, useState } from 'react';
+import { ClipboardCheck, AlertTriangle } from 'lucide-react';
+import { ResponsiveContainer, ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine } from 'recharts';
+import { Dataset } from '../types';
+import { fitLinearRegression, fitLogisticRegression, LinearRegressionResult } from '../utils/regression';
+import { guessPositiveLevel } from '../utils/epi';
+import LogisticRegressionResults, { buildOddsRatioTableHtml } from './LogisticRegressionResults';
+import { describeSubset } from '../utils/filter';
+import { calculateQQPoints } from '../utils/assumptions';
+import { formatCI, getCategoryLevels, getSignificanceStars } from '../utils/statistics';
+import { copyHtmlToClipboard, escapeHtml, WORD_CELL_STYLE, WORD_HEADER_ROW_STYLE, WORD_NOTE_STYLE, WORD_TABLE_STYLE } from '../utils/clipboard';
+
+interface RegressionPanelProps {
+  dataset: Dataset;
+  variableNames: string[];
+  confLevel: number;
+  onConfLevelChange: (level: number) => void;
+}
+
+type ModelType = 'linear' | 'logistic';
+
+const MODEL_TYPES: Record<ModelType, string> = {
+  linear: 'Linear (OLS)',
+  logistic: 'Logistic (Binary)'
+};
+
+const formatP = (p: number) => (isNaN(p) ? 'N/A' : p < 0.001 ? '< .001' : p.toFixed(3));
+
+/**
+ * Builds the Word-pasteable coefficient table with an APA-style note
+ */
+const buildCoefficientTableHtml = (model: LinearRegressionResult, subsetNote = ''): string => {
+  const ciLabel = `${Math.round(model.confLevel * 100)}% CI`;
+  let html = `<table border="1" style="${WORD_TABLE_STYLE}">`;
+  html += `<tr style="${WORD_HEADER_ROW_STYLE}">`;
+  ['Predictor', 'B', 'SE', ciLabel, 't', 'p', 'VIF'].forEach(h => {
+    html += `<th style="${WORD_CELL_STYLE}">${h}</th>`;
+  });
+  html += `</tr>`;
+  model.coefficients.forEach(c => {
+    html += `<tr>`;
+    html += `<td style="${WORD_CELL_STYLE} font-weight: bold; background-color: #f8fafc;">${escapeHtml(c.term)}</td>`;
+    [c.estimate.toFixed(3), c.se.toFixed(3), formatCI(c.ciLower, c.ciUpper, 3), c.statistic.toFixed(2), `${formatP(c.p)}${getSignificanceStars(c.p)}`, c.vif === undefined ? '' : c.vif.toFixed(2)].forEach(val => {
+      html += `<td style="${WORD_CELL_STYLE} text-align: center;">${escapeHtml(val)}</td>`;
+    });
+    html += `</tr>`;
+  });
+  html += `</table>`;
+  const references = Object.entries(model.referenceLevels).map(([v, level]) => `${v} = ${level}`).join('; ');
+  html += `<p style="${WORD_NOTE_STYLE}"><i>Note.</i> Outcome: ${escapeHtml(model.outcome)}. N = ${model.n}. R² = ${model.rSquared.toFixed(3)}, adjusted R² = ${model.adjRSquared.toFixed(3)}, F(${model.dfModel}, ${model.dfResidual}) = ${model.fStatistic.toFixed(2)}, p ${model.fP < 0.001 ? '&lt; .001' : `= ${model.fP.toFixed(3)}`}.`;
+  if (references) html += ` Reference categories: ${escapeHtml(references)}.`;
+  if (subsetNote) html += ` ${escapeHtml(subsetNote)}`;
+  html += ` * p &lt; .05, ** p &lt; .01, *** p &lt; .001.</p>`;
+  return html;
+};
+
+const RegressionPanel: React.FC<RegressionPanelProps> = ({ dataset, variableNames, confLevel, onConfLevelChange }) => {
+  const [modelType, setModelType] = useState<ModelType>('linear');
+  const [outcome, setOutcome] = useState<string>('');
+  const [eventLevel, setEventLevel] = useState<string>('');
+  const [predictors, setPredictors] = useState<string[]>([]);
+  const [referenceLevels, setReferenceLevels] = useState<Record<string, string>>({});
+
+  // Linear models need a numerical outcome; logistic models accept any variable and dichotomise it
+  const outcomeOptions = modelType === 'linear'
+    ? dataset.numericalVariables.filter(v => variableNames.includes(v))
+    : dataset.variables.filter(v => variableNames.includes(v.name)).map(v => v.name);
+  const activeOutcome = outcomeOptions.includes(outcome) ? outcome : (outcomeOptions[0] ?? '');
+  const outcomeLevels = useMemo(
+    () => (modelType === 'logistic' && activeOutcome ? getCategoryLevels(dataset.data.map(row => row[activeOutcome])) : []),
+    [dataset, modelType, activeOutcome]
+  );
+  const activeEventLevel = outcomeLevels.includes(eventLevel) ? eventLevel : guessPositiveLevel(outcomeLevels);
+  const predictorOptions = variableNames.filter(v => v !== activeOutcome && (dataset.numericalVariables.includes(v) || dataset.categoricalVariables.includes(v)));
+  const activePredictors = predictors.filter(v => predictorOptions.includes(v));
+  const categoricalPredictors = activePredictors.filter(v => dataset.categoricalVariables.includes(v));
+
+  const model = useMemo(() => {
+    if (modelType !== 'linear' || !activeOutcome || activePredictors.length === 0) return null;
+    return fitLinearRegression(dataset.data, activeOutcome, activePredictors, dataset.categoricalVariables, { referenceLevels, confLevel });
+  }, [dataset, modelType, activeOutcome, predictors, variableNames, referenceLevels, confLevel]);
+
+  const logisticModel = useMemo(() => {
+    if (modelType !== 'logistic' || !activeOutcome || !activeEventLevel || activePredictors.length === 0) return null;
+    return fitLogisticRegression(dataset.data, activeOutcome, activeEventLevel, activePredictors, dataset.categoricalVariables, { referenceLevels, confLevel });
+  }, [dataset, modelType, activeOutcome, activeEventLevel, predictors, variableNames, referenceLevels, confLevel]);
+
+  const fittedModel = modelType === 'linear' ? model : logisticModel;
+
+  const residualData = useMemo(() => model ? model.fitted.map((fitted, i) => ({ fitted, residual: model.residuals[i] })) : [], [model]);
+  const qqData = useMemo(() => model ? calculateQQPoints(model.standardizedResiduals) : [], [model]);
+  const qqRange = qqData.length ? [Math.min(qqData[0].theoretical, qqData[0].sample), Math.max(qqData[qqData.length - 1].theoretical, qqData[qqData.length - 1].sample)] : [0, 0];
+
+  const togglePredictor = (name: string) => {
+    setPredictors(activePredictors.includes(name) ? activePredictors.filter(v => v !== name) : [...activePredictors, name]);
+  };
+
+  const handleCopy = async () => {
+    const subsetNote = describeSubset(dataset);
+    const html = model ? buildCoefficientTableHtml(model, subsetNote) : logisticModel ? buildOddsRatioTableHtml(logisticModel, subsetNote) : null;
+    if (!html) return;
+    const copied = await copyHtmlToClipboard(html);
+    alert(copied ? 'Table copied! You can now paste directly into Microsoft Word.' : 'Table copied using fallback. You can now paste into Word.');
+  };
+
+  const ciLabel = `${Math.round(confLevel * 100)}% CI`;
+
+  return (
+    <div className="space-y-10">
+      <div className="bg-white p-8 rounded-[2.5rem] border border-slate-200 shadow-sm space-y-8">
+        <div className="flex items-center space-x-1 bg-slate-50 rounded-2xl p-1.5 border border-slate-100 w-fit">
+          {(Object.keys(MODEL_TYPES) as ModelType[]).map(type => (
+            <button key={type} onClick={() => setModelType(type)} className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${modelType === type ? 'bg-white text-blue-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}>{MODEL_TYPES[type]}</button>
+          ))}
+        </div>
+        <div className="flex flex-col md:flex-row gap-6 items-end">
+          <div className="flex-1 space-y-2">
+            <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">{modelType === 'linear' ? 'Outcome (Numerical)' : 'Outcome (Binary)'}</label>
+            <select value={activeOutcome} onChange={(e) => setOutcome(e.target.value)} className="w-full p-4 bg-slate-50 border border-slate-200 rounded-2xl outline-none font-bold appearance-none transition-all focus:ring-4 focus:ring-blue-50 cursor-pointer">
+              {outcomeOptions.map(v => <option key={v} value={v}>{v}</option>)}
+            </select>
+          </div>
+          {modelType === 'logistic' && (
+            <div className="flex-1 space-y-2">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Event Level</label>
+              <select value={activeEventLevel} onChange={(e) => setEventLevel(e.target.value)} className="w-full p-4 bg-slate-50 border border-slate-200 rounded-2xl outline-none font-bold appearance-none transition-all focus:ring-4 focus:ring-blue-50 cursor-pointer">
+                {outcomeLevels.map(level => <option key={level} value={level}>{level}</option>)}
+              </select>
+            </div>
+          )}
+          <div className="space-y-2">
+            <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Confidence Level</label>
+            <select value={confLevel} onChange={(e) => onConfLevelChange(Number(e.target.value))} className="p-4 bg-slate-50 border border-slate-200 rounded-2xl outline-none font-bold cursor-pointer h-[56px]">
+              {[0.9, 0.95, 0.99].map(level => <option key={level} value={level}>{Math.round(level * 100)}%</option>)}
+            </select>
+          </div>
+          <button onClick={handleCopy} disabled={!fittedModel} className="flex items-center space-x-3 px-6 py-4 bg-indigo-50 text-indigo-700 rounded-2xl hover:bg-indigo-100 shadow-sm text-sm font-black transition-all active:scale-95 border border-indigo-100 h-[56px] disabled:opacity-50"><ClipboardCheck className="w-4 h-4" /><span>Copy Table for Word</span></button>
+        </div>
+
+        <div className="space-y-3">
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Predictors</p>
+          <div className="flex flex-wrap gap-2">
+            {predictorOptions.map(v => {
+              const active = activePredictors.includes(v);
+              return (
+                <button key={v} onClick={() => togglePredictor(v)} className={`px-4 py-2 rounded-xl text-xs font-bold border transition-all ${active ? 'bg-blue-600 text-white border-blue-600 shadow-sm' : 'bg-white text-slate-600 border-slate-200 hover:border-blue-400'}`}>
+                  {v} <span className={active ? 'text-blue-100' : 'text-slate-400'}>({dataset.categoricalVariables.includes(v) ? 'categorical' : 'numerical'})</span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        {categoricalPredictors.length > 0 && (
+          <div className="space-y-3">
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Reference Levels</p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {categoricalPredictors.map(v => {
+                const levels = getCategoryLevels(dataset.data.map(row => row[v]));
+                return (
+                  <div key={v} className="flex items-center justify-between text-xs p-3 bg-slate-50 rounded-xl border border-slate-100">
+                    <span className="font-bold text-slate-700 truncate pr-2" title={v}>{v}</span>
+                    <select value={fittedModel?.referenceLevels[v] ?? referenceLevels[v] ?? levels[0]} onChange={(e) => setReferenceLevels({ ...referenceLevels, [v]: e.target.value })} className="px-3 py-1.5 bg-white border border-slate-200 rounded-xl text-[10px] font-black text-slate-700 outline-none cursor-pointer">
+                      {levels.map(level => <option key={level} value={level}>{level}</option>)}
+                    </select>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {activePredictors.length > 0 && !fittedModel && (
+        <div className="bg-amber-50 p-10 rounded-[2rem] border border-amber-100 flex items-center space-x-4">
+          <AlertTriangle className="w-8 h-8 text-amber-500 shrink-0" />
+          <p className="text-amber-800 font-medium">The model could not be estimated. Check that there are more complete cases than coefficients, that no predictor is a perfect combination of others{modelType === 'logistic' ? ' and that both outcome groups are present' : ''}.</p>
+        </div>
+      )}
+
+      {model && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-6">
+            {[
+              { label: 'N', value: String(model.n) },
+              { label: 'R²', value: model.rSquared.toFixed(3) },
+              { label: 'Adjusted R²', value: model.adjRSquared.toFixed(3) },
+              { label: `F(${model.dfModel}, ${model.dfResidual})`, value: `${model.fStatistic.toFixed(2)}${getSignificanceStars(model.fP)}` },
+              { label: 'Residual SE', value: model.residualSE.toFixed(3) }
+            ].map(card => (
+              <div key={card.label} className="bg-white p-6 rounded-[2rem] border border-slate-200 shadow-sm">
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">{card.label}</p>
+                <p className="text-2xl font-black text-slate-900 tracking-tight">{card.value}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="bg-white p-8 rounded-[2rem] border border-slate-200 shadow-sm space-y-4">
+            <div className="flex items-center justify-between">
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Coefficients: {model.outcome}</p>
+              <p className="text-[10px] font-bold text-slate-400">Overall model p = {formatP(model.fP)}{model.excluded > 0 ? ` · ${model.excluded} incomplete rows excluded` : ''}</p>
+            </div>
+            <div className="overflow-x-auto custom-scrollbar">
+              <table className="w-full border-collapse text-xs">
+                <thead>
+                  <tr>
+                    {['Predictor', 'B', 'SE', ciLabel, 't', 'p', 'VIF'].map(h => (
+                      <th key={h} className="p-3 border border-slate-200 bg-slate-50 text-left font-semibold text-slate-600 uppercase tracking-wider whitespace-nowrap">{h}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {model.coefficients.map(c => (
+                    <tr key={c.term}>
+                      <td className="p-3 border border-slate-200 font-bold text-slate-700 whitespace-nowrap">{c.term}</td>
+                      <td className="p-3 border border-slate-200 font-mono text-slate-700">{c.estimate.toFixed(3)}</td>
+                      <td className="p-3 border border-slate-200 font-mono text-slate-500">{c.se.toFixed(3)}</td>
+                      <td className="p-3 border border-slate-200 font-mono text-slate-500 whitespace-nowrap">{formatCI(c.ciLower, c.ciUpper, 3)}</td>
+                      <td className="p-3 border border-slate-200 font-mono text-slate-500">{c.statistic.toFixed(2)}</td>
+                      <td className="p-3 border border-slate-200 font-mono text-slate-700 whitespace-nowrap">{formatP(c.p)} <span className="text-blue-600 font-black">{getSignificanceStars(c.p)}</span></td>
+                      <td className={`p-3 border border-slate-200 font-mono ${c.vif !== undefined && c.vif > 5 ? 'text-amber-600 font-bold' : 'text-slate-500'}`}>{c.vif === undefined ? '' : c.vif.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {Object.keys(model.referenceLevels).length > 0 && (
+              <p className="text-[10px] font-bold text-slate-400">Reference categories: {Object.entries(model.referenceLevels).map(([v, level]) => `${v} = ${level}`).join('; ')}</p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-10">
+            <div className="bg-white p-8 rounded-[2rem] border border-slate-200 shadow-sm">
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-4">Residuals vs Fitted</p>
+              <div className="h-[320px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ScatterChart margin={{ top: 10, right: 20, bottom: 20, left: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                    <XAxis type="number" dataKey="fitted" name="Fitted" tickFormatter={(v: number) => v.toFixed(1)} />
+                    <YAxis type="number" dataKey="residual" name="Residual" tickFormatter={(v: number) => v.toFixed(1)} />
+                    <Tooltip formatter={(v: number) => v.toFixed(3)} />
+                    <ReferenceLine y={0} stroke="#ef4444" strokeDasharray="4 4" />
+                    <Scatter data={residualData} fill="#3b82f6" fillOpacity={0.5} />
+                  </ScatterChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+            <div className="bg-white p-8 rounded-[2rem] border border-slate-200 shadow-sm">
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-4">Normal Q-Q (Standardized Residuals)</p>
+              <div className="h-[320px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ScatterChart margin={{ top: 10, right: 20, bottom: 20, left: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                    <XAxis type="number" dataKey="theoretical" name="Theoretical" tickFormatter={(v: number) => v.toFixed(1)} />
+                    <YAxis type="number" dataKey="sample" name="Sample" tickFormatter={(v: number) => v.toFixed(1)} />
+                    <Tooltip formatter={(v: number) => v.toFixed(3)} />
+                    <ReferenceLine segment={[{ x: qqRange[0], y: qqRange[0] }, { x: qqRange[1], y: qqRange[1] }]} stroke="#ef4444" strokeDasharray="4 4" />
+                    <Scatter data={qqData} fill="#10b981" fillOpacity={0.5} />
+                  </ScatterChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+
+      {logisticModel && <LogisticRegressionResults model={logisticModel} />}
+    </div>
+  );
+};
+
+export default RegressionPanel;
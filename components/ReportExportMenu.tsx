@@ -0,0 +1,66 @@
+
+import React, { useState } from 'react';
+import { ChevronDown, FileArchive, FileDown, FileSpreadsheet, FileText } from 'lucide-react';
+import { buildReportCsvZip, buildReportHtml, buildReportWorkbook, ReportSection } from '../utils/report';
+import { downloadFile } from '../utils/download';
+
+interface ReportExportMenuProps {
+  /** Built on demand so the report reflects the moment of export */
+  getSections: () => ReportSection[];
+  filename: string;
+}
+
+type ReportFormat = 'xlsx' | 'csv' | 'word';
+
+const REPORT_FORMATS: Record<ReportFormat, { label: string; description: string; icon: React.ElementType }> = {
+  xlsx: { label: 'Excel Workbook', description: 'One sheet per section (.xlsx)', icon: FileSpreadsheet },
+  csv: { label: 'CSV Bundle', description: 'One CSV file per section, zipped (.zip)', icon: FileArchive },
+  word: { label: 'Word Document', description: 'Editable tables in an HTML document Word opens (.doc)', icon: FileText }
+};
+
+/**
+ * Header button that exports the descriptive and univariate report in a chosen format
+ */
+const ReportExportMenu: React.FC<ReportExportMenuProps> = ({ getSections, filename }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const base = filename.replace(/\.[^.]+$/, '') || 'dataset';
+
+  const handleExport = (format: ReportFormat) => {
+    setIsOpen(false);
+    const sections = getSections();
+    if (format === 'xlsx') {
+      downloadFile(buildReportWorkbook(sections), `${base}_report.xlsx`, 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    } else if (format === 'csv') {
+      downloadFile(buildReportCsvZip(sections), `${base}_report_csv.zip`, 'application/zip');
+    } else {
+      downloadFile(buildReportHtml(sections, `Descriptive Report: ${filename}`), `${base}_report.doc`, 'application/msword');
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button onClick={() => setIsOpen(!isOpen)} className="flex items-center space-x-2 px-4 py-2 bg-white border border-slate-200 rounded-xl text-xs font-black text-slate-700 hover:border-blue-400 hover:bg-blue-50 transition-all shadow-sm"><FileDown className="w-4 h-4" /><span>Export Report</span><ChevronDown className="w-3.5 h-3.5" /></button>
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 mt-2 w-72 bg-white border border-slate-200 rounded-2xl shadow-xl z-50 p-2">
+            {(Object.keys(REPORT_FORMATS) as ReportFormat[]).map(format => {
+              const { label, description, icon: Icon } = REPORT_FORMATS[format];
+              return (
+                <button key={format} onClick={() => handleExport(format)} className="w-full flex items-start space-x-3 px-3 py-2.5 rounded-xl text-left hover:bg-blue-50 transition-colors">
+                  <Icon className="w-4 h-4 mt-0.5 text-blue-600 shrink-0" />
+                  <span>
+                    <span className="block text-xs font-black text-slate-800">{label}</span>
+                    <span className="block text-[11px] font-medium text-slate-500">{description}</span>
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ReportExportMenu;
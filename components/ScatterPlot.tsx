@@ -0,0 +1,259 @@
+
+import React, { useMemo, useState } from 'react';
+import { ResponsiveContainer, ComposedChart, Scatter, Line, Area, XAxis, YAxis, ZAxis, CartesianGrid, Tooltip } from 'recharts';
+import { Dataset } from '../types';
+import { getCategoryLevels, isMissingValue, toNumeric } from '../utils/statistics';
+import { CurvePoint, fitSimpleLinear, loessSmooth, SimpleLinearFit } from '../utils/smoothing';
+import { formatTick } from '../utils/ticks';
+
+interface ScatterPlotProps {
+  dataset: Dataset;
+  xVar: string;
+  yVar: string;
+  confLevel: number;
+}
+
+type GroupMode = 'colour' | 'facet';
+
+interface PlotPoint {
+  /** Plotted position, including any jitter */
+  x: number;
+  y: number;
+  rawX: number;
+  rawY: number;
+  group: string;
+  ids: [string, string][];
+}
+
+interface SeriesFit {
+  group: string;
+  color: string;
+  points: PlotPoint[];
+  fit: SimpleLinearFit | null;
+  loess: CurvePoint[];
+}
+
+const GROUP_COLORS = ['#3b82f6', '#ef4444', '#10b981', '#f59e0b', '#8b5cf6', '#06b6d4', '#ec4899', '#64748b'];
+const ALL_GROUP = 'All observations';
+
+/** Variables with at most this many distinct values are treated as discrete and can be jittered */
+const MAX_DISCRETE_VALUES = 15;
+
+const formatP = (p: number) => (isNaN(p) ? 'N/A' : p < 0.001 ? '< .001' : p.toFixed(3));
+
+/** Repeatable noise in [-0.5, 0.5) so jittered points stay put between renders */
+const noise = (i: number, salt: number) => {
+  const s = Math.sin(i * 12.9898 + salt * 78.233) * 43758.5453;
+  return s - Math.floor(s) - 0.5;
+};
+
+/**
+ * Smallest gap between adjacent distinct values, or null when the values are not discrete
+ */
+const discreteGap = (values: number[]): number | null => {
+  const distinct = Array.from(new Set(values)).sort((a, b) => a - b);
+  if (distinct.length < 2 || distinct.length > MAX_DISCRETE_VALUES) return null;
+  let gap = Infinity;
+  for (let i = 1; i < distinct.length; i++) gap = Math.min(gap, distinct[i] - distinct[i - 1]);
+  return gap;
+};
+
+const PointTooltip: React.FC<{ active?: boolean; payload?: any[]; xVar: string; yVar: string; groupVar: string }> = ({ active, payload, xVar, yVar, groupVar }) => {
+  const point: PlotPoint | undefined = payload?.[0]?.payload;
+  if (!active || !point || point.rawX === undefined) return null;
+  return (
+    <div className="bg-white/95 backdrop-blur-md px-4 py-3 rounded-xl border border-slate-200 shadow-xl text-xs space-y-1">
+      {point.ids.map(([name, value]) => <p key={name} className="font-black text-slate-900">{name}: {value}</p>)}
+      <p className="text-slate-600"><span className="font-bold">{xVar}:</span> {point.rawX}</p>
+      <p className="text-slate-600"><span className="font-bold">{yVar}:</span> {point.rawY}</p>
+      {groupVar && <p className="text-slate-600"><span className="font-bold">{groupVar}:</span> {point.group}</p>}
+    </div>
+  );
+};
+
+const ToggleButton: React.FC<{ active: boolean; onClick: () => void; children: React.ReactNode }> = ({ active, onClick, children }) => (
+  <button onClick={onClick} className={`px-4 py-2 rounded-xl text-xs font-bold border transition-all ${active ? 'bg-blue-600 text-white border-blue-600 shadow-sm' : 'bg-white text-slate-600 border-slate-200 hover:border-blue-400'}`}>{children}</button>
+);
+
+/**
+ * Scatter plot of two numerical variables with an OLS line and confidence band, an optional
+ * LOESS smoother, colouring or faceting by a categorical variable with a fit per group, jitter
+ * for discrete values and log-scale axes. Lines are fitted on the plotted (log) scale.
+ */
+const ScatterPlot: React.FC<ScatterPlotProps> = ({ dataset, xVar, yVar, confLevel }) => {
+  const [showFit, setShowFit] = useState(true);
+  const [showLoess, setShowLoess] = useState(false);
+  const [groupVar, setGroupVar] = useState('');
+  const [groupMode, setGroupMode] = useState<GroupMode>('colour');
+  const [jitter, setJitter] = useState(false);
+  const [logX, setLogX] = useState(false);
+  const [logY, setLogY] = useState(false);
+
+  const groupOptions = useMemo(
+    () => dataset.categoricalVariables.filter(name => {
+      if (name === xVar || name === yVar) return false;
+      const levels = getCategoryLevels(dataset.variables.find(v => v.name === name)!.values).length;
+      return levels >= 2 && levels <= GROUP_COLORS.length;
+    }),
+    [dataset, xVar, yVar]
+  );
+  const activeGroupVar = groupOptions.includes(groupVar) ? groupVar : '';
+
+  const { series, excludedByLog, jittered } = useMemo(() => {
+    const byName = new Map(dataset.variables.map(v => [v.name, v]));
+    const xValues = byName.get(xVar)?.values ?? [];
+    const yValues = byName.get(yVar)?.values ?? [];
+    const groupVariable = activeGroupVar ? byName.get(activeGroupVar) : undefined;
+    const idVariables = dataset.variables.filter(v => v.type === 'id');
+
+    const toPlotX = logX ? Math.log10 : (v: number) => v;
+    const toPlotY = logY ? Math.log10 : (v: number) => v;
+    const fromPlotX = logX ? (v: number) => 10 ** v : (v: number) => v;
+    const fromPlotY = logY ? (v: number) => 10 ** v : (v: number) => v;
+
+    let excludedByLog = 0;
+    const rows: number[] = [];
+    xValues.forEach((xv, i) => {
+      const x = toNumeric(xv);
+      const y = toNumeric(yValues[i]);
+      if (isNaN(x) || isNaN(y) || (groupVariable && isMissingValue(groupVariable.values[i]))) return;
+      if ((logX && x <= 0) || (logY && y <= 0)) {
+        excludedByLog++;
+        return;
+      }
+      rows.push(i);
+    });
+
+    // Fits and jitter work on the plotted scale; positions are mapped back for the log axes
+    const tx = rows.map(i => toPlotX(toNumeric(xValues[i])));
+    const ty = rows.map(i => toPlotY(toNumeric(yValues[i])));
+    const gapX = jitter ? discreteGap(tx) : null;
+    const gapY = jitter ? discreteGap(ty) : null;
+
+    const points: PlotPoint[] = rows.map((i, k) => ({
+      x: fromPlotX(gapX ? tx[k] + noise(i, 1) * gapX * 0.6 : tx[k]),
+      y: fromPlotY(gapY ? ty[k] + noise(i, 2) * gapY * 0.6 : ty[k]),
+      rawX: toNumeric(xValues[i]),
+      rawY: toNumeric(yValues[i]),
+      group: groupVariable ? String(groupVariable.values[i]) : ALL_GROUP,
+      ids: idVariables.map(v => [v.name, isMissingValue(v.values[i]) ? '-' : String(v.values[i])] as [string, string])
+    }));
+
+    const levels = groupVariable ? (groupVariable.levels ?? getCategoryLevels(groupVariable.values)) : [ALL_GROUP];
+    const series: SeriesFit[] = levels.map((group, g) => {
+      const idx = points.map((p, k) => (p.group === group ? k : -1)).filter(k => k !== -1);
+      const gx = idx.map(k => tx[k]);
+      const gy = idx.map(k => ty[k]);
+      const fit = fitSimpleLinear(gx, gy, confLevel);
+      const back = (c: CurvePoint): CurvePoint => ({
+        x: fromPlotX(c.x),
+        y: fromPlotY(c.y),
+        band: c.band ? [fromPlotY(c.band[0]), fromPlotY(c.band[1])] : undefined
+      });
+      return {
+        group,
+        color: groupVariable ? GROUP_COLORS[g % GROUP_COLORS.length] : '#3b82f6',
+        points: idx.map(k => points[k]),
+        fit: fit && { ...fit, curve: fit.curve.map(back) },
+        loess: showLoess ? loessSmooth(gx, gy).map(back) : []
+      };
+    }).filter(s => s.points.length > 0);
+
+    return { series, excludedByLog, jittered: !!(gapX || gapY) };
+  }, [dataset, xVar, yVar, activeGroupVar, logX, logY, jitter, showLoess, confLevel]);
+
+  const ciLabel = `${Math.round(confLevel * 100)}% CI`;
+  const notes: string[] = [];
+  if (logX || logY) notes.push(`Fits use ${[logX && xVar, logY && yVar].filter(Boolean).map(v => `log10(${v})`).join(' and ')}.`);
+  if (showLoess) notes.push('Dashed lines: LOESS smoother (span 0.75).');
+  if (excludedByLog > 0) notes.push(`${excludedByLog} non-positive values omitted from the log scale.`);
+  if (jitter) notes.push(jittered ? 'Discrete values are jittered; tooltips show the recorded values.' : 'Neither variable is discrete enough to jitter.');
+  const facets = activeGroupVar && groupMode === 'facet' ? series.map(s => [s]) : [series];
+
+  const renderChart = (shown: SeriesFit[], height: number, marginTop: number) => (
+    <div style={{ height }} className="w-full">
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart margin={{ top: marginTop, right: 20, bottom: 40, left: 20 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+          <XAxis type="number" dataKey="x" name={xVar} scale={logX ? 'log' : 'auto'} domain={['auto', 'auto']} tickFormatter={formatTick} allowDuplicatedCategory={false} label={{ value: xVar, position: 'insideBottom', offset: -10, fontSize: 12 }} />
+          <YAxis type="number" dataKey="y" name={yVar} scale={logY ? 'log' : 'auto'} domain={['auto', 'auto']} tickFormatter={formatTick} label={{ value: yVar, angle: -90, position: 'insideLeft', fontSize: 12 }} />
+          <ZAxis type="number" range={[60, 60]} />
+          <Tooltip shared={false} content={<PointTooltip xVar={xVar} yVar={yVar} groupVar={activeGroupVar} />} />
+          {showFit && shown.map(s => s.fit && (
+            <Area key={`band-${s.group}`} data={s.fit.curve} dataKey="band" type="monotone" stroke="none" fill={s.color} fillOpacity={0.12} legendType="none" name={`${s.group} ${ciLabel}`} isAnimationActive={false} />
+          ))}
+          {shown.map(s => (
+            <Scatter key={`points-${s.group}`} name={s.group} data={s.points} fill={s.color} fillOpacity={0.4} stroke={s.color} strokeWidth={1} isAnimationActive={false} />
+          ))}
+          {showFit && shown.map(s => s.fit && (
+            <Line key={`fit-${s.group}`} data={s.fit.curve} dataKey="y" type="linear" stroke={s.color} strokeWidth={2} dot={false} activeDot={false} name={`${s.group} OLS fit`} isAnimationActive={false} />
+          ))}
+          {showLoess && shown.map(s => (
+            <Line key={`loess-${s.group}`} data={s.loess} dataKey="y" type="monotone" stroke={s.color} strokeWidth={2} strokeDasharray="6 4" dot={false} activeDot={false} name={`${s.group} LOESS`} isAnimationActive={false} />
+          ))}
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      {facets.length === 1 ? renderChart(facets[0], 480, 120) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 pt-28">
+          {facets.map(([s]) => (
+            <div key={s.group} className="bg-white rounded-2xl border border-slate-200 p-2">
+              <p className="text-[10px] font-black uppercase tracking-widest px-3 pt-2" style={{ color: s.color }}>{activeGroupVar} = {s.group}</p>
+              {renderChart([s], 260, 10)}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <ToggleButton active={showFit} onClick={() => setShowFit(!showFit)}>OLS fit + {ciLabel}</ToggleButton>
+        <ToggleButton active={showLoess} onClick={() => setShowLoess(!showLoess)}>LOESS</ToggleButton>
+        <ToggleButton active={jitter} onClick={() => setJitter(!jitter)}>Jitter</ToggleButton>
+        <ToggleButton active={logX} onClick={() => setLogX(!logX)}>Log X</ToggleButton>
+        <ToggleButton active={logY} onClick={() => setLogY(!logY)}>Log Y</ToggleButton>
+        <select value={activeGroupVar} onChange={(e) => setGroupVar(e.target.value)} className="px-3 py-2 bg-white border border-slate-200 rounded-xl text-xs font-bold text-slate-700 outline-none cursor-pointer">
+          <option value="">No grouping</option>
+          {groupOptions.map(v => <option key={v} value={v}>Group by {v}</option>)}
+        </select>
+        {activeGroupVar && (
+          <div className="flex items-center space-x-1 bg-slate-100 rounded-xl p-1">
+            {(['colour', 'facet'] as GroupMode[]).map(mode => (
+              <button key={mode} onClick={() => setGroupMode(mode)} className={`px-3 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${groupMode === mode ? 'bg-white text-blue-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}>{mode === 'colour' ? 'Colour' : 'Facets'}</button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {(activeGroupVar || showLoess) && (
+        <div className="overflow-x-auto custom-scrollbar">
+          <table className="w-full border-collapse text-xs">
+            <thead>
+              <tr>
+                {['Group', 'n', 'Pearson r', 'p', 'Slope'].map(h => <th key={h} className="p-2 border border-slate-200 bg-slate-50 text-center font-semibold text-slate-600 uppercase tracking-wider">{h}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {series.map(s => (
+                <tr key={s.group}>
+                  <td className="p-2 border border-slate-200 font-bold whitespace-nowrap" style={{ color: s.color }}>{s.group}</td>
+                  <td className="p-2 border border-slate-200 text-center font-mono text-slate-600">{s.points.length}</td>
+                  <td className="p-2 border border-slate-200 text-center font-mono text-slate-600">{s.fit ? s.fit.r.toFixed(3) : '-'}</td>
+                  <td className="p-2 border border-slate-200 text-center font-mono text-slate-600">{s.fit ? formatP(s.fit.p) : '-'}</td>
+                  <td className="p-2 border border-slate-200 text-center font-mono text-slate-600">{s.fit ? s.fit.slope.toFixed(3) : '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {notes.length > 0 && <p className="text-[10px] font-bold text-slate-400">{notes.join(' ')}</p>}
+    </div>
+  );
+};
+
+export default ScatterPlot;
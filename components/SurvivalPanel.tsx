@@ -0,0 +1,259 @@
+
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { ResponsiveContainer, ComposedChart, Line, Area, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from 'recharts';
+import { Dataset } from '../types';
+import { calculateSurvival, KaplanMeierCurve, numberAtRisk, SurvivalAnalysisResult } from '../utils/survival';
+import { guessPositiveLevel } from '../utils/epi';
+import { getCategoryLevels, getSignificanceStars } from '../utils/statistics';
+import { withSubsetNote } from '../utils/filter';
+import AcademicDraft from './AcademicDraft';
+
+interface SurvivalPanelProps {
+  dataset: Dataset;
+  variableNames: string[];
+  confLevel: number;
+  onConfLevelChange: (level: number) => void;
+}
+
+const CURVE_COLORS = ['#3b82f6', '#ef4444', '#10b981', '#f59e0b', '#8b5cf6', '#06b6d4', '#ec4899', '#64748b'];
+
+const formatP = (p: number) => (isNaN(p) ? 'N/A' : p < 0.001 ? '< .001' : p.toFixed(3));
+const formatTime = (t: number) => (isNaN(t) ? 'NR' : Number.isInteger(t) ? String(t) : t.toFixed(2));
+
+/**
+ * Evenly spaced "nice" time points from 0 to maxTime, shared by the x-axis and the risk table
+ */
+const getTimeTicks = (maxTime: number, count = 5): number[] => {
+  if (!(maxTime > 0)) return [0];
+  const raw = maxTime / count;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+  const step = ([1, 2, 2.5, 5, 10].find(m => m * magnitude >= raw) ?? 10) * magnitude;
+  const ticks: number[] = [];
+  for (let t = 0; t <= maxTime + step * 1e-9; t += step) ticks.push(Number(t.toPrecision(12)));
+  return ticks;
+};
+
+/**
+ * Vertical tick marking a censored observation on the survival curve
+ */
+const CensorTick = ({ cx, cy, fill }: { cx?: number; cy?: number; fill?: string }) =>
+  cx === undefined || cy === undefined ? null : <line x1={cx} x2={cx} y1={cy - 5} y2={cy + 5} stroke={fill} strokeWidth={1.5} />;
+
+const describeMedian = (curve: KaplanMeierCurve, ciLabel: string) =>
+  isNaN(curve.median.estimate)
+    ? 'not reached'
+    : `${formatTime(curve.median.estimate)} (${ciLabel} ${formatTime(curve.median.lower)}–${formatTime(curve.median.upper)})`;
+
+/**
+ * APA-style paragraph with the Kaplan-Meier medians and, when groups are compared, the log-rank test
+ */
+const buildSurvivalSummary = (result: SurvivalAnalysisResult, timeVar: string, eventVar: string, groupVar: string): string => {
+  const ciLabel = `${Math.round(result.confLevel * 100)}% CI`;
+  const events = result.curves.reduce((acc, c) => acc + c.events, 0);
+  const n = result.curves.reduce((acc, c) => acc + c.n, 0);
+  let text = `Survival time (${timeVar}) was analysed with the Kaplan-Meier method, with ${eventVar} defining the event (${events} events among ${n} subjects). `;
+  if (!groupVar || !result.logRank) {
+    return text + `Median survival was ${describeMedian(result.curves[0], ciLabel)}.`;
+  }
+  const { chiSquare, df, p } = result.logRank;
+  const pText = p < 0.001 ? 'p < .001' : `p = ${p.toFixed(3)}`;
+  text += `Median survival by ${groupVar} was ${result.curves.map(c => `${describeMedian(c, ciLabel)} for ${c.group} (n = ${c.n})`).join(', ')}. `;
+  text += `Survival ${p < 0.05 ? 'differed significantly' : 'did not differ significantly'} between groups, log-rank χ²(${df}) = ${chiSquare.toFixed(2)}, ${pText}.`;
+  return text;
+};
+
+const SurvivalPanel: React.FC<SurvivalPanelProps> = ({ dataset, variableNames, confLevel, onConfLevelChange }) => {
+  const [timeVar, setTimeVar] = useState<string>('');
+  const [eventVar, setEventVar] = useState<string>('');
+  const [eventLevel, setEventLevel] = useState<string>('');
+  const [groupVar, setGroupVar] = useState<string>('');
+
+  const timeOptions = dataset.numericalVariables.filter(v => variableNames.includes(v));
+  const activeTimeVar = timeOptions.includes(timeVar) ? timeVar : (timeOptions[0] ?? '');
+  const eventOptions = dataset.variables.filter(v => variableNames.includes(v.name) && v.name !== activeTimeVar).map(v => v.name);
+  const activeEventVar = eventOptions.includes(eventVar) ? eventVar : (eventOptions[0] ?? '');
+  const eventLevels = useMemo(
+    () => (activeEventVar ? getCategoryLevels(dataset.data.map(row => row[activeEventVar])) : []),
+    [dataset, activeEventVar]
+  );
+  const activeEventLevel = eventLevels.includes(eventLevel) ? eventLevel : guessPositiveLevel(eventLevels);
+  const groupOptions = dataset.categoricalVariables.filter(v => variableNames.includes(v) && v !== activeEventVar);
+  const activeGroupVar = groupOptions.includes(groupVar) ? groupVar : '';
+
+  const result = useMemo(() => {
+    if (!activeTimeVar || !activeEventVar || !activeEventLevel) return null;
+    const groupOrder = dataset.variables.find(v => v.name === activeGroupVar)?.levels;
+    return calculateSurvival(dataset.data, activeTimeVar, activeEventVar, activeEventLevel, activeGroupVar, confLevel, groupOrder);
+  }, [dataset, activeTimeVar, activeEventVar, activeEventLevel, activeGroupVar, confLevel]);
+
+  const maxTime = result ? Math.max(...result.curves.map(c => c.steps[c.steps.length - 1].time)) : 0;
+  const timeTicks = useMemo(() => getTimeTicks(maxTime), [maxTime]);
+  const chartSeries = useMemo(() => (result ? result.curves.map(curve => ({
+    curve,
+    steps: curve.steps.map(s => ({ time: s.time, survival: s.survival, band: [s.lower, s.upper] }))
+  })) : []), [result]);
+  const summaryText = useMemo(
+    () => (result ? buildSurvivalSummary(result, activeTimeVar, activeEventVar, activeGroupVar) : ''),
+    [result, activeTimeVar, activeEventVar, activeGroupVar]
+  );
+
+  const ciLabel = `${Math.round(confLevel * 100)}% CI`;
+  const totalEvents = result ? result.curves.reduce((acc, c) => acc + c.events, 0) : 0;
+
+  return (
+    <div className="space-y-10">
+      <div className="bg-white p-8 rounded-[2.5rem] border border-slate-200 shadow-sm">
+        <div className="flex flex-col md:flex-row gap-6 items-end">
+          <div className="flex-1 space-y-2">
+            <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Time (Numerical)</label>
+            <select value={activeTimeVar} onChange={(e) => setTimeVar(e.target.value)} className="w-full p-4 bg-slate-50 border border-slate-200 rounded-2xl outline-none font-bold appearance-none transition-all focus:ring-4 focus:ring-blue-50 cursor-pointer">
+              {timeOptions.map(v => <option key={v} value={v}>{v}</option>)}
+            </select>
+          </div>
+          <div className="flex-1 space-y-2">
+            <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Event Indicator</label>
+            <select value={activeEventVar} onChange={(e) => setEventVar(e.target.value)} className="w-full p-4 bg-slate-50 border border-slate-200 rounded-2xl outline-none font-bold appearance-none transition-all focus:ring-4 focus:ring-blue-50 cursor-pointer">
+              {eventOptions.map(v => <option key={v} value={v}>{v}</option>)}
+            </select>
+          </div>
+          <div className="flex-1 space-y-2">
+            <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Event Level</label>
+            <select value={activeEventLevel} onChange={(e) => setEventLevel(e.target.value)} className="w-full p-4 bg-slate-50 border border-slate-200 rounded-2xl outline-none font-bold appearance-none transition-all focus:ring-4 focus:ring-blue-50 cursor-pointer">
+              {eventLevels.map(level => <option key={level} value={level}>{level}</option>)}
+            </select>
+          </div>
+          <div className="flex-1 space-y-2">
+            <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Group (Optional)</label>
+            <select value={activeGroupVar} onChange={(e) => setGroupVar(e.target.value)} className="w-full p-4 bg-slate-50 border border-slate-200 rounded-2xl outline-none font-bold appearance-none transition-all focus:ring-4 focus:ring-blue-50 cursor-pointer">
+              <option value="">None</option>
+              {groupOptions.map(v => <option key={v} value={v}>{v}</option>)}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Confidence Level</label>
+            <select value={confLevel} onChange={(e) => onConfLevelChange(Number(e.target.value))} className="p-4 bg-slate-50 border border-slate-200 rounded-2xl outline-none font-bold cursor-pointer h-[56px]">
+              {[0.9, 0.95, 0.99].map(level => <option key={level} value={level}>{Math.round(level * 100)}%</option>)}
+            </select>
+          </div>
+        </div>
+        <p className="mt-4 text-[10px] font-bold text-slate-400">Rows where {activeEventVar || 'the event indicator'} equals "{activeEventLevel}" are events; all other non-missing values are treated as censored.</p>
+      </div>
+
+      {activeTimeVar && !result && (
+        <div className="bg-amber-50 p-10 rounded-[2rem] border border-amber-100 flex items-center space-x-4">
+          <AlertTriangle className="w-8 h-8 text-amber-500 shrink-0" />
+          <p className="text-amber-800 font-medium">No complete cases: survival analysis needs a non-negative time and a non-missing event value for each subject.</p>
+        </div>
+      )}
+
+      {result && (
+        <>
+          {totalEvents === 0 && (
+            <div className="bg-amber-50 p-6 rounded-[2rem] border border-amber-100 flex items-center space-x-4">
+              <AlertTriangle className="w-6 h-6 text-amber-500 shrink-0" />
+              <p className="text-amber-800 text-sm font-medium">No events were observed for {activeEventVar} = {activeEventLevel}; every subject is censored.</p>
+            </div>
+          )}
+
+          <div className="bg-white p-8 rounded-[2rem] border border-slate-200 shadow-sm space-y-4">
+            <div className="flex items-center justify-between">
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Kaplan-Meier Estimate{activeGroupVar ? ` by ${activeGroupVar}` : ''} ({ciLabel})</p>
+              <p className="text-[10px] font-bold text-slate-400">| = censored{result.excluded > 0 ? ` · ${result.excluded} incomplete rows excluded` : ''}</p>
+            </div>
+            <div className="h-[420px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart margin={{ top: 10, right: 20, bottom: 20, left: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                  <XAxis type="number" dataKey="time" domain={[0, timeTicks[timeTicks.length - 1]]} ticks={timeTicks} allowDuplicatedCategory={false} label={{ value: activeTimeVar, position: 'insideBottom', offset: -10, fontSize: 12 }} />
+                  <YAxis type="number" domain={[0, 1]} tickFormatter={(v: number) => v.toFixed(1)} label={{ value: 'Survival probability', angle: -90, position: 'insideLeft', fontSize: 12 }} />
+                  <Tooltip formatter={(v: number | number[]) => (Array.isArray(v) ? `[${v[0].toFixed(3)}, ${v[1].toFixed(3)}]` : v.toFixed(3))} labelFormatter={(v: number) => `${activeTimeVar}: ${formatTime(Number(v))}`} />
+                  <Legend verticalAlign="top" />
+                  {chartSeries.map(({ curve, steps }, i) => (
+                    <Area key={`band-${curve.group}`} data={steps} dataKey="band" type="stepAfter" stroke="none" fill={CURVE_COLORS[i % CURVE_COLORS.length]} fillOpacity={0.12} legendType="none" name={`${curve.group} ${ciLabel}`} isAnimationActive={false} />
+                  ))}
+                  {chartSeries.map(({ curve, steps }, i) => (
+                    <Line key={`line-${curve.group}`} data={steps} dataKey="survival" type="stepAfter" stroke={CURVE_COLORS[i % CURVE_COLORS.length]} strokeWidth={2} dot={false} name={curve.group} isAnimationActive={false} />
+                  ))}
+                  {chartSeries.map(({ curve }, i) => (
+                    <Scatter key={`censor-${curve.group}`} data={curve.censored} dataKey="survival" fill={CURVE_COLORS[i % CURVE_COLORS.length]} shape={<CensorTick />} legendType="none" name={`${curve.group} censored`} isAnimationActive={false} />
+                  ))}
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div className="overflow-x-auto custom-scrollbar">
+              <table className="w-full border-collapse text-xs">
+                <thead>
+                  <tr>
+                    <th className="p-2 border border-slate-200 bg-slate-50 text-left font-semibold text-slate-600 uppercase tracking-wider whitespace-nowrap">Number at risk</th>
+                    {timeTicks.map(t => <th key={t} className="p-2 border border-slate-200 bg-slate-50 text-center font-mono font-semibold text-slate-600">{formatTime(t)}</th>)}
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.curves.map((curve, i) => (
+                    <tr key={curve.group}>
+                      <td className="p-2 border border-slate-200 font-bold whitespace-nowrap" style={{ color: CURVE_COLORS[i % CURVE_COLORS.length] }}>{curve.group}</td>
+                      {timeTicks.map(t => <td key={t} className="p-2 border border-slate-200 text-center font-mono text-slate-600">{numberAtRisk(curve, t)}</td>)}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-10">
+            <div className="lg:col-span-2 bg-white p-8 rounded-[2rem] border border-slate-200 shadow-sm space-y-4">
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Median Survival</p>
+              <table className="w-full border-collapse text-xs">
+                <thead>
+                  <tr>
+                    {['Group', 'N', 'Events', 'Median', ciLabel].map(h => (
+                      <th key={h} className="p-3 border border-slate-200 bg-slate-50 text-left font-semibold text-slate-600 uppercase tracking-wider whitespace-nowrap">{h}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.curves.map(curve => (
+                    <tr key={curve.group}>
+                      <td className="p-3 border border-slate-200 font-bold text-slate-700">{curve.group}</td>
+                      <td className="p-3 border border-slate-200 font-mono text-slate-500">{curve.n}</td>
+                      <td className="p-3 border border-slate-200 font-mono text-slate-500">{curve.events}</td>
+                      <td className="p-3 border border-slate-200 font-mono font-bold text-slate-800">{formatTime(curve.median.estimate)}</td>
+                      <td className="p-3 border border-slate-200 font-mono text-slate-500 whitespace-nowrap">[{formatTime(curve.median.lower)}, {formatTime(curve.median.upper)}]</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="text-[10px] font-bold text-slate-400">NR = not reached. Confidence limits for the median are read from the log-log transformed bands.</p>
+            </div>
+
+            <div className="bg-white p-8 rounded-[2rem] border border-slate-200 shadow-sm space-y-4">
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Log-Rank Test</p>
+              {result.logRank ? (
+                <>
+                  <p className="text-3xl font-black text-slate-900 tracking-tight">χ²({result.logRank.df}) = {result.logRank.chiSquare.toFixed(2)}<span className="text-blue-600">{getSignificanceStars(result.logRank.p)}</span></p>
+                  <p className="text-sm font-mono text-slate-600">p = {formatP(result.logRank.p)}</p>
+                  <div className="space-y-2">
+                    {result.curves.map((curve, i) => (
+                      <div key={curve.group} className="flex justify-between items-center text-xs p-3 bg-slate-50 rounded-xl border border-slate-100">
+                        <span className="font-bold text-slate-700">{curve.group}</span>
+                        <span className="font-mono text-slate-600">O = {result.logRank!.observed[i]}, E = {result.logRank!.expected[i].toFixed(2)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </>
+              ) : (
+                <p className="text-sm text-slate-500 font-medium">{activeGroupVar ? 'The test could not be computed; at least two groups with subjects at risk are needed.' : 'Choose a grouping variable to compare survival curves.'}</p>
+              )}
+            </div>
+          </div>
+
+          <AcademicDraft text={withSubsetNote(summaryText, dataset)} />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SurvivalPanel;
@@ -0,0 +1,220 @@
+
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, ClipboardCheck, Download } from 'lucide-react';
+import { Dataset } from '../types';
+import { buildTableOne, TABLE_ONE_SUMMARIES, TableOneResult, TableOneSummaryMethod } from '../utils/tableOne';
+import { getCategoryLevels } from '../utils/statistics';
+import { describeSubset } from '../utils/filter';
+import { copyHtmlToClipboard, escapeHtml, WORD_CELL_STYLE, WORD_HEADER_ROW_STYLE, WORD_NOTE_STYLE, WORD_TABLE_STYLE } from '../utils/clipboard';
+import { downloadFile, toCsv } from '../utils/download';
+
+interface TableOnePanelProps {
+  dataset: Dataset;
+  variableNames: string[];
+}
+
+/** Grouping variables with more levels than this make an unreadable table */
+const MAX_GROUP_LEVELS = 8;
+
+const formatP = (p: number | undefined) => (p === undefined || isNaN(p) ? '' : p < 0.001 ? '< .001' : p.toFixed(3));
+const formatSmd = (smd: number | undefined) => (smd === undefined || isNaN(smd) ? '' : smd.toFixed(3));
+
+/** Superscript letter linking a p-value to its test in the table note */
+const testMark = (table: TableOneResult, test: string | undefined) => (test ? String.fromCharCode(97 + table.tests.indexOf(test)) : '');
+
+const columnHeaders = (table: TableOneResult) => [
+  `Overall (n = ${table.total})`,
+  ...table.groupLevels.map((level, g) => `${table.groupVar} = ${level} (n = ${table.groupCounts[g]})`)
+];
+
+const buildNote = (table: TableOneResult, showP: boolean, showSmd: boolean, subsetNote: string): string => {
+  let note = 'Values are mean ± SD, median [IQR] or n (%).';
+  if (table.excluded > 0) note += ` ${table.excluded} records with a missing ${table.groupVar} were excluded.`;
+  if (showP && table.tests.length > 0) note += ` p-values: ${table.tests.map(t => `${testMark(table, t)} ${t}`).join('; ')}.`;
+  if (showSmd) note += table.groupLevels.length > 2 ? ' SMD is the largest standardized mean difference between any two groups.' : ' SMD = standardized mean difference.';
+  if (subsetNote) note += ` ${subsetNote}`;
+  return note;
+};
+
+/**
+ * Builds the Word-pasteable Table 1 with its note
+ */
+const buildTableOneHtml = (table: TableOneResult, showP: boolean, showSmd: boolean, subsetNote: string): string => {
+  let html = `<table border="1" style="${WORD_TABLE_STYLE}">`;
+  html += `<tr style="${WORD_HEADER_ROW_STYLE}">`;
+  ['Characteristic', ...columnHeaders(table), ...(showP ? ['p'] : []), ...(showSmd ? ['SMD'] : [])].forEach(h => {
+    html += `<th style="${WORD_CELL_STYLE}">${escapeHtml(h)}</th>`;
+  });
+  html += `</tr>`;
+  table.rows.forEach(row => {
+    html += `<tr>`;
+    html += `<td style="${WORD_CELL_STYLE} ${row.indent ? 'padding-left: 24px;' : 'font-weight: bold; background-color: #f8fafc;'}">${escapeHtml(row.label)}</td>`;
+    [row.overall, ...row.groups].forEach(val => {
+      html += `<td style="${WORD_CELL_STYLE} text-align: center;">${escapeHtml(val)}</td>`;
+    });
+    if (showP) {
+      const mark = testMark(table, row.test);
+      html += `<td style="${WORD_CELL_STYLE} text-align: center;">${escapeHtml(formatP(row.p))}${mark && row.p !== undefined ? `<sup>${mark}</sup>` : ''}</td>`;
+    }
+    if (showSmd) html += `<td style="${WORD_CELL_STYLE} text-align: center;">${formatSmd(row.smd)}</td>`;
+    html += `</tr>`;
+  });
+  html += `</table>`;
+  html += `<p style="${WORD_NOTE_STYLE}"><i>Note.</i> ${escapeHtml(buildNote(table, showP, showSmd, subsetNote))}</p>`;
+  return html;
+};
+
+const buildTableOneCsv = (table: TableOneResult, showP: boolean, showSmd: boolean): string => {
+  const header = ['Characteristic', ...columnHeaders(table), ...(showP ? ['p', 'Test'] : []), ...(showSmd ? ['SMD'] : [])];
+  const rows = table.rows.map(row => [
+    row.indent ? `  ${row.label}` : row.label,
+    row.overall,
+    ...row.groups,
+    ...(showP ? [formatP(row.p), row.test ?? ''] : []),
+    ...(showSmd ? [formatSmd(row.smd)] : [])
+  ]);
+  return toCsv([header, ...rows]);
+};
+
+/**
+ * "Table 1" of baseline characteristics stratified by a grouping variable, with an overall
+ * column, p-values and standardized mean differences
+ */
+const TableOnePanel: React.FC<TableOnePanelProps> = ({ dataset, variableNames }) => {
+  const [groupVar, setGroupVar] = useState<string>('');
+  const [excludedVars, setExcludedVars] = useState<string[]>([]);
+  const [summary, setSummary] = useState<TableOneSummaryMethod>('auto');
+  const [digits, setDigits] = useState(1);
+  const [showP, setShowP] = useState(true);
+  const [showSmd, setShowSmd] = useState(true);
+
+  const groupOptions = useMemo(
+    () => dataset.categoricalVariables.filter(name => {
+      if (!variableNames.includes(name)) return false;
+      const levels = getCategoryLevels(dataset.variables.find(v => v.name === name)!.values).length;
+      return levels >= 2 && levels <= MAX_GROUP_LEVELS;
+    }),
+    [dataset, variableNames]
+  );
+  const activeGroupVar = groupOptions.includes(groupVar) ? groupVar : (groupOptions[0] ?? '');
+  const rowOptions = variableNames.filter(v => v !== activeGroupVar && (dataset.numericalVariables.includes(v) || dataset.categoricalVariables.includes(v)));
+  const activeRowVars = rowOptions.filter(v => !excludedVars.includes(v));
+
+  const table = useMemo(
+    () => (activeGroupVar ? buildTableOne(dataset, activeGroupVar, activeRowVars, { summary, digits }) : null),
+    [dataset, activeGroupVar, variableNames, excludedVars, summary, digits]
+  );
+
+  const toggleRowVar = (name: string) => {
+    setExcludedVars(excludedVars.includes(name) ? excludedVars.filter(v => v !== name) : [...excludedVars, name]);
+  };
+
+  const handleCopy = async () => {
+    if (!table) return;
+    const copied = await copyHtmlToClipboard(buildTableOneHtml(table, showP, showSmd, describeSubset(dataset)));
+    alert(copied ? 'Table copied! You can now paste directly into Microsoft Word.' : 'Table copied using fallback. You can now paste into Word.');
+  };
+
+  const handleDownloadCsv = () => {
+    if (!table) return;
+    downloadFile(buildTableOneCsv(table, showP, showSmd), `table1_by_${table.groupVar}.csv`, 'text/csv;charset=utf-8');
+  };
+
+  if (groupOptions.length === 0) {
+    return (
+      <div className="bg-amber-50 p-10 rounded-[2rem] border border-amber-100 flex items-center space-x-4">
+        <AlertTriangle className="w-8 h-8 text-amber-500 shrink-0" />
+        <p className="text-amber-800 font-medium">Table 1 needs a categorical grouping variable with 2 to {MAX_GROUP_LEVELS} levels among the selected columns.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-10">
+      <div className="bg-white p-8 rounded-[2.5rem] border border-slate-200 shadow-sm space-y-8">
+        <div className="flex flex-col md:flex-row gap-6 items-end">
+          <div className="flex-1 space-y-2">
+            <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Group By</label>
+            <select value={activeGroupVar} onChange={(e) => setGroupVar(e.target.value)} className="w-full p-4 bg-slate-50 border border-slate-200 rounded-2xl outline-none font-bold appearance-none transition-all focus:ring-4 focus:ring-blue-50 cursor-pointer">
+              {groupOptions.map(v => <option key={v} value={v}>{v}</option>)}
+            </select>
+          </div>
+          <div className="flex-1 space-y-2">
+            <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Numerical Summary</label>
+            <select value={summary} onChange={(e) => setSummary(e.target.value as TableOneSummaryMethod)} title={TABLE_ONE_SUMMARIES[summary].description} className="w-full p-4 bg-slate-50 border border-slate-200 rounded-2xl outline-none font-bold appearance-none transition-all focus:ring-4 focus:ring-blue-50 cursor-pointer">
+              {(Object.keys(TABLE_ONE_SUMMARIES) as TableOneSummaryMethod[]).map(m => <option key={m} value={m}>{TABLE_ONE_SUMMARIES[m].label}</option>)}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Decimals</label>
+            <select value={digits} onChange={(e) => setDigits(Number(e.target.value))} className="p-4 bg-slate-50 border border-slate-200 rounded-2xl outline-none font-bold cursor-pointer h-[56px]">
+              {[0, 1, 2, 3].map(d => <option key={d} value={d}>{d}</option>)}
+            </select>
+          </div>
+          <button onClick={handleCopy} disabled={!table} className="flex items-center space-x-3 px-6 py-4 bg-indigo-50 text-indigo-700 rounded-2xl hover:bg-indigo-100 shadow-sm text-sm font-black transition-all active:scale-95 border border-indigo-100 h-[56px] disabled:opacity-50"><ClipboardCheck className="w-4 h-4" /><span>Copy Table for Word</span></button>
+          <button onClick={handleDownloadCsv} disabled={!table} className="flex items-center space-x-3 px-6 py-4 bg-white text-slate-700 rounded-2xl hover:bg-slate-50 shadow-sm text-sm font-black transition-all active:scale-95 border border-slate-200 h-[56px] disabled:opacity-50"><Download className="w-4 h-4" /><span>CSV</span></button>
+        </div>
+
+        <div className="space-y-3">
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Rows</p>
+          <div className="flex flex-wrap gap-2">
+            {rowOptions.map(v => {
+              const active = activeRowVars.includes(v);
+              return (
+                <button key={v} onClick={() => toggleRowVar(v)} className={`px-4 py-2 rounded-xl text-xs font-bold border transition-all ${active ? 'bg-blue-600 text-white border-blue-600 shadow-sm' : 'bg-white text-slate-600 border-slate-200 hover:border-blue-400'}`}>{v}</button>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-6">
+          <label className="flex items-center space-x-2 text-xs font-bold text-slate-600 cursor-pointer">
+            <input type="checkbox" checked={showP} onChange={(e) => setShowP(e.target.checked)} className="w-4 h-4 accent-blue-600" /><span>p-values</span>
+          </label>
+          <label className="flex items-center space-x-2 text-xs font-bold text-slate-600 cursor-pointer">
+            <input type="checkbox" checked={showSmd} onChange={(e) => setShowSmd(e.target.checked)} className="w-4 h-4 accent-blue-600" /><span>Standardized mean differences</span>
+          </label>
+        </div>
+      </div>
+
+      {table && (
+        <div className="bg-white p-8 rounded-[2rem] border border-slate-200 shadow-sm space-y-4">
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Baseline Characteristics by {table.groupVar}</p>
+          {table.rows.length === 0 ? (
+            <p className="text-sm text-slate-500 font-medium">Choose at least one numerical or categorical variable to describe.</p>
+          ) : (
+            <div className="overflow-x-auto custom-scrollbar">
+              <table className="w-full border-collapse text-xs">
+                <thead>
+                  <tr>
+                    <th className="p-3 border border-slate-200 bg-slate-50 text-left font-semibold text-slate-600 uppercase tracking-wider">Characteristic</th>
+                    {columnHeaders(table).map(h => <th key={h} className="p-3 border border-slate-200 bg-slate-50 text-center font-semibold text-slate-600">{h}</th>)}
+                    {showP && <th className="p-3 border border-slate-200 bg-slate-50 text-center font-semibold text-slate-600">p</th>}
+                    {showSmd && <th className="p-3 border border-slate-200 bg-slate-50 text-center font-semibold text-slate-600">SMD</th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {table.rows.map((row, i) => (
+                    <tr key={i} className="hover:bg-slate-50">
+                      <td className={`p-3 border border-slate-200 whitespace-nowrap ${row.indent ? 'pl-8 text-slate-600' : 'font-bold text-slate-800'}`}>{row.label}</td>
+                      {[row.overall, ...row.groups].map((val, j) => <td key={j} className="p-3 border border-slate-200 text-center font-mono text-slate-700 whitespace-nowrap">{val}</td>)}
+                      {showP && (
+                        <td className={`p-3 border border-slate-200 text-center font-mono ${row.p !== undefined && row.p < 0.05 ? 'font-bold text-blue-700' : 'text-slate-700'}`}>
+                          {formatP(row.p)}{row.p !== undefined && <sup className="text-slate-400 ml-0.5">{testMark(table, row.test)}</sup>}
+                        </td>
+                      )}
+                      {showSmd && <td className={`p-3 border border-slate-200 text-center font-mono ${row.smd !== undefined && row.smd > 0.1 ? 'font-bold text-amber-600' : 'text-slate-700'}`}>{formatSmd(row.smd)}</td>}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          <p className="text-[10px] font-bold text-slate-400">{buildNote(table, showP, showSmd, describeSubset(dataset))}{showSmd ? ' SMD above 0.1 (highlighted) is commonly taken to indicate imbalance.' : ''}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TableOnePanel;
@@ -1,10 +1,49 @@
 
-export type VariableType = 'numerical' | 'categorical' | 'unknown';
+export type VariableType = 'numerical' | 'categorical' | 'binary' | 'ordinal' | 'date' | 'datetime' | 'id' | 'text' | 'unknown';
 
-export interface DataVariable {
+export type MissingCode = number | string;
+
+/**
+ * Dictionary information carried over from SPSS, Stata and SAS files
+ */
+export interface VariableMetadata {
+  label?: string;
+  /** Code (as a string) to label, e.g. { '1': 'Male', '2': 'Female' } */
+  valueLabels?: Record<string, string>;
+  /** Values that mean "missing" for this variable, e.g. -99 or 'NA' */
+  missingCodes?: MissingCode[];
+  /** Inclusive numeric range treated as missing (SPSS "LO THRU -1") */
+  missingRange?: [number, number];
+}
+
+export type DateUnit = 'days' | 'weeks' | 'months' | 'years';
+
+/**
+ * How a derived variable was computed from other columns
+ */
+export type Derivation =
+  /** Old level to new level; an empty new level makes the value missing, unmapped levels are kept */
+  | { kind: 'recode'; source: string; mapping: Record<string, string> }
+  | { kind: 'bin'; source: string; method: 'quantiles'; groups: number }
+  /** Bins are [cut_i, cut_i+1), with open-ended bins below the first and from the last cut-point */
+  | { kind: 'bin'; source: string; method: 'cutpoints'; cutpoints: number[] }
+  | { kind: 'transform'; source: string; fn: 'ln' | 'log10' | 'sqrt' | 'zscore' }
+  | { kind: 'formula'; expression: string }
+  | { kind: 'dateDiff'; start: string; end: string; unit: DateUnit };
+
+export interface DataVariable extends VariableMetadata {
   name: string;
   type: VariableType;
+  /** The type chosen by automatic detection, restored when an override is undone */
+  detectedType: VariableType;
+  /** Values converted for the current type */
   values: any[];
+  /** Values exactly as imported, kept so the type and missing codes can be changed later */
+  rawValues: any[];
+  /** Level order of categorical, binary and ordinal variables; user-defined for ordinal ones */
+  levels?: string[];
+  /** Set on variables created in the app rather than imported */
+  derivation?: Derivation;
   stats: VariableStats;
 }
 
@@ -13,26 +52,78 @@ export interface VariableStats {
   missing: number;
   unique: number;
   mean?: number;
+  /** For date and datetime variables, median, min and max are milliseconds since 1970 (UTC) */
   median?: number;
+  /** Sample standard deviation (n − 1 denominator) */
   std?: number;
   min?: number;
   max?: number;
+  /** Standard error of the mean */
+  se?: number;
+  /** 95% confidence interval of the mean */
+  ciLower?: number;
+  ciUpper?: number;
+  q1?: number;
+  q3?: number;
+  iqr?: number;
+  /** Percentiles keyed by percentage (see SUMMARY_PERCENTILES) */
+  percentiles?: Record<number, number>;
+  /** Mean of the values left after dropping 5% from each tail */
+  trimmedMean?: number;
+  /** Adjusted Fisher-Pearson skewness (G1) */
+  skewness?: number;
+  /** Excess kurtosis (G2), 0 for a normal distribution */
+  kurtosis?: number;
+  /** Coefficient of variation, SD / mean; undefined when the mean is 0 */
+  cv?: number;
+  /** Most frequent values (at most five), empty when no value repeats */
+  mode?: number[];
+  modeCount?: number;
+  /** Values beyond 1.5 × IQR from the quartiles */
+  outliersIqr?: number;
+  /** Values more than 3 SD from the mean */
+  outliersZ?: number;
   frequencies?: Record<string, number>;
+  /** Average length in characters of free-text responses */
+  meanLength?: number;
+  /** Values counted as missing because they matched a missing code */
+  codedMissing?: number;
 }
 
+export type CorrelationMethod = 'pearson' | 'spearman' | 'kendall';
+
+export type PAdjustMethod = 'none' | 'bonferroni' | 'holm' | 'fdr';
+
+export type PostHocMethod = PAdjustMethod | 'tukey' | 'gamesHowell';
+
 export interface CorrelationResult {
   x: string;
   y: string;
+  method: CorrelationMethod;
   r: number;
   p: number;
+  pAdjusted: number;
+  adjustment: PAdjustMethod;
   n: number;
+  ciLower: number;
+  ciUpper: number;
+  confLevel: number;
   significance: string;
 }
 
+export interface StatFileResult {
+  rows: Record<string, string | number | null>[];
+  metadata: Record<string, VariableMetadata>;
+}
+
 export interface Dataset {
   filename: string;
+  /** Codes treated as missing in every column, on top of each variable's own codes */
+  missingCodes: MissingCode[];
   data: any[];
   variables: DataVariable[];
   numericalVariables: string[];
   categoricalVariables: string[];
+  /** Set when the rows are a filtered subset of the loaded data */
+  subset?: { description: string; totalRows: number };
 }
@@ -0,0 +1,218 @@
+
+import { normalCdf, normalQuantile, pFromChiSquare, pFromF } from './distributions';
+
+export interface NormalityTestResult {
+  w: number;
+  p: number;
+  n: number;
+}
+
+export interface ShapeStatistics {
+  n: number;
+  /** Adjusted Fisher-Pearson skewness (G1) */
+  skewness: number;
+  seSkewness: number;
+  /** Excess kurtosis (G2), 0 for a normal distribution */
+  kurtosis: number;
+  seKurtosis: number;
+}
+
+export interface NormalityCheck {
+  test: 'Shapiro-Wilk' | "D'Agostino-Pearson";
+  symbol: 'W' | 'K²';
+  statistic: number;
+  p: number;
+  n: number;
+}
+
+export interface VarianceTestResult {
+  f: number;
+  df1: number;
+  df2: number;
+  p: number;
+}
+
+/**
+ * Evaluates a polynomial with coefficients in ascending powers of x
+ */
+const poly = (coefs: number[], x: number): number => coefs.reduce((acc, c, i) => acc + c * Math.pow(x, i), 0);
+
+/**
+ * Shapiro-Wilk normality test (Royston, 1995, algorithm AS R94), valid for 3 <= n <= 5000
+ */
+export const shapiroWilk = (values: number[]): NormalityTestResult => {
+  const x = values.filter(v => !isNaN(v)).sort((a, b) => a - b);
+  const n = x.length;
+  if (n < 3 || n > 5000 || x[n - 1] - x[0] === 0) return { w: NaN, p: NaN, n };
+
+  // Approximate expected normal order statistics and Royston's coefficients
+  const m = Array.from({ length: n }, (_, i) => normalQuantile((i + 1 - 0.375) / (n + 0.25)));
+  const sumM2 = m.reduce((acc, v) => acc + v * v, 0);
+  const a = new Array<number>(n).fill(0);
+
+  if (n === 3) {
+    a[2] = Math.SQRT1_2;
+  } else {
+    const u = 1 / Math.sqrt(n);
+    const an = m[n - 1] / Math.sqrt(sumM2) + poly([0, 0.221157, -0.147981, -2.071190, 4.434685, -2.706056], u);
+    if (n > 5) {
+      const an1 = m[n - 2] / Math.sqrt(sumM2) + poly([0, 0.042981, -0.293762, -1.752461, 5.682633, -3.582633], u);
+      const phi = (sumM2 - 2 * m[n - 1] ** 2 - 2 * m[n - 2] ** 2) / (1 - 2 * an ** 2 - 2 * an1 ** 2);
+      for (let i = 2; i < n - 2; i++) a[i] = m[i] / Math.sqrt(phi);
+      a[n - 2] = an1;
+      a[1] = -an1;
+    } else {
+      const phi = (sumM2 - 2 * m[n - 1] ** 2) / (1 - 2 * an ** 2);
+      for (let i = 1; i < n - 1; i++) a[i] = m[i] / Math.sqrt(phi);
+    }
+    a[n - 1] = an;
+  }
+  a[0] = -a[n - 1];
+
+  const mean = x.reduce((acc, v) => acc + v, 0) / n;
+  const ss = x.reduce((acc, v) => acc + (v - mean) ** 2, 0);
+  const numerator = x.reduce((acc, v, i) => acc + a[i] * v, 0) ** 2;
+  const w = Math.min(1, numerator / ss);
+
+  let p: number;
+  if (n === 3) {
+    p = Math.max(0, (6 / Math.PI) * (Math.asin(Math.sqrt(w)) - Math.asin(Math.sqrt(0.75))));
+  } else if (n <= 11) {
+    const gamma = poly([-2.273, 0.459], n);
+    const y = Math.log(1 - w);
+    if (y >= gamma) {
+      p = 0;
+    } else {
+      const z = (-Math.log(gamma - y) - poly([0.5440, -0.39978, 0.025054, -6.714e-4], n)) / Math.exp(poly([1.3822, -0.77857, 0.062767, -0.0020322], n));
+      p = 1 - normalCdf(z);
+    }
+  } else {
+    const ln = Math.log(n);
+    const z = (Math.log(1 - w) - poly([-1.5861, -0.31082, -0.083751, 0.0038915], ln)) / Math.exp(poly([-0.4803, -0.082676, 0.0030302], ln));
+    p = 1 - normalCdf(z);
+  }
+
+  return { w, p, n };
+};
+
+/**
+ * Sample skewness and excess kurtosis with their standard errors, as reported by SPSS and Excel.
+ * Skewness needs n >= 3 and kurtosis n >= 4; otherwise the value is NaN.
+ */
+export const calculateShape = (values: number[]): ShapeStatistics => {
+  const x = values.filter(v => !isNaN(v));
+  const n = x.length;
+  const mean = x.reduce((acc, v) => acc + v, 0) / n;
+  let m2 = 0;
+  let m3 = 0;
+  let m4 = 0;
+  x.forEach(v => {
+    const d = v - mean;
+    m2 += d * d;
+    m3 += d * d * d;
+    m4 += d * d * d * d;
+  });
+  m2 /= n;
+  m3 /= n;
+  m4 /= n;
+  const g1 = m3 / m2 ** 1.5;
+  const g2 = m4 / (m2 * m2) - 3;
+  const seSkewness = Math.sqrt((6 * n * (n - 1)) / ((n - 2) * (n + 1) * (n + 3)));
+  return {
+    n,
+    skewness: n >= 3 && m2 > 0 ? (Math.sqrt(n * (n - 1)) / (n - 2)) * g1 : NaN,
+    seSkewness: n >= 3 ? seSkewness : NaN,
+    kurtosis: n >= 4 && m2 > 0 ? ((n - 1) / ((n - 2) * (n - 3))) * ((n + 1) * g2 + 6) : NaN,
+    seKurtosis: n >= 4 ? 2 * seSkewness * Math.sqrt((n * n - 1) / ((n - 3) * (n + 5))) : NaN
+  };
+};
+
+/**
+ * D'Agostino-Pearson omnibus K² test combining the skewness and kurtosis z-tests
+ * (D'Agostino, Belanger & D'Agostino, 1990). Needs n >= 20.
+ */
+export const dAgostinoPearson = (values: number[]): { k2: number; p: number; n: number } => {
+  const x = values.filter(v => !isNaN(v));
+  const n = x.length;
+  const mean = x.reduce((acc, v) => acc + v, 0) / n;
+  const m2 = x.reduce((acc, v) => acc + (v - mean) ** 2, 0) / n;
+  if (n < 20 || m2 === 0) return { k2: NaN, p: NaN, n };
+  const b1 = x.reduce((acc, v) => acc + (v - mean) ** 3, 0) / n / m2 ** 1.5;
+  const b2 = x.reduce((acc, v) => acc + (v - mean) ** 4, 0) / n / (m2 * m2);
+
+  const y = b1 * Math.sqrt(((n + 1) * (n + 3)) / (6 * (n - 2)));
+  const beta2 = (3 * (n * n + 27 * n - 70) * (n + 1) * (n + 3)) / ((n - 2) * (n + 5) * (n + 7) * (n + 9));
+  const w2 = -1 + Math.sqrt(2 * (beta2 - 1));
+  const delta = 1 / Math.sqrt(Math.log(Math.sqrt(w2)));
+  const alpha = Math.sqrt(2 / (w2 - 1));
+  const zSkew = delta * Math.log(y / alpha + Math.sqrt((y / alpha) ** 2 + 1));
+
+  const expected = (3 * (n - 1)) / (n + 1);
+  const variance = (24 * n * (n - 2) * (n - 3)) / ((n + 1) ** 2 * (n + 3) * (n + 5));
+  const standardized = (b2 - expected) / Math.sqrt(variance);
+  const beta1 = ((6 * (n * n - 5 * n + 2)) / ((n + 7) * (n + 9))) * Math.sqrt((6 * (n + 3) * (n + 5)) / (n * (n - 2) * (n - 3)));
+  const a = 6 + (8 / beta1) * (2 / beta1 + Math.sqrt(1 + 4 / (beta1 * beta1)));
+  const ratio = (1 - 2 / a) / (1 + standardized * Math.sqrt(2 / (a - 4)));
+  const zKurt = (1 - 2 / (9 * a) - Math.cbrt(ratio)) / Math.sqrt(2 / (9 * a));
+
+  const k2 = zSkew * zSkew + zKurt * zKurt;
+  return { k2, p: pFromChiSquare(k2, 2), n };
+};
+
+/**
+ * Shapiro-Wilk where it is valid (n <= 5000), D'Agostino-Pearson for larger samples.
+ * Returns null when neither test applies.
+ */
+export const checkNormality = (values: number[]): NormalityCheck | null => {
+  const n = values.filter(v => !isNaN(v)).length;
+  if (n <= 5000) {
+    const sw = shapiroWilk(values);
+    return isNaN(sw.p) ? null : { test: 'Shapiro-Wilk', symbol: 'W', statistic: sw.w, p: sw.p, n };
+  }
+  const k = dAgostinoPearson(values);
+  return isNaN(k.p) ? null : { test: "D'Agostino-Pearson", symbol: 'K²', statistic: k.k2, p: k.p, n };
+};
+
+/**
+ * Levene's test for homogeneity of variances. Centring on the median gives the
+ * Brown-Forsythe variant, which is robust to non-normal data.
+ */
+export const leveneTest = (groups: number[][], center: 'mean' | 'median' = 'mean'): VarianceTestResult => {
+  const valid = groups.filter(g => g.length > 0);
+  const k = valid.length;
+  const nTotal = valid.reduce((acc, g) => acc + g.length, 0);
+  if (k < 2 || nTotal - k <= 0) return { f: NaN, df1: k - 1, df2: nTotal - k, p: NaN };
+
+  const deviations = valid.map(g => {
+    let c: number;
+    if (center === 'median') {
+      const sorted = [...g].sort((a, b) => a - b);
+      const mid = Math.floor(sorted.length / 2);
+      c = sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+    } else {
+      c = g.reduce((acc, v) => acc + v, 0) / g.length;
+    }
+    return g.map(v => Math.abs(v - c));
+  });
+
+  // One-way ANOVA on the absolute deviations
+  const groupMeans = deviations.map(d => d.reduce((acc, v) => acc + v, 0) / d.length);
+  const grandMean = deviations.reduce((acc, d) => acc + d.reduce((s, v) => s + v, 0), 0) / nTotal;
+  const ssb = deviations.reduce((acc, d, i) => acc + d.length * (groupMeans[i] - grandMean) ** 2, 0);
+  const ssw = deviations.reduce((acc, d, i) => acc + d.reduce((s, v) => s + (v - groupMeans[i]) ** 2, 0), 0);
+  const df1 = k - 1;
+  const df2 = nTotal - k;
+
+  if (ssw === 0) return { f: ssb === 0 ? NaN : Infinity, df1, df2, p: ssb === 0 ? NaN : 0 };
+  const f = (ssb / df1) / (ssw / df2);
+  return { f, df1, df2, p: pFromF(f, df1, df2) };
+};
+
+/**
+ * Normal Q-Q plot coordinates: sorted sample values against Blom theoretical quantiles
+ */
+export const calculateQQPoints = (values: number[]): { theoretical: number; sample: number }[] => {
+  const sorted = values.filter(v => !isNaN(v)).sort((a, b) => a - b);
+  const n = sorted.length;
+  return sorted.map((sample, i) => ({ theoretical: normalQuantile((i + 1 - 0.375) / (n + 0.25)), sample }));
+};
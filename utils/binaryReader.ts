@@ -0,0 +1,91 @@
+
+export interface BinaryReader {
+  readonly length: number;
+  littleEndian: boolean;
+  position: () => number;
+  seek: (offset: number) => void;
+  skip: (n: number) => void;
+  remaining: () => number;
+  uint8: () => number;
+  int8: () => number;
+  uint16: () => number;
+  int16: () => number;
+  uint32: () => number;
+  int32: () => number;
+  float32: () => number;
+  float64: () => number;
+  /** Unsigned integer of 1-8 bytes; exact up to 2^53 */
+  uintN: (bytes: number) => number;
+  bytes: (n: number) => Uint8Array;
+  /** Fixed-width text field, cut at the first NUL byte */
+  string: (n: number, decoder: TextDecoder) => string;
+}
+
+/**
+ * Returns a decoder for the given label, falling back to Windows-1252 when the browser does not
+ * know the encoding
+ */
+export const getTextDecoder = (label: string): TextDecoder => {
+  try {
+    return new TextDecoder(label);
+  } catch {
+    return new TextDecoder('windows-1252');
+  }
+};
+
+/**
+ * Sequential reader over an ArrayBuffer, used by the SPSS, Stata and SAS file readers. Throws a
+ * RangeError when a read runs past the end of the file.
+ */
+export const createBinaryReader = (buffer: ArrayBuffer, littleEndian = true): BinaryReader => {
+  const view = new DataView(buffer);
+  const raw = new Uint8Array(buffer);
+  let offset = 0;
+
+  const advance = (n: number) => {
+    if (offset + n > raw.length) throw new RangeError('Unexpected end of file');
+    const at = offset;
+    offset += n;
+    return at;
+  };
+
+  const reader: BinaryReader = {
+    length: raw.length,
+    littleEndian,
+    position: () => offset,
+    seek: (to: number) => {
+      offset = to;
+    },
+    skip: (n: number) => {
+      advance(n);
+    },
+    remaining: () => raw.length - offset,
+    uint8: () => view.getUint8(advance(1)),
+    int8: () => view.getInt8(advance(1)),
+    uint16: () => view.getUint16(advance(2), reader.littleEndian),
+    int16: () => view.getInt16(advance(2), reader.littleEndian),
+    uint32: () => view.getUint32(advance(4), reader.littleEndian),
+    int32: () => view.getInt32(advance(4), reader.littleEndian),
+    float32: () => view.getFloat32(advance(4), reader.littleEndian),
+    float64: () => view.getFloat64(advance(8), reader.littleEndian),
+    uintN: (n: number) => {
+      const at = advance(n);
+      let value = 0;
+      for (let i = 0; i < n; i++) {
+        const byte = raw[reader.littleEndian ? at + n - 1 - i : at + i];
+        value = value * 256 + byte;
+      }
+      return value;
+    },
+    bytes: (n: number) => {
+      const at = advance(n);
+      return raw.subarray(at, at + n);
+    },
+    string: (n: number, decoder: TextDecoder) => {
+      const bytes = reader.bytes(n);
+      const end = bytes.indexOf(0);
+      return decoder.decode(end === -1 ? bytes : bytes.subarray(0, end));
+    }
+  };
+  return reader;
+};
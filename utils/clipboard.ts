@@ -0,0 +1,40 @@
+
+/**
+ * Copies an HTML fragment to the clipboard so it pastes into Word as an editable table.
+ * Falls back to a selection-based copy in browsers without ClipboardItem support.
+ * Returns false when the fallback was used.
+ */
+export const copyHtmlToClipboard = async (html: string): Promise<boolean> => {
+  try {
+    const blob = new Blob([html], { type: 'text/html' });
+    const data = [new ClipboardItem({ 'text/html': blob })];
+    await navigator.clipboard.write(data);
+    return true;
+  } catch (err) {
+    console.error('Failed to copy table', err);
+    const tempElement = document.createElement('div');
+    tempElement.innerHTML = html;
+    tempElement.style.position = 'fixed';
+    tempElement.style.left = '-9999px';
+    document.body.appendChild(tempElement);
+    const range = document.createRange();
+    range.selectNode(tempElement);
+    window.getSelection()?.removeAllRanges();
+    window.getSelection()?.addRange(range);
+    document.execCommand('copy');
+    document.body.removeChild(tempElement);
+    return false;
+  }
+};
+
+/** Inline styles shared by tables exported for Word */
+export const WORD_TABLE_STYLE = 'border-collapse: collapse; width: 100%; font-family: sans-serif; font-size: 10pt;';
+export const WORD_HEADER_ROW_STYLE = 'background-color: #f1f5f9;';
+export const WORD_CELL_STYLE = 'padding: 8px; border: 1px solid #cbd5e1;';
+export const WORD_NOTE_STYLE = 'font-family: sans-serif; font-size: 9pt;';
+
+/**
+ * Escapes text for safe inclusion in exported HTML
+ */
+export const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
@@ -0,0 +1,21 @@
+
+import { ComputeProgress, ComputeRequest, ComputeResponse, runComputeRequest } from './computeTasks';
+
+const post = (message: ComputeResponse) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<ComputeRequest>) => {
+  // Per-row progress would flood the main thread; report whole percents and stage changes only
+  let last: ComputeProgress | null = null;
+  const reportProgress = (progress: ComputeProgress) => {
+    if (last && last.stage === progress.stage && progress.fraction - last.fraction < 0.01 && progress.fraction < 1) return;
+    last = progress;
+    post({ type: 'progress', progress });
+  };
+
+  try {
+    const result = await runComputeRequest(event.data, reportProgress);
+    post({ type: 'result', result });
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
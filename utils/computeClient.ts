@@ -0,0 +1,88 @@
+
+import { ComputeKind, ComputeProgress, ComputeRequest, ComputeResponse, ComputeTasks, runComputeRequest } from './computeTasks';
+
+export interface ComputeHandle<T> {
+  promise: Promise<T>;
+  /** Stops the job; the promise rejects with an AbortError unless it has already settled */
+  cancel: () => void;
+}
+
+const cancelledError = () => new DOMException('Computation cancelled', 'AbortError');
+
+export const isCancelledError = (err: unknown): boolean => err instanceof DOMException && err.name === 'AbortError';
+
+/**
+ * Runs a compute job in its own Web Worker so parsing and statistics never block the UI.
+ * Cancelling terminates the worker, which stops even a long synchronous computation at once.
+ */
+export const runComputeTask = <K extends ComputeKind>(
+  kind: K,
+  payload: ComputeTasks[K]['payload'],
+  onProgress?: (progress: ComputeProgress) => void
+): ComputeHandle<ComputeTasks[K]['result']> => {
+  const request = { kind, ...payload } as ComputeRequest;
+  let settled = false;
+  let rejectPromise: (reason: unknown) => void = () => {};
+
+  if (typeof Worker === 'undefined') {
+    const promise = new Promise<ComputeTasks[K]['result']>((resolve, reject) => {
+      rejectPromise = reject;
+      runComputeRequest(request, progress => !settled && onProgress?.(progress)).then(
+        result => {
+          if (settled) return;
+          settled = true;
+          resolve(result as ComputeTasks[K]['result']);
+        },
+        err => {
+          if (settled) return;
+          settled = true;
+          reject(err);
+        }
+      );
+    });
+    return {
+      promise,
+      cancel: () => {
+        if (settled) return;
+        settled = true;
+        rejectPromise(cancelledError());
+      }
+    };
+  }
+
+  const worker = new Worker(new URL('./compute.worker.ts', import.meta.url), { type: 'module' });
+  const finish = () => {
+    settled = true;
+    worker.terminate();
+  };
+
+  const promise = new Promise<ComputeTasks[K]['result']>((resolve, reject) => {
+    rejectPromise = reject;
+    worker.onmessage = (event: MessageEvent<ComputeResponse>) => {
+      if (settled) return;
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+        return;
+      }
+      finish();
+      if (message.type === 'result') resolve(message.result as ComputeTasks[K]['result']);
+      else reject(new Error(message.message));
+    };
+    worker.onerror = (event: ErrorEvent) => {
+      if (settled) return;
+      finish();
+      reject(new Error(event.message || 'The background computation failed.'));
+    };
+    worker.postMessage(request);
+  });
+
+  return {
+    promise,
+    cancel: () => {
+      if (settled) return;
+      finish();
+      rejectPromise(cancelledError());
+    }
+  };
+};
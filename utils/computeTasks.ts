@@ -0,0 +1,103 @@
+
+import { CorrelationResult, Dataset, MissingCode, VariableMetadata } from '../types';
+import { calculateCorrelationMatrix, CorrelationOptions } from './statistics';
+import { buildDataset, setDatasetMissingCodes } from './dataset';
+import { analyzeMissingData, MissingDataInput, MissingDataReport } from './missingData';
+import { parseCsvFile } from './csvParser';
+import { getStatFileReader } from './statFiles';
+import { readWorkbook } from './excelImport';
+import * as XLSX from 'xlsx';
+
+/**
+ * Every job the compute worker understands: the payload sent with it and the result it returns
+ */
+export interface ComputeTasks {
+  /** Reads a delimited text or SPSS/Stata/SAS file and builds the dataset from it */
+  loadFile: {
+    payload: { file: File; missingCodes: MissingCode[] };
+    result: Dataset;
+  };
+  /** Parses an Excel file so its sheets can be previewed before import */
+  readWorkbook: {
+    payload: { file: File };
+    result: XLSX.WorkBook;
+  };
+  /** Builds a dataset from rows chosen in the Excel import dialog */
+  buildDataset: {
+    payload: { rows: any[]; filename: string; metadata?: Record<string, VariableMetadata>; missingCodes: MissingCode[] };
+    result: Dataset;
+  };
+  /** Re-applies the dataset-wide missing codes to every column */
+  applyMissingCodes: {
+    payload: { dataset: Dataset; missingCodes: MissingCode[] };
+    result: Dataset;
+  };
+  /** Missingness patterns, Little's MCAR test and complete vs incomplete case comparisons */
+  missingDataReport: {
+    payload: { variables: MissingDataInput[] };
+    result: MissingDataReport;
+  };
+  /** Correlation matrix over numeric columns, NaN marking missing values */
+  correlationMatrix: {
+    payload: { columns: Record<string, Float64Array>; vars: string[]; options: CorrelationOptions };
+    result: CorrelationResult[];
+  };
+}
+
+export type ComputeKind = keyof ComputeTasks;
+
+export type ComputeRequest = { [K in ComputeKind]: { kind: K } & ComputeTasks[K]['payload'] }[ComputeKind];
+
+export interface ComputeProgress {
+  stage: string;
+  /** 0-1 within the current stage */
+  fraction: number;
+}
+
+export type ComputeResponse =
+  | { type: 'progress'; progress: ComputeProgress }
+  | { type: 'result'; result: ComputeTasks[ComputeKind]['result'] }
+  | { type: 'error'; message: string };
+
+const loadFile = async (file: File, missingCodes: MissingCode[], onProgress: (progress: ComputeProgress) => void): Promise<Dataset> => {
+  const readStatFile = getStatFileReader(file.name);
+  let rows: any[];
+  let metadata: Record<string, VariableMetadata> = {};
+  if (readStatFile) {
+    onProgress({ stage: 'Reading file', fraction: 0 });
+    const result = readStatFile(await file.arrayBuffer());
+    rows = result.rows;
+    metadata = result.metadata;
+  } else {
+    const result = await parseCsvFile(file, { onProgress: fraction => onProgress({ stage: 'Reading file', fraction }) });
+    rows = result.rows;
+  }
+  if (rows.length === 0) throw new Error(`No data rows were found in ${file.name}.`);
+  return buildDataset(rows, file.name, metadata, missingCodes, fraction => onProgress({ stage: 'Computing statistics', fraction }));
+};
+
+/**
+ * Runs one compute job. Used by the worker, and directly on the main thread where workers are
+ * unavailable.
+ */
+export const runComputeRequest = async (
+  request: ComputeRequest,
+  onProgress: (progress: ComputeProgress) => void
+): Promise<ComputeTasks[ComputeKind]['result']> => {
+  switch (request.kind) {
+    case 'loadFile':
+      return loadFile(request.file, request.missingCodes, onProgress);
+    case 'readWorkbook':
+      onProgress({ stage: 'Reading file', fraction: 0 });
+      return readWorkbook(request.file);
+    case 'buildDataset':
+      if (request.rows.length === 0) throw new Error(`No data rows were found in ${request.filename}.`);
+      return buildDataset(request.rows, request.filename, request.metadata, request.missingCodes, fraction => onProgress({ stage: 'Computing statistics', fraction }));
+    case 'applyMissingCodes':
+      return setDatasetMissingCodes(request.dataset, request.missingCodes, fraction => onProgress({ stage: 'Applying missing codes', fraction }));
+    case 'missingDataReport':
+      return analyzeMissingData(request.variables, fraction => onProgress({ stage: 'Analysing missing data', fraction }));
+    case 'correlationMatrix':
+      return calculateCorrelationMatrix(request.columns, request.vars, request.options, fraction => onProgress({ stage: 'Computing correlations', fraction }));
+  }
+};
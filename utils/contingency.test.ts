@@ -0,0 +1,50 @@
+
+import { describe, expect, it } from 'vitest';
+import { calculateContingencyTable, fisherExactTest } from './contingency';
+import { calculateGroupStats } from './statistics';
+import { calculateRankGroupStats } from './nonparametric';
+
+const severity = ['Mild', 'Moderate', 'Severe'];
+const data = Array.from({ length: 60 }, (_, i) => ({ grade: severity[i % 3], dose: String(10 - (i % 2) * 8) }));
+
+describe('level order', () => {
+  it('sorts levels naturally when no order is given', () => {
+    const table = calculateContingencyTable(data, 'grade', 'dose')!;
+    expect(table.rowLevels).toEqual(['Mild', 'Moderate', 'Severe']);
+    expect(table.colLevels).toEqual(['2', '10']);
+  });
+
+  it('follows a user-defined order for rows and columns', () => {
+    const table = calculateContingencyTable(data, 'grade', 'dose', ['Severe', 'Moderate', 'Mild'], ['10', '2'])!;
+    expect(table.rowLevels).toEqual(['Severe', 'Moderate', 'Mild']);
+    expect(table.colLevels).toEqual(['10', '2']);
+    expect(table.rowTotals).toEqual([20, 20, 20]);
+  });
+
+  it('orders groups in the group tests, even with integer-like names', () => {
+    const groups = { '10': [1, 2, 3, 4], '2': [2, 3, 4, 5], '5': [3, 4, 5, 6] };
+    const order = ['10', '5', '2'];
+    expect(calculateGroupStats(groups, { order })!.groups.map(g => g.name)).toEqual(order);
+    expect(calculateRankGroupStats(groups, 'none', order)!.groups.map(g => g.name)).toEqual(order);
+    expect(calculateGroupStats(groups)!.groups.map(g => g.name)).toEqual(['2', '5', '10']);
+  });
+});
+
+describe('fisherExactTest', () => {
+  it('matches fisher.test for 2 x 2 and r x c tables', () => {
+    // Fisher's tea-tasting experiment
+    expect(fisherExactTest([[3, 1], [1, 3]])).toBeCloseTo(0.4857, 4);
+    // Freeman-Halton p-value by brute-force enumeration of every table with these margins
+    expect(fisherExactTest([[6, 2, 3], [1, 5, 2], [2, 3, 7]])).toBeCloseTo(0.1037894, 6);
+  });
+
+  it('falls back to chi-square when the table space is too large to enumerate', () => {
+    const counts = [[3, 4, 5, 2], [4, 3, 2, 6], [5, 2, 3, 4]];
+    expect(fisherExactTest(counts)).toBeNull();
+    const rows = counts.flatMap((row, i) => row.flatMap((count, j) => Array.from({ length: count }, () => ({ a: `r${i}`, b: `c${j}` }))));
+    const table = calculateContingencyTable(rows, 'a', 'b')!;
+    expect(table.lowExpectedCells).toBe(12);
+    expect(table.fisher).toBeNull();
+    expect(table.recommendedTest).toBe('chiSquare');
+  });
+});
@@ -0,0 +1,155 @@
+
+import { logGamma, pFromChiSquare } from './distributions';
+import { isMissingValue } from './statistics';
+import { orderLevels } from './variableTypes';
+
+export interface ContingencyTableResult {
+  rowVar: string;
+  colVar: string;
+  rowLevels: string[];
+  colLevels: string[];
+  counts: number[][];
+  expected: number[][];
+  rowTotals: number[];
+  colTotals: number[];
+  total: number;
+  chiSquare: { statistic: number; df: number; p: number };
+  fisher: { p: number } | null;
+  cramersV: number;
+  lowExpectedCells: number;
+  recommendedTest: 'chiSquare' | 'fisher';
+}
+
+/**
+ * Upper bound on the cells Fisher's exact test will fill while enumerating r x c tables. The test
+ * runs synchronously on every variable change, so this keeps it to a few milliseconds; larger
+ * tables fall back to chi-square.
+ */
+const MAX_FISHER_STEPS = 10000;
+
+const logFactorial = (n: number): number => logGamma(n + 1);
+
+/**
+ * Fisher's exact test (Freeman-Halton extension for r x c tables). Enumerates every table
+ * with the observed margins and sums the probabilities of those no more likely than the
+ * observed one. Returns null when the table space is too large to enumerate quickly.
+ */
+export const fisherExactTest = (counts: number[][]): number | null => {
+  const rowTotals = counts.map(row => row.reduce((a, b) => a + b, 0));
+  const colTotals = counts[0].map((_, j) => counts.reduce((acc, row) => acc + row[j], 0));
+  const n = rowTotals.reduce((a, b) => a + b, 0);
+  const r = rowTotals.length;
+  const c = colTotals.length;
+  if (n === 0 || r < 2 || c < 2) return null;
+
+  // Every cell and margin is at most n, so the log factorials are tabulated once
+  const logFact = Array.from({ length: n + 1 }, (_, k) => logFactorial(k));
+
+  // Log probability shared by every table with these margins
+  const logConst = rowTotals.reduce((acc, t) => acc + logFact[t], 0)
+    + colTotals.reduce((acc, t) => acc + logFact[t], 0)
+    - logFact[n];
+  const logProb = (table: number[][]) => logConst - table.reduce((acc, row) => acc + row.reduce((s, v) => s + logFact[v], 0), 0);
+
+  // Relative tolerance so that tables tied with the observed one are counted
+  const observed = logProb(counts) + 1e-7;
+  let pValue = 0;
+  let steps = 0;
+  const remaining = [...rowTotals];
+
+  // Fill one column at a time; the last column is fixed by the remaining row totals
+  const fillColumn = (j: number, logAcc: number): boolean => {
+    if (j === c - 1) {
+      const lp = logAcc - remaining.reduce((acc, v) => acc + logFact[v], 0);
+      if (lp <= observed) pValue += Math.exp(lp);
+      return true;
+    }
+    const fillCell = (i: number, left: number, cellAcc: number): boolean => {
+      if (++steps > MAX_FISHER_STEPS) return false;
+      if (i === r - 1) {
+        if (left > remaining[i]) return true;
+        remaining[i] -= left;
+        const ok = fillColumn(j + 1, cellAcc - logFact[left]);
+        remaining[i] += left;
+        return ok;
+      }
+      // Rows below this one must be able to absorb what is left of the column total
+      let capacityBelow = 0;
+      for (let k = i + 1; k < r; k++) capacityBelow += remaining[k];
+      const lower = Math.max(0, left - capacityBelow);
+      const upper = Math.min(remaining[i], left);
+      for (let v = lower; v <= upper; v++) {
+        remaining[i] -= v;
+        const ok = fillCell(i + 1, left - v, cellAcc - logFact[v]);
+        remaining[i] += v;
+        if (!ok) return false;
+      }
+      return true;
+    };
+    return fillCell(0, colTotals[j], logAcc);
+  };
+
+  if (!fillColumn(0, logConst)) return null;
+  return Math.min(1, pValue);
+};
+
+/**
+ * Cross-tabulates two categorical variables and runs Pearson's chi-square test, Fisher's
+ * exact test and Cramér's V. Rows with a missing value in either variable are excluded.
+ * Fisher's test is recommended when more than 20% of expected counts are below 5 or any is below 1.
+ * Levels follow rowOrder and colOrder (e.g. an ordinal variable's levels), then natural sort order.
+ */
+export const calculateContingencyTable = (
+  data: any[],
+  rowVar: string,
+  colVar: string,
+  rowOrder: string[] = [],
+  colOrder: string[] = []
+): ContingencyTableResult | null => {
+  const complete = data.filter(row => !isMissingValue(row[rowVar]) && !isMissingValue(row[colVar]));
+  const rowLevels = orderLevels(complete.map(row => row[rowVar]), rowOrder);
+  const colLevels = orderLevels(complete.map(row => row[colVar]), colOrder);
+  if (rowLevels.length < 2 || colLevels.length < 2) return null;
+
+  const rowIndex = new Map(rowLevels.map((level, i) => [level, i]));
+  const colIndex = new Map(colLevels.map((level, j) => [level, j]));
+  const counts = rowLevels.map(() => new Array<number>(colLevels.length).fill(0));
+  complete.forEach(row => {
+    counts[rowIndex.get(String(row[rowVar]))!][colIndex.get(String(row[colVar]))!]++;
+  });
+
+  const rowTotals = counts.map(row => row.reduce((a, b) => a + b, 0));
+  const colTotals = colLevels.map((_, j) => counts.reduce((acc, row) => acc + row[j], 0));
+  const total = complete.length;
+  const expected = rowTotals.map(rt => colTotals.map(ct => (rt * ct) / total));
+
+  let statistic = 0;
+  let lowExpectedCells = 0;
+  let anyBelowOne = false;
+  counts.forEach((row, i) => row.forEach((obs, j) => {
+    const e = expected[i][j];
+    statistic += (obs - e) ** 2 / e;
+    if (e < 5) lowExpectedCells++;
+    if (e < 1) anyBelowOne = true;
+  }));
+  const df = (rowLevels.length - 1) * (colLevels.length - 1);
+  const minDim = Math.min(rowLevels.length, colLevels.length) - 1;
+  const fisherP = fisherExactTest(counts);
+
+  return {
+    rowVar,
+    colVar,
+    rowLevels,
+    colLevels,
+    counts,
+    expected,
+    rowTotals,
+    colTotals,
+    total,
+    chiSquare: { statistic, df, p: pFromChiSquare(statistic, df) },
+    fisher: fisherP === null ? null : { p: fisherP },
+    cramersV: Math.sqrt(statistic / (total * minDim)),
+    lowExpectedCells,
+    recommendedTest: (anyBelowOne || lowExpectedCells / (rowLevels.length * colLevels.length) > 0.2) && fisherP !== null ? 'fisher' : 'chiSquare'
+  };
+};
@@ -0,0 +1,145 @@
+
+import { describe, expect, it } from 'vitest';
+import { createCsvTokenizer, detectDelimiter, detectEncoding, parseCsvFile, parseCsvText, parseCsvValue } from './csvParser';
+
+const tokenize = (chunks: string[], delimiter: ',' | ';' = ',') => {
+  const records: string[][] = [];
+  const tokenizer = createCsvTokenizer(delimiter, fields => records.push(fields));
+  chunks.forEach(chunk => tokenizer.push(chunk));
+  tokenizer.flush();
+  return records;
+};
+
+const utf16 = (text: string, littleEndian: boolean, bom = true) => {
+  const units = (bom ? '\uFEFF' : '') + text;
+  const bytes = new Uint8Array(units.length * 2);
+  const view = new DataView(bytes.buffer);
+  for (let i = 0; i < units.length; i++) view.setUint16(i * 2, units.charCodeAt(i), littleEndian);
+  return bytes;
+};
+
+describe('createCsvTokenizer', () => {
+  it('keeps line breaks and delimiters inside quoted fields', () => {
+    expect(tokenize(['id,note\n1,"first line\nsecond, line"\n2,plain\n'])).toEqual([
+      ['id', 'note'],
+      ['1', 'first line\nsecond, line'],
+      ['2', 'plain']
+    ]);
+  });
+
+  it('reads "" inside quotes as an escaped quote', () => {
+    expect(tokenize(['a,b\n"say ""hi""",""\n'])).toEqual([['a', 'b'], ['say "hi"', '']]);
+  });
+
+  it('joins records split across chunk boundaries', () => {
+    const text = 'name,text\r\n"Smith, J","quote "" here"\r\nLee,x\r\n';
+    const whole = tokenize([text]);
+    // Every split point, including inside "" and between CR and LF
+    for (let i = 1; i < text.length; i++) {
+      expect(tokenize([text.slice(0, i), text.slice(i)])).toEqual(whole);
+    }
+    expect(tokenize(text.split(''))).toEqual(whole);
+  });
+
+  it('ends records on CRLF, LF or a lone CR and keeps a last line without a break', () => {
+    expect(tokenize(['a\r\nb\nc\rd'])).toEqual([['a'], ['b'], ['c'], ['d']]);
+  });
+});
+
+describe('detectEncoding', () => {
+  it('recognises byte-order marks', () => {
+    expect(detectEncoding(new Uint8Array([0xef, 0xbb, 0xbf, 0x61]))).toBe('utf-8');
+    expect(detectEncoding(utf16('a,b', true))).toBe('utf-16le');
+    expect(detectEncoding(utf16('a,b', false))).toBe('utf-16be');
+  });
+
+  it('recognises UTF-16 without a BOM and falls back to Windows-1252', () => {
+    expect(detectEncoding(utf16('x,y\n1,2\n', true, false))).toBe('utf-16le');
+    expect(detectEncoding(utf16('x,y\n1,2\n', false, false))).toBe('utf-16be');
+    // "café;" in Latin-1 is not valid UTF-8
+    expect(detectEncoding(new Uint8Array([0x63, 0x61, 0x66, 0xe9, 0x3b]))).toBe('windows-1252');
+    expect(detectEncoding(new TextEncoder().encode('café'))).toBe('utf-8');
+  });
+});
+
+describe('detectDelimiter', () => {
+  it.each([
+    ['a,b,c\n1,2,3\n4,5,6\n', ','],
+    ['a;b;c\n1,5;2;3\n4;5,5;6\n', ';'],
+    ['a\tb\n1\t2\n', '\t'],
+    ['a|b|c\n1|2|3\n', '|']
+  ])('detects the delimiter of %j', (sample, delimiter) => {
+    expect(detectDelimiter(sample)).toBe(delimiter);
+  });
+
+  it('ignores delimiters inside quoted fields', () => {
+    expect(detectDelimiter('name;city\n"Smith, J";"Paris, FR"\n"Lee, K";Rome\n')).toBe(';');
+  });
+});
+
+describe('parseCsvValue', () => {
+  it('reads numbers with a decimal point by default', () => {
+    expect(parseCsvValue(' 3.5 ')).toBe(3.5);
+    expect(parseCsvValue('-1e3')).toBe(-1000);
+    expect(parseCsvValue('')).toBeNull();
+    expect(parseCsvValue('3,5')).toBe('3,5');
+  });
+
+  it('reads thousands-grouped integers in decimal-comma mode', () => {
+    expect(parseCsvValue('1.234', true)).toBe(1234);
+    expect(parseCsvValue('12.500', true)).toBe(12500);
+    expect(parseCsvValue('-1.234.567', true)).toBe(-1234567);
+    expect(parseCsvValue('1.234,5', true)).toBe(1234.5);
+    expect(parseCsvValue('3,75', true)).toBe(3.75);
+    expect(parseCsvValue('42', true)).toBe(42);
+  });
+
+  it('never falls back to a decimal point in decimal-comma mode', () => {
+    expect(parseCsvValue('1.5', true)).toBe('1.5');
+    expect(parseCsvValue('1.2345', true)).toBe('1.2345');
+  });
+});
+
+describe('parseCsvText', () => {
+  it('detects a decimal comma and converts grouped integers consistently', () => {
+    const result = parseCsvText('site;population;rate\nA;1.234;3,5\nB;12.500;4,25\nC;1.234,5;1,0\n');
+    expect(result.delimiter).toBe(';');
+    expect(result.decimalComma).toBe(true);
+    expect(result.rows.map(r => r.population)).toEqual([1234, 12500, 1234.5]);
+    expect(result.rows.map(r => r.rate)).toEqual([3.5, 4.25, 1]);
+  });
+
+  it('keeps the decimal point when a semicolon file uses it', () => {
+    const result = parseCsvText('a;b\n1.5;2.25\n3.75;4\n');
+    expect(result.decimalComma).toBe(false);
+    expect(result.rows).toEqual([{ a: 1.5, b: 2.25 }, { a: 3.75, b: 4 }]);
+  });
+
+  it('strips a BOM, skips blank lines, pads short records and names blank or repeated headers', () => {
+    const result = parseCsvText('\uFEFFage,,age\n30,x,1\n\n40\n');
+    expect(result.headers).toEqual(['age', 'Column 2', 'age_2']);
+    expect(result.rows).toEqual([{ age: 30, 'Column 2': 'x', age_2: 1 }, { age: 40, 'Column 2': null, age_2: null }]);
+  });
+});
+
+describe('parseCsvFile', () => {
+  const text = 'name;score\n"Müller, A";1.234,5\nÅsa;2,5\n';
+
+  it('decodes UTF-16 with a BOM', async () => {
+    for (const littleEndian of [true, false]) {
+      const result = await parseCsvFile(new Blob([utf16(text, littleEndian)]));
+      expect(result.encoding).toBe(littleEndian ? 'utf-16le' : 'utf-16be');
+      expect(result.headers).toEqual(['name', 'score']);
+      expect(result.rows).toEqual([{ name: 'Müller, A', score: 1234.5 }, { name: 'Åsa', score: 2.5 }]);
+    }
+  });
+
+  it('streams small chunks, splitting multi-byte characters and records between them', async () => {
+    const bytes = new TextEncoder().encode('\uFEFF' + text);
+    const progress: number[] = [];
+    const result = await parseCsvFile(new Blob([bytes]), { chunkSize: 3, onProgress: f => progress.push(f) });
+    expect(result.encoding).toBe('utf-8');
+    expect(result.rows).toEqual([{ name: 'Müller, A', score: 1234.5 }, { name: 'Åsa', score: 2.5 }]);
+    expect(progress[progress.length - 1]).toBe(1);
+  });
+});
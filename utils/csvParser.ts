@@ -0,0 +1,295 @@
+
+export type CsvDelimiter = ',' | ';' | '\t' | '|';
+
+export type CsvEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+export type CsvValue = string | number | null;
+
+export const CSV_DELIMITERS: Record<CsvDelimiter, string> = {
+  ',': 'Comma',
+  ';': 'Semicolon',
+  '\t': 'Tab',
+  '|': 'Pipe'
+};
+
+export interface CsvParseOptions {
+  delimiter?: CsvDelimiter;
+  encoding?: CsvEncoding;
+  decimalComma?: boolean;
+  chunkSize?: number;
+  onProgress?: (fraction: number) => void;
+}
+
+export interface CsvParseResult {
+  headers: string[];
+  rows: Record<string, CsvValue>[];
+  delimiter: CsvDelimiter;
+  encoding: CsvEncoding;
+  decimalComma: boolean;
+}
+
+export interface CsvTokenizer {
+  push: (text: string) => void;
+  flush: () => void;
+}
+
+const DEFAULT_CHUNK_SIZE = 1 << 20;
+const DETECTION_SAMPLE_BYTES = 65536;
+const SAMPLE_RECORDS = 50;
+const NUMBER_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+const DECIMAL_COMMA_PATTERN = /^[-+]?(\d{1,3}(\.\d{3})+|\d+),\d+$/;
+const DECIMAL_POINT_PATTERN = /^[-+]?\d*\.\d+$/;
+/** "1.234" or "12.500": thousands grouping in decimal-comma files, but a decimal point otherwise */
+const GROUPED_INTEGER_PATTERN = /^[-+]?\d{1,3}(\.\d{3})+$/;
+
+/**
+ * Incremental RFC 4180 tokenizer. Text can be pushed in arbitrary chunks: quoted fields may span
+ * chunk boundaries and line breaks, "" inside quotes is an escaped quote, and CRLF, LF or a lone CR
+ * end a record. Completed records are passed to onRecord as arrays of raw field strings.
+ */
+export const createCsvTokenizer = (delimiter: CsvDelimiter, onRecord: (fields: string[]) => void): CsvTokenizer => {
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  // A quote was seen inside a quoted field: either an escaped quote or the closing quote
+  let pendingQuote = false;
+  // The previous chunk ended on CR, so a leading LF belongs to the same line break
+  let skipLineFeed = false;
+  let fieldStarted = false;
+
+  const endField = () => {
+    fields.push(field);
+    field = '';
+    fieldStarted = false;
+  };
+
+  const endRecord = () => {
+    endField();
+    onRecord(fields);
+    fields = [];
+  };
+
+  const push = (text: string) => {
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i];
+      if (skipLineFeed) {
+        skipLineFeed = false;
+        if (ch === '\n') continue;
+      }
+      if (pendingQuote) {
+        pendingQuote = false;
+        if (ch === '"') {
+          field += '"';
+          continue;
+        }
+        inQuotes = false;
+      }
+      if (inQuotes) {
+        if (ch === '"') pendingQuote = true;
+        else field += ch;
+        continue;
+      }
+      if (ch === delimiter) {
+        endField();
+      } else if (ch === '\n' || ch === '\r') {
+        endRecord();
+        skipLineFeed = ch === '\r';
+      } else if (ch === '"' && !fieldStarted) {
+        inQuotes = true;
+        fieldStarted = true;
+      } else {
+        field += ch;
+        fieldStarted = true;
+      }
+    }
+  };
+
+  const flush = () => {
+    if (pendingQuote) {
+      pendingQuote = false;
+      inQuotes = false;
+    }
+    if (fieldStarted || field !== '' || fields.length > 0) endRecord();
+    inQuotes = false;
+    skipLineFeed = false;
+  };
+
+  return { push, flush };
+};
+
+/**
+ * Detects the text encoding from a byte-order mark, falling back to UTF-16 when every other byte
+ * is zero and to Windows-1252 (a Latin-1 superset) when the bytes are not valid UTF-8
+ */
+export const detectEncoding = (bytes: Uint8Array): CsvEncoding => {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+
+  const sample = bytes.subarray(0, Math.min(bytes.length, 4096));
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < sample.length; i++) {
+    if (sample[i] === 0) {
+      if (i % 2 === 0) evenZeros++;
+      else oddZeros++;
+    }
+  }
+  const half = sample.length / 2;
+  if (half > 0 && oddZeros / half > 0.3 && evenZeros / half < 0.05) return 'utf-16le';
+  if (half > 0 && evenZeros / half > 0.3 && oddZeros / half < 0.05) return 'utf-16be';
+
+  try {
+    // stream: true tolerates a multi-byte character cut off at the end of the sample
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+};
+
+const tokenizeSample = (sample: string, delimiter: CsvDelimiter, maxRecords = SAMPLE_RECORDS): string[][] => {
+  const records: string[][] = [];
+  // Drop the last line of the sample: it may have been cut off mid-record
+  const lastBreak = Math.max(sample.lastIndexOf('\n'), sample.lastIndexOf('\r'));
+  const text = lastBreak > 0 ? sample.slice(0, lastBreak) : sample;
+  const tokenizer = createCsvTokenizer(delimiter, fields => {
+    if (records.length < maxRecords && !(fields.length === 1 && fields[0].trim() === '')) records.push(fields);
+  });
+  tokenizer.push(text);
+  tokenizer.flush();
+  return records;
+};
+
+/**
+ * Picks the delimiter that splits the sample into the most records with the same number of
+ * fields (more than one), preferring more fields on ties
+ */
+export const detectDelimiter = (sample: string): CsvDelimiter => {
+  let best: { delimiter: CsvDelimiter; consistent: number; width: number } = { delimiter: ',', consistent: 0, width: 1 };
+  (Object.keys(CSV_DELIMITERS) as CsvDelimiter[]).forEach(delimiter => {
+    const records = tokenizeSample(sample, delimiter);
+    if (records.length === 0) return;
+    const width = records[0].length;
+    if (width < 2) return;
+    const consistent = records.filter(r => r.length === width).length;
+    if (consistent > best.consistent || (consistent === best.consistent && width > best.width)) {
+      best = { delimiter, consistent, width };
+    }
+  });
+  return best.delimiter;
+};
+
+/**
+ * True when numbers in the sample are written with a decimal comma (e.g. "3,75" or "1.234,5").
+ * Never true for comma-delimited files, where the comma cannot be a decimal separator.
+ */
+export const detectDecimalComma = (records: string[][], delimiter: CsvDelimiter): boolean => {
+  if (delimiter === ',') return false;
+  let commaCount = 0;
+  let pointCount = 0;
+  records.slice(1).forEach(record => record.forEach(raw => {
+    const value = raw.trim();
+    if (DECIMAL_COMMA_PATTERN.test(value)) commaCount++;
+    // Grouped integers fit either convention, so they are no evidence for the decimal point
+    else if (DECIMAL_POINT_PATTERN.test(value) && !GROUPED_INTEGER_PATTERN.test(value)) pointCount++;
+  }));
+  return commaCount > pointCount;
+};
+
+/**
+ * Converts a raw field to a number when it is numeric, null when it is empty, and a trimmed
+ * string otherwise. With a decimal comma, dots only group thousands ("1.234" is 1234), and a
+ * value such as "1.5" stays text rather than being read with a decimal point.
+ */
+export const parseCsvValue = (raw: string, decimalComma = false): CsvValue => {
+  const value = raw.trim();
+  if (value === '') return null;
+  if (decimalComma) {
+    if (DECIMAL_COMMA_PATTERN.test(value)) return Number(value.replace(/\./g, '').replace(',', '.'));
+    if (GROUPED_INTEGER_PATTERN.test(value)) return Number(value.replace(/\./g, ''));
+    return NUMBER_PATTERN.test(value) && !value.includes('.') ? Number(value) : value;
+  }
+  if (NUMBER_PATTERN.test(value)) return Number(value);
+  return value;
+};
+
+/**
+ * Header names with blanks filled in ("Column 3") and duplicates suffixed ("age_2"), so every
+ * column gets its own key in the row objects
+ */
+export const normalizeHeaders = (fields: string[]): string[] => {
+  const used = new Set<string>();
+  return fields.map((raw, i) => {
+    const base = raw.trim() || `Column ${i + 1}`;
+    let name = base;
+    for (let k = 2; used.has(name); k++) name = `${base}_${k}`;
+    used.add(name);
+    return name;
+  });
+};
+
+/**
+ * Collects tokenized records into row objects keyed by the header. Blank lines are skipped and
+ * short records are padded with nulls.
+ */
+const createRowCollector = (decimalComma: boolean) => {
+  let headers: string[] | null = null;
+  const rows: Record<string, CsvValue>[] = [];
+  const onRecord = (fields: string[]) => {
+    if (fields.every(f => f.trim() === '')) return;
+    if (!headers) {
+      headers = normalizeHeaders(fields);
+      return;
+    }
+    const row: Record<string, CsvValue> = {};
+    headers.forEach((h, i) => {
+      row[h] = i < fields.length ? parseCsvValue(fields[i], decimalComma) : null;
+    });
+    rows.push(row);
+  };
+  return { onRecord, getHeaders: () => headers ?? [], rows };
+};
+
+/**
+ * Parses CSV/TSV text that is already in memory
+ */
+export const parseCsvText = (text: string, options: Omit<CsvParseOptions, 'encoding' | 'chunkSize' | 'onProgress'> = {}): CsvParseResult => {
+  const body = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const sample = body.slice(0, DETECTION_SAMPLE_BYTES);
+  const delimiter = options.delimiter ?? detectDelimiter(sample);
+  const decimalComma = options.decimalComma ?? detectDecimalComma(tokenizeSample(sample, delimiter), delimiter);
+  const collector = createRowCollector(decimalComma);
+  const tokenizer = createCsvTokenizer(delimiter, collector.onRecord);
+  tokenizer.push(body);
+  tokenizer.flush();
+  return { headers: collector.getHeaders(), rows: collector.rows, delimiter, encoding: 'utf-8', decimalComma };
+};
+
+/**
+ * Streams a delimited text file in chunks, decoding and tokenizing as it goes so large files never
+ * have to be held in memory as a single string. Encoding, delimiter and decimal separator are
+ * detected from the first 64 KB unless given in options.
+ */
+export const parseCsvFile = async (file: Blob, options: CsvParseOptions = {}): Promise<CsvParseResult> => {
+  const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  const sampleBytes = new Uint8Array(await file.slice(0, DETECTION_SAMPLE_BYTES).arrayBuffer());
+  const encoding = options.encoding ?? detectEncoding(sampleBytes);
+  const sample = new TextDecoder(encoding).decode(sampleBytes, { stream: true });
+  const delimiter = options.delimiter ?? detectDelimiter(sample);
+  const decimalComma = options.decimalComma ?? detectDecimalComma(tokenizeSample(sample, delimiter), delimiter);
+
+  const collector = createRowCollector(decimalComma);
+  const tokenizer = createCsvTokenizer(delimiter, collector.onRecord);
+  // TextDecoder strips a matching BOM by default
+  const decoder = new TextDecoder(encoding);
+  for (let offset = 0; offset < file.size; offset += chunkSize) {
+    const bytes = new Uint8Array(await file.slice(offset, offset + chunkSize).arrayBuffer());
+    tokenizer.push(decoder.decode(bytes, { stream: true }));
+    options.onProgress?.(Math.min(1, (offset + chunkSize) / file.size));
+  }
+  tokenizer.push(decoder.decode());
+  tokenizer.flush();
+
+  return { headers: collector.getHeaders(), rows: collector.rows, delimiter, encoding, decimalComma };
+};
@@ -0,0 +1,25 @@
+
+import { describe, expect, it } from 'vitest';
+import { addVariable, buildDataset, createDerivedVariable, setDatasetMissingCodes, subsetRows } from './dataset';
+
+// -99 marks missing in the source file; x - 100 computes -99 for x = 1
+const rows = [{ x: 1 }, { x: 5 }, { x: -99 }, { x: 20 }];
+
+describe('createDerivedVariable', () => {
+  it('does not apply dataset-wide missing codes to computed values', () => {
+    const dataset = buildDataset(rows, 'test.csv', {}, [-99]);
+    expect(dataset.variables[0].values).toEqual([1, 5, null, 20]);
+    const derived = createDerivedVariable(dataset, 'shifted', { kind: 'formula', expression: 'x - 100' });
+    expect(derived.values).toEqual([-99, -95, null, -80]);
+    expect(derived.stats.codedMissing).toBe(0);
+  });
+
+  it('keeps computed values when the dataset codes or rows change', () => {
+    const dataset = buildDataset(rows, 'test.csv', {}, [-99]);
+    const withDerived = addVariable(dataset, createDerivedVariable(dataset, 'shifted', { kind: 'formula', expression: 'x - 100' }));
+    const recoded = setDatasetMissingCodes(withDerived, [-99, -95]);
+    expect(recoded.variables[1].values).toEqual([-99, -95, null, -80]);
+    const subset = subsetRows(withDerived, [true, true, false, false], 'first two rows');
+    expect(subset.variables[1].stats.codedMissing).toBe(0);
+  });
+});
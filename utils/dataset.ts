@@ -0,0 +1,216 @@
+
+import { Dataset, DataVariable, Derivation, MissingCode, VariableMetadata, VariableType } from '../types';
+import { calculateSummaryStats, isMissingValue, isUserMissing, MissingDefinition } from './statistics';
+import { convertValues, detectVariableType, isCategoricalType, orderLevels, TypeDetection } from './variableTypes';
+import { computeDerivation, describeDerivation } from './transform';
+
+interface TypeOverride {
+  type?: VariableType;
+  levels?: string[];
+}
+
+/** What a variable keeps across rebuilds besides its values: dictionary metadata and derivation */
+type VariableSource = VariableMetadata & { derivation?: Derivation };
+
+const metadataOf = (v: DataVariable): VariableSource => ({
+  label: v.label,
+  valueLabels: v.valueLabels,
+  missingCodes: v.missingCodes,
+  missingRange: v.missingRange,
+  derivation: v.derivation
+});
+
+/**
+ * Dataset-wide codes describe how the source file marks missing cells, so they are not applied to
+ * derived variables: their values are computed, and a result such as -99 is a real value.
+ */
+const missingDefinitionOf = (meta: VariableSource, datasetCodes: MissingCode[]): MissingDefinition => ({
+  missingCodes: [...(meta.missingCodes ?? []), ...(meta.derivation ? [] : datasetCodes)],
+  missingRange: meta.missingRange
+});
+
+/**
+ * Builds a variable from its imported values: missing codes (the variable's own and the
+ * dataset-wide ones) become empty cells, fully labelled codes are replaced by their labels, and
+ * the type is detected unless an override is given.
+ */
+const createVariable = (
+  name: string,
+  rawValues: any[],
+  meta: VariableSource,
+  datasetCodes: MissingCode[],
+  override?: TypeOverride
+): DataVariable => {
+  const missingDefinition = missingDefinitionOf(meta, datasetCodes);
+  let codedMissing = 0;
+  const cleaned = rawValues.map(v => {
+    if (!isUserMissing(v, missingDefinition)) return v;
+    codedMissing++;
+    return null;
+  });
+  const nonNull = cleaned.filter(v => !isMissingValue(v));
+  const labels = meta.valueLabels;
+
+  let labelledValues = cleaned;
+  let detection: TypeDetection;
+  if (labels && nonNull.length > 0 && nonNull.every(v => labels[String(v)] !== undefined)) {
+    // Fully labelled codes (1 = Male, 2 = Female) are analysed by their labels, ordered by code
+    labelledValues = cleaned.map(v => (isMissingValue(v) ? null : labels[String(v)]));
+    const codeOrder = Object.keys(labels).sort((a, b) => Number(a) - Number(b) || a.localeCompare(b)).map(code => labels[code]);
+    const levels = orderLevels(labelledValues, codeOrder);
+    detection = { type: levels.length === 2 ? 'binary' : 'categorical', levels };
+  } else {
+    detection = detectVariableType(name, cleaned);
+  }
+
+  const type = override?.type ?? detection.type;
+  const values = convertValues(labelledValues, type);
+  return {
+    ...meta,
+    name,
+    type,
+    detectedType: detection.type,
+    values,
+    rawValues,
+    levels: isCategoricalType(type) ? orderLevels(values, override?.levels ?? detection.levels) : undefined,
+    stats: { ...calculateSummaryStats(values, type), codedMissing }
+  };
+};
+
+/**
+ * Rebuilds a variable after its missing codes changed, keeping a type and level order the user
+ * chose by hand
+ */
+const rebuildVariable = (v: DataVariable, meta: VariableSource, datasetCodes: MissingCode[]): DataVariable =>
+  createVariable(v.name, v.rawValues, meta, datasetCodes, { type: v.type !== v.detectedType ? v.type : undefined, levels: v.levels });
+
+/**
+ * Keeps the row-based data and the numerical/categorical name lists in step with the variables
+ */
+export const replaceVariables = (dataset: Dataset, variables: DataVariable[]): Dataset => {
+  const changed = variables.filter((v, i) => dataset.variables[i] !== v);
+  const data = changed.length === 0 ? dataset.data : dataset.data.map((row, idx) => {
+    const newRow = { ...row };
+    changed.forEach(v => {
+      newRow[v.name] = v.values[idx];
+    });
+    return newRow;
+  });
+  return {
+    ...dataset,
+    data,
+    variables,
+    numericalVariables: variables.filter(v => v.type === 'numerical').map(v => v.name),
+    categoricalVariables: variables.filter(v => isCategoricalType(v.type)).map(v => v.name)
+  };
+};
+
+/**
+ * Overrides a variable's type, re-converting its imported values. For ordinal variables, levels
+ * sets the order from lowest to highest.
+ */
+export const setVariableType = (dataset: Dataset, name: string, type: VariableType, levels?: string[]): Dataset =>
+  replaceVariables(dataset, dataset.variables.map(v =>
+    v.name === name ? createVariable(name, v.rawValues, metadataOf(v), dataset.missingCodes, { type, levels: levels ?? v.levels }) : v
+  ));
+
+/**
+ * Replaces one variable's own missing codes
+ */
+export const setVariableMissingCodes = (dataset: Dataset, name: string, missingCodes: MissingCode[]): Dataset =>
+  replaceVariables(dataset, dataset.variables.map(v =>
+    v.name === name ? rebuildVariable(v, { ...metadataOf(v), missingCodes }, dataset.missingCodes) : v
+  ));
+
+/**
+ * Replaces the codes treated as missing in every column. Variables whose type was detected
+ * automatically are re-detected, since removing "NA" can turn a text column numeric.
+ */
+export const setDatasetMissingCodes = (dataset: Dataset, missingCodes: MissingCode[], onProgress?: (fraction: number) => void): Dataset => {
+  const variables = dataset.variables.map((v, index) => {
+    const rebuilt = rebuildVariable(v, metadataOf(v), missingCodes);
+    onProgress?.((index + 1) / dataset.variables.length);
+    return rebuilt;
+  });
+  return replaceVariables({ ...dataset, missingCodes }, variables);
+};
+
+/**
+ * Builds a new variable from other columns without adding it, so it can be previewed. The values
+ * are computed once; later changes to the source columns do not carry over. Throws an Error for
+ * an empty or duplicate name or a definition that cannot be applied.
+ */
+export const createDerivedVariable = (dataset: Dataset, name: string, derivation: Derivation): DataVariable => {
+  const trimmed = name.trim();
+  if (trimmed === '') throw new Error('Enter a name for the new variable.');
+  if (dataset.variables.some(v => v.name === trimmed)) throw new Error(`A variable named ${trimmed} already exists.`);
+  const { values, type, levels } = computeDerivation(dataset, derivation);
+  return createVariable(trimmed, values, { label: describeDerivation(derivation), derivation }, dataset.missingCodes, { type, levels });
+};
+
+export const addVariable = (dataset: Dataset, variable: DataVariable): Dataset =>
+  replaceVariables(dataset, [...dataset.variables, variable]);
+
+export const removeVariable = (dataset: Dataset, name: string): Dataset => {
+  const data = dataset.data.map(row => {
+    const { [name]: _removed, ...rest } = row;
+    return rest;
+  });
+  return replaceVariables({ ...dataset, data }, dataset.variables.filter(v => v.name !== name));
+};
+
+/**
+ * Keeps the rows where keep[i] is true, recomputing every variable's summary statistics for the
+ * subset. Types and level orders stay those of the full data.
+ */
+export const subsetRows = (dataset: Dataset, keep: boolean[], description: string): Dataset => {
+  const pick = <T>(items: T[]) => items.filter((_, i) => keep[i]);
+  const variables = dataset.variables.map(v => {
+    const values = pick(v.values);
+    const rawValues = pick(v.rawValues);
+    const missingDefinition = missingDefinitionOf(v, dataset.missingCodes);
+    const codedMissing = rawValues.filter(raw => isUserMissing(raw, missingDefinition)).length;
+    return { ...v, values, rawValues, stats: { ...calculateSummaryStats(values, v.type), codedMissing } };
+  });
+  return { ...dataset, data: pick(dataset.data), variables, subset: { description, totalRows: dataset.data.length } };
+};
+
+/** Codes offered as one-click choices wherever missing codes are entered */
+export const COMMON_MISSING_CODES = ['-99', '-9', '999', '9999', 'NA', 'N/A', '.', 'Unknown'];
+
+/**
+ * Parses a comma-separated list of missing codes ("-99, NA, .") as typed by the user
+ */
+export const parseMissingCodes = (text: string): MissingCode[] =>
+  Array.from(new Set(text.split(',').map(code => code.trim()).filter(code => code !== '')));
+
+/**
+ * Adds the code to a comma-separated list, or removes it when already present
+ */
+export const toggleMissingCode = (text: string, code: string): string => {
+  const codes = parseMissingCodes(text).map(String);
+  return (codes.includes(code) ? codes.filter(c => c !== code) : [...codes, code]).join(', ');
+};
+
+/**
+ * Turns parsed rows into a Dataset: applies missing codes and value labels from the file's
+ * metadata and the dataset-wide missing codes, detects each column's type and computes its
+ * summary statistics. onProgress receives the fraction of columns processed.
+ */
+export const buildDataset = (
+  rows: any[],
+  filename: string,
+  metadata: Record<string, VariableMetadata> = {},
+  missingCodes: MissingCode[] = [],
+  onProgress?: (fraction: number) => void
+): Dataset => {
+  const headers = rows.length > 0 ? Object.keys(rows[0]) : [];
+
+  const variables: DataVariable[] = headers.map((h, index) => {
+    const variable = createVariable(h, rows.map(r => r[h]), metadata[h] ?? {}, missingCodes);
+    onProgress?.((index + 1) / headers.length);
+    return variable;
+  });
+
+  return replaceVariables({ filename, missingCodes, data: rows, variables: [], numericalVariables: [], categoricalVariables: [] }, variables);
+};
@@ -0,0 +1,70 @@
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Formats milliseconds since 1970-01-01 UTC as an ISO date ("2024-03-15"), adding the time
+ * ("2024-03-15 08:30:00") when requested and not exactly midnight. Statistical packages store
+ * dates without a time zone, so everything is read as UTC.
+ */
+export const formatIsoDateTime = (ms: number, includeTime = false): string => {
+  const date = new Date(Math.round(ms / 1000) * 1000);
+  const day = `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+  if (!includeTime || (date.getUTCHours() === 0 && date.getUTCMinutes() === 0 && date.getUTCSeconds() === 0)) return day;
+  return `${day} ${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}`;
+};
+
+/** Milliseconds from 1970-01-01 back to the 1960-01-01 epoch used by Stata and SAS */
+export const EPOCH_1960_MS = Date.UTC(1960, 0, 1);
+
+/** Milliseconds from 1970-01-01 back to the 1582-10-14 epoch used by SPSS */
+export const EPOCH_1582_MS = Date.UTC(1582, 9, 14);
+
+/** Field order of slash dates such as 03/04/2024 */
+export type DayMonthOrder = 'dmy' | 'mdy';
+
+const ISO_DATE = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+const SLASH_DATE = /^(\d{1,2})[/.](\d{1,2})[/.](\d{4})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/;
+
+/**
+ * Reads an ISO (2024-03-15, 2024-03-15 08:30) or slash (15/03/2024) date as milliseconds since
+ * 1970 in UTC. Time zone suffixes are ignored so the wall-clock time is kept. Returns null for
+ * anything that is not a valid calendar date.
+ */
+export const parseDateValue = (value: any, order: DayMonthOrder = 'dmy'): { ms: number; hasTime: boolean } | null => {
+  if (typeof value !== 'string') return null;
+  const text = value.trim();
+  let year: number, month: number, day: number, time: string[];
+  const iso = ISO_DATE.exec(text);
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+    time = iso.slice(4, 7);
+  } else {
+    const slash = SLASH_DATE.exec(text);
+    if (!slash) return null;
+    const [first, second] = [Number(slash[1]), Number(slash[2])];
+    [day, month] = order === 'dmy' ? [first, second] : [second, first];
+    year = Number(slash[3]);
+    time = slash.slice(4, 7);
+  }
+  const [hours, minutes, seconds] = time.map(t => Number(t ?? 0));
+  const ms = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+  const check = new Date(ms);
+  // Date.UTC rolls 31/02 over into March; a round trip rejects impossible dates
+  if (check.getUTCMonth() !== month - 1 || check.getUTCDate() !== day || hours > 23 || minutes > 59 || seconds > 59) return null;
+  return { ms, hasTime: time[0] !== undefined };
+};
+
+/**
+ * Slash dates are read day-first unless a first field above 12 never occurs but a second one does
+ */
+export const detectDayMonthOrder = (values: string[]): DayMonthOrder => {
+  let dayFirst = false;
+  let monthFirst = false;
+  values.forEach(v => {
+    const slash = SLASH_DATE.exec(v.trim());
+    if (!slash) return;
+    if (Number(slash[1]) > 12) dayFirst = true;
+    if (Number(slash[2]) > 12) monthFirst = true;
+  });
+  return monthFirst && !dayFirst ? 'mdy' : 'dmy';
+};
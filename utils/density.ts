@@ -0,0 +1,151 @@
+
+import { calculateQuantile } from './statistics';
+
+export interface BoxStats {
+  n: number;
+  mean: number;
+  min: number;
+  q1: number;
+  median: number;
+  q3: number;
+  max: number;
+  /** Most extreme values within 1.5 × IQR of the quartiles */
+  lowerWhisker: number;
+  upperWhisker: number;
+  outliers: number[];
+}
+
+export interface DensityPoint {
+  x: number;
+  density: number;
+}
+
+export type BinRule = 'sturges' | 'freedmanDiaconis' | 'scott' | 'manual';
+
+export const BIN_RULES: Record<BinRule, { label: string; description: string }> = {
+  sturges: { label: 'Sturges', description: 'log2(n) + 1 bins; suits small, roughly normal samples' },
+  freedmanDiaconis: { label: 'Freedman–Diaconis', description: 'Width 2 × IQR × n^(-1/3); robust to outliers' },
+  scott: { label: 'Scott', description: 'Width 3.49 × SD × n^(-1/3); optimal for normal data' },
+  manual: { label: 'Manual width', description: 'A bin width of your choice, aligned to multiples of the width' }
+};
+
+export interface HistogramBin {
+  start: number;
+  end: number;
+  count: number;
+}
+
+/** Upper limit on the number of bins, whatever the rule or width */
+const MAX_BINS = 200;
+
+/**
+ * Five-number summary with Tukey whiskers and outliers beyond 1.5 × IQR. Returns null for an
+ * empty sample.
+ */
+export const calculateBoxStats = (values: number[]): BoxStats | null => {
+  const sorted = values.filter(v => !isNaN(v)).sort((a, b) => a - b);
+  const n = sorted.length;
+  if (n === 0) return null;
+  const q1 = calculateQuantile(sorted, 0.25);
+  const q3 = calculateQuantile(sorted, 0.75);
+  const lowerFence = q1 - 1.5 * (q3 - q1);
+  const upperFence = q3 + 1.5 * (q3 - q1);
+  const inside = sorted.filter(v => v >= lowerFence && v <= upperFence);
+  return {
+    n,
+    mean: sorted.reduce((a, b) => a + b, 0) / n,
+    min: sorted[0],
+    q1,
+    median: calculateQuantile(sorted, 0.5),
+    q3,
+    max: sorted[n - 1],
+    lowerWhisker: inside[0],
+    upperWhisker: inside[inside.length - 1],
+    outliers: sorted.filter(v => v < lowerFence || v > upperFence)
+  };
+};
+
+/**
+ * Silverman's rule-of-thumb bandwidth for a Gaussian kernel: 0.9 × min(SD, IQR / 1.34) × n^(-1/5)
+ */
+export const silvermanBandwidth = (values: number[]): number => {
+  const sorted = values.filter(v => !isNaN(v)).sort((a, b) => a - b);
+  const n = sorted.length;
+  if (n < 2) return NaN;
+  const mean = sorted.reduce((a, b) => a + b, 0) / n;
+  const sd = Math.sqrt(sorted.reduce((a, b) => a + (b - mean) ** 2, 0) / (n - 1));
+  const iqr = calculateQuantile(sorted, 0.75) - calculateQuantile(sorted, 0.25);
+  const spread = iqr > 0 ? Math.min(sd, iqr / 1.34) : sd;
+  return 0.9 * spread * Math.pow(n, -0.2);
+};
+
+/**
+ * Gaussian kernel density estimate at evenly spaced points from `from` to `to` (the data range
+ * by default). Returns an empty array when the sample has no spread.
+ */
+export const kernelDensity = (
+  values: number[],
+  options: { bandwidth?: number; points?: number; from?: number; to?: number } = {}
+): DensityPoint[] => {
+  const x = values.filter(v => !isNaN(v));
+  const h = options.bandwidth ?? silvermanBandwidth(x);
+  if (!(h > 0)) return [];
+  const from = options.from ?? x.reduce((a, b) => Math.min(a, b), Infinity);
+  const to = options.to ?? x.reduce((a, b) => Math.max(a, b), -Infinity);
+  const points = options.points ?? 100;
+  const norm = 1 / (x.length * h * Math.sqrt(2 * Math.PI));
+
+  return Array.from({ length: points }, (_, i) => {
+    const at = from + ((to - from) * i) / (points - 1);
+    let sum = 0;
+    for (const v of x) {
+      const u = (at - v) / h;
+      // Beyond 8 bandwidths the kernel contributes nothing at double precision worth keeping
+      if (u > -8 && u < 8) sum += Math.exp(-0.5 * u * u);
+    }
+    return { x: at, density: sum * norm };
+  });
+};
+
+/**
+ * Bin width given by an automatic rule. Falls back to Sturges when the rule's spread measure is
+ * zero (e.g. an IQR of 0 with Freedman–Diaconis).
+ */
+export const getBinWidth = (values: number[], rule: Exclude<BinRule, 'manual'>): number => {
+  const sorted = values.filter(v => !isNaN(v)).sort((a, b) => a - b);
+  const n = sorted.length;
+  const range = sorted[n - 1] - sorted[0];
+  if (n < 2 || range === 0) return 1;
+  const sturges = range / (Math.ceil(Math.log2(n)) + 1);
+  if (rule === 'freedmanDiaconis') {
+    const iqr = calculateQuantile(sorted, 0.75) - calculateQuantile(sorted, 0.25);
+    return iqr > 0 ? (2 * iqr) / Math.cbrt(n) : sturges;
+  }
+  if (rule === 'scott') {
+    const mean = sorted.reduce((a, b) => a + b, 0) / n;
+    const sd = Math.sqrt(sorted.reduce((a, b) => a + (b - mean) ** 2, 0) / (n - 1));
+    return (3.49 * sd) / Math.cbrt(n);
+  }
+  return sturges;
+};
+
+/**
+ * Counts values into bins of the given width, left-closed except the last. Bins start at the
+ * minimum, or at a multiple of the width when `align` is set. The width grows if it would
+ * need more than 200 bins.
+ */
+export const buildHistogram = (values: number[], width: number, align = false): HistogramBin[] => {
+  const x = values.filter(v => !isNaN(v));
+  if (x.length === 0 || !(width > 0)) return [];
+  const min = x.reduce((a, b) => Math.min(a, b), Infinity);
+  const max = x.reduce((a, b) => Math.max(a, b), -Infinity);
+  if (max === min) return [{ start: min - width / 2, end: min + width / 2, count: x.length }];
+  const start = align ? Math.floor(min / width) * width : min;
+  const binWidth = Math.max(width, (max - start) / MAX_BINS);
+  const count = Math.max(1, Math.ceil((max - start) / binWidth - 1e-9));
+  const bins = Array.from({ length: count }, (_, i) => ({ start: start + i * binWidth, end: start + (i + 1) * binWidth, count: 0 }));
+  x.forEach(v => {
+    bins[Math.min(count - 1, Math.floor((v - start) / binWidth))].count++;
+  });
+  return bins;
+};
@@ -0,0 +1,117 @@
+
+import { describe, expect, it } from 'vitest';
+import {
+  chiSquareCdf, chiSquareQuantile, fCdf, fQuantile, normalCdf, normalQuantile, pFromChiSquare, pFromF, pFromStudentizedRange,
+  pFromT, pFromZ, studentizedRangeCdf, studentTCdf, studentTQuantile
+} from './distributions';
+
+// Reference values are the printed critical values of the standard statistical tables
+// (e.g. Abramowitz & Stegun, ch. 26), checked against R's pnorm/qt/qf/qchisq.
+
+describe('normal distribution', () => {
+  it.each([
+    [0, 0.5],
+    [1, 0.8413447461],
+    [1.96, 0.9750021049],
+    [-1.644854, 0.05],
+    [-3, 0.0013498980]
+  ])('Φ(%f) = %f', (z, p) => {
+    expect(normalCdf(z)).toBeCloseTo(p, 7);
+  });
+
+  it.each([
+    [0.9, 1.2815515655],
+    [0.95, 1.6448536270],
+    [0.975, 1.9599639845],
+    [0.995, 2.5758293035],
+    [0.001, -3.0902323062]
+  ])('z quantile at p = %f is %f', (p, z) => {
+    expect(normalQuantile(p)).toBeCloseTo(z, 7);
+  });
+
+  it('gives two-tailed p-values for z', () => {
+    expect(pFromZ(1.959964)).toBeCloseTo(0.05, 6);
+  });
+});
+
+describe("Student's t distribution", () => {
+  it.each([
+    [0.975, 1, 12.7062047362],
+    [0.975, 5, 2.5705818366],
+    [0.975, 10, 2.2281388520],
+    [0.975, 30, 2.0422724563],
+    [0.95, 5, 2.0150483733],
+    [0.995, 20, 2.8453397098]
+  ])('t quantile at p = %f with %i df is %f', (p, df, t) => {
+    expect(studentTQuantile(p, df)).toBeCloseTo(t, 6);
+  });
+
+  it('inverts its CDF and is symmetric', () => {
+    expect(studentTCdf(2.228138852, 10)).toBeCloseTo(0.975, 8);
+    expect(studentTCdf(-2.228138852, 10)).toBeCloseTo(0.025, 8);
+    expect(studentTQuantile(0.025, 10)).toBeCloseTo(-2.228138852, 6);
+  });
+
+  it('gives two-tailed p-values for t', () => {
+    expect(pFromT(2.228138852, 10)).toBeCloseTo(0.05, 8);
+    expect(pFromT(2.845339710, 20)).toBeCloseTo(0.01, 8);
+  });
+});
+
+describe('F distribution', () => {
+  it.each([
+    [0.95, 1, 20, 4.3512442],
+    [0.95, 3, 10, 3.7082648],
+    [0.95, 4, 60, 2.5252151],
+    [0.99, 5, 30, 3.6990188],
+    [0.99, 2, 15, 6.3588735]
+  ])('F quantile at p = %f with (%i, %i) df is %f', (p, df1, df2, f) => {
+    expect(fQuantile(p, df1, df2)).toBeCloseTo(f, 5);
+  });
+
+  it('matches its upper-tail p-value', () => {
+    expect(fCdf(3.7082648, 3, 10)).toBeCloseTo(0.95, 7);
+    expect(pFromF(3.7082648, 3, 10)).toBeCloseTo(0.05, 7);
+  });
+});
+
+describe('chi-square distribution', () => {
+  it.each([
+    [0.95, 1, 3.8414588],
+    [0.95, 2, 5.9914645],
+    [0.95, 10, 18.3070381],
+    [0.99, 5, 15.0862725],
+    [0.05, 2, 0.1025866]
+  ])('χ² quantile at p = %f with %i df is %f', (p, df, x) => {
+    expect(chiSquareQuantile(p, df)).toBeCloseTo(x, 5);
+  });
+
+  it('matches its upper-tail p-value', () => {
+    expect(chiSquareCdf(3.8414588, 1)).toBeCloseTo(0.95, 7);
+    expect(pFromChiSquare(18.3070381, 10)).toBeCloseTo(0.05, 7);
+  });
+});
+
+describe('studentized range distribution', () => {
+  it.each([
+    [3.577935, 3, 20, 0.95],
+    [4.654, 5, 10, 0.95],
+    [3.877, 3, 10, 0.95],
+    [4.646, 10, 60, 0.95],
+    [4.639, 3, 20, 0.99],
+    [3.642773, 2, 1e6, 0.99]
+  ])('P(Q < %f) with k = %i and %i df is %f', (q, k, df, p) => {
+    expect(studentizedRangeCdf(q, k, df)).toBeCloseTo(p, 4);
+  });
+
+  it('reduces to |t| < q / √2 for two means', () => {
+    expect(studentizedRangeCdf(3, 2, 12)).toBeCloseTo(1 - pFromT(3 / Math.SQRT2, 12), 7);
+    expect(pFromStudentizedRange(3, 2, 12)).toBeCloseTo(pFromT(3 / Math.SQRT2, 12), 7);
+  });
+
+  it('handles the edges of its domain', () => {
+    expect(studentizedRangeCdf(0, 3, 20)).toBe(0);
+    expect(studentizedRangeCdf(Infinity, 3, 20)).toBe(1);
+    expect(studentizedRangeCdf(3, 1, 20)).toBeNaN();
+  });
+});
@@ -0,0 +1,487 @@
+
+/**
+ * Probability distributions used by every inferential test in the app.
+ * CDFs are built on the regularized incomplete beta and gamma functions,
+ * quantiles are obtained by numerically inverting the CDFs.
+ */
+
+const EPS = 1e-15;
+const FPMIN = 1e-300;
+const MAX_ITER = 500;
+
+const LANCZOS = [
+  0.99999999999980993,
+  676.5203681218851,
+  -1259.1392167224028,
+  771.32342877765313,
+  -176.61502916214059,
+  12.507343278686905,
+  -0.13857109526572012,
+  9.9843695780195716e-6,
+  1.5056327351493116e-7
+];
+
+/**
+ * Natural log of the gamma function (Lanczos approximation, g = 7)
+ */
+export const logGamma = (x: number): number => {
+  if (x < 0.5) {
+    // Reflection formula
+    return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - logGamma(1 - x);
+  }
+  const z = x - 1;
+  let a = LANCZOS[0];
+  const t = z + 7.5;
+  for (let i = 1; i < 9; i++) a += LANCZOS[i] / (z + i);
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(a);
+};
+
+/**
+ * Continued fraction for the incomplete beta function (modified Lentz)
+ */
+const betaContinuedFraction = (x: number, a: number, b: number): number => {
+  const qab = a + b;
+  const qap = a + 1;
+  const qam = a - 1;
+  let c = 1;
+  let d = 1 - (qab * x) / qap;
+  if (Math.abs(d) < FPMIN) d = FPMIN;
+  d = 1 / d;
+  let h = d;
+
+  for (let m = 1; m <= MAX_ITER; m++) {
+    const m2 = 2 * m;
+    let aa = (m * (b - m) * x) / ((qam + m2) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < FPMIN) d = FPMIN;
+    c = 1 + aa / c;
+    if (Math.abs(c) < FPMIN) c = FPMIN;
+    d = 1 / d;
+    h *= d * c;
+
+    aa = (-(a + m) * (qab + m) * x) / ((a + m2) * (qap + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < FPMIN) d = FPMIN;
+    c = 1 + aa / c;
+    if (Math.abs(c) < FPMIN) c = FPMIN;
+    d = 1 / d;
+    const del = d * c;
+    h *= del;
+    if (Math.abs(del - 1) < EPS) break;
+  }
+  return h;
+};
+
+/**
+ * Regularized incomplete beta function I_x(a, b)
+ */
+export const regularizedBeta = (x: number, a: number, b: number): number => {
+  if (isNaN(x) || isNaN(a) || isNaN(b)) return NaN;
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+
+  const logBt = logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x);
+  const bt = Math.exp(logBt);
+
+  // Use the symmetry relation where the continued fraction converges fastest
+  if (x < (a + 1) / (a + b + 2)) {
+    return (bt * betaContinuedFraction(x, a, b)) / a;
+  }
+  return 1 - (bt * betaContinuedFraction(1 - x, b, a)) / b;
+};
+
+/**
+ * Regularized lower incomplete gamma function P(a, x)
+ */
+export const regularizedGammaP = (a: number, x: number): number => {
+  if (isNaN(a) || isNaN(x)) return NaN;
+  if (x <= 0) return 0;
+  if (!isFinite(x)) return 1;
+  if (x < a + 1) {
+    // Series representation
+    let ap = a;
+    let sum = 1 / a;
+    let del = sum;
+    for (let n = 1; n <= MAX_ITER; n++) {
+      ap += 1;
+      del *= x / ap;
+      sum += del;
+      if (Math.abs(del) < Math.abs(sum) * EPS) break;
+    }
+    return sum * Math.exp(-x + a * Math.log(x) - logGamma(a));
+  }
+  return 1 - regularizedGammaQ(a, x);
+};
+
+/**
+ * Regularized upper incomplete gamma function Q(a, x) = 1 - P(a, x)
+ */
+export const regularizedGammaQ = (a: number, x: number): number => {
+  if (isNaN(a) || isNaN(x)) return NaN;
+  if (x <= 0) return 1;
+  if (!isFinite(x)) return 0;
+  if (x < a + 1) return 1 - regularizedGammaP(a, x);
+
+  // Continued fraction representation (modified Lentz)
+  let b = x + 1 - a;
+  let c = 1 / FPMIN;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i <= MAX_ITER; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < FPMIN) d = FPMIN;
+    c = b + an / c;
+    if (Math.abs(c) < FPMIN) c = FPMIN;
+    d = 1 / d;
+    const del = d * c;
+    h *= del;
+    if (Math.abs(del - 1) < EPS) break;
+  }
+  return Math.exp(-x + a * Math.log(x) - logGamma(a)) * h;
+};
+
+/**
+ * Inverts a monotone increasing CDF by bracketing followed by bisection
+ */
+const invertCdf = (cdf: (x: number) => number, p: number, lower: number, upper: number, lowerBound = -Infinity): number => {
+  let lo = lower;
+  let hi = upper;
+  while (cdf(hi) < p) {
+    lo = hi;
+    hi *= 2;
+    if (!isFinite(hi)) return Infinity;
+  }
+  while (cdf(lo) > p) {
+    hi = lo;
+    lo = lo <= 0 ? lo * 2 - 1 : lo / 2;
+    if (lo <= lowerBound) {
+      lo = lowerBound;
+      break;
+    }
+  }
+  for (let i = 0; i < 200; i++) {
+    const mid = (lo + hi) / 2;
+    if (cdf(mid) < p) lo = mid;
+    else hi = mid;
+    if (hi - lo <= 1e-12 * Math.max(1, Math.abs(mid))) break;
+  }
+  return (lo + hi) / 2;
+};
+
+// ---------------------------------------------------------------------------
+// Normal distribution
+// ---------------------------------------------------------------------------
+
+/**
+ * Standard normal cumulative distribution function
+ */
+export const normalCdf = (z: number): number => {
+  if (isNaN(z)) return NaN;
+  if (z === Infinity) return 1;
+  if (z === -Infinity) return 0;
+  // Phi(z) = 0.5 * erfc(-z / sqrt(2)), with erfc(u) = Q(1/2, u^2) for u >= 0
+  const u = z / Math.SQRT2;
+  const tail = 0.5 * regularizedGammaQ(0.5, u * u);
+  return z >= 0 ? 1 - tail : tail;
+};
+
+/**
+ * Standard normal quantile function (Acklam's algorithm with a Halley refinement step)
+ */
+export const normalQuantile = (p: number): number => {
+  if (isNaN(p) || p < 0 || p > 1) return NaN;
+  if (p === 0) return -Infinity;
+  if (p === 1) return Infinity;
+
+  const a = [-3.969683028665376e+1, 2.209460984245205e+2, -2.759285104469687e+2, 1.383577518672690e+2, -3.066479806614716e+1, 2.506628277459239e+0];
+  const b = [-5.447609879822406e+1, 1.615858368580409e+2, -1.556989798598866e+2, 6.680131188771972e+1, -1.328068155288572e+1];
+  const c = [-7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838e+0, -2.549732539343734e+0, 4.374664141464968e+0, 2.938163982698783e+0];
+  const d = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996e+0, 3.754408661907416e+0];
+  const pLow = 0.02425;
+
+  let x: number;
+  if (p < pLow) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    x = (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  } else if (p <= 1 - pLow) {
+    const q = p - 0.5;
+    const r = q * q;
+    x = (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q / (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+  } else {
+    const q = Math.sqrt(-2 * Math.log(1 - p));
+    x = -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+
+  // One step of Halley's method brings the result to full double precision
+  const e = normalCdf(x) - p;
+  const u = e * Math.sqrt(2 * Math.PI) * Math.exp((x * x) / 2);
+  return x - u / (1 + (x * u) / 2);
+};
+
+// ---------------------------------------------------------------------------
+// Student's t distribution
+// ---------------------------------------------------------------------------
+
+/**
+ * Student's t cumulative distribution function
+ */
+export const studentTCdf = (t: number, df: number): number => {
+  if (isNaN(t) || df <= 0) return NaN;
+  if (t === Infinity) return 1;
+  if (t === -Infinity) return 0;
+  const x = df / (df + t * t);
+  const tail = 0.5 * regularizedBeta(x, df / 2, 0.5);
+  return t > 0 ? 1 - tail : tail;
+};
+
+/**
+ * Student's t quantile function
+ */
+export const studentTQuantile = (p: number, df: number): number => {
+  if (isNaN(p) || p < 0 || p > 1 || df <= 0) return NaN;
+  if (p === 0) return -Infinity;
+  if (p === 1) return Infinity;
+  if (p === 0.5) return 0;
+  // Solve in the upper half and use symmetry for accuracy in both tails
+  if (p < 0.5) return -studentTQuantile(1 - p, df);
+  return invertCdf(t => studentTCdf(t, df), p, 0, Math.max(1, normalQuantile(p)), 0);
+};
+
+// ---------------------------------------------------------------------------
+// F distribution
+// ---------------------------------------------------------------------------
+
+/**
+ * F cumulative distribution function
+ */
+export const fCdf = (f: number, df1: number, df2: number): number => {
+  if (isNaN(f) || df1 <= 0 || df2 <= 0) return NaN;
+  if (f <= 0) return 0;
+  if (f === Infinity) return 1;
+  return regularizedBeta((df1 * f) / (df1 * f + df2), df1 / 2, df2 / 2);
+};
+
+/**
+ * F quantile function
+ */
+export const fQuantile = (p: number, df1: number, df2: number): number => {
+  if (isNaN(p) || p < 0 || p > 1 || df1 <= 0 || df2 <= 0) return NaN;
+  if (p === 0) return 0;
+  if (p === 1) return Infinity;
+  return invertCdf(f => fCdf(f, df1, df2), p, 0, 1, 0);
+};
+
+// ---------------------------------------------------------------------------
+// Chi-square distribution
+// ---------------------------------------------------------------------------
+
+/**
+ * Chi-square cumulative distribution function
+ */
+export const chiSquareCdf = (x: number, df: number): number => {
+  if (isNaN(x) || df <= 0) return NaN;
+  if (x <= 0) return 0;
+  return regularizedGammaP(df / 2, x / 2);
+};
+
+/**
+ * Chi-square quantile function
+ */
+export const chiSquareQuantile = (p: number, df: number): number => {
+  if (isNaN(p) || p < 0 || p > 1 || df <= 0) return NaN;
+  if (p === 0) return 0;
+  if (p === 1) return Infinity;
+  return invertCdf(x => chiSquareCdf(x, df), p, 0, Math.max(1, df), 0);
+};
+
+// ---------------------------------------------------------------------------
+// P-value helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Two-tailed p-value for a z statistic
+ */
+export const pFromZ = (z: number): number => {
+  if (isNaN(z)) return NaN;
+  const u = Math.abs(z) / Math.SQRT2;
+  return Math.min(1, regularizedGammaQ(0.5, u * u));
+};
+
+/**
+ * Two-tailed p-value for a t statistic
+ */
+export const pFromT = (t: number, df: number): number => {
+  if (isNaN(t) || df <= 0) return NaN;
+  if (!isFinite(t)) return 0;
+  return Math.min(1, regularizedBeta(df / (df + t * t), df / 2, 0.5));
+};
+
+/**
+ * Upper-tail p-value for an F statistic
+ */
+export const pFromF = (f: number, df1: number, df2: number): number => {
+  if (isNaN(f) || df1 <= 0 || df2 <= 0) return NaN;
+  if (f <= 0) return 1;
+  if (!isFinite(f)) return 0;
+  // Computed directly from the complementary beta to avoid cancellation near 1
+  return regularizedBeta(df2 / (df2 + df1 * f), df2 / 2, df1 / 2);
+};
+
+/**
+ * Upper-tail p-value for a chi-square statistic
+ */
+export const pFromChiSquare = (x: number, df: number): number => {
+  if (isNaN(x) || df <= 0) return NaN;
+  if (x <= 0) return 1;
+  return regularizedGammaQ(df / 2, x / 2);
+};
+
+// ---------------------------------------------------------------------------
+// Studentized range distribution
+// ---------------------------------------------------------------------------
+
+const RANGE_XLEG = [
+  0.981560634246719250690549090149,
+  0.904117256370474856678465866119,
+  0.769902674194304687036893833213,
+  0.587317954286617447296702418941,
+  0.367831498998180193752691536644,
+  0.125233408511468915472441369464
+];
+const RANGE_ALEG = [
+  0.047175336386511827194615961485,
+  0.106939325995318430960254718194,
+  0.160078328543346226334652529543,
+  0.203167426723065921749064455810,
+  0.233492536538354808760849898925,
+  0.249147045813402785000562436043
+];
+
+/**
+ * Probability that the range of k standard normal variables is below w (Hartley's form)
+ */
+const rangeProbability = (w: number, k: number): number => {
+  const qsqz = w * 0.5;
+  if (qsqz >= 8) return 1;
+
+  let prW = 2 * normalCdf(qsqz) - 1;
+  prW = prW >= Math.exp(-50 / k) ? Math.pow(prW, k) : 0;
+
+  const intervals = w > 3 ? 2 : 3;
+  let blb = qsqz;
+  const binc = (8 - qsqz) / intervals;
+  let bub = blb + binc;
+  let einsum = 0;
+  const k1 = k - 1;
+
+  for (let wi = 1; wi <= intervals; wi++) {
+    let elsum = 0;
+    const a = 0.5 * (bub + blb);
+    const b = 0.5 * (bub - blb);
+
+    for (let jj = 1; jj <= 12; jj++) {
+      let j: number;
+      let xx: number;
+      if (jj > 6) {
+        j = 12 - jj + 1;
+        xx = RANGE_XLEG[j - 1];
+      } else {
+        j = jj;
+        xx = -RANGE_XLEG[j - 1];
+      }
+      const ac = a + b * xx;
+      const qexpo = ac * ac;
+      if (qexpo > 60) break;
+
+      const rinsum = normalCdf(ac) - normalCdf(ac - w);
+      if (rinsum >= Math.exp(-30 / k1)) {
+        elsum += RANGE_ALEG[j - 1] * Math.exp(-0.5 * qexpo) * Math.pow(rinsum, k1);
+      }
+    }
+    einsum += elsum * ((2 * b * k) / Math.sqrt(2 * Math.PI));
+    blb = bub;
+    bub += binc;
+  }
+
+  prW += einsum;
+  if (prW <= Math.exp(-30)) return 0;
+  return Math.min(1, prW);
+};
+
+const RANGE_XLEGQ = [
+  0.989400934991649932596154173450,
+  0.944575023073232576077988415535,
+  0.865631202387831743880467897712,
+  0.755404408355003033895101194847,
+  0.617876244402643748446671764049,
+  0.458016777657227386342419442984,
+  0.281603550779258913230460501460,
+  0.950125098376374401853193354250e-1
+];
+const RANGE_ALEGQ = [
+  0.271524594117540948517805724560e-1,
+  0.622535239386478928628438369944e-1,
+  0.951585116824927848099251076022e-1,
+  0.124628971255533872052476282192,
+  0.149595988816576732081501730547,
+  0.169156519395002538189312079030,
+  0.182603415044923588866763667969,
+  0.189450610455068496285396723208
+];
+
+/**
+ * Studentized range cumulative distribution function for k means and df error degrees of freedom
+ * (Copenhaver & Holland, 1988), as used for Tukey HSD and Games-Howell comparisons
+ */
+export const studentizedRangeCdf = (q: number, k: number, df: number): number => {
+  if (isNaN(q) || df < 2 || k < 2) return NaN;
+  if (q <= 0) return 0;
+  if (!isFinite(q)) return 1;
+  if (df > 25000) return rangeProbability(q, k);
+
+  const f2 = df * 0.5;
+  let f2lf = f2 * Math.log(df) - df * Math.LN2 - logGamma(f2);
+  const f21 = f2 - 1;
+  const ff4 = df * 0.25;
+  const ulen = df <= 100 ? 1 : df <= 800 ? 0.5 : df <= 5000 ? 0.25 : 0.125;
+  f2lf += Math.log(ulen);
+
+  let ans = 0;
+  for (let i = 1; i <= 50; i++) {
+    let otsum = 0;
+    const twa1 = (2 * i - 1) * ulen;
+
+    for (let jj = 1; jj <= 16; jj++) {
+      let j: number;
+      let t1: number;
+      let qsqz: number;
+      if (jj > 8) {
+        j = jj - 9;
+        t1 = f2lf + f21 * Math.log(twa1 + RANGE_XLEGQ[j] * ulen) - (RANGE_XLEGQ[j] * ulen + twa1) * ff4;
+        qsqz = q * Math.sqrt((RANGE_XLEGQ[j] * ulen + twa1) * 0.5);
+      } else {
+        j = jj - 1;
+        t1 = f2lf + f21 * Math.log(twa1 - RANGE_XLEGQ[j] * ulen) + (RANGE_XLEGQ[j] * ulen - twa1) * ff4;
+        qsqz = q * Math.sqrt((twa1 - RANGE_XLEGQ[j] * ulen) * 0.5);
+      }
+      if (t1 >= -30) {
+        otsum += rangeProbability(qsqz, k) * RANGE_ALEGQ[j] * Math.exp(t1);
+      }
+    }
+
+    // At least 1 / ulen intervals are always integrated to cover the left tail
+    if (i * ulen >= 1 && otsum <= 1e-14) break;
+    ans += otsum;
+  }
+  return Math.min(1, ans);
+};
+
+/**
+ * Upper-tail p-value for a studentized range statistic
+ */
+export const pFromStudentizedRange = (q: number, k: number, df: number): number => {
+  if (isNaN(q)) return NaN;
+  return Math.max(0, 1 - studentizedRangeCdf(q, k, df));
+};
@@ -0,0 +1,26 @@
+
+/**
+ * Quotes a CSV cell when it contains a delimiter, quote or line break
+ */
+const escapeCsvCell = (value: string | number): string => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serialises rows as CSV. Starts with a byte order mark so Excel reads symbols such as ± as UTF-8.
+ */
+export const toCsv = (rows: (string | number)[][]): string =>
+  '\ufeff' + rows.map(row => row.map(escapeCsvCell).join(',')).join('\r\n');
+
+/**
+ * Saves content as a file through a temporary object URL
+ */
+export const downloadFile = (content: BlobPart, filename: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = url;
+  link.click();
+  URL.revokeObjectURL(url);
+};
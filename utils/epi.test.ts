@@ -0,0 +1,28 @@
+
+import { describe, expect, it } from 'vitest';
+import { calculateEpiMeasures } from './epi';
+
+describe('calculateEpiMeasures', () => {
+  it('matches the Woolf odds ratio and interval', () => {
+    const { oddsRatio } = calculateEpiMeasures({ a: 20, b: 80, c: 10, d: 90 });
+    expect(oddsRatio.estimate).toBeCloseTo(2.25, 10);
+    expect(oddsRatio.lower).toBeCloseTo(0.9943, 4);
+    expect(oddsRatio.upper).toBeCloseTo(5.0915, 4);
+  });
+
+  // Estimate and lower limit from R's fisher.test, which reports the conditional MLE. Its upper
+  // limit is only as precise as uniroot's tolerance, so check that P(a <= 3) is 2.5% there instead.
+  it('gives the conditional MLE and exact interval for the odds ratio', () => {
+    const { oddsRatioExact } = calculateEpiMeasures({ a: 3, b: 1, c: 1, d: 3 });
+    expect(oddsRatioExact.estimate).toBeCloseTo(6.408309, 4);
+    expect(oddsRatioExact.lower).toBeCloseTo(0.2117329, 4);
+    const psi = oddsRatioExact.upper;
+    const weights = [1, 16 * psi, 36 * psi ** 2, 16 * psi ** 3, psi ** 4];
+    expect(1 - weights[4] / weights.reduce((acc, w) => acc + w, 0)).toBeCloseTo(0.025, 8);
+  });
+
+  it('puts the conditional MLE at the boundary for a zero cell', () => {
+    expect(calculateEpiMeasures({ a: 5, b: 0, c: 3, d: 4 }).oddsRatioExact.estimate).toBe(Infinity);
+    expect(calculateEpiMeasures({ a: 0, b: 5, c: 3, d: 4 }).oddsRatioExact.estimate).toBe(0);
+  });
+});
@@ -0,0 +1,306 @@
+
+import { logGamma, normalQuantile, pFromChiSquare } from './distributions';
+import { isMissingValue } from './statistics';
+import { orderLevels } from './variableTypes';
+
+/**
+ * Cell counts of a 2x2 table: a = exposed cases, b = exposed non-cases,
+ * c = unexposed cases, d = unexposed non-cases
+ */
+export interface TwoByTwoTable {
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+}
+
+export interface EpiEstimate {
+  estimate: number;
+  lower: number;
+  upper: number;
+  method: string;
+}
+
+export interface EpiMeasures {
+  table: TwoByTwoTable;
+  riskExposed: number;
+  riskUnexposed: number;
+  riskRatio: EpiEstimate;
+  oddsRatio: EpiEstimate;
+  oddsRatioExact: EpiEstimate;
+  riskDifference: EpiEstimate;
+  attributableFraction: EpiEstimate;
+  nnt: EpiEstimate & { harm: boolean; unbounded: boolean };
+  zeroCellCorrected: boolean;
+}
+
+export interface MantelHaenszelResult {
+  strata: { level: string; measures: EpiMeasures }[];
+  riskRatio: EpiEstimate;
+  oddsRatio: EpiEstimate;
+  riskDifference: EpiEstimate;
+  chiSquare: { statistic: number; df: number; p: number };
+  breslowDay: { statistic: number; df: number; p: number };
+}
+
+const POSITIVE_LEVEL = /^(1|yes|y|true|positive|pos|exposed|case|present|diseased)$/i;
+
+/**
+ * Picks the level most likely to mean "exposed" or "case" (1, yes, true...), otherwise the last level
+ */
+export const guessPositiveLevel = (levels: string[]): string =>
+  levels.find(level => POSITIVE_LEVEL.test(level.trim())) ?? levels[levels.length - 1] ?? '';
+
+/**
+ * Builds a 2x2 table by dichotomising exposure and outcome into the chosen level versus all others
+ */
+export const buildTwoByTwo = (data: any[], exposureVar: string, outcomeVar: string, exposedLevel: string, outcomeLevel: string): TwoByTwoTable => {
+  const table = { a: 0, b: 0, c: 0, d: 0 };
+  data.forEach(row => {
+    if (isMissingValue(row[exposureVar]) || isMissingValue(row[outcomeVar])) return;
+    const exposed = String(row[exposureVar]) === exposedLevel;
+    const isCase = String(row[outcomeVar]) === outcomeLevel;
+    if (exposed) isCase ? table.a++ : table.b++;
+    else isCase ? table.c++ : table.d++;
+  });
+  return table;
+};
+
+const logChoose = (n: number, k: number): number => logGamma(n + 1) - logGamma(k + 1) - logGamma(n - k + 1);
+
+/**
+ * Conditional maximum likelihood estimate of the odds ratio and its exact confidence interval,
+ * both from the noncentral hypergeometric distribution of a given the table margins
+ */
+const exactOddsRatio = ({ a, b, c, d }: TwoByTwoTable, confLevel: number): { estimate: number; lower: number; upper: number } => {
+  const n1 = a + b;
+  const n0 = c + d;
+  const m1 = a + c;
+  const lo = Math.max(0, m1 - n0);
+  const hi = Math.min(n1, m1);
+  const support = Array.from({ length: hi - lo + 1 }, (_, i) => lo + i);
+  const logBase = support.map(x => logChoose(n1, x) + logChoose(n0, m1 - x));
+  const alpha = (1 - confLevel) / 2;
+
+  // Probabilities of each x under odds ratio exp(logPsi), via log-sum-exp
+  const density = (logPsi: number) => {
+    const logs = logBase.map((lb, i) => lb + support[i] * logPsi);
+    const max = Math.max(...logs);
+    const weights = logs.map(l => Math.exp(l - max));
+    const total = weights.reduce((acc, w) => acc + w, 0);
+    return weights.map(w => w / total);
+  };
+
+  // P(X >= a) or P(X <= a) under odds ratio exp(logPsi)
+  const tail = (logPsi: number, upperTail: boolean) =>
+    density(logPsi).reduce((acc, p, i) => ((upperTail ? support[i] >= a : support[i] <= a) ? acc + p : acc), 0);
+
+  // The conditional MLE sets E[X] = a; E[X] increases with psi
+  const mean = (logPsi: number) => density(logPsi).reduce((acc, p, i) => acc + p * support[i], 0);
+  const solveMle = () => {
+    let low = -50;
+    let high = 50;
+    for (let i = 0; i < 200; i++) {
+      const mid = (low + high) / 2;
+      if (mean(mid) < a) low = mid;
+      else high = mid;
+    }
+    return Math.exp((low + high) / 2);
+  };
+
+  // Bisection on log(psi); P(X >= a) increases and P(X <= a) decreases with psi
+  const solve = (upperTail: boolean) => {
+    let low = -50;
+    let high = 50;
+    for (let i = 0; i < 200; i++) {
+      const mid = (low + high) / 2;
+      const value = tail(mid, upperTail);
+      if ((value < alpha) === upperTail) low = mid;
+      else high = mid;
+    }
+    return Math.exp((low + high) / 2);
+  };
+
+  return {
+    estimate: a === lo ? 0 : a === hi ? Infinity : solveMle(),
+    lower: a === lo ? 0 : solve(true),
+    upper: a === hi ? Infinity : solve(false)
+  };
+};
+
+/**
+ * Risk ratio, odds ratio, risk difference, attributable fraction among the exposed and NNT.
+ * Ratio measures use log-scale Wald intervals (Katz for the risk ratio, Woolf for the odds ratio);
+ * a zero cell triggers the Haldane-Anscombe correction of adding 0.5 to every cell.
+ */
+export const calculateEpiMeasures = (table: TwoByTwoTable, confLevel = 0.95): EpiMeasures => {
+  const z = normalQuantile(1 - (1 - confLevel) / 2);
+  const { a, b, c, d } = table;
+  const n1 = a + b;
+  const n0 = c + d;
+  const riskExposed = n1 > 0 ? a / n1 : NaN;
+  const riskUnexposed = n0 > 0 ? c / n0 : NaN;
+
+  const zeroCellCorrected = a === 0 || b === 0 || c === 0 || d === 0;
+  const k = zeroCellCorrected ? 0.5 : 0;
+  const [ac, bc, cc, dc] = [a + k, b + k, c + k, d + k];
+
+  const rr = (ac / (ac + bc)) / (cc / (cc + dc));
+  const seLogRR = Math.sqrt(1 / ac - 1 / (ac + bc) + 1 / cc - 1 / (cc + dc));
+  const riskRatio = { estimate: rr, lower: rr * Math.exp(-z * seLogRR), upper: rr * Math.exp(z * seLogRR), method: 'Wald (Katz log)' };
+
+  const or = (ac * dc) / (bc * cc);
+  const seLogOR = Math.sqrt(1 / ac + 1 / bc + 1 / cc + 1 / dc);
+  const oddsRatio = { estimate: or, lower: or * Math.exp(-z * seLogOR), upper: or * Math.exp(z * seLogOR), method: 'Woolf (logit)' };
+  const oddsRatioExact = { ...exactOddsRatio(table, confLevel), method: 'Exact (conditional MLE)' };
+
+  const rd = riskExposed - riskUnexposed;
+  const seRD = Math.sqrt((riskExposed * (1 - riskExposed)) / n1 + (riskUnexposed * (1 - riskUnexposed)) / n0);
+  const riskDifference = { estimate: rd, lower: rd - z * seRD, upper: rd + z * seRD, method: 'Wald' };
+
+  // Attributable fraction among the exposed, (RR - 1) / RR, with limits transformed from the risk ratio
+  const attributableFraction = {
+    estimate: (riskRatio.estimate - 1) / riskRatio.estimate,
+    lower: (riskRatio.lower - 1) / riskRatio.lower,
+    upper: (riskRatio.upper - 1) / riskRatio.upper,
+    method: 'From risk ratio CI'
+  };
+
+  // NNT is the reciprocal of the risk difference; when the RD interval spans zero the NNT interval is unbounded
+  const unbounded = riskDifference.lower <= 0 && riskDifference.upper >= 0;
+  const nnt = {
+    estimate: 1 / Math.abs(rd),
+    lower: unbounded ? 1 / Math.abs(rd < 0 ? riskDifference.lower : riskDifference.upper) : 1 / Math.max(Math.abs(riskDifference.lower), Math.abs(riskDifference.upper)),
+    upper: unbounded ? Infinity : 1 / Math.min(Math.abs(riskDifference.lower), Math.abs(riskDifference.upper)),
+    method: 'Reciprocal of RD limits',
+    harm: rd > 0,
+    unbounded
+  };
+
+  return { table, riskExposed, riskUnexposed, riskRatio, oddsRatio, oddsRatioExact, riskDifference, attributableFraction, nnt, zeroCellCorrected };
+};
+
+/**
+ * Mantel-Haenszel pooled risk ratio, odds ratio and risk difference across strata,
+ * the Cochran-Mantel-Haenszel chi-square test and the Breslow-Day test of homogeneity of odds ratios.
+ * Variances follow Greenland-Robins (RR, RD) and Robins-Breslow-Greenland (OR).
+ */
+export const mantelHaenszel = (strata: { level: string; table: TwoByTwoTable }[], confLevel = 0.95): MantelHaenszelResult | null => {
+  const valid = strata.filter(s => s.table.a + s.table.b > 0 && s.table.c + s.table.d > 0);
+  if (valid.length < 2) return null;
+  const z = normalQuantile(1 - (1 - confLevel) / 2);
+
+  let rrNum = 0, rrDen = 0, rrVar = 0;
+  let orR = 0, orS = 0, sumPR = 0, sumPSQR = 0, sumQS = 0;
+  let rdNum = 0, rdWeight = 0, rdVar = 0;
+  let sumA = 0, sumE = 0, sumV = 0;
+
+  valid.forEach(({ table: { a, b, c, d } }) => {
+    const n1 = a + b;
+    const n0 = c + d;
+    const m1 = a + c;
+    const m0 = b + d;
+    const n = n1 + n0;
+
+    rrNum += (a * n0) / n;
+    rrDen += (c * n1) / n;
+    rrVar += (m1 * n1 * n0 - a * c * n) / (n * n);
+
+    const r = (a * d) / n;
+    const s = (b * c) / n;
+    const p = (a + d) / n;
+    const q = (b + c) / n;
+    orR += r;
+    orS += s;
+    sumPR += p * r;
+    sumPSQR += p * s + q * r;
+    sumQS += q * s;
+
+    const w = (n1 * n0) / n;
+    rdNum += (a * n0 - c * n1) / n;
+    rdWeight += w;
+    const p1 = a / n1;
+    const p0 = c / n0;
+    rdVar += w * w * ((p1 * (1 - p1)) / Math.max(1, n1 - 1) + (p0 * (1 - p0)) / Math.max(1, n0 - 1));
+
+    sumA += a;
+    sumE += (n1 * m1) / n;
+    if (n > 1) sumV += (n1 * n0 * m1 * m0) / (n * n * (n - 1));
+  });
+
+  const rr = rrNum / rrDen;
+  const seLogRR = Math.sqrt(rrVar / (rrNum * rrDen));
+  const or = orR / orS;
+  const seLogOR = Math.sqrt(sumPR / (2 * orR * orR) + sumPSQR / (2 * orR * orS) + sumQS / (2 * orS * orS));
+  const rd = rdNum / rdWeight;
+  const seRD = Math.sqrt(rdVar) / rdWeight;
+  const cmh = sumV > 0 ? (sumA - sumE) ** 2 / sumV : NaN;
+
+  // Breslow-Day: compare each observed a with the count expected under the pooled odds ratio
+  let bd = 0;
+  valid.forEach(({ table: { a, b, c, d } }) => {
+    const n1 = a + b;
+    const n0 = c + d;
+    const m1 = a + c;
+    const lo = Math.max(0, m1 - n0);
+    const hi = Math.min(n1, m1);
+    // Solve (1 - OR) x^2 + (n0 - m1 + OR (n1 + m1)) x - OR n1 m1 = 0 for x in [lo, hi]
+    const qa = 1 - or;
+    const qb = n0 - m1 + or * (n1 + m1);
+    const qc = -or * n1 * m1;
+    let expected: number;
+    if (Math.abs(qa) < 1e-12) expected = -qc / qb;
+    else {
+      const disc = Math.sqrt(Math.max(0, qb * qb - 4 * qa * qc));
+      const roots = [(-qb + disc) / (2 * qa), (-qb - disc) / (2 * qa)];
+      expected = roots.find(x => x >= lo - 1e-9 && x <= hi + 1e-9) ?? roots[0];
+    }
+    const variance = 1 / (1 / expected + 1 / (n1 - expected) + 1 / (m1 - expected) + 1 / (n0 - m1 + expected));
+    if (variance > 0 && isFinite(variance)) bd += (a - expected) ** 2 / variance;
+  });
+
+  return {
+    strata: valid.map(s => ({ level: s.level, measures: calculateEpiMeasures(s.table, confLevel) })),
+    riskRatio: { estimate: rr, lower: rr * Math.exp(-z * seLogRR), upper: rr * Math.exp(z * seLogRR), method: 'Mantel-Haenszel (Greenland-Robins)' },
+    oddsRatio: { estimate: or, lower: or * Math.exp(-z * seLogOR), upper: or * Math.exp(z * seLogOR), method: 'Mantel-Haenszel (Robins-Breslow-Greenland)' },
+    riskDifference: { estimate: rd, lower: rd - z * seRD, upper: rd + z * seRD, method: 'Mantel-Haenszel' },
+    chiSquare: { statistic: cmh, df: 1, p: pFromChiSquare(cmh, 1) },
+    breslowDay: { statistic: bd, df: valid.length - 1, p: pFromChiSquare(bd, valid.length - 1) }
+  };
+};
+
+/**
+ * Builds one 2x2 table per level of the stratifier and pools them with Mantel-Haenszel.
+ * Strata follow stratumOrder (e.g. an ordinal variable's levels), then natural sort order.
+ */
+export const calculateStratifiedEpiMeasures = (
+  data: any[],
+  exposureVar: string,
+  outcomeVar: string,
+  stratifierVar: string,
+  exposedLevel: string,
+  outcomeLevel: string,
+  confLevel = 0.95,
+  stratumOrder: string[] = []
+): MantelHaenszelResult | null => {
+  const complete = data.filter(row => !isMissingValue(row[stratifierVar]));
+  const strata = orderLevels(complete.map(row => row[stratifierVar]), stratumOrder).map(level => ({
+    level,
+    table: buildTwoByTwo(complete.filter(row => String(row[stratifierVar]) === level), exposureVar, outcomeVar, exposedLevel, outcomeLevel)
+  }));
+  return mantelHaenszel(strata, confLevel);
+};
+
+/**
+ * Formats the NNT as benefit (NNTB) or harm (NNTH), using Altman's notation when the
+ * risk difference interval includes zero
+ */
+export const formatNNT = (measures: EpiMeasures): string => {
+  const { nnt, riskDifference } = measures;
+  if (!isFinite(nnt.estimate)) return 'N/A';
+  const label = nnt.harm ? 'NNTH' : 'NNTB';
+  if (nnt.unbounded) {
+    return `${label} ${nnt.estimate.toFixed(1)} (NNTB ${(1 / Math.abs(riskDifference.lower)).toFixed(1)} to ∞ to NNTH ${(1 / riskDifference.upper).toFixed(1)})`;
+  }
+  return `${label} ${nnt.estimate.toFixed(1)} [${nnt.lower.toFixed(1)}, ${nnt.upper.toFixed(1)}]`;
+};
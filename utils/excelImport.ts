@@ -0,0 +1,159 @@
+
+import * as XLSX from 'xlsx';
+import { CsvValue, normalizeHeaders } from './csvParser';
+
+export type ExcelDateMode = 'date' | 'serial' | 'text';
+
+export type MergedCellMode = 'fill' | 'topLeft';
+
+export const EXCEL_DATE_MODES: Record<ExcelDateMode, string> = {
+  date: 'ISO Date (YYYY-MM-DD)',
+  serial: 'Excel Serial Number',
+  text: 'As Displayed in Excel'
+};
+
+export const MERGED_CELL_MODES: Record<MergedCellMode, string> = {
+  fill: 'Repeat Value in Every Cell',
+  topLeft: 'Top-Left Cell Only'
+};
+
+export interface ExcelImportOptions {
+  sheetName: string;
+  range: string;
+  /** Worksheet row number (1-based, as shown in Excel) holding the column names */
+  headerRow: number;
+  /** Rows directly below the header to drop, e.g. units or descriptions */
+  skipRows: number;
+  dateMode: ExcelDateMode;
+  mergedCells: MergedCellMode;
+}
+
+export interface ExcelImportResult {
+  headers: string[];
+  rows: Record<string, CsvValue | boolean>[];
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Parses an .xlsx or .xls file. cellNF keeps number formats so date cells can be told apart from
+ * plain numbers.
+ */
+export const readWorkbook = async (file: File): Promise<XLSX.WorkBook> =>
+  XLSX.read(new Uint8Array(await file.arrayBuffer()), { type: 'array', cellNF: true });
+
+/**
+ * Used range of a worksheet in A1 notation, or an empty string for a blank sheet
+ */
+export const getSheetRange = (sheet: XLSX.WorkSheet): string => sheet['!ref'] ?? '';
+
+/**
+ * Parses an A1-style range, returning null when it is malformed
+ */
+export const parseRange = (range: string): XLSX.Range | null => {
+  if (!/^\s*[A-Za-z]{1,3}\d+(\s*:\s*[A-Za-z]{1,3}\d+)?\s*$/.test(range)) return null;
+  const decoded = XLSX.utils.decode_range(range.replace(/\s/g, '').toUpperCase());
+  if (decoded.s.r > decoded.e.r || decoded.s.c > decoded.e.c) return null;
+  return decoded;
+};
+
+export const getDefaultImportOptions = (workbook: XLSX.WorkBook, sheetName = workbook.SheetNames[0]): ExcelImportOptions => {
+  const range = getSheetRange(workbook.Sheets[sheetName]);
+  const parsed = parseRange(range);
+  return {
+    sheetName,
+    range,
+    headerRow: parsed ? parsed.s.r + 1 : 1,
+    skipRows: 0,
+    dateMode: 'date',
+    mergedCells: 'fill'
+  };
+};
+
+/**
+ * Date-formatted numeric cells become an ISO date (with time when it is not midnight), the raw
+ * serial number, or Excel's formatted text
+ */
+const readDateCell = (cell: XLSX.CellObject, mode: ExcelDateMode): CsvValue => {
+  if (mode === 'serial') return cell.v as number;
+  if (mode === 'text') return cell.w ?? String(cell.v);
+  const parts = XLSX.SSF.parse_date_code(cell.v as number);
+  if (!parts) return cell.v as number;
+  const date = `${parts.y}-${pad(parts.m)}-${pad(parts.d)}`;
+  return parts.H || parts.M || parts.S ? `${date} ${pad(parts.H)}:${pad(parts.M)}:${pad(Math.round(parts.S))}` : date;
+};
+
+const readCell = (cell: XLSX.CellObject | undefined, dateMode: ExcelDateMode): CsvValue | boolean => {
+  if (!cell || cell.v === undefined || cell.v === null) return null;
+  switch (cell.t) {
+    case 'n':
+      return cell.z && XLSX.SSF.is_date(cell.z) ? readDateCell(cell, dateMode) : (cell.v as number);
+    case 'd':
+      return dateMode === 'text' && cell.w ? cell.w : (cell.v as Date).toISOString().slice(0, 10);
+    case 'b':
+      return cell.v as boolean;
+    case 's': {
+      const text = String(cell.v).trim();
+      return text === '' ? null : text;
+    }
+    default:
+      // Error cells (#N/A, #DIV/0!) and stubs carry no usable value
+      return null;
+  }
+};
+
+/**
+ * Reads a rectangular block of the worksheet as a grid of values. With mergedCells = 'fill',
+ * every cell of a merged area takes the value of its top-left cell. maxRows limits how many rows
+ * are read, for previews.
+ */
+export const readSheetGrid = (sheet: XLSX.WorkSheet, range: XLSX.Range, dateMode: ExcelDateMode, mergedCells: MergedCellMode, maxRows = Infinity): (CsvValue | boolean)[][] => {
+  const lastRow = Math.min(range.e.r, range.s.r + maxRows - 1);
+  const grid: (CsvValue | boolean)[][] = [];
+  for (let r = range.s.r; r <= lastRow; r++) {
+    const row: (CsvValue | boolean)[] = [];
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      row.push(readCell(sheet[XLSX.utils.encode_cell({ r, c })], dateMode));
+    }
+    grid.push(row);
+  }
+
+  if (mergedCells === 'fill') {
+    (sheet['!merges'] ?? []).forEach(merge => {
+      const value = readCell(sheet[XLSX.utils.encode_cell(merge.s)], dateMode);
+      for (let r = Math.max(merge.s.r, range.s.r); r <= Math.min(merge.e.r, lastRow); r++) {
+        for (let c = Math.max(merge.s.c, range.s.c); c <= Math.min(merge.e.c, range.e.c); c++) {
+          grid[r - range.s.r][c - range.s.c] = value;
+        }
+      }
+    });
+  }
+  return grid;
+};
+
+/**
+ * Applies the import options to a workbook: reads the chosen range, takes column names from the
+ * header row, drops the skipped rows and blank rows, and returns row objects ready for
+ * processRawData. Returns null when the range or header row is invalid.
+ */
+export const importExcelSheet = (workbook: XLSX.WorkBook, options: ExcelImportOptions): ExcelImportResult | null => {
+  const sheet = workbook.Sheets[options.sheetName];
+  const range = parseRange(options.range);
+  if (!sheet || !range) return null;
+  const headerIndex = options.headerRow - 1;
+  if (headerIndex < range.s.r || headerIndex > range.e.r) return null;
+
+  const grid = readSheetGrid(sheet, { s: { r: headerIndex, c: range.s.c }, e: range.e }, options.dateMode, options.mergedCells);
+  const headers = normalizeHeaders(grid[0].map(v => (v === null ? '' : String(v))));
+  const rows = grid
+    .slice(1 + Math.max(0, options.skipRows))
+    .filter(values => values.some(v => v !== null))
+    .map(values => {
+      const row: Record<string, CsvValue | boolean> = {};
+      headers.forEach((h, i) => {
+        row[h] = values[i];
+      });
+      return row;
+    });
+  return { headers, rows };
+};
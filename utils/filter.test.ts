@@ -0,0 +1,106 @@
+
+import { describe, expect, it } from 'vitest';
+import { buildDataset, setVariableType } from './dataset';
+import {
+  applyRowFilter, describeRowFilter, describeSubset, evaluateRowFilter, FilterCondition, FilterOperator, isFilterActive, RowFilter,
+  withSubsetNote
+} from './filter';
+
+const rows = [
+  { age: 34, sex: 'F', severity: 'Low', visit: '2024-01-15', note: 'Follow-up' },
+  { age: 61, sex: 'M', severity: 'High', visit: '2024-03-02', note: 'Baseline' },
+  { age: '', sex: 'F', severity: 'Medium', visit: '', note: '' },
+  { age: 55, sex: '', severity: '', visit: '2023-12-30', note: 'follow-up call' },
+  { age: 72, sex: 'F', severity: 'High', visit: '2024-02-29', note: 'Other' },
+  { age: 48, sex: 'M', severity: 'Medium', visit: '2024-02-15', note: 'FOLLOW' }
+];
+// Alphabetical order (High, Low, Medium) differs from the ordinal one; free-text notes offer = and contains
+const dataset = setVariableType(
+  setVariableType(buildDataset(rows, 'test.csv'), 'severity', 'ordinal', ['Low', 'Medium', 'High']),
+  'note',
+  'text'
+);
+
+const condition = (variable: string, operator: FilterOperator, value = '', extra: Partial<FilterCondition> = {}): FilterCondition =>
+  ({ variable, operator, value, value2: '', values: [], ...extra });
+
+const filterOf = (combinator: RowFilter['combinator'], ...groups: [RowFilter['combinator'], FilterCondition[]][]): RowFilter =>
+  ({ combinator, groups: groups.map(([groupCombinator, conditions]) => ({ combinator: groupCombinator, conditions })) });
+
+/** Indices of the rows passing a single condition, or a whole filter */
+const passing = (filter: FilterCondition | RowFilter) => {
+  const rowFilter = 'groups' in filter ? filter : filterOf('and', ['and', [filter]]);
+  return evaluateRowFilter(dataset, rowFilter).flatMap((keep, i) => (keep ? [i] : []));
+};
+
+describe('evaluateRowFilter', () => {
+  it('combines conditions within groups, then the groups', () => {
+    const femaleOverFifty = filterOf('or', ['and', [condition('sex', 'in', '', { values: ['F'] }), condition('age', 'gt', '50')]], ['and', [condition('severity', 'in', '', { values: ['Low'] })]]);
+    expect(passing(femaleOverFifty)).toEqual([0, 4]);
+    expect(describeRowFilter(femaleOverFifty, dataset)).toBe('(sex is F and age > 50) or severity is Low');
+
+    const femaleOrOlder = filterOf('and', ['or', [condition('sex', 'in', '', { values: ['F'] }), condition('age', 'gt', '60')]], ['and', [condition('severity', 'gte', 'Medium')]]);
+    expect(passing(femaleOrOlder)).toEqual([1, 2, 4]);
+  });
+
+  it.each([
+    ['eq', '34', [0]],
+    ['neq', '34', [1, 3, 4, 5]],
+    ['lt', '50', [0, 5]],
+    ['lte', '48', [0, 5]],
+    ['gt', '55', [1, 4]],
+    ['gte', '55', [1, 3, 4]]
+  ] as const)('excludes missing values from age %s %s', (operator, value, expected) => {
+    expect(passing(condition('age', operator, value))).toEqual(expected);
+  });
+
+  it('excludes missing values from every other operator except "is missing"', () => {
+    expect(passing(condition('age', 'between', '60', { value2: '30' }))).toEqual([0, 3, 5]);
+    expect(passing(condition('sex', 'notIn', '', { values: ['M'] }))).toEqual([0, 2, 4]);
+    expect(passing(condition('note', 'neq', 'Other'))).toEqual([0, 1, 3, 5]);
+    expect(passing(condition('note', 'contains', ' follow '))).toEqual([0, 3, 5]);
+    expect(passing(condition('age', 'missing'))).toEqual([2]);
+    expect(passing(condition('sex', 'notMissing'))).toEqual([0, 1, 2, 4, 5]);
+  });
+
+  it('compares dates by calendar date, in either typed form', () => {
+    expect(passing(condition('visit', 'gt', '2024-01-31'))).toEqual([1, 4, 5]);
+    expect(passing(condition('visit', 'between', '2024-03-01', { value2: '2024-01-01' }))).toEqual([0, 4, 5]);
+    expect(passing(condition('visit', 'gte', '01/03/2024'))).toEqual([1]);
+    expect(passing(condition('visit', 'eq', '29/02/2024'))).toEqual([4]);
+  });
+
+  it('compares ordinal levels by their order, not alphabetically', () => {
+    expect(passing(condition('severity', 'lt', 'High'))).toEqual([0, 2, 5]);
+    expect(passing(condition('severity', 'gte', 'Medium'))).toEqual([1, 2, 4, 5]);
+    expect(passing(condition('severity', 'lte', 'Low'))).toEqual([0]);
+  });
+
+  it('ignores incomplete conditions and operators the variable type does not offer', () => {
+    const incomplete = filterOf('and', ['and', [condition('age', 'gt', ''), condition('sex', 'in'), condition('sex', 'lt', 'M'), condition('weight', 'missing')]]);
+    expect(isFilterActive(incomplete, dataset)).toBe(false);
+    expect(passing(incomplete)).toEqual([0, 1, 2, 3, 4, 5]);
+    expect(applyRowFilter(dataset, incomplete)).toBe(dataset);
+  });
+});
+
+describe('applyRowFilter', () => {
+  const filter = filterOf('and', ['and', [condition('sex', 'in', '', { values: ['F'] }), condition('age', 'notMissing')]]);
+  const subset = applyRowFilter(dataset, filter);
+
+  it('keeps the passing rows and records the subset', () => {
+    expect(subset.data).toEqual([rows[0], rows[4]]);
+    expect(subset.variables.find(v => v.name === 'age')!.values).toEqual([34, 72]);
+    expect(subset.subset).toEqual({ description: 'sex is F and age is not missing', totalRows: 6 });
+  });
+
+  it('carries the subset through later changes and into exported text', () => {
+    const retyped = setVariableType(subset, 'age', 'categorical');
+    expect(retyped.subset).toEqual(subset.subset);
+    const note = 'Analyses were restricted to records where sex is F and age is not missing (n = 2 of 6).';
+    expect(describeSubset(retyped)).toBe(note);
+    expect(withSubsetNote('Mean age was 53.', retyped)).toBe(`Mean age was 53. ${note}`);
+    expect(withSubsetNote('Mean age was 53.', dataset)).toBe('Mean age was 53.');
+    expect(withSubsetNote('', retyped)).toBe('');
+  });
+});
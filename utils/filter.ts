@@ -0,0 +1,223 @@
+
+import { Dataset, DataVariable, VariableType } from '../types';
+import { getCategoryLevels, isMissingValue } from './statistics';
+import { isCategoricalType, isDateType } from './variableTypes';
+import { parseDateValue } from './dates';
+import { subsetRows } from './dataset';
+
+export type FilterOperator = 'eq' | 'neq' | 'lt' | 'lte' | 'gt' | 'gte' | 'between' | 'in' | 'notIn' | 'contains' | 'missing' | 'notMissing';
+
+export interface FilterCondition {
+  variable: string;
+  operator: FilterOperator;
+  /** Comparison value as typed; 'between' also uses value2 */
+  value: string;
+  value2: string;
+  /** Levels for 'in' and 'notIn' */
+  values: string[];
+}
+
+export interface FilterGroup {
+  combinator: 'and' | 'or';
+  conditions: FilterCondition[];
+}
+
+/**
+ * Conditions are combined within each group, then the groups with each other:
+ * (sex is Female and age > 50) or (site is A)
+ */
+export interface RowFilter {
+  combinator: 'and' | 'or';
+  groups: FilterGroup[];
+}
+
+export const FILTER_OPERATORS: Record<FilterOperator, { label: string; symbol: string }> = {
+  eq: { label: 'equals', symbol: '=' },
+  neq: { label: 'does not equal', symbol: '≠' },
+  lt: { label: 'less than', symbol: '<' },
+  lte: { label: 'at most', symbol: '≤' },
+  gt: { label: 'greater than', symbol: '>' },
+  gte: { label: 'at least', symbol: '≥' },
+  between: { label: 'between', symbol: 'between' },
+  in: { label: 'is one of', symbol: 'is' },
+  notIn: { label: 'is not one of', symbol: 'is not' },
+  contains: { label: 'contains', symbol: 'contains' },
+  missing: { label: 'is missing', symbol: 'is missing' },
+  notMissing: { label: 'is not missing', symbol: 'is not missing' }
+};
+
+/**
+ * Operators that make sense for a variable type. Ordinal levels can be compared by their order.
+ */
+export const getFilterOperators = (type: VariableType): FilterOperator[] => {
+  if (type === 'numerical' || isDateType(type)) return ['eq', 'neq', 'lt', 'lte', 'gt', 'gte', 'between', 'missing', 'notMissing'];
+  if (type === 'ordinal') return ['in', 'notIn', 'lt', 'lte', 'gt', 'gte', 'missing', 'notMissing'];
+  if (isCategoricalType(type)) return ['in', 'notIn', 'missing', 'notMissing'];
+  return ['eq', 'neq', 'contains', 'missing', 'notMissing'];
+};
+
+export const createFilterCondition = (variable?: DataVariable): FilterCondition => ({
+  variable: variable?.name ?? '',
+  operator: variable ? getFilterOperators(variable.type)[0] : 'eq',
+  value: '',
+  value2: '',
+  values: []
+});
+
+export const createEmptyFilter = (): RowFilter => ({ combinator: 'and', groups: [{ combinator: 'and', conditions: [] }] });
+
+export const getFilterLevels = (variable: DataVariable): string[] => variable.levels ?? getCategoryLevels(variable.values);
+
+/**
+ * Position of a value on the variable's scale: the number itself, milliseconds for dates or the
+ * rank of an ordinal level. NaN when the value does not fit.
+ */
+const toScale = (variable: DataVariable, value: any): number => {
+  if (isMissingValue(value)) return NaN;
+  if (isDateType(variable.type)) return parseDateValue(String(value))?.ms ?? NaN;
+  if (variable.type === 'ordinal') {
+    const rank = getFilterLevels(variable).indexOf(String(value));
+    return rank === -1 ? NaN : rank;
+  }
+  return String(value).trim() === '' ? NaN : Number(value);
+};
+
+const isOrdered = (variable: DataVariable) => variable.type === 'numerical' || variable.type === 'ordinal' || isDateType(variable.type);
+
+/**
+ * A condition takes part in filtering once its variable exists and every value it needs is filled in
+ */
+export const isConditionComplete = (condition: FilterCondition, dataset: Dataset): boolean => {
+  const variable = dataset.variables.find(v => v.name === condition.variable);
+  if (!variable || !getFilterOperators(variable.type).includes(condition.operator)) return false;
+  switch (condition.operator) {
+    case 'missing':
+    case 'notMissing':
+      return true;
+    case 'in':
+    case 'notIn':
+      return condition.values.length > 0;
+    case 'between':
+      return !isNaN(toScale(variable, condition.value)) && !isNaN(toScale(variable, condition.value2));
+    default:
+      return isOrdered(variable) ? !isNaN(toScale(variable, condition.value)) : condition.value.trim() !== '';
+  }
+};
+
+/**
+ * Missing values fail every condition except "is missing"
+ */
+const matchesCondition = (variable: DataVariable, value: any, condition: FilterCondition): boolean => {
+  const missing = isMissingValue(value);
+  if (condition.operator === 'missing') return missing;
+  if (condition.operator === 'notMissing') return !missing;
+  if (missing) return false;
+
+  const text = String(value);
+  switch (condition.operator) {
+    case 'in':
+      return condition.values.includes(text);
+    case 'notIn':
+      return !condition.values.includes(text);
+    case 'contains':
+      return text.toLowerCase().includes(condition.value.trim().toLowerCase());
+  }
+  if (!isOrdered(variable)) return condition.operator === 'eq' ? text === condition.value.trim() : text !== condition.value.trim();
+
+  const x = toScale(variable, value);
+  const target = toScale(variable, condition.value);
+  switch (condition.operator) {
+    case 'eq': return x === target;
+    case 'neq': return x !== target;
+    case 'lt': return x < target;
+    case 'lte': return x <= target;
+    case 'gt': return x > target;
+    case 'gte': return x >= target;
+    case 'between': {
+      const upper = toScale(variable, condition.value2);
+      return x >= Math.min(target, upper) && x <= Math.max(target, upper);
+    }
+    default: return false;
+  }
+};
+
+const completeGroups = (filter: RowFilter, dataset: Dataset): FilterGroup[] =>
+  filter.groups
+    .map(group => ({ ...group, conditions: group.conditions.filter(c => isConditionComplete(c, dataset)) }))
+    .filter(group => group.conditions.length > 0);
+
+export const isFilterActive = (filter: RowFilter, dataset: Dataset): boolean => completeGroups(filter, dataset).length > 0;
+
+/**
+ * Flags the rows that pass the filter. Incomplete conditions are ignored.
+ */
+export const evaluateRowFilter = (dataset: Dataset, filter: RowFilter): boolean[] => {
+  const groups = completeGroups(filter, dataset);
+  const byName = new Map(dataset.variables.map(v => [v.name, v]));
+  const test = (group: FilterGroup, i: number) => {
+    const check = (c: FilterCondition) => {
+      const variable = byName.get(c.variable)!;
+      return matchesCondition(variable, variable.values[i], c);
+    };
+    return group.combinator === 'and' ? group.conditions.every(check) : group.conditions.some(check);
+  };
+  return dataset.data.map((_, i) => {
+    if (groups.length === 0) return true;
+    return filter.combinator === 'and' ? groups.every(g => test(g, i)) : groups.some(g => test(g, i));
+  });
+};
+
+const describeCondition = (c: FilterCondition): string => {
+  switch (c.operator) {
+    case 'missing':
+    case 'notMissing':
+      return `${c.variable} ${FILTER_OPERATORS[c.operator].symbol}`;
+    case 'in':
+      return c.values.length === 1 ? `${c.variable} is ${c.values[0]}` : `${c.variable} is one of ${c.values.join(', ')}`;
+    case 'notIn':
+      return c.values.length === 1 ? `${c.variable} is not ${c.values[0]}` : `${c.variable} is none of ${c.values.join(', ')}`;
+    case 'contains':
+      return `${c.variable} contains "${c.value.trim()}"`;
+    case 'between':
+      return `${c.variable} between ${c.value.trim()} and ${c.value2.trim()}`;
+    default:
+      return `${c.variable} ${FILTER_OPERATORS[c.operator].symbol} ${c.value.trim()}`;
+  }
+};
+
+/**
+ * Readable form of the complete conditions, e.g. "(sex is Female and age > 50) or site is A"
+ */
+export const describeRowFilter = (filter: RowFilter, dataset: Dataset): string => {
+  const groups = completeGroups(filter, dataset);
+  return groups
+    .map(group => {
+      const text = group.conditions.map(describeCondition).join(` ${group.combinator} `);
+      return groups.length > 1 && group.conditions.length > 1 ? `(${text})` : text;
+    })
+    .join(` ${filter.combinator} `);
+};
+
+/**
+ * The rows passing the filter as a dataset of their own, or the dataset itself when no condition
+ * is complete
+ */
+export const applyRowFilter = (dataset: Dataset, filter: RowFilter): Dataset =>
+  isFilterActive(filter, dataset) ? subsetRows(dataset, evaluateRowFilter(dataset, filter), describeRowFilter(filter, dataset)) : dataset;
+
+/**
+ * Sentence stating the subset an analysis was restricted to, appended to exported text; empty
+ * for unfiltered data
+ */
+export const describeSubset = (dataset: Dataset): string =>
+  dataset.subset
+    ? `Analyses were restricted to records where ${dataset.subset.description} (n = ${dataset.data.length} of ${dataset.subset.totalRows}).`
+    : '';
+
+/**
+ * Appends the subset sentence to an exported paragraph
+ */
+export const withSubsetNote = (text: string, dataset: Dataset): string => {
+  const note = describeSubset(dataset);
+  return text && note ? `${text} ${note}` : text;
+};
@@ -0,0 +1,129 @@
+
+import { describe, expect, it } from 'vitest';
+import { compileFormula } from './formula';
+
+const columns = ['weight', 'height', 'age', 'sex', 'Weight (kg)', 'score'];
+const row = { weight: 80, height: 200, age: 70, sex: 'Male', 'Weight (kg)': 72, score: null };
+const run = (expression: string, data: Record<string, any> = row) => compileFormula(expression, columns).evaluate(data);
+
+describe('compileFormula', () => {
+  describe('operators', () => {
+    it.each([
+      ['1 + 2 * 3', 7],
+      ['(1 + 2) * 3', 9],
+      ['10 - 4 - 3', 3],
+      ['24 / 4 / 2', 3],
+      ['2 ^ 3 ^ 2', 512],
+      ['2 * 3 ^ 2', 18],
+      ['1 + 2 < 4', 1],
+      ['1 < 2 and 3 < 2 or 1', 1],
+      ['not 1 < 2', 0],
+      ['!0 && 1 || 0', 1]
+    ])('evaluates %s as %s', (expression, value) => {
+      expect(run(expression)).toBe(value);
+    });
+
+    it('applies unary minus after powers and allows it in exponents', () => {
+      expect(run('-2 ^ 2')).toBe(-4);
+      expect(run('(-2) ^ 2')).toBe(4);
+      expect(run('2 ^ -1')).toBe(0.5);
+      expect(run('--3')).toBe(3);
+      expect(run('-weight + +5')).toBe(-75);
+    });
+
+    it('compares numbers as numbers and text as text', () => {
+      expect(run("sex == 'Male'")).toBe(1);
+      expect(run('sex = "Female"')).toBe(0);
+      expect(run("'10' > 9")).toBe(1);
+      expect(run("'b' > 'a'")).toBe(1);
+      expect(run('age >= 65')).toBe(1);
+    });
+  });
+
+  describe('columns', () => {
+    it('reads plain and bracketed column names and reports the references', () => {
+      const formula = compileFormula('weight / (height / 100)^2 + [Weight (kg)] * 0', columns);
+      expect(formula.evaluate(row)).toBe(20);
+      expect(formula.references.sort()).toEqual(['Weight (kg)', 'height', 'weight']);
+    });
+
+    it('rejects unknown identifiers', () => {
+      expect(() => compileFormula('weight + bmi', columns)).toThrow('Unknown column bmi');
+      expect(() => compileFormula('[Height (cm)] * 2', columns)).toThrow('Unknown column [Height (cm)]');
+    });
+  });
+
+  describe('functions', () => {
+    it('applies functions case-insensitively', () => {
+      expect(run('round(weight / 3, 2)')).toBe(26.67);
+      expect(run('ROUND(2.5)')).toBe(3);
+      expect(run('max(1, age, 5)')).toBe(70);
+      expect(run("if(age >= 65, 'Older', 'Younger')")).toBe('Older');
+      expect(run('abs(-3) + sqrt(16) + floor(1.7) + ceil(1.2)')).toBe(10);
+    });
+
+    it('checks the number of arguments', () => {
+      expect(() => compileFormula('sqrt(1, 2)', columns)).toThrow('sqrt(x) takes 1 argument.');
+      expect(() => compileFormula('min(1)', columns)).toThrow('min(a, b, ...) takes at least 2 arguments.');
+      expect(() => compileFormula('if(1, 2)', columns)).toThrow('if(condition, then, else) takes 3 arguments.');
+      expect(() => compileFormula('abs()', columns)).toThrow('abs(x) takes 1 argument.');
+    });
+
+    it('rejects unknown functions', () => {
+      expect(() => compileFormula('eval(1)', columns)).toThrow('Unknown function eval().');
+    });
+  });
+
+  describe('missing values', () => {
+    it('propagates missing values through arithmetic, comparisons and functions', () => {
+      expect(run('score + 1')).toBeNull();
+      expect(run('-score')).toBeNull();
+      expect(run('score > 1')).toBeNull();
+      expect(run('sqrt(score)')).toBeNull();
+      expect(run('missing * 2')).toBeNull();
+      expect(run("if(score > 1, 'a', 'b')")).toBeNull();
+      expect(run('weight + 1', { ...row, weight: '' })).toBeNull();
+    });
+
+    it('lets a decided side win in and/or', () => {
+      expect(run('score > 1 and 0')).toBe(0);
+      expect(run('score > 1 or 1')).toBe(1);
+      expect(run('score > 1 and 1')).toBeNull();
+      expect(run('not score')).toBeNull();
+    });
+
+    it('skips missing values in mean() and detects them with ismissing()', () => {
+      expect(run('mean(score, 2, 4)')).toBe(3);
+      expect(run('mean(score, missing)')).toBeNull();
+      expect(run('ismissing(score)')).toBe(1);
+      expect(run('ismissing(age)')).toBe(0);
+    });
+
+    it('gives missing for undefined results such as division by zero', () => {
+      expect(run('1 / 0')).toBeNull();
+      expect(run('0 / 0')).toBeNull();
+      expect(run('ln(0)')).toBeNull();
+      expect(run('sqrt(-1)')).toBeNull();
+      expect(run('weight / (age - 70)')).toBeNull();
+    });
+  });
+
+  describe('syntax', () => {
+    it.each([
+      ['', 'Enter a formula.'],
+      ['1 +', 'The formula ends unexpectedly.'],
+      ['(1 + 2', 'The formula ends unexpectedly.'],
+      ['1 + 2)', 'Unexpected ")" at position 6.'],
+      ['1 2', 'Unexpected "2" at position 3.'],
+      ["'open", 'Unclosed text starting at position 1.'],
+      ['[weight', 'Unclosed [ at position 1.'],
+      ['weight; 1', 'Unexpected ";" at position 7.'],
+      ['weight.constructor', 'Unknown column weight.constructor'],
+      ['x => 1', 'Unknown column x'],
+      ['1 < 2 < 3', 'Unexpected "<" at position 7.'],
+      ['`1`', 'Unexpected "`" at position 1.']
+    ])('rejects %j', (expression, message) => {
+      expect(() => compileFormula(expression, columns)).toThrow(message);
+    });
+  });
+});
@@ -0,0 +1,355 @@
+
+import { isMissingValue } from './statistics';
+
+/** A value inside a formula; null is missing */
+export type FormulaValue = number | string | boolean | null;
+
+type FormulaNode =
+  | { type: 'literal'; value: FormulaValue }
+  | { type: 'column'; name: string }
+  | { type: 'unary'; op: '-' | 'not'; operand: FormulaNode }
+  | { type: 'binary'; op: string; left: FormulaNode; right: FormulaNode }
+  | { type: 'call'; name: string; args: FormulaNode[] };
+
+interface Token {
+  kind: 'number' | 'string' | 'name' | 'column' | 'operator' | 'end';
+  text: string;
+  position: number;
+}
+
+const toNumber = (v: FormulaValue): number | null => {
+  if (v === null) return null;
+  if (typeof v === 'boolean') return v ? 1 : 0;
+  if (typeof v === 'number') return isFinite(v) ? v : null;
+  const num = Number(v);
+  return v.trim() === '' || isNaN(num) ? null : num;
+};
+
+const toBoolean = (v: FormulaValue): boolean | null => {
+  const num = toNumber(v);
+  return num === null ? null : num !== 0;
+};
+
+/** Applies fn when every argument is a number, giving missing otherwise */
+const numeric = (fn: (...args: number[]) => number) => (args: FormulaValue[]): FormulaValue => {
+  const nums = args.map(toNumber);
+  if (nums.some(n => n === null)) return null;
+  const result = fn(...(nums as number[]));
+  return isFinite(result) ? result : null;
+};
+
+interface FormulaFunction {
+  minArgs: number;
+  maxArgs: number;
+  signature: string;
+  description: string;
+  apply: (args: FormulaValue[]) => FormulaValue;
+}
+
+/**
+ * Functions available in formulas. Numeric functions give a missing value when an argument is
+ * missing or the result is undefined, such as ln(0).
+ */
+export const FORMULA_FUNCTIONS: Record<string, FormulaFunction> = {
+  abs: { minArgs: 1, maxArgs: 1, signature: 'abs(x)', description: 'Absolute value', apply: numeric(Math.abs) },
+  sqrt: { minArgs: 1, maxArgs: 1, signature: 'sqrt(x)', description: 'Square root', apply: numeric(Math.sqrt) },
+  exp: { minArgs: 1, maxArgs: 1, signature: 'exp(x)', description: 'e raised to x', apply: numeric(Math.exp) },
+  ln: { minArgs: 1, maxArgs: 1, signature: 'ln(x)', description: 'Natural logarithm', apply: numeric(Math.log) },
+  log10: { minArgs: 1, maxArgs: 1, signature: 'log10(x)', description: 'Base-10 logarithm', apply: numeric(Math.log10) },
+  round: {
+    minArgs: 1, maxArgs: 2, signature: 'round(x, digits)', description: 'Rounds to the given number of decimals (default 0)',
+    apply: numeric((x, digits = 0) => Math.round(x * 10 ** digits) / 10 ** digits)
+  },
+  floor: { minArgs: 1, maxArgs: 1, signature: 'floor(x)', description: 'Rounds down', apply: numeric(Math.floor) },
+  ceil: { minArgs: 1, maxArgs: 1, signature: 'ceil(x)', description: 'Rounds up', apply: numeric(Math.ceil) },
+  min: { minArgs: 2, maxArgs: Infinity, signature: 'min(a, b, ...)', description: 'Smallest value', apply: numeric(Math.min) },
+  max: { minArgs: 2, maxArgs: Infinity, signature: 'max(a, b, ...)', description: 'Largest value', apply: numeric(Math.max) },
+  mean: {
+    minArgs: 1, maxArgs: Infinity, signature: 'mean(a, b, ...)', description: 'Mean of the non-missing arguments',
+    apply: args => {
+      const nums = args.map(toNumber).filter((n): n is number => n !== null);
+      return nums.length > 0 ? nums.reduce((a, b) => a + b, 0) / nums.length : null;
+    }
+  },
+  if: {
+    minArgs: 3, maxArgs: 3, signature: 'if(condition, then, else)', description: 'Chooses a value; missing when the condition is',
+    apply: ([condition, then, otherwise]) => {
+      const test = toBoolean(condition);
+      return test === null ? null : test ? then : otherwise;
+    }
+  },
+  ismissing: { minArgs: 1, maxArgs: 1, signature: 'ismissing(x)', description: '1 when x is missing, otherwise 0', apply: ([x]) => x === null }
+};
+
+const KEYWORDS: Record<string, FormulaNode> = {
+  true: { type: 'literal', value: true },
+  false: { type: 'literal', value: false },
+  missing: { type: 'literal', value: null }
+};
+
+const OPERATORS = ['==', '!=', '<=', '>=', '&&', '||', '+', '-', '*', '/', '^', '<', '>', '=', '!', '(', ')', ','];
+
+const tokenize = (expression: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < expression.length) {
+    const ch = expression[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    const start = i;
+    const number = /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i.exec(expression.slice(i));
+    if (number) {
+      tokens.push({ kind: 'number', text: number[0], position: start });
+      i += number[0].length;
+    } else if (ch === '"' || ch === "'") {
+      const end = expression.indexOf(ch, i + 1);
+      if (end === -1) throw new Error(`Unclosed text starting at position ${start + 1}.`);
+      tokens.push({ kind: 'string', text: expression.slice(i + 1, end), position: start });
+      i = end + 1;
+    } else if (ch === '[') {
+      // Column names with spaces or symbols are written in brackets: [Weight (kg)]
+      const end = expression.indexOf(']', i + 1);
+      if (end === -1) throw new Error(`Unclosed [ at position ${start + 1}.`);
+      tokens.push({ kind: 'column', text: expression.slice(i + 1, end), position: start });
+      i = end + 1;
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const name = /^[A-Za-z_][A-Za-z0-9_.]*/.exec(expression.slice(i))![0];
+      tokens.push({ kind: 'name', text: name, position: start });
+      i += name.length;
+    } else {
+      const op = OPERATORS.find(o => expression.startsWith(o, i));
+      if (!op) throw new Error(`Unexpected "${ch}" at position ${start + 1}.`);
+      tokens.push({ kind: 'operator', text: op, position: start });
+      i += op.length;
+    }
+  }
+  tokens.push({ kind: 'end', text: '', position: expression.length });
+  return tokens;
+};
+
+/**
+ * Recursive-descent parser. Precedence from loosest to tightest: or, and, not, comparisons,
+ * + and -, * and /, unary minus, ^ (right-associative).
+ */
+const parse = (tokens: Token[], columns: Set<string>): FormulaNode => {
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const isOp = (...ops: string[]) => peek().kind === 'operator' && ops.includes(peek().text);
+  const isWord = (word: string) => peek().kind === 'name' && peek().text.toLowerCase() === word;
+  const fail = (token: Token): never => {
+    throw new Error(token.kind === 'end' ? 'The formula ends unexpectedly.' : `Unexpected "${token.text}" at position ${token.position + 1}.`);
+  };
+  const expect = (op: string) => {
+    if (!isOp(op)) fail(peek());
+    pos++;
+  };
+
+  const parseOr = (): FormulaNode => {
+    let left = parseAnd();
+    while (isOp('||') || isWord('or')) {
+      pos++;
+      left = { type: 'binary', op: 'or', left, right: parseAnd() };
+    }
+    return left;
+  };
+  const parseAnd = (): FormulaNode => {
+    let left = parseNot();
+    while (isOp('&&') || isWord('and')) {
+      pos++;
+      left = { type: 'binary', op: 'and', left, right: parseNot() };
+    }
+    return left;
+  };
+  const parseNot = (): FormulaNode => {
+    if (isOp('!') || isWord('not')) {
+      pos++;
+      return { type: 'unary', op: 'not', operand: parseNot() };
+    }
+    return parseComparison();
+  };
+  const parseComparison = (): FormulaNode => {
+    const left = parseAdditive();
+    if (isOp('==', '=', '!=', '<', '<=', '>', '>=')) {
+      const op = peek().text === '=' ? '==' : peek().text;
+      pos++;
+      return { type: 'binary', op, left, right: parseAdditive() };
+    }
+    return left;
+  };
+  const parseAdditive = (): FormulaNode => {
+    let left = parseMultiplicative();
+    while (isOp('+', '-')) {
+      const op = tokens[pos++].text;
+      left = { type: 'binary', op, left, right: parseMultiplicative() };
+    }
+    return left;
+  };
+  const parseMultiplicative = (): FormulaNode => {
+    let left = parseUnary();
+    while (isOp('*', '/')) {
+      const op = tokens[pos++].text;
+      left = { type: 'binary', op, left, right: parseUnary() };
+    }
+    return left;
+  };
+  const parseUnary = (): FormulaNode => {
+    if (isOp('-')) {
+      pos++;
+      return { type: 'unary', op: '-', operand: parseUnary() };
+    }
+    if (isOp('+')) {
+      pos++;
+      return parseUnary();
+    }
+    return parsePower();
+  };
+  const parsePower = (): FormulaNode => {
+    const base = parsePrimary();
+    if (isOp('^')) {
+      pos++;
+      return { type: 'binary', op: '^', left: base, right: parseUnary() };
+    }
+    return base;
+  };
+  const parsePrimary = (): FormulaNode => {
+    const token = tokens[pos++];
+    switch (token.kind) {
+      case 'number':
+        return { type: 'literal', value: Number(token.text) };
+      case 'string':
+        return { type: 'literal', value: token.text };
+      case 'column':
+        if (!columns.has(token.text)) throw new Error(`Unknown column [${token.text}].`);
+        return { type: 'column', name: token.text };
+      case 'name': {
+        if (isOp('(')) {
+          const name = token.text.toLowerCase();
+          const fn = FORMULA_FUNCTIONS[name];
+          if (!fn) throw new Error(`Unknown function ${token.text}().`);
+          pos++;
+          const args: FormulaNode[] = [];
+          if (!isOp(')')) {
+            args.push(parseOr());
+            while (isOp(',')) {
+              pos++;
+              args.push(parseOr());
+            }
+          }
+          expect(')');
+          if (args.length < fn.minArgs || args.length > fn.maxArgs) {
+            throw new Error(`${fn.signature} takes ${fn.minArgs === fn.maxArgs ? fn.minArgs : `at least ${fn.minArgs}`} argument${fn.minArgs === 1 && fn.maxArgs === 1 ? '' : 's'}.`);
+          }
+          return { type: 'call', name, args };
+        }
+        if (columns.has(token.text)) return { type: 'column', name: token.text };
+        const keyword = KEYWORDS[token.text.toLowerCase()];
+        if (keyword) return keyword;
+        throw new Error(`Unknown column ${token.text}; write names with spaces or symbols in brackets, e.g. [Weight (kg)].`);
+      }
+      case 'operator':
+        if (token.text === '(') {
+          const inner = parseOr();
+          expect(')');
+          return inner;
+        }
+        return fail(token);
+      default:
+        return fail(token);
+    }
+  };
+
+  const root = parseOr();
+  if (peek().kind !== 'end') fail(peek());
+  return root;
+};
+
+const compare = (op: string, a: FormulaValue, b: FormulaValue): FormulaValue => {
+  if (a === null || b === null) return null;
+  const [x, y] = [toNumber(a), toNumber(b)];
+  // Text is compared as text unless both sides read as numbers ("2" == 2)
+  const cmp = x !== null && y !== null ? x - y : String(a).localeCompare(String(b));
+  switch (op) {
+    case '==': return cmp === 0;
+    case '!=': return cmp !== 0;
+    case '<': return cmp < 0;
+    case '<=': return cmp <= 0;
+    case '>': return cmp > 0;
+    default: return cmp >= 0;
+  }
+};
+
+const evaluate = (node: FormulaNode, row: Record<string, any>): FormulaValue => {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+    case 'column': {
+      const value = row[node.name];
+      return isMissingValue(value) ? null : value;
+    }
+    case 'unary': {
+      const operand = evaluate(node.operand, row);
+      if (node.op === 'not') {
+        const b = toBoolean(operand);
+        return b === null ? null : !b;
+      }
+      const num = toNumber(operand);
+      return num === null ? null : -num;
+    }
+    case 'call':
+      return FORMULA_FUNCTIONS[node.name].apply(node.args.map(arg => evaluate(arg, row)));
+    case 'binary': {
+      const left = evaluate(node.left, row);
+      if (node.op === 'and' || node.op === 'or') {
+        // Three-valued logic: a decided side wins over a missing one (false and missing = false)
+        const a = toBoolean(left);
+        if (a === (node.op === 'or')) return a;
+        const b = toBoolean(evaluate(node.right, row));
+        if (b === (node.op === 'or')) return b;
+        return a === null || b === null ? null : a;
+      }
+      const right = evaluate(node.right, row);
+      if (!['+', '-', '*', '/', '^'].includes(node.op)) return compare(node.op, left, right);
+      const [x, y] = [toNumber(left), toNumber(right)];
+      if (x === null || y === null) return null;
+      const result = node.op === '+' ? x + y : node.op === '-' ? x - y : node.op === '*' ? x * y : node.op === '/' ? x / y : x ** y;
+      return isFinite(result) ? result : null;
+    }
+  }
+};
+
+const collectColumns = (node: FormulaNode, found: Set<string>) => {
+  if (node.type === 'column') found.add(node.name);
+  else if (node.type === 'unary') collectColumns(node.operand, found);
+  else if (node.type === 'binary') {
+    collectColumns(node.left, found);
+    collectColumns(node.right, found);
+  } else if (node.type === 'call') node.args.forEach(arg => collectColumns(arg, found));
+};
+
+export interface CompiledFormula {
+  /** Columns the formula reads */
+  references: string[];
+  /** Value for one data row: true/false become 1/0 and undefined results such as 1/0 become null */
+  evaluate: (row: Record<string, any>) => number | string | null;
+}
+
+/**
+ * Compiles a formula such as `weight / (height / 100)^2` or `if(age >= 65, 'Older', 'Younger')`
+ * over the given columns. Formulas are parsed, never run as JavaScript; syntax errors and unknown
+ * columns or functions throw an Error with a message suitable for the user.
+ */
+export const compileFormula = (expression: string, columns: string[]): CompiledFormula => {
+  if (expression.trim() === '') throw new Error('Enter a formula.');
+  const root = parse(tokenize(expression), new Set(columns));
+  const references = new Set<string>();
+  collectColumns(root, references);
+  return {
+    references: Array.from(references),
+    evaluate: row => {
+      const value = evaluate(root, row);
+      return typeof value === 'boolean' ? (value ? 1 : 0) : value;
+    }
+  };
+};
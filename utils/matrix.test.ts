@@ -0,0 +1,33 @@
+
+import { describe, expect, it } from 'vitest';
+import { crossProduct, invert, multiply } from './matrix';
+
+const expectIdentity = (m: number[][]) => {
+  m.forEach((row, i) => row.forEach((v, j) => expect(v).toBeCloseTo(i === j ? 1 : 0, 8)));
+};
+
+describe('invert', () => {
+  it('inverts a small matrix exactly', () => {
+    expect(invert([[4, 7], [2, 6]])).toEqual([
+      [expect.closeTo(0.6, 12), expect.closeTo(-0.7, 12)],
+      [expect.closeTo(-0.2, 12), expect.closeTo(0.4, 12)]
+    ]);
+  });
+
+  it('inverts cross products of predictors on very different scales', () => {
+    // Intercept, income in the hundreds of thousands and a 0/1 dummy
+    const x = Array.from({ length: 50 }, (_, i) => [1, 1e5 + ((i * 7919) % 50) * 18000, i % 3 === 0 ? 1 : 0]);
+    const xtx = crossProduct(x);
+    const inverse = invert(xtx);
+    expect(inverse).not.toBeNull();
+    expectIdentity(multiply(xtx, inverse!));
+  });
+
+  it('reports singular matrices', () => {
+    expect(invert([[1, 2], [2, 4]])).toBeNull();
+    expect(invert([[0, 0], [0, 1]])).toBeNull();
+    // A column that is an exact multiple of another, at a large scale
+    const x = Array.from({ length: 20 }, (_, i) => [1, i * 1e5, i * 2e5]);
+    expect(invert(crossProduct(x))).toBeNull();
+  });
+});
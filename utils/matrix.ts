@@ -0,0 +1,85 @@
+
+export type Matrix = number[][];
+
+export const transpose = (a: Matrix): Matrix =>
+  a.length === 0 ? [] : a[0].map((_, j) => a.map(row => row[j]));
+
+export const multiply = (a: Matrix, b: Matrix): Matrix => {
+  const cols = b[0]?.length ?? 0;
+  return a.map(row => {
+    const out = new Array<number>(cols).fill(0);
+    row.forEach((v, k) => {
+      if (v === 0) return;
+      const bk = b[k];
+      for (let j = 0; j < cols; j++) out[j] += v * bk[j];
+    });
+    return out;
+  });
+};
+
+export const multiplyVector = (a: Matrix, v: number[]): number[] =>
+  a.map(row => row.reduce((acc, x, j) => acc + x * v[j], 0));
+
+/**
+ * X'WX for a design matrix X and optional observation weights, without forming X' explicitly
+ */
+export const crossProduct = (x: Matrix, weights?: number[]): Matrix => {
+  const p = x[0]?.length ?? 0;
+  const out = Array.from({ length: p }, () => new Array<number>(p).fill(0));
+  x.forEach((row, i) => {
+    const w = weights ? weights[i] : 1;
+    for (let j = 0; j < p; j++) {
+      const v = row[j] * w;
+      if (v === 0) continue;
+      for (let k = j; k < p; k++) out[j][k] += v * row[k];
+    }
+  });
+  for (let j = 0; j < p; j++) for (let k = 0; k < j; k++) out[j][k] = out[k][j];
+  return out;
+};
+
+/**
+ * X'Wy for a design matrix X, response y and optional observation weights
+ */
+export const crossProductVector = (x: Matrix, y: number[], weights?: number[]): number[] => {
+  const p = x[0]?.length ?? 0;
+  const out = new Array<number>(p).fill(0);
+  x.forEach((row, i) => {
+    const wy = y[i] * (weights ? weights[i] : 1);
+    for (let j = 0; j < p; j++) out[j] += row[j] * wy;
+  });
+  return out;
+};
+
+/**
+ * Inverts a square matrix by Gauss-Jordan elimination with partial pivoting. Rows and columns
+ * are first scaled so each has a largest entry of 1, which makes the singularity test relative
+ * to every variable's own units (income in dollars next to a 0/1 dummy is not near-singular).
+ * Returns null when the matrix is singular to working precision.
+ */
+export const invert = (a: Matrix): Matrix | null => {
+  const n = a.length;
+  const maxAbs = (values: number[]) => values.reduce((acc, v) => Math.max(acc, Math.abs(v)), 0);
+  const r = a.map(row => 1 / maxAbs(row));
+  const c = Array.from({ length: n }, (_, j) => 1 / maxAbs(a.map((row, i) => row[j] * r[i])));
+  if (![...r, ...c].every(isFinite)) return null;
+  const m = a.map((row, i) => [...row.map((v, j) => v * r[i] * c[j]), ...Array.from({ length: n }, (_, j) => (i === j ? 1 : 0))]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let k = col + 1; k < n; k++) if (Math.abs(m[k][col]) > Math.abs(m[pivot][col])) pivot = k;
+    if (Math.abs(m[pivot][col]) < 1e-10) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+
+    const pv = m[col][col];
+    for (let j = 0; j < 2 * n; j++) m[col][j] /= pv;
+    for (let k = 0; k < n; k++) {
+      if (k === col) continue;
+      const factor = m[k][col];
+      if (factor === 0) continue;
+      for (let j = 0; j < 2 * n; j++) m[k][j] -= factor * m[col][j];
+    }
+  }
+  // The scaled matrix is R A C, so A^-1 = C (R A C)^-1 R
+  return m.map((row, i) => row.slice(n).map((v, j) => c[i] * v * r[j]));
+};
@@ -0,0 +1,73 @@
+
+import { describe, expect, it } from 'vitest';
+import { compareCompleteCases, littleMcarTest, MissingDataInput } from './missingData';
+
+// x is fully observed and y is missing in four rows. With this monotone pattern the ML estimates
+// have a closed form (mean and variance of x, then the regression of y on x in the complete rows),
+// which gives d² = 7.451702 on 1 df without EM.
+const x = [2.1, 3.4, 1.8, 4.6, 5.2, 3.9, 2.7, 6.1, 4.4, 5.8, 3.1, 4.9];
+const y = [3.0, 4.1, 2.2, 5.5, NaN, 4.3, 3.5, NaN, 5.1, NaN, 3.6, NaN];
+
+describe('littleMcarTest', () => {
+  it('matches the closed-form statistic for a monotone pattern', () => {
+    const result = littleMcarTest([x, y], ['x', 'y'])!;
+    expect(result.converged).toBe(true);
+    expect(result.patterns).toBe(2);
+    expect(result.df).toBe(1);
+    expect(result.statistic).toBeCloseTo(7.451702, 4);
+    expect(result.p).toBeCloseTo(0.0063376, 5);
+  });
+
+  it('does not depend on the scale of the variables', () => {
+    const result = littleMcarTest([x.map(v => v * 1000 + 50), y.map(v => v / 100)], ['x', 'y'])!;
+    expect(result.statistic).toBeCloseTo(7.451702, 4);
+  });
+
+  it('returns null when nothing is missing', () => {
+    expect(littleMcarTest([x, x.map(v => v * v)], ['x', 'x2'])).toBeNull();
+  });
+
+  it('returns null when the covariance matrix is singular', () => {
+    const collinear = x.map((v, i) => (isNaN(y[i]) ? NaN : 2 * v + 1));
+    expect(littleMcarTest([x, collinear], ['x', 'collinear'])).toBeNull();
+  });
+
+  it('returns null when a variable has fewer than two observed values', () => {
+    expect(littleMcarTest([x, x.map((_, i) => (i === 0 ? 1 : NaN))], ['x', 'sparse'])).toBeNull();
+  });
+});
+
+describe('compareCompleteCases', () => {
+  // Ten complete rows, then fourteen in which b is missing
+  const complete = Array.from({ length: 10 }, (_, i) => i + 1);
+  const incomplete = Array.from({ length: 14 }, (_, i) => i + 7);
+  const inputs: MissingDataInput[] = [
+    { name: 'a', kind: 'numeric', values: Float64Array.from([...complete, ...incomplete]) },
+    { name: 'b', kind: 'numeric', values: Float64Array.from([...complete.map(() => 1), ...incomplete.map(() => NaN)]) },
+    { name: 'c', kind: 'categorical', values: [...'yyyyyynnnn', ...'yynnnnnnnnnnnn'] },
+    { name: 'id', kind: 'other', values: Array.from({ length: 24 }, (_, i) => `r${i}`) }
+  ];
+  const mask = new Uint8Array(24 * inputs.length);
+  inputs.forEach((input, j) => {
+    for (let i = 0; i < 24; i++) if (input.kind === 'numeric' && isNaN(input.values[i] as number)) mask[i * inputs.length + j] = 1;
+  });
+
+  it('compares complete and incomplete cases with Welch and Fisher tests', () => {
+    const comparisons = compareCompleteCases(inputs, mask);
+    // b is never observed in an incomplete row and id is not analysed
+    expect(comparisons.map(c => c.variable)).toEqual(['a', 'c']);
+
+    // t.test(1:10, y = c(7:20)) in R: P = .00001855
+    const [numeric, categorical] = comparisons;
+    expect(numeric.test).toBe("Welch's T-test");
+    expect(numeric.p).toBeCloseTo(0.00001855, 7);
+    expect(numeric.complete).toEqual({ n: 10, mean: 5.5, sd: expect.closeTo(Math.sqrt(55 / 6), 10) });
+    expect(numeric.incomplete.mean).toBe(13.5);
+
+    // 6/4 against 2/12: one expected count below 5, so Fisher's exact test is used
+    expect(categorical.test).toBe("Fisher's exact test");
+    expect(categorical.p).toBeCloseTo(0.0324119, 6);
+    expect(categorical.complete).toEqual({ n: 10, frequencies: { y: 6, n: 4 } });
+    expect(categorical.incomplete).toEqual({ n: 14, frequencies: { y: 2, n: 12 } });
+  });
+});
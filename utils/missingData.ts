@@ -0,0 +1,291 @@
+
+import { pFromChiSquare } from './distributions';
+import { invert, Matrix } from './matrix';
+import { calculateGroupStats, countFrequencies, isMissingValue } from './statistics';
+import { calculateContingencyTable } from './contingency';
+
+export interface MissingDataInput {
+  name: string;
+  /** Numeric columns mark missing values with NaN, the others with null */
+  kind: 'numeric' | 'categorical' | 'other';
+  values: Float64Array | any[];
+}
+
+export interface MissingPattern {
+  /** One flag per variable, true where the value is missing */
+  missing: boolean[];
+  count: number;
+}
+
+export interface LittleMcarResult {
+  statistic: number;
+  df: number;
+  p: number;
+  variables: string[];
+  patterns: number;
+  iterations: number;
+  converged: boolean;
+}
+
+export interface CaseGroupSummary {
+  n: number;
+  mean?: number;
+  sd?: number;
+  frequencies?: Record<string, number>;
+}
+
+export interface CompleteCaseComparison {
+  variable: string;
+  complete: CaseGroupSummary;
+  incomplete: CaseGroupSummary;
+  test: string;
+  p: number;
+}
+
+export interface MissingDataReport {
+  variables: string[];
+  rows: number;
+  /** Rows with no missing value in any of the variables */
+  completeRows: number;
+  missingCounts: number[];
+  /** Distinct missingness patterns, most frequent first */
+  patterns: MissingPattern[];
+  /** Rows where both variables are missing; the diagonal holds each variable's missing count */
+  coMissing: number[][];
+  mcar: LittleMcarResult | null;
+  comparisons: CompleteCaseComparison[];
+}
+
+const isMissingIn = (input: MissingDataInput, i: number): boolean =>
+  input.kind === 'numeric' ? isNaN(input.values[i] as number) : isMissingValue(input.values[i]);
+
+/**
+ * Flags every missing cell, row by row: mask[i * k + j] is 1 when variable j is missing in row i
+ */
+const buildMissingMask = (inputs: MissingDataInput[]): Uint8Array => {
+  const k = inputs.length;
+  const n = inputs[0]?.values.length ?? 0;
+  const mask = new Uint8Array(n * k);
+  inputs.forEach((input, j) => {
+    for (let i = 0; i < n; i++) if (isMissingIn(input, i)) mask[i * k + j] = 1;
+  });
+  return mask;
+};
+
+/**
+ * Tallies the distinct combinations of missing and observed variables across rows
+ */
+export const calculateMissingPatterns = (mask: Uint8Array, k: number): MissingPattern[] => {
+  const counts = new Map<string, MissingPattern>();
+  for (let start = 0; start < mask.length; start += k) {
+    const row = mask.subarray(start, start + k);
+    const key = row.join('');
+    const pattern = counts.get(key);
+    if (pattern) pattern.count++;
+    else counts.set(key, { missing: Array.from(row, m => m === 1), count: 1 });
+  }
+  return Array.from(counts.values()).sort((a, b) => b.count - a.count);
+};
+
+const calculateCoMissingness = (patterns: MissingPattern[], k: number): number[][] => {
+  const counts = Array.from({ length: k }, () => new Array<number>(k).fill(0));
+  patterns.forEach(({ missing, count }) => {
+    const idx: number[] = [];
+    missing.forEach((m, j) => { if (m) idx.push(j); });
+    idx.forEach(a => idx.forEach(b => { counts[a][b] += count; }));
+  });
+  return counts;
+};
+
+const subMatrix = (a: Matrix, rows: number[], cols: number[]): Matrix => rows.map(r => cols.map(c => a[r][c]));
+
+/**
+ * Little's (1988) test that data are missing completely at random. Means and covariances are
+ * estimated by EM under multivariate normality; the statistic compares each pattern's observed
+ * means with them: d² = Σ n_j (ȳ_j − μ_j)' Σ_j⁻¹ (ȳ_j − μ_j), with Σ p_j − p degrees of freedom.
+ * Returns null when there is nothing missing or the covariance matrix is singular.
+ */
+export const littleMcarTest = (
+  columns: ArrayLike<number>[],
+  names: string[],
+  options: { maxIterations?: number; tolerance?: number } = {},
+  onProgress?: (fraction: number) => void
+): LittleMcarResult | null => {
+  const { maxIterations = 200, tolerance = 1e-6 } = options;
+  const p = columns.length;
+  const n = columns[0]?.length ?? 0;
+  if (p === 0) return null;
+
+  // Standardising leaves the statistic unchanged but keeps the covariance matrix well scaled
+  const scaled = columns.map(col => {
+    const observed = Array.from(col).filter(v => !isNaN(v));
+    if (observed.length < 2) return null;
+    const mean = observed.reduce((a, b) => a + b, 0) / observed.length;
+    const sd = Math.sqrt(observed.reduce((a, b) => a + (b - mean) ** 2, 0) / observed.length) || 1;
+    return Float64Array.from(col, v => (v - mean) / sd);
+  });
+  if (scaled.some(col => col === null)) return null;
+  const data = scaled as Float64Array[];
+
+  // Rows are grouped by which variables they observe; rows observing nothing carry no information
+  const groups = new Map<string, { observed: number[]; missing: number[]; rows: number[] }>();
+  for (let i = 0; i < n; i++) {
+    const observed: number[] = [];
+    const missing: number[] = [];
+    for (let j = 0; j < p; j++) (isNaN(data[j][i]) ? missing : observed).push(j);
+    if (observed.length === 0) continue;
+    const key = missing.join(',');
+    const group = groups.get(key);
+    if (group) group.rows.push(i);
+    else groups.set(key, { observed, missing, rows: [i] });
+  }
+  const patterns = Array.from(groups.values());
+  const total = patterns.reduce((acc, g) => acc + g.rows.length, 0);
+  if (patterns.length < 2 || total === 0) return null;
+
+  let mu = new Array<number>(p).fill(0);
+  let sigma: Matrix = Array.from({ length: p }, (_, a) => Array.from({ length: p }, (_, b) => (a === b ? 1 : 0)));
+  let iterations = 0;
+  let converged = false;
+
+  while (iterations < maxIterations && !converged) {
+    iterations++;
+    const t1 = new Array<number>(p).fill(0);
+    const t2: Matrix = Array.from({ length: p }, () => new Array<number>(p).fill(0));
+
+    for (const { observed, missing, rows } of patterns) {
+      let regression: Matrix = [];
+      if (missing.length > 0) {
+        const inverse = invert(subMatrix(sigma, observed, observed));
+        if (!inverse) return null;
+        // Conditional mean of the missing block: μ_m + Σ_mo Σ_oo⁻¹ (x_o − μ_o)
+        regression = subMatrix(sigma, missing, observed).map(row => observed.map((_, c) => row.reduce((acc, v, k) => acc + v * inverse[k][c], 0)));
+        // Conditional covariance Σ_mm − Σ_mo Σ_oo⁻¹ Σ_om is added once per row
+        missing.forEach((a, ia) => missing.forEach(b => {
+          const conditional = sigma[a][b] - regression[ia].reduce((acc, v, k) => acc + v * sigma[observed[k]][b], 0);
+          t2[a][b] += conditional * rows.length;
+        }));
+      }
+      const x = new Array<number>(p);
+      for (const i of rows) {
+        observed.forEach(j => { x[j] = data[j][i]; });
+        missing.forEach((j, im) => {
+          x[j] = mu[j] + regression[im].reduce((acc, v, k) => acc + v * (data[observed[k]][i] - mu[observed[k]]), 0);
+        });
+        for (let a = 0; a < p; a++) {
+          t1[a] += x[a];
+          for (let b = 0; b < p; b++) t2[a][b] += x[a] * x[b];
+        }
+      }
+    }
+
+    const nextMu = t1.map(v => v / total);
+    const nextSigma = t2.map((row, a) => row.map((v, b) => v / total - nextMu[a] * nextMu[b]));
+    let change = 0;
+    for (let a = 0; a < p; a++) {
+      change = Math.max(change, Math.abs(nextMu[a] - mu[a]));
+      for (let b = 0; b < p; b++) change = Math.max(change, Math.abs(nextSigma[a][b] - sigma[a][b]));
+    }
+    mu = nextMu;
+    sigma = nextSigma;
+    converged = change < tolerance;
+    onProgress?.(converged ? 1 : iterations / maxIterations);
+  }
+
+  let statistic = 0;
+  let df = -p;
+  for (const { observed, rows } of patterns) {
+    const inverse = invert(subMatrix(sigma, observed, observed));
+    if (!inverse) return null;
+    const diff = observed.map(j => rows.reduce((acc, i) => acc + data[j][i], 0) / rows.length - mu[j]);
+    const quadratic = diff.reduce((acc, d, a) => acc + d * diff.reduce((inner, e, b) => inner + inverse[a][b] * e, 0), 0);
+    statistic += rows.length * quadratic;
+    df += observed.length;
+  }
+  if (df <= 0) return null;
+
+  return { statistic, df, p: pFromChiSquare(statistic, df), variables: names, patterns: patterns.length, iterations, converged };
+};
+
+const summarizeNumeric = (values: number[]): CaseGroupSummary => {
+  const n = values.length;
+  const mean = n > 0 ? values.reduce((a, b) => a + b, 0) / n : NaN;
+  const sd = n > 1 ? Math.sqrt(values.reduce((a, b) => a + (b - mean) ** 2, 0) / (n - 1)) : NaN;
+  return { n, mean, sd };
+};
+
+/**
+ * Compares each variable's observed values between complete cases (nothing missing in any
+ * variable) and incomplete ones: Welch's t-test for numeric variables, chi-square or Fisher's
+ * exact test for categorical ones. Differences suggest that complete-case analysis is biased.
+ */
+export const compareCompleteCases = (inputs: MissingDataInput[], mask: Uint8Array): CompleteCaseComparison[] => {
+  const k = inputs.length;
+  const n = mask.length / k;
+  const isComplete = Array.from({ length: n }, (_, i) => !mask.subarray(i * k, (i + 1) * k).includes(1));
+  const comparisons: CompleteCaseComparison[] = [];
+  inputs.forEach((input, j) => {
+    if (input.kind === 'other') return;
+    const complete: any[] = [];
+    const incomplete: any[] = [];
+    for (let i = 0; i < n; i++) {
+      if (mask[i * k + j]) continue;
+      (isComplete[i] ? complete : incomplete).push(input.values[i]);
+    }
+    if (complete.length < 2 || incomplete.length < 2) return;
+
+    if (input.kind === 'numeric') {
+      const stats = calculateGroupStats({ Complete: complete, Incomplete: incomplete }, { variance: 'welch' });
+      if (!stats) return;
+      comparisons.push({ variable: input.name, complete: summarizeNumeric(complete), incomplete: summarizeNumeric(incomplete), test: stats.test, p: stats.p });
+      return;
+    }
+    const rows = [
+      ...complete.map(value => ({ group: 'Complete', value })),
+      ...incomplete.map(value => ({ group: 'Incomplete', value }))
+    ];
+    const table = calculateContingencyTable(rows, 'group', 'value');
+    if (!table) return;
+    const useFisher = table.recommendedTest === 'fisher';
+    comparisons.push({
+      variable: input.name,
+      complete: { n: complete.length, frequencies: countFrequencies(complete) },
+      incomplete: { n: incomplete.length, frequencies: countFrequencies(incomplete) },
+      test: useFisher ? "Fisher's exact test" : 'Chi-square test',
+      p: useFisher ? table.fisher!.p : table.chiSquare.p
+    });
+  });
+  return comparisons;
+};
+
+/**
+ * Missing-data report for the Missing Data tab. onProgress receives the overall fraction done;
+ * the EM iterations behind Little's test take most of the time.
+ */
+export const analyzeMissingData = (inputs: MissingDataInput[], onProgress?: (fraction: number) => void): MissingDataReport => {
+  const k = inputs.length;
+  const mask = buildMissingMask(inputs);
+  const patterns = calculateMissingPatterns(mask, k);
+  const coMissing = calculateCoMissingness(patterns, k);
+  onProgress?.(0.1);
+
+  const numeric = inputs.filter(input => input.kind === 'numeric');
+  const mcar = numeric.length > 0
+    ? littleMcarTest(numeric.map(input => input.values as ArrayLike<number>), numeric.map(input => input.name), {}, fraction => onProgress?.(0.1 + 0.8 * fraction))
+    : null;
+  onProgress?.(0.9);
+
+  const comparisons = compareCompleteCases(inputs, mask);
+  onProgress?.(1);
+
+  return {
+    variables: inputs.map(input => input.name),
+    rows: k > 0 ? mask.length / k : 0,
+    completeRows: patterns.find(pattern => !pattern.missing.includes(true))?.count ?? 0,
+    missingCounts: coMissing.map((row, j) => row[j]),
+    patterns,
+    coMissing,
+    mcar,
+    comparisons
+  };
+};
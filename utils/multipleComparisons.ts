@@ -0,0 +1,46 @@
+
+import { PAdjustMethod, PostHocMethod } from '../types';
+
+export const P_ADJUST_METHODS: Record<PostHocMethod, { label: string; description: string }> = {
+  none: { label: 'None', description: 'unadjusted p-values' },
+  bonferroni: { label: 'Bonferroni', description: 'Bonferroni-adjusted p-values' },
+  holm: { label: 'Holm', description: 'Holm-Bonferroni step-down adjusted p-values' },
+  fdr: { label: 'Benjamini-Hochberg (FDR)', description: 'Benjamini-Hochberg false discovery rate adjusted p-values' },
+  tukey: { label: 'Tukey HSD', description: 'Tukey HSD (Tukey-Kramer) adjusted p-values' },
+  gamesHowell: { label: 'Games-Howell', description: 'Games-Howell adjusted p-values' }
+};
+
+/**
+ * Adjusts a family of p-values for multiple comparisons.
+ * Invalid (NaN) p-values are passed through and do not count towards the family size.
+ */
+export const adjustPValues = (pValues: number[], method: PAdjustMethod): number[] => {
+  if (method === 'none') return [...pValues];
+
+  const valid = pValues
+    .map((p, index) => ({ p, index }))
+    .filter(item => !isNaN(item.p))
+    .sort((a, b) => a.p - b.p);
+  const m = valid.length;
+  const adjusted = [...pValues];
+
+  if (method === 'bonferroni') {
+    valid.forEach(({ p, index }) => { adjusted[index] = Math.min(1, p * m); });
+  } else if (method === 'holm') {
+    // Step-down: enforce monotonicity from the smallest p-value upwards
+    let runningMax = 0;
+    valid.forEach(({ p, index }, i) => {
+      runningMax = Math.max(runningMax, Math.min(1, (m - i) * p));
+      adjusted[index] = runningMax;
+    });
+  } else if (method === 'fdr') {
+    // Step-up: enforce monotonicity from the largest p-value downwards
+    let runningMin = 1;
+    for (let i = m - 1; i >= 0; i--) {
+      const { p, index } = valid[i];
+      runningMin = Math.min(runningMin, (m / (i + 1)) * p);
+      adjusted[index] = runningMin;
+    }
+  }
+  return adjusted;
+};
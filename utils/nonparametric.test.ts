@@ -0,0 +1,86 @@
+
+import { describe, expect, it } from 'vitest';
+import { calculateRankGroupStats, kruskalWallis, mannWhitneyU } from './nonparametric';
+
+// Tied references follow R's wilcox.test(exact = FALSE, correct = TRUE) and kruskal.test, computed
+// independently from the rank formulas; Dunn's comparisons use the tie-adjusted variance of dunn.test.
+
+describe('mannWhitneyU', () => {
+  it('matches wilcox.test exactly for small samples without ties', () => {
+    const result = mannWhitneyU(['x', 'y'], [1, 2, 3], [4, 5, 6])!;
+    expect(result.statistic).toBe(0);
+    expect(result.exact).toBe(true);
+    expect(result.p).toBeCloseTo(0.1, 10);
+    expect(result.effectSize.value).toBe(-1);
+  });
+
+  it('matches the ?wilcox.test example', () => {
+    const x = [0.80, 0.83, 1.89, 1.04, 1.45, 1.38, 1.91, 1.64, 0.73, 1.46];
+    const y = [1.15, 0.88, 0.90, 0.74, 1.21];
+    const result = mannWhitneyU(['x', 'y'], x, y)!;
+    // W = 35 for x; the smaller U is 50 - 35
+    expect(result.statistic).toBe(15);
+    expect(result.p).toBeCloseTo(0.2544123, 7);
+    expect(result.effectSize.value).toBeCloseTo(0.4, 10);
+  });
+
+  it('uses the tie-corrected normal approximation with continuity correction', () => {
+    const result = mannWhitneyU(['x', 'y'], [1, 2, 2, 3, 5, 6], [3, 4, 4, 6, 7, 7, 8])!;
+    expect(result.exact).toBe(false);
+    expect(result.statistic).toBe(7);
+    expect(result.z).toBeCloseTo(-1.9419552, 7);
+    expect(result.p).toBeCloseTo(0.0521425, 7);
+  });
+
+  it('returns null for an empty group', () => {
+    expect(mannWhitneyU(['x', 'y'], [], [1, 2])).toBeNull();
+  });
+});
+
+describe('kruskalWallis', () => {
+  const groups = { A: [1, 2, 2, 3, 5], B: [3, 4, 4, 6, 7, 7], C: [5, 8, 8, 9] };
+
+  it('matches kruskal.test with ties', () => {
+    const result = kruskalWallis(groups)!;
+    expect(result.statistic).toBeCloseTo(8.8348676, 6);
+    expect(result.df).toBe(2);
+    expect(result.p).toBeCloseTo(0.0120652, 7);
+    expect(result.effectSize.value).toBeCloseTo(0.6310620, 7);
+    expect(result.groups.map(g => g.meanRank)).toEqual([3.8, expect.closeTo(50.5 / 6, 10), 12.625]);
+  });
+
+  it("runs Dunn's comparisons with the requested adjustment", () => {
+    const result = kruskalWallis(groups, 'bonferroni')!;
+    expect(result.pairwise.map(pair => [pair.group1, pair.group2])).toEqual([['A', 'B'], ['A', 'C'], ['B', 'C']]);
+    expect(result.pairwise.map(pair => pair.z)).toEqual([
+      expect.closeTo(-1.7140242, 6),
+      expect.closeTo(-2.9575534, 6),
+      expect.closeTo(-1.4656824, 6)
+    ]);
+    expect(result.pairwise.map(pair => pair.p)).toEqual([
+      expect.closeTo(0.0865243, 6),
+      expect.closeTo(0.0031009, 6),
+      expect.closeTo(0.1427348, 6)
+    ]);
+    expect(result.pairwise.map(pair => pair.pAdjusted)).toEqual([
+      expect.closeTo(0.2595729, 6),
+      expect.closeTo(0.0093027, 6),
+      expect.closeTo(0.4282045, 6)
+    ]);
+    expect(result.pairwise[1].sig).toBe('**');
+  });
+
+  it('matches the ?kruskal.test example without ties', () => {
+    const result = kruskalWallis({ x: [2.9, 3.0, 2.5, 2.6, 3.2], y: [3.8, 2.7, 4.0, 2.4], z: [2.8, 3.4, 3.7, 2.2, 2.0] })!;
+    expect(result.statistic).toBeCloseTo(0.77143, 5);
+    expect(result.p).toBeCloseTo(0.68, 2);
+  });
+});
+
+describe('calculateRankGroupStats', () => {
+  it('picks Mann-Whitney for two groups and Kruskal-Wallis for more, ignoring empty groups', () => {
+    expect(calculateRankGroupStats({ a: [1, 2, 3], b: [4, 5, 6], c: [] })!.test).toBe('Mann-Whitney U');
+    expect(calculateRankGroupStats({ a: [1, 2], b: [3, 4], c: [5, 6] })!.test).toBe('Kruskal-Wallis H');
+    expect(calculateRankGroupStats({ a: [1, 2], b: [] })).toBeNull();
+  });
+});
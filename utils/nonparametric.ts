@@ -0,0 +1,203 @@
+
+import { PAdjustMethod, PostHocMethod } from '../types';
+import { pFromChiSquare, pFromZ } from './distributions';
+import { adjustPValues } from './multipleComparisons';
+import { calculateQuantile, getSignificanceStars, orderGroupNames, rankWithTies } from './statistics';
+
+export interface RankGroupSummary {
+  name: string;
+  n: number;
+  median: number;
+  q1: number;
+  q3: number;
+  meanRank: number;
+}
+
+export interface RankComparison {
+  group1: string;
+  group2: string;
+  meanRankDiff: number;
+  z: number;
+  p: number;
+  pAdjusted: number;
+  sig: string;
+}
+
+export interface RankTestResult {
+  test: 'Mann-Whitney U' | 'Kruskal-Wallis H';
+  statistic: number;
+  z?: number;
+  df?: number;
+  p: number;
+  exact: boolean;
+  effectSize: { name: string; symbol: string; value: number };
+  groups: RankGroupSummary[];
+  adjustment: PAdjustMethod;
+  pairwise: RankComparison[];
+}
+
+/**
+ * Pools every group, ranks the combined sample and returns the sum of t^3 - t over tie runs
+ */
+const rankGroups = (groups: number[][]) => {
+  const pooled = groups.flat();
+  const ranks = rankWithTies(pooled);
+  const sorted = [...pooled].sort((a, b) => a - b);
+  let tieSum = 0;
+  let run = 1;
+  for (let i = 1; i <= sorted.length; i++) {
+    if (i < sorted.length && sorted[i] === sorted[i - 1]) run++;
+    else {
+      tieSum += run ** 3 - run;
+      run = 1;
+    }
+  }
+  let offset = 0;
+  const groupRanks = groups.map(g => {
+    const r = ranks.slice(offset, offset + g.length);
+    offset += g.length;
+    return r;
+  });
+  return { groupRanks, tieSum, n: pooled.length };
+};
+
+/**
+ * Null distribution counts of U for sample sizes m and n (coefficients of the Gaussian binomial)
+ */
+const exactUDistribution = (m: number, n: number): number[] => {
+  const size = m * n + 1;
+  let coefs = new Array<number>(size + n + m).fill(0);
+  coefs[0] = 1;
+  for (let i = 1; i <= m; i++) {
+    // Multiply by (1 - q^(n + i)) then divide by (1 - q^i)
+    const next = [...coefs];
+    for (let j = coefs.length - 1; j >= n + i; j--) next[j] -= coefs[j - n - i];
+    for (let j = i; j < next.length; j++) next[j] += next[j - i];
+    coefs = next;
+  }
+  return coefs.slice(0, size);
+};
+
+const summarizeGroup = (name: string, values: number[], ranks: number[]): RankGroupSummary => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    name,
+    n: values.length,
+    median: calculateQuantile(sorted, 0.5),
+    q1: calculateQuantile(sorted, 0.25),
+    q3: calculateQuantile(sorted, 0.75),
+    meanRank: ranks.reduce((a, b) => a + b, 0) / ranks.length
+  };
+};
+
+/**
+ * Mann-Whitney U test for two independent groups. Uses the exact null distribution for
+ * small samples without ties, otherwise the tie-corrected normal approximation with
+ * continuity correction. The effect size is the rank-biserial correlation.
+ */
+export const mannWhitneyU = (names: [string, string], x: number[], y: number[]): RankTestResult | null => {
+  const n1 = x.length;
+  const n2 = y.length;
+  if (n1 === 0 || n2 === 0) return null;
+
+  const { groupRanks, tieSum, n } = rankGroups([x, y]);
+  const r1 = groupRanks[0].reduce((a, b) => a + b, 0);
+  const u1 = r1 - (n1 * (n1 + 1)) / 2;
+  const u2 = n1 * n2 - u1;
+  const u = Math.min(u1, u2);
+
+  const mu = (n1 * n2) / 2;
+  const sigma = Math.sqrt(((n1 * n2) / 12) * ((n + 1) - tieSum / (n * (n - 1))));
+  const z = sigma > 0 ? (u1 - mu - Math.sign(u1 - mu) * 0.5) / sigma : 0;
+
+  let p: number;
+  const exact = tieSum === 0 && n < 50;
+  if (exact) {
+    const counts = exactUDistribution(n1, n2);
+    const total = counts.reduce((a, b) => a + b, 0);
+    const lowerTail = counts.slice(0, Math.floor(u) + 1).reduce((a, b) => a + b, 0) / total;
+    p = Math.min(1, 2 * lowerTail);
+  } else {
+    p = sigma > 0 ? pFromZ(z) : 1;
+  }
+
+  return {
+    test: 'Mann-Whitney U',
+    statistic: u,
+    z,
+    p,
+    exact,
+    // Positive values mean the first group tends to have larger values
+    effectSize: { name: 'Rank-biserial correlation', symbol: 'r', value: (u1 - u2) / (n1 * n2) },
+    groups: [summarizeGroup(names[0], x, groupRanks[0]), summarizeGroup(names[1], y, groupRanks[1])],
+    adjustment: 'none',
+    pairwise: []
+  };
+};
+
+/**
+ * Kruskal-Wallis H test (tie-corrected) with Dunn's post-hoc comparisons.
+ * The effect size is epsilon-squared, H / (n - 1).
+ */
+export const kruskalWallis = (groups: Record<string, number[]>, adjustment: PAdjustMethod = 'none', order: string[] = []): RankTestResult | null => {
+  const names = orderGroupNames(groups, order).filter(name => groups[name].length > 0);
+  const k = names.length;
+  if (k < 2) return null;
+
+  const { groupRanks, tieSum, n } = rankGroups(names.map(name => groups[name]));
+  const summaries = names.map((name, i) => summarizeGroup(name, groups[name], groupRanks[i]));
+
+  const tieCorrection = 1 - tieSum / (n ** 3 - n);
+  const hRaw = (12 / (n * (n + 1))) * summaries.reduce((acc, g, i) => acc + (groupRanks[i].reduce((a, b) => a + b, 0) ** 2) / g.n, 0) - 3 * (n + 1);
+  const h = tieCorrection > 0 ? hRaw / tieCorrection : 0;
+  const df = k - 1;
+
+  // Dunn's test on mean rank differences, using the tie-adjusted variance
+  const variance = (n * (n + 1)) / 12 - tieSum / (12 * (n - 1));
+  const pairwise: RankComparison[] = [];
+  for (let i = 0; i < k; i++) {
+    for (let j = i + 1; j < k; j++) {
+      const g1 = summaries[i];
+      const g2 = summaries[j];
+      const diff = g1.meanRank - g2.meanRank;
+      const z = diff / Math.sqrt(variance * (1 / g1.n + 1 / g2.n));
+      const p = isNaN(z) ? 1 : pFromZ(z);
+      pairwise.push({ group1: g1.name, group2: g2.name, meanRankDiff: diff, z, p, pAdjusted: p, sig: '' });
+    }
+  }
+  const adjusted = adjustPValues(pairwise.map(pair => pair.p), adjustment);
+  pairwise.forEach((pair, idx) => {
+    pair.pAdjusted = adjusted[idx];
+    pair.sig = getSignificanceStars(pair.pAdjusted);
+  });
+
+  return {
+    test: 'Kruskal-Wallis H',
+    statistic: h,
+    df,
+    p: pFromChiSquare(h, df),
+    exact: false,
+    effectSize: { name: 'Epsilon-squared', symbol: 'ε²', value: n > 1 ? h / (n - 1) : NaN },
+    groups: summaries,
+    adjustment,
+    pairwise
+  };
+};
+
+/**
+ * Runs Mann-Whitney U for two groups and Kruskal-Wallis H for three or more. Groups follow
+ * `order`, then natural sort order.
+ */
+export const calculateRankGroupStats = (groups: Record<string, number[]>, adjustment: PAdjustMethod = 'none', order: string[] = []): RankTestResult | null => {
+  const names = orderGroupNames(groups, order).filter(name => groups[name].length > 0);
+  if (names.length < 2) return null;
+  if (names.length === 2) return mannWhitneyU([names[0], names[1]], groups[names[0]], groups[names[1]]);
+  return kruskalWallis(groups, adjustment, order);
+};
+
+/**
+ * Maps the shared post-hoc selection onto an adjustment usable by Dunn's test,
+ * which has no studentized range procedure
+ */
+export const toDunnAdjustment = (method: PostHocMethod): PAdjustMethod =>
+  method === 'tukey' || method === 'gamesHowell' ? 'bonferroni' : method;
@@ -0,0 +1,60 @@
+
+import { describe, expect, it } from 'vitest';
+import { fitLinearRegression, fitLogisticRegression } from './regression';
+
+// Income in the hundreds of thousands next to a 0/1 dummy: well conditioned once each predictor
+// is on its own scale, and must not be reported as collinear
+let seed = 11;
+const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+const data = Array.from({ length: 400 }, () => {
+  const income = 1e5 + 9e5 * random();
+  const male = random() < 0.5 ? 1 : 0;
+  const risk = 1 / (1 + Math.exp(-(-2 + 3e-6 * income + male)));
+  return {
+    income,
+    incomeIn100k: income / 1e5,
+    male,
+    y: 10 + 2e-5 * income + 3 * male + (random() - 0.5),
+    event: random() < risk ? 'yes' : 'no'
+  };
+});
+
+describe('fitLinearRegression', () => {
+  it('fits predictors on very different scales', () => {
+    const fit = fitLinearRegression(data, 'y', ['income', 'male'], []);
+    expect(fit).not.toBeNull();
+    const [intercept, income, male] = fit!.coefficients.map(c => c.estimate);
+    expect(intercept).toBeCloseTo(10, 0);
+    expect(income / 2e-5).toBeCloseTo(1, 2);
+    expect(male).toBeCloseTo(3, 1);
+    expect(fit!.coefficients[1].vif).toBeLessThan(2);
+  });
+
+  it('gives the same model whatever the units of a predictor', () => {
+    const raw = fitLinearRegression(data, 'y', ['income', 'male'], [])!;
+    const scaled = fitLinearRegression(data, 'y', ['incomeIn100k', 'male'], [])!;
+    expect(raw.coefficients[1].estimate * 1e5).toBeCloseTo(scaled.coefficients[1].estimate, 8);
+    expect(raw.coefficients[2].estimate).toBeCloseTo(scaled.coefficients[2].estimate, 8);
+    expect(raw.coefficients[1].p).toBeCloseTo(scaled.coefficients[1].p, 8);
+  });
+});
+
+describe('fitLogisticRegression', () => {
+  it('gives the same model whatever the units of a predictor', () => {
+    const raw = fitLogisticRegression(data, 'event', 'yes', ['income', 'male'], []);
+    const scaled = fitLogisticRegression(data, 'event', 'yes', ['incomeIn100k', 'male'], []);
+    expect(raw).not.toBeNull();
+    expect(scaled).not.toBeNull();
+    expect(raw!.coefficients[1].estimate * 1e5).toBeCloseTo(scaled!.coefficients[1].estimate, 6);
+    expect(raw!.coefficients[2].oddsRatio).toBeCloseTo(scaled!.coefficients[2].oddsRatio, 6);
+    expect(raw!.termTests.map(t => t.lrChiSquare)).toEqual(scaled!.termTests.map(t => expect.closeTo(t.lrChiSquare, 6)));
+  });
+
+  it('leaves out term tests for a categorical predictor with a single observed level', () => {
+    const withSite = data.map(row => ({ ...row, site: 'North' }));
+    const fit = fitLogisticRegression(withSite, 'event', 'yes', ['income', 'site', 'male'], ['site'])!;
+    expect(fit.coefficients.map(c => c.term)).toEqual(['(Intercept)', 'income', 'male']);
+    expect(fit.termTests.map(t => t.variable)).toEqual(['income', 'male']);
+    expect(fit.termTests.every(t => t.df === 1 && !isNaN(t.waldP) && !isNaN(t.lrP))).toBe(true);
+  });
+});
@@ -0,0 +1,442 @@
+
+import { normalQuantile, pFromChiSquare, pFromF, pFromT, pFromZ, studentTQuantile } from './distributions';
+import { crossProduct, crossProductVector, invert, Matrix, multiplyVector } from './matrix';
+import { getCategoryLevels, isMissingValue, rankWithTies, toNumeric } from './statistics';
+
+export interface DesignColumn {
+  term: string;
+  variable: string;
+  level?: string;
+}
+
+export interface DesignMatrix {
+  x: Matrix;
+  y: number[];
+  columns: DesignColumn[];
+  referenceLevels: Record<string, string>;
+  excluded: number;
+}
+
+export interface RegressionCoefficient extends DesignColumn {
+  estimate: number;
+  se: number;
+  statistic: number;
+  p: number;
+  ciLower: number;
+  ciUpper: number;
+  vif?: number;
+}
+
+export interface LinearRegressionResult {
+  outcome: string;
+  predictors: string[];
+  n: number;
+  excluded: number;
+  coefficients: RegressionCoefficient[];
+  rSquared: number;
+  adjRSquared: number;
+  fStatistic: number;
+  dfModel: number;
+  dfResidual: number;
+  fP: number;
+  residualSE: number;
+  fitted: number[];
+  residuals: number[];
+  standardizedResiduals: number[];
+  referenceLevels: Record<string, string>;
+  confLevel: number;
+}
+
+export interface RegressionOptions {
+  referenceLevels?: Record<string, string>;
+  confLevel?: number;
+}
+
+/**
+ * Builds an intercept-first design matrix on complete cases. Categorical predictors are
+ * dummy coded against their reference level (the first level unless one is chosen).
+ * The outcome is converted with toOutcome; rows where it returns NaN are dropped.
+ */
+export const buildDesignMatrix = (
+  data: any[],
+  outcome: string,
+  predictors: string[],
+  categorical: string[],
+  referenceLevels: Record<string, string> = {},
+  toOutcome: (value: any) => number = toNumeric
+): DesignMatrix => {
+  const isCategorical = (v: string) => categorical.includes(v);
+  const complete = data.filter(row =>
+    !isNaN(toOutcome(row[outcome])) &&
+    predictors.every(v => (isCategorical(v) ? !isMissingValue(row[v]) : !isNaN(toNumeric(row[v]))))
+  );
+
+  const columns: DesignColumn[] = [{ term: '(Intercept)', variable: '(Intercept)' }];
+  const usedReferences: Record<string, string> = {};
+  predictors.forEach(v => {
+    if (!isCategorical(v)) {
+      columns.push({ term: v, variable: v });
+      return;
+    }
+    const levels = getCategoryLevels(complete.map(row => row[v]));
+    const reference = levels.includes(referenceLevels[v]) ? referenceLevels[v] : levels[0];
+    usedReferences[v] = reference;
+    levels.filter(level => level !== reference).forEach(level => columns.push({ term: `${v} [${level}]`, variable: v, level }));
+  });
+
+  const x = complete.map(row => columns.map(col => {
+    if (col.variable === '(Intercept)') return 1;
+    if (col.level !== undefined) return String(row[col.variable]) === col.level ? 1 : 0;
+    return toNumeric(row[col.variable]);
+  }));
+
+  return {
+    x,
+    y: complete.map(row => toOutcome(row[outcome])),
+    columns,
+    referenceLevels: usedReferences,
+    excluded: data.length - complete.length
+  };
+};
+
+/**
+ * Variance inflation factors for every non-intercept column, read off the diagonal of
+ * the inverted correlation matrix of the predictors
+ */
+export const calculateVIF = (x: Matrix): number[] => {
+  const p = (x[0]?.length ?? 1) - 1;
+  if (p < 2) return new Array<number>(p).fill(1);
+  const n = x.length;
+  const cols = Array.from({ length: p }, (_, j) => x.map(row => row[j + 1]));
+  const standardized = cols.map(col => {
+    const mean = col.reduce((a, b) => a + b, 0) / n;
+    const ss = Math.sqrt(col.reduce((acc, v) => acc + (v - mean) ** 2, 0));
+    return col.map(v => (ss > 0 ? (v - mean) / ss : 0));
+  });
+  const corr = standardized.map(a => standardized.map(b => a.reduce((acc, v, i) => acc + v * b[i], 0)));
+  const inv = invert(corr);
+  return inv ? inv.map((row, j) => row[j]) : new Array<number>(p).fill(Infinity);
+};
+
+/**
+ * Ordinary least squares regression with t-based coefficient inference, the overall F-test,
+ * VIFs and internally studentized residuals. Returns null when there are too few complete
+ * cases or the design matrix is singular (e.g. perfectly collinear predictors).
+ */
+export const fitLinearRegression = (
+  data: any[],
+  outcome: string,
+  predictors: string[],
+  categorical: string[],
+  options: RegressionOptions = {}
+): LinearRegressionResult | null => {
+  const { referenceLevels = {}, confLevel = 0.95 } = options;
+  const design = buildDesignMatrix(data, outcome, predictors, categorical, referenceLevels);
+  const { x, y, columns } = design;
+  const n = x.length;
+  const p = columns.length;
+  if (n <= p) return null;
+
+  const xtxInv = invert(crossProduct(x));
+  if (!xtxInv) return null;
+  const beta = multiplyVector(xtxInv, crossProductVector(x, y));
+
+  const fitted = x.map(row => row.reduce((acc, v, j) => acc + v * beta[j], 0));
+  const residuals = y.map((v, i) => v - fitted[i]);
+  const meanY = y.reduce((a, b) => a + b, 0) / n;
+  const sst = y.reduce((acc, v) => acc + (v - meanY) ** 2, 0);
+  const sse = residuals.reduce((acc, r) => acc + r * r, 0);
+  const dfModel = p - 1;
+  const dfResidual = n - p;
+  const mse = sse / dfResidual;
+  const rSquared = sst > 0 ? 1 - sse / sst : NaN;
+  const adjRSquared = 1 - (1 - rSquared) * (n - 1) / dfResidual;
+  const fStatistic = dfModel > 0 && mse > 0 ? ((sst - sse) / dfModel) / mse : NaN;
+
+  const tCrit = studentTQuantile(1 - (1 - confLevel) / 2, dfResidual);
+  const vifs = calculateVIF(x);
+  const coefficients = columns.map((col, j) => {
+    const se = Math.sqrt(mse * xtxInv[j][j]);
+    const statistic = beta[j] / se;
+    return {
+      ...col,
+      estimate: beta[j],
+      se,
+      statistic,
+      p: se > 0 ? pFromT(statistic, dfResidual) : NaN,
+      ciLower: beta[j] - tCrit * se,
+      ciUpper: beta[j] + tCrit * se,
+      vif: j === 0 ? undefined : vifs[j - 1]
+    };
+  });
+
+  // Internally studentized residuals use the leverage h_ii = x_i' (X'X)^-1 x_i
+  const standardizedResiduals = x.map((row, i) => {
+    const h = row.reduce((acc, v, j) => acc + v * row.reduce((s, w, k) => s + xtxInv[j][k] * w, 0), 0);
+    return residuals[i] / Math.sqrt(mse * Math.max(1e-12, 1 - h));
+  });
+
+  return {
+    outcome,
+    predictors,
+    n,
+    excluded: design.excluded,
+    coefficients,
+    rSquared,
+    adjRSquared,
+    fStatistic,
+    dfModel,
+    dfResidual,
+    fP: isNaN(fStatistic) ? NaN : pFromF(fStatistic, dfModel, dfResidual),
+    residualSE: Math.sqrt(mse),
+    fitted,
+    residuals,
+    standardizedResiduals,
+    referenceLevels: design.referenceLevels,
+    confLevel
+  };
+};
+
+export interface LogisticCoefficient extends RegressionCoefficient {
+  oddsRatio: number;
+  orLower: number;
+  orUpper: number;
+}
+
+export interface RegressionTermTest {
+  variable: string;
+  df: number;
+  waldChiSquare: number;
+  waldP: number;
+  lrChiSquare: number;
+  lrP: number;
+}
+
+export interface RocPoint {
+  threshold: number;
+  fpr: number;
+  tpr: number;
+}
+
+export interface LogisticRegressionResult {
+  outcome: string;
+  eventLevel: string;
+  predictors: string[];
+  n: number;
+  events: number;
+  excluded: number;
+  coefficients: LogisticCoefficient[];
+  termTests: RegressionTermTest[];
+  deviance: number;
+  nullDeviance: number;
+  lrChiSquare: number;
+  lrDf: number;
+  lrP: number;
+  aic: number;
+  nagelkerkeR2: number;
+  hosmerLemeshow: { statistic: number; df: number; p: number; groups: { observed: number; expected: number; n: number }[] };
+  roc: RocPoint[];
+  auc: { estimate: number; lower: number; upper: number };
+  converged: boolean;
+  iterations: number;
+  fitted: number[];
+  referenceLevels: Record<string, string>;
+  confLevel: number;
+}
+
+export interface LogisticOptions extends RegressionOptions {
+  hosmerLemeshowGroups?: number;
+}
+
+const MAX_IRLS_ITERATIONS = 50;
+
+/**
+ * Fits a logistic model by iteratively reweighted least squares. Fitted probabilities are
+ * clamped away from 0 and 1 so that quasi-separated data still returns (with converged = false).
+ */
+const fitIrls = (x: Matrix, y: number[]) => {
+  const p = x[0].length;
+  let beta = new Array<number>(p).fill(0);
+  let cov: Matrix | null = null;
+  let deviance = Infinity;
+  let converged = false;
+  let iterations = 0;
+
+  for (; iterations < MAX_IRLS_ITERATIONS && !converged; iterations++) {
+    const eta = x.map(row => row.reduce((acc, v, j) => acc + v * beta[j], 0));
+    const mu = eta.map(e => Math.min(1 - 1e-10, Math.max(1e-10, 1 / (1 + Math.exp(-e)))));
+    const w = mu.map(m => m * (1 - m));
+    const z = eta.map((e, i) => e + (y[i] - mu[i]) / w[i]);
+    cov = invert(crossProduct(x, w));
+    if (!cov) return null;
+    const next = multiplyVector(cov, crossProductVector(x, z, w));
+    const nextEta = x.map(row => row.reduce((acc, v, j) => acc + v * next[j], 0));
+    const nextDeviance = -2 * nextEta.reduce((acc, e, i) => {
+      const m = Math.min(1 - 1e-10, Math.max(1e-10, 1 / (1 + Math.exp(-e))));
+      return acc + y[i] * Math.log(m) + (1 - y[i]) * Math.log(1 - m);
+    }, 0);
+    converged = Math.abs(nextDeviance - deviance) < 1e-8 * (Math.abs(nextDeviance) + 0.1);
+    beta = next;
+    deviance = nextDeviance;
+  }
+
+  // Covariance at the final estimates
+  const mu = x.map(row => 1 / (1 + Math.exp(-row.reduce((acc, v, j) => acc + v * beta[j], 0))));
+  cov = invert(crossProduct(x, mu.map(m => Math.max(1e-10, m * (1 - m))))) ?? cov;
+  return cov ? { beta, cov, deviance, converged, iterations, fitted: mu } : null;
+};
+
+/**
+ * Hosmer-Lemeshow goodness-of-fit test over groups of (roughly) equal size ordered by fitted risk
+ */
+export const hosmerLemeshowTest = (y: number[], fitted: number[], groups = 10) => {
+  const order = fitted.map((f, i) => i).sort((a, b) => fitted[a] - fitted[b]);
+  const n = order.length;
+  const g = Math.min(groups, n);
+  const table = Array.from({ length: g }, (_, k) => {
+    const members = order.slice(Math.floor((k * n) / g), Math.floor(((k + 1) * n) / g));
+    return {
+      observed: members.reduce((acc, i) => acc + y[i], 0),
+      expected: members.reduce((acc, i) => acc + fitted[i], 0),
+      n: members.length
+    };
+  }).filter(group => group.n > 0);
+  const statistic = table.reduce((acc, { observed, expected, n: size }) => {
+    const pi = expected / size;
+    const denom = size * pi * (1 - pi);
+    return denom > 0 ? acc + (observed - expected) ** 2 / denom : acc;
+  }, 0);
+  const df = table.length - 2;
+  return { statistic, df, p: df > 0 ? pFromChiSquare(statistic, df) : NaN, groups: table };
+};
+
+/**
+ * ROC curve over every distinct fitted probability, with the AUC computed as the
+ * Mann-Whitney probability (ties count one half) and a Hanley-McNeil confidence interval
+ */
+export const calculateRoc = (y: number[], fitted: number[], confLevel = 0.95) => {
+  const positives = fitted.filter((_, i) => y[i] === 1);
+  const negatives = fitted.filter((_, i) => y[i] === 0);
+  const nPos = positives.length;
+  const nNeg = negatives.length;
+  // Sweep the threshold downwards, emitting one point per distinct fitted value
+  const order = fitted.map((_, i) => i).sort((a, b) => fitted[b] - fitted[a]);
+  const roc: RocPoint[] = [{ threshold: Infinity, fpr: 0, tpr: 0 }];
+  let tp = 0;
+  let fp = 0;
+  order.forEach((i, k) => {
+    if (y[i] === 1) tp++;
+    else fp++;
+    if (k === order.length - 1 || fitted[order[k + 1]] !== fitted[i]) {
+      roc.push({ threshold: fitted[i], fpr: nNeg > 0 ? fp / nNeg : 0, tpr: nPos > 0 ? tp / nPos : 0 });
+    }
+  });
+
+  const ranks = rankWithTies([...positives, ...negatives]);
+  const rankSum = ranks.slice(0, nPos).reduce((a, b) => a + b, 0);
+  const auc = nPos > 0 && nNeg > 0 ? (rankSum - (nPos * (nPos + 1)) / 2) / (nPos * nNeg) : NaN;
+  const q1 = auc / (2 - auc);
+  const q2 = (2 * auc * auc) / (1 + auc);
+  const se = Math.sqrt((auc * (1 - auc) + (nPos - 1) * (q1 - auc * auc) + (nNeg - 1) * (q2 - auc * auc)) / (nPos * nNeg));
+  const z = normalQuantile(1 - (1 - confLevel) / 2);
+  return { roc, auc: { estimate: auc, lower: Math.max(0, auc - z * se), upper: Math.min(1, auc + z * se) } };
+};
+
+/**
+ * Logistic regression of a binary outcome (eventLevel versus all other levels) fitted by IRLS.
+ * Reports adjusted odds ratios with Wald intervals, Wald and likelihood-ratio tests for every
+ * predictor (joint tests for dummy-coded categories), Hosmer-Lemeshow fit and the ROC curve.
+ */
+export const fitLogisticRegression = (
+  data: any[],
+  outcome: string,
+  eventLevel: string,
+  predictors: string[],
+  categorical: string[],
+  options: LogisticOptions = {}
+): LogisticRegressionResult | null => {
+  const { referenceLevels = {}, confLevel = 0.95, hosmerLemeshowGroups = 10 } = options;
+  const toOutcome = (value: any) => (isMissingValue(value) ? NaN : String(value) === eventLevel ? 1 : 0);
+  const design = buildDesignMatrix(data, outcome, predictors, categorical, referenceLevels, toOutcome);
+  const { x, y, columns } = design;
+  const n = x.length;
+  const events = y.reduce((a, b) => a + b, 0);
+  if (n <= columns.length || events === 0 || events === n) return null;
+
+  const fit = fitIrls(x, y);
+  if (!fit) return null;
+  const nullFit = fitIrls(x.map(() => [1]), y);
+  const nullDeviance = nullFit ? nullFit.deviance : NaN;
+
+  const z = normalQuantile(1 - (1 - confLevel) / 2);
+  const coefficients = columns.map((col, j) => {
+    const se = Math.sqrt(fit.cov[j][j]);
+    const estimate = fit.beta[j];
+    const statistic = estimate / se;
+    const ciLower = estimate - z * se;
+    const ciUpper = estimate + z * se;
+    return {
+      ...col,
+      estimate,
+      se,
+      statistic,
+      p: pFromZ(statistic),
+      ciLower,
+      ciUpper,
+      oddsRatio: Math.exp(estimate),
+      orLower: Math.exp(ciLower),
+      orUpper: Math.exp(ciUpper)
+    };
+  });
+
+  // A categorical predictor with a single observed level has no columns, so there is nothing to test
+  const termTests = predictors.filter(variable => columns.some(col => col.variable === variable)).map(variable => {
+    const idx = columns.map((col, j) => (col.variable === variable ? j : -1)).filter(j => j >= 0);
+    const b = idx.map(j => fit.beta[j]);
+    const vInv = invert(idx.map(j => idx.map(k => fit.cov[j][k])));
+    const waldChiSquare = vInv ? b.reduce((acc, bj, r) => acc + bj * vInv[r].reduce((s, v, c) => s + v * b[c], 0), 0) : NaN;
+    const reduced = fitIrls(x.map(row => row.filter((_, j) => !idx.includes(j))), y);
+    const lrChiSquare = reduced ? Math.max(0, reduced.deviance - fit.deviance) : NaN;
+    return {
+      variable,
+      df: idx.length,
+      waldChiSquare,
+      waldP: pFromChiSquare(waldChiSquare, idx.length),
+      lrChiSquare,
+      lrP: pFromChiSquare(lrChiSquare, idx.length)
+    };
+  });
+
+  const lrChiSquare = Math.max(0, nullDeviance - fit.deviance);
+  const lrDf = columns.length - 1;
+  // Nagelkerke rescales the Cox-Snell R-squared so that its maximum is 1
+  const coxSnell = 1 - Math.exp(-lrChiSquare / n);
+  const maxCoxSnell = 1 - Math.exp(-nullDeviance / n);
+  const { roc, auc } = calculateRoc(y, fit.fitted, confLevel);
+
+  return {
+    outcome,
+    eventLevel,
+    predictors,
+    n,
+    events,
+    excluded: design.excluded,
+    coefficients,
+    termTests,
+    deviance: fit.deviance,
+    nullDeviance,
+    lrChiSquare,
+    lrDf,
+    lrP: pFromChiSquare(lrChiSquare, lrDf),
+    aic: fit.deviance + 2 * columns.length,
+    nagelkerkeR2: maxCoxSnell > 0 ? coxSnell / maxCoxSnell : NaN,
+    hosmerLemeshow: hosmerLemeshowTest(y, fit.fitted, hosmerLemeshowGroups),
+    roc,
+    auc,
+    converged: fit.converged,
+    iterations: fit.iterations,
+    fitted: fit.fitted,
+    referenceLevels: design.referenceLevels,
+    confLevel
+  };
+};
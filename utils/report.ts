@@ -0,0 +1,285 @@
+
+import * as XLSX from 'xlsx';
+import { CorrelationResult, Dataset, VariableStats } from '../types';
+import { ContingencyTableResult } from './contingency';
+import { EpiEstimate, EpiMeasures } from './epi';
+import { RankTestResult } from './nonparametric';
+import { P_ADJUST_METHODS } from './multipleComparisons';
+import { CORRELATION_METHODS, GroupStatsResult, SUMMARY_PERCENTILES } from './statistics';
+import { describeVariable, isCategoricalType, VARIABLE_TYPES } from './variableTypes';
+import { escapeHtml, WORD_CELL_STYLE, WORD_HEADER_ROW_STYLE, WORD_NOTE_STYLE, WORD_TABLE_STYLE } from './clipboard';
+import { toCsv } from './download';
+import { createZip } from './zip';
+
+export type ReportCell = string | number;
+
+export interface ReportSection {
+  title: string;
+  /** The first row is the header */
+  rows: ReportCell[][];
+  note?: string;
+}
+
+export interface DescriptiveColumn {
+  label: string;
+  value: (stats: VariableStats, digits: number) => string;
+}
+
+/** Results of the Focused tab for the chosen X and Y; null fields were not computed */
+export interface FocusedResults {
+  xVar: string;
+  yVar: string;
+  confLevel: number;
+  contingency: ContingencyTableResult | null;
+  epi: EpiMeasures | null;
+  groupStats: GroupStatsResult | null;
+  rankStats: RankTestResult | null;
+  correlation: CorrelationResult | null;
+  summaryText: string;
+}
+
+export interface ReportInput {
+  dataset: Dataset;
+  variableNames: string[];
+  correlations: CorrelationResult[];
+  focused: FocusedResults | null;
+}
+
+/** Decimal places used for estimates throughout the report */
+const REPORT_DIGITS = 3;
+
+const fixed = (x: number | undefined, digits: number) => (x === undefined || isNaN(x) ? '' : x.toFixed(digits));
+
+/** Columns of the descriptive statistics table, one row per numerical variable */
+export const DESCRIPTIVE_COLUMNS: DescriptiveColumn[] = [
+  { label: 'n', value: s => String(s.count) },
+  { label: 'Missing', value: s => String(s.missing) },
+  { label: 'Mean', value: (s, d) => fixed(s.mean, d) },
+  { label: 'SD', value: (s, d) => fixed(s.std, d) },
+  { label: 'SE', value: (s, d) => fixed(s.se, d) },
+  { label: '95% CI', value: (s, d) => (s.ciLower === undefined || isNaN(s.ciLower) ? '' : `${fixed(s.ciLower, d)} to ${fixed(s.ciUpper, d)}`) },
+  { label: 'Median', value: (s, d) => fixed(s.median, d) },
+  { label: 'Q1', value: (s, d) => fixed(s.q1, d) },
+  { label: 'Q3', value: (s, d) => fixed(s.q3, d) },
+  { label: 'IQR', value: (s, d) => fixed(s.iqr, d) },
+  ...SUMMARY_PERCENTILES.map(pct => ({ label: `P${pct}`, value: (s: VariableStats, d: number) => fixed(s.percentiles?.[pct], d) })),
+  { label: '5% Trimmed Mean', value: (s, d) => fixed(s.trimmedMean, d) },
+  { label: 'Min', value: (s, d) => fixed(s.min, d) },
+  { label: 'Max', value: (s, d) => fixed(s.max, d) },
+  { label: 'Skewness', value: (s, d) => fixed(s.skewness, d) },
+  { label: 'Kurtosis', value: (s, d) => fixed(s.kurtosis, d) },
+  { label: 'CV (%)', value: s => fixed(s.cv === undefined ? undefined : s.cv * 100, 1) },
+  { label: 'Mode', value: (s, d) => (s.mode && s.mode.length > 0 ? `${s.mode.map(m => fixed(m, d)).join('; ')} (${s.modeCount}×)` : '') },
+  { label: 'Outliers (IQR)', value: s => String(s.outliersIqr ?? 0) },
+  { label: 'Outliers (|z| > 3)', value: s => String(s.outliersZ ?? 0) }
+];
+
+export const DESCRIPTIVES_NOTE = 'SD is the sample standard deviation and CI the t-based confidence interval of the mean. Quartiles and percentiles are interpolated linearly. Skewness is G1 and kurtosis is excess kurtosis (G2). Outliers lie more than 1.5 × IQR beyond the quartiles, or more than 3 SD from the mean.';
+
+const round = (x: number, digits = REPORT_DIGITS): ReportCell => (isNaN(x) ? '' : isFinite(x) ? Number(x.toFixed(digits)) : x > 0 ? '∞' : '-∞');
+const formatP = (p: number): ReportCell => (isNaN(p) ? '' : p < 0.001 ? '< .001' : Number(p.toFixed(3)));
+const estimateRow = (label: string, e: EpiEstimate): ReportCell[] => [label, round(e.estimate), round(e.lower), round(e.upper)];
+
+const buildOverviewSection = (dataset: Dataset, variableNames: string[]): ReportSection => ({
+  title: 'Dataset',
+  rows: [
+    ['Item', 'Value'],
+    ['File', dataset.filename],
+    ['Records', dataset.data.length],
+    ['Row filter', dataset.subset ? `${dataset.subset.description} (${dataset.data.length} of ${dataset.subset.totalRows} records)` : 'None'],
+    ['Variables', variableNames.length],
+    ['Generated', new Date().toISOString().slice(0, 16).replace('T', ' ')]
+  ]
+});
+
+const buildVariablesSection = (dataset: Dataset, variableNames: string[]): ReportSection => ({
+  title: 'Variables',
+  rows: [
+    ['Variable', 'Label', 'Type', 'n', 'Missing', 'Missing (%)', 'Unique', 'Summary'],
+    ...dataset.variables
+      .filter(v => variableNames.includes(v.name))
+      .map(v => [
+        v.name,
+        v.label ?? '',
+        VARIABLE_TYPES[v.type].label,
+        v.stats.count,
+        v.stats.missing,
+        dataset.data.length > 0 ? round((v.stats.missing / dataset.data.length) * 100, 1) : '',
+        v.stats.unique,
+        describeVariable(v)
+      ])
+  ]
+});
+
+const buildDescriptivesSection = (dataset: Dataset, variableNames: string[]): ReportSection | null => {
+  const numerical = dataset.variables.filter(v => v.type === 'numerical' && variableNames.includes(v.name));
+  if (numerical.length === 0) return null;
+  return {
+    title: 'Numerical Summary',
+    rows: [
+      ['Variable', ...DESCRIPTIVE_COLUMNS.map(c => c.label)],
+      ...numerical.map(v => [v.name, ...DESCRIPTIVE_COLUMNS.map(c => c.value(v.stats, REPORT_DIGITS))])
+    ],
+    note: DESCRIPTIVES_NOTE
+  };
+};
+
+const buildFrequenciesSection = (dataset: Dataset, variableNames: string[]): ReportSection | null => {
+  const categorical = dataset.variables.filter(v => isCategoricalType(v.type) && variableNames.includes(v.name));
+  if (categorical.length === 0) return null;
+  const rows: ReportCell[][] = [['Variable', 'Level', 'n', '% of records', '% of valid']];
+  categorical.forEach(v => {
+    const freqs = v.stats.frequencies ?? {};
+    const levels = v.levels ?? Object.keys(freqs).sort((a, b) => freqs[b] - freqs[a]);
+    const total = v.stats.count + v.stats.missing;
+    levels.forEach(level => {
+      const n = freqs[level] ?? 0;
+      rows.push([v.name, level, n, round((n / total) * 100, 1), v.stats.count > 0 ? round((n / v.stats.count) * 100, 1) : '']);
+    });
+    if (v.stats.missing > 0) rows.push([v.name, 'Missing', v.stats.missing, round((v.stats.missing / total) * 100, 1), '']);
+  });
+  return { title: 'Frequencies', rows };
+};
+
+const buildCorrelationSection = (correlations: CorrelationResult[], variableNames: string[]): ReportSection | null => {
+  const position = new Map(variableNames.map((name, i) => [name, i]));
+  const pairs = correlations.filter(c => position.has(c.x) && position.has(c.y) && position.get(c.x)! < position.get(c.y)!);
+  if (pairs.length === 0) return null;
+  const { method, adjustment, confLevel } = pairs[0];
+  const adjusted = adjustment !== 'none';
+  const ciLabel = `${Math.round(confLevel * 100)}% CI`;
+  let note = `Values are ${CORRELATION_METHODS[method].description}s (${CORRELATION_METHODS[method].symbol}) with pairwise-complete observations.`;
+  if (adjusted) note += ` Adjusted p-values use ${P_ADJUST_METHODS[adjustment].description}.`;
+  return {
+    title: 'Correlations',
+    rows: [
+      ['Variable 1', 'Variable 2', CORRELATION_METHODS[method].symbol, `${ciLabel} lower`, `${ciLabel} upper`, 'p', ...(adjusted ? ['p (adjusted)'] : []), 'n'],
+      ...pairs.map(c => [c.x, c.y, round(c.r), round(c.ciLower), round(c.ciUpper), formatP(c.p), ...(adjusted ? [formatP(c.pAdjusted)] : []), c.n])
+    ],
+    note
+  };
+};
+
+const buildFocusedSection = (focused: FocusedResults): ReportSection | null => {
+  const { xVar, yVar, contingency, epi, groupStats, rankStats, correlation } = focused;
+  const ciLabel = `${Math.round(focused.confLevel * 100)}% CI`;
+  const rows: ReportCell[][] = [];
+
+  if (contingency) {
+    const t = contingency;
+    rows.push([`${xVar} \\ ${yVar}`, ...t.colLevels, 'Total']);
+    t.rowLevels.forEach((level, i) => rows.push([level, ...t.counts[i], t.rowTotals[i]]));
+    rows.push(['Total', ...t.colTotals, t.total]);
+    rows.push([]);
+    rows.push(['Chi-square', round(t.chiSquare.statistic), `df = ${t.chiSquare.df}`, `p = ${formatP(t.chiSquare.p)}`]);
+    if (t.fisher) rows.push(["Fisher's exact test", '', '', `p = ${formatP(t.fisher.p)}`]);
+    rows.push(["Cramér's V", round(t.cramersV)]);
+    if (epi) {
+      rows.push([]);
+      rows.push(['Measure', 'Estimate', `${ciLabel} lower`, `${ciLabel} upper`]);
+      rows.push(estimateRow('Risk ratio', epi.riskRatio), estimateRow('Odds ratio', epi.oddsRatio), estimateRow('Risk difference', epi.riskDifference));
+    }
+  } else if (groupStats) {
+    rows.push([xVar, 'n', 'Mean', 'SD', 'SE', `${ciLabel} lower`, `${ciLabel} upper`]);
+    groupStats.groups.forEach(g => rows.push([g.name, g.n, round(g.mean), round(Math.sqrt(g.variance)), round(g.se), round(g.ciLower), round(g.ciUpper)]));
+    rows.push([]);
+    const statistic = groupStats.t !== undefined ? `t = ${fixed(groupStats.t, 2)}` : `F = ${fixed(groupStats.f, 2)}`;
+    const df = groupStats.t !== undefined ? `df = ${fixed(groupStats.dfW, groupStats.equalVariance ? 0 : 2)}` : `df = ${groupStats.dfB}, ${fixed(groupStats.dfW, groupStats.equalVariance ? 0 : 2)}`;
+    rows.push([groupStats.test, statistic, df, `p = ${formatP(groupStats.p)}`, `η² = ${fixed(groupStats.etaSq, 3)}`]);
+    if (groupStats.pairwise.length > 0) {
+      rows.push([]);
+      rows.push(['Comparison', 'Mean difference', `${ciLabel} lower`, `${ciLabel} upper`, 'p', 'p (adjusted)']);
+      groupStats.pairwise.forEach(pair => rows.push([`${pair.group1} vs ${pair.group2}`, round(pair.meanDiff), round(pair.ciLower), round(pair.ciUpper), formatP(pair.p), formatP(pair.pAdjusted)]));
+    }
+  } else if (rankStats) {
+    rows.push([xVar, 'n', 'Median', 'Q1', 'Q3', 'Mean rank']);
+    rankStats.groups.forEach(g => rows.push([g.name, g.n, round(g.median), round(g.q1), round(g.q3), round(g.meanRank, 2)]));
+    rows.push([]);
+    rows.push([rankStats.test, round(rankStats.statistic, 2), rankStats.df !== undefined ? `df = ${rankStats.df}` : `z = ${fixed(rankStats.z, 2)}`, `p = ${formatP(rankStats.p)}`, `${rankStats.effectSize.symbol} = ${fixed(rankStats.effectSize.value, 3)}`]);
+    if (rankStats.pairwise.length > 0) {
+      rows.push([]);
+      rows.push(['Comparison', 'Mean rank difference', 'z', 'p', 'p (adjusted)']);
+      rankStats.pairwise.forEach(pair => rows.push([`${pair.group1} vs ${pair.group2}`, round(pair.meanRankDiff, 2), round(pair.z, 2), formatP(pair.p), formatP(pair.pAdjusted)]));
+    }
+  } else if (correlation) {
+    const c = correlation;
+    rows.push(['Variable 1', 'Variable 2', CORRELATION_METHODS[c.method].symbol, `${ciLabel} lower`, `${ciLabel} upper`, 'p', 'n']);
+    rows.push([c.x, c.y, round(c.r), round(c.ciLower), round(c.ciUpper), formatP(c.p), c.n]);
+  } else {
+    return null;
+  }
+  return { title: 'Focused Analysis', rows, note: focused.summaryText || undefined };
+};
+
+/**
+ * Assembles the report: a dataset overview, every selected variable, the numerical summary,
+ * categorical frequencies, the correlation matrix and the current Focused tab results.
+ * Sections with nothing to show are left out.
+ */
+export const buildReportSections = ({ dataset, variableNames, correlations, focused }: ReportInput): ReportSection[] => {
+  const sections = [
+    buildOverviewSection(dataset, variableNames),
+    buildVariablesSection(dataset, variableNames),
+    buildDescriptivesSection(dataset, variableNames),
+    buildFrequenciesSection(dataset, variableNames),
+    buildCorrelationSection(correlations, variableNames),
+    focused && focused.xVar && focused.yVar ? buildFocusedSection(focused) : null
+  ];
+  return sections.filter((s): s is ReportSection => s !== null);
+};
+
+/** Spreadsheet cells keep numbers typed as numbers, including those formatted to fixed decimals */
+const toSheetCell = (cell: ReportCell): ReportCell => (typeof cell === 'string' && /^-?\d+(\.\d+)?$/.test(cell) ? Number(cell) : cell);
+
+/**
+ * Writes the report as an .xlsx workbook with one sheet per section
+ */
+export const buildReportWorkbook = (sections: ReportSection[]): ArrayBuffer => {
+  const workbook = XLSX.utils.book_new();
+  sections.forEach(section => {
+    const rows = [...section.rows.map(row => row.map(toSheetCell)), ...(section.note ? [[], [section.note]] : [])];
+    const sheet = XLSX.utils.aoa_to_sheet(rows);
+    const widths = section.rows[0].map((_, j) => Math.max(...section.rows.map(row => String(row[j] ?? '').length)));
+    sheet['!cols'] = widths.map(w => ({ wch: Math.min(Math.max(w + 2, 8), 60) }));
+    XLSX.utils.book_append_sheet(workbook, sheet, section.title);
+  });
+  return XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
+};
+
+/**
+ * Writes each section to its own CSV file, numbered in report order, inside a ZIP archive
+ */
+export const buildReportCsvZip = (sections: ReportSection[]): ArrayBuffer =>
+  createZip(sections.map((section, i) => ({
+    name: `${String(i + 1).padStart(2, '0')}_${section.title.toLowerCase().replace(/[^a-z0-9]+/g, '_')}.csv`,
+    content: toCsv([...section.rows, ...(section.note ? [[], [section.note]] : [])])
+  })));
+
+/**
+ * Writes the report as a standalone HTML document that Word opens with editable tables
+ */
+export const buildReportHtml = (sections: ReportSection[], title: string): string => {
+  let body = `<h1 style="font-family: sans-serif; font-size: 16pt;">${escapeHtml(title)}</h1>`;
+  sections.forEach(section => {
+    body += `<h2 style="font-family: sans-serif; font-size: 12pt; margin-top: 24px;">${escapeHtml(section.title)}</h2>`;
+    body += `<table border="1" style="${WORD_TABLE_STYLE}">`;
+    section.rows.forEach((row, i) => {
+      if (row.length === 0) return;
+      const tag = i === 0 ? 'th' : 'td';
+      body += i === 0 ? `<tr style="${WORD_HEADER_ROW_STYLE}">` : '<tr>';
+      row.forEach((cell, j) => {
+        body += `<${tag} style="${WORD_CELL_STYLE}${j > 0 ? ' text-align: center;' : ''}">${escapeHtml(String(cell))}</${tag}>`;
+      });
+      body += `</tr>`;
+    });
+    body += `</table>`;
+    if (section.note) body += `<p style="${WORD_NOTE_STYLE}"><i>Note.</i> ${escapeHtml(section.note)}</p>`;
+  });
+  return `<!DOCTYPE html>
+<html xmlns:o="urn:schemas-microsoft-com:office:office" xmlns:w="urn:schemas-microsoft-com:office:word">
+<head><meta charset="utf-8"><title>${escapeHtml(title)}</title>
+<!--[if gte mso 9]><xml><w:WordDocument><w:View>Print</w:View></w:WordDocument></xml><![endif]-->
+</head>
+<body>${body}</body>
+</html>`;
+};
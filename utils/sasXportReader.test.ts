@@ -0,0 +1,96 @@
+
+import { describe, expect, it } from 'vitest';
+import { readSasXport } from './sasXportReader';
+
+const RECORD = 80;
+const SPACE = 0x20;
+
+/** Big-endian byte writer for hand-built transport files; text is ASCII, padded with spaces */
+const createWriter = () => {
+  const out: number[] = [];
+  const writer = {
+    text: (s: string, length = s.length) => {
+      for (let i = 0; i < length; i++) out.push(i < s.length ? s.charCodeAt(i) : SPACE);
+      return writer;
+    },
+    int16: (v: number) => {
+      out.push((v >> 8) & 0xff, v & 0xff);
+      return writer;
+    },
+    int32: (v: number) => {
+      out.push((v >>> 24) & 0xff, (v >> 16) & 0xff, (v >> 8) & 0xff, v & 0xff);
+      return writer;
+    },
+    raw: (bytes: number[]) => {
+      out.push(...bytes);
+      return writer;
+    },
+    zeros: (n: number) => writer.raw(new Array(n).fill(0)),
+    /** Pads the current record with spaces */
+    endRecord: () => writer.text('', (RECORD - (out.length % RECORD)) % RECORD),
+    buffer: () => new Uint8Array(out).buffer
+  };
+  return writer;
+};
+
+const header = (name: string, numbers = '') => `HEADER RECORD*******${name.padEnd(21)}!!!!!!!${numbers}`;
+
+// IBM hexadecimal floats: a sign bit, a base-16 exponent biased by 64 and a 56-bit fraction
+const IBM = {
+  '1.5': [0x41, 0x18, 0, 0, 0, 0, 0, 0], // 0x18/256 × 16
+  '-118.625': [0xc2, 0x76, 0xa0, 0, 0, 0, 0, 0], // −(0x76A0/65536) × 16²
+  '366': [0x43, 0x16, 0xe0, 0, 0, 0, 0, 0], // (0x16E0/65536) × 16³
+  zero: [0, 0, 0, 0, 0, 0, 0, 0],
+  missing: [0x2e, 0, 0, 0, 0, 0, 0, 0], // .
+  missingA: [0x41, 0, 0, 0, 0, 0, 0, 0] // .A
+};
+
+const variables = [
+  { name: 'X', label: 'Measurement', format: '', numeric: true, length: 8 },
+  { name: 'D', label: 'Visit date', format: 'DATE', numeric: true, length: 8 },
+  { name: 'S', label: '', format: '', numeric: false, length: 3 }
+];
+
+const buildXpt = (): ArrayBuffer => {
+  const w = createWriter();
+  w.text(header('LIBRARY HEADER RECORD', '000000000000000000000000000000  '), RECORD);
+  w.text('SAS     SAS     SASLIB  9.4     X64_10PR', RECORD).text('01JAN24:12:00:00', RECORD);
+  w.text(header('MEMBER  HEADER RECORD', '000000000000000001600000000140  '), RECORD);
+  w.text(header('DSCRPTR HEADER RECORD', '000000000000000000000000000000  '), RECORD);
+  w.text('SAS     TRIAL   SASDATA 9.4     X64_10PR', RECORD).text('01JAN24:12:00:00', RECORD);
+  w.text(header('NAMESTR HEADER RECORD', `000000${String(variables.length).padStart(4, '0')}00000000000000000000  `), RECORD);
+  let position = 0;
+  variables.forEach(v => {
+    w.int16(v.numeric ? 1 : 2).int16(0).int16(v.length).int16(0);
+    w.text(v.name, 8).text(v.label, 40).text(v.format, 8);
+    w.int16(0).int16(0).int16(0).int16(0).text('', 8).int16(0).int16(0);
+    w.int32(position).zeros(52);
+    position += v.length;
+  });
+  w.endRecord();
+  w.text(header('OBS     HEADER RECORD', '000000000000000000000000000000  '), RECORD);
+  // Three 19-byte observations fill 57 bytes; the other 23 bytes of the record are blank padding
+  w.raw(IBM['1.5']).raw(IBM.zero).text('abc', 3);
+  w.raw(IBM['-118.625']).raw(IBM['366']).text('d', 3);
+  w.raw(IBM.missingA).raw(IBM.missing).text('', 3);
+  w.endRecord();
+  return w.buffer();
+};
+
+describe('readSasXport', () => {
+  it('reads IBM floats, dates, missing values and text', () => {
+    const { rows, metadata } = readSasXport(buildXpt());
+    expect(rows).toEqual([
+      { X: 1.5, D: '1960-01-01', S: 'abc' },
+      { X: -118.625, D: '1961-01-01', S: 'd' },
+      { X: null, D: null, S: null }
+    ]);
+    expect(metadata).toEqual({ X: { label: 'Measurement' }, D: { label: 'Visit date' }, S: {} });
+  });
+
+  it('rejects other files and version 8 transport files', () => {
+    const file = (text: string) => createWriter().text(text, 3 * RECORD).buffer();
+    expect(() => readSasXport(file('name,age'))).toThrow('Not a SAS transport (XPORT) file.');
+    expect(() => readSasXport(file(header('LIBV8   HEADER RECORD')))).toThrow('SAS XPORT version 8 files are not supported');
+  });
+});
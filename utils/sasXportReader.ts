@@ -0,0 +1,117 @@
+
+import { StatFileResult, VariableMetadata } from '../types';
+import { createBinaryReader } from './binaryReader';
+import { EPOCH_1960_MS, formatIsoDateTime } from './dates';
+
+interface XptVariable {
+  name: string;
+  label: string;
+  format: string;
+  numeric: boolean;
+  length: number;
+  position: number;
+}
+
+const RECORD = 80;
+const DAY_MS = 86400000;
+const DATE_FORMATS = /^(DATE|DDMMYY|MMDDYY|YYMMDD|E8601DA|IS8601DA|B8601DA|WORDDATE|WEEKDATE|MONYY|YYMON|NLDATE|JULIAN|MINGUO|YEAR)/;
+const DATETIME_FORMATS = /^(DATETIME|E8601DT|IS8601DT|B8601DT|NLDATM)/;
+
+/**
+ * Converts an IBM System/370 hexadecimal float (2-8 bytes, big-endian) to a double. SAS missing
+ * values (., ._ and .A-.Z) are a marker byte followed by zeros and become null.
+ */
+const ibmToDouble = (bytes: Uint8Array): number | null => {
+  const rest = bytes.subarray(1);
+  if (rest.every(b => b === 0)) {
+    const first = bytes[0];
+    if (first === 0x2e || first === 0x5f || (first >= 0x41 && first <= 0x5a)) return null;
+    if (first === 0 || first === 0x80) return 0;
+  }
+  const sign = bytes[0] & 0x80 ? -1 : 1;
+  const exponent = (bytes[0] & 0x7f) - 64;
+  let mantissa = 0;
+  for (let i = 1; i < 8; i++) mantissa = mantissa * 256 + (i < bytes.length ? bytes[i] : 0);
+  return sign * (mantissa / Math.pow(2, 56)) * Math.pow(16, exponent);
+};
+
+/**
+ * Reads the first dataset in a SAS transport file (XPORT version 5, the format required for FDA
+ * submissions). Variable labels are kept; XPORT files carry format names but not the format
+ * catalogue, so value labels are not available.
+ */
+export const readSasXport = (buffer: ArrayBuffer): StatFileResult => {
+  const r = createBinaryReader(buffer, false);
+  const ascii = new TextDecoder('windows-1252');
+  const record = () => ascii.decode(r.bytes(RECORD));
+
+  const libraryHeader = record();
+  if (libraryHeader.startsWith('HEADER RECORD*******LIBV8')) throw new Error('SAS XPORT version 8 files are not supported; export with the V5 transport engine.');
+  if (!libraryHeader.startsWith('HEADER RECORD*******LIBRARY HEADER RECORD')) throw new Error('Not a SAS transport (XPORT) file.');
+  r.skip(2 * RECORD);
+
+  const memberHeader = record();
+  if (!memberHeader.startsWith('HEADER RECORD*******MEMBER  HEADER RECORD')) throw new Error('Malformed SAS transport file: missing member header.');
+  const namestrLength = parseInt(memberHeader.slice(74, 78), 10) || 140;
+  r.skip(RECORD); // descriptor header
+  r.skip(2 * RECORD); // dataset name, label and dates
+
+  const namestrHeader = record();
+  if (!namestrHeader.startsWith('HEADER RECORD*******NAMESTR HEADER RECORD')) throw new Error('Malformed SAS transport file: missing variable descriptors.');
+  const nvar = parseInt(namestrHeader.slice(54, 58), 10);
+
+  const variables: XptVariable[] = [];
+  const namestrStart = r.position();
+  for (let i = 0; i < nvar; i++) {
+    r.seek(namestrStart + i * namestrLength);
+    const type = r.int16();
+    r.skip(2);
+    const length = r.int16();
+    r.skip(2);
+    const name = ascii.decode(r.bytes(8)).trim();
+    const label = ascii.decode(r.bytes(40)).trim();
+    const format = ascii.decode(r.bytes(8)).trim().toUpperCase();
+    r.skip(8 + 8 + 4);
+    const position = r.int32();
+    variables.push({ name, label, format, numeric: type === 1, length, position });
+  }
+  const namestrBytes = nvar * namestrLength;
+  r.seek(namestrStart + Math.ceil(namestrBytes / RECORD) * RECORD);
+
+  if (!record().startsWith('HEADER RECORD*******OBS     HEADER RECORD')) throw new Error('Malformed SAS transport file: missing observations.');
+  const obsLength = variables.reduce((acc, v) => Math.max(acc, v.position + v.length), 0);
+  const dataStart = r.position();
+  // A second member would start with another header; only the first dataset is read
+  const text = ascii.decode(r.bytes(r.remaining()));
+  const nextMember = text.indexOf('HEADER RECORD*******MEMBER  HEADER RECORD');
+  const dataEnd = dataStart + (nextMember === -1 ? text.length : nextMember);
+
+  const rows: StatFileResult['rows'] = [];
+  r.seek(dataStart);
+  while (obsLength > 0 && dataEnd - r.position() >= obsLength) {
+    const obs = r.bytes(obsLength);
+    // The last record is padded with blanks, which must not be read as an observation
+    if (dataEnd - r.position() < RECORD && obs.every(b => b === 0x20)) break;
+    const row: StatFileResult['rows'][number] = {};
+    variables.forEach(v => {
+      const bytes = obs.subarray(v.position, v.position + v.length);
+      if (!v.numeric) {
+        const value = ascii.decode(bytes).replace(/[\s\0]+$/, '');
+        row[v.name] = value === '' ? null : value;
+        return;
+      }
+      const value = ibmToDouble(bytes);
+      if (value === null) row[v.name] = null;
+      else if (DATETIME_FORMATS.test(v.format)) row[v.name] = formatIsoDateTime(EPOCH_1960_MS + value * 1000, true);
+      else if (DATE_FORMATS.test(v.format)) row[v.name] = formatIsoDateTime(EPOCH_1960_MS + value * DAY_MS);
+      else row[v.name] = value;
+    });
+    rows.push(row);
+  }
+
+  const metadata: Record<string, VariableMetadata> = {};
+  variables.forEach(v => {
+    metadata[v.name] = v.label ? { label: v.label } : {};
+  });
+  return { rows, metadata };
+};
@@ -0,0 +1,106 @@
+
+import { studentTQuantile } from './distributions';
+import { calculatePValue } from './statistics';
+
+export interface CurvePoint {
+  x: number;
+  y: number;
+  /** Confidence band for the fitted mean, when available */
+  band?: [number, number];
+}
+
+export interface SimpleLinearFit {
+  n: number;
+  intercept: number;
+  slope: number;
+  r: number;
+  p: number;
+  curve: CurvePoint[];
+}
+
+/** Number of points along the x range at which fitted curves are evaluated */
+const GRID_SIZE = 60;
+
+const grid = (x: number[]): number[] => {
+  let min = Infinity;
+  let max = -Infinity;
+  x.forEach(v => {
+    if (v < min) min = v;
+    if (v > max) max = v;
+  });
+  if (min === max) return [min];
+  return Array.from({ length: GRID_SIZE }, (_, i) => min + ((max - min) * i) / (GRID_SIZE - 1));
+};
+
+/**
+ * Ordinary least squares line of y on x with a confidence band for the mean response.
+ * Returns null with fewer than three points or no spread in x.
+ */
+export const fitSimpleLinear = (x: number[], y: number[], confLevel = 0.95): SimpleLinearFit | null => {
+  const n = x.length;
+  if (n < 3) return null;
+  const meanX = x.reduce((a, b) => a + b, 0) / n;
+  const meanY = y.reduce((a, b) => a + b, 0) / n;
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+  for (let i = 0; i < n; i++) {
+    sxx += (x[i] - meanX) ** 2;
+    sxy += (x[i] - meanX) * (y[i] - meanY);
+    syy += (y[i] - meanY) ** 2;
+  }
+  if (sxx === 0) return null;
+
+  const slope = sxy / sxx;
+  const intercept = meanY - slope * meanX;
+  const sse = Math.max(syy - slope * sxy, 0);
+  const s = Math.sqrt(sse / (n - 2));
+  const tCrit = studentTQuantile(1 - (1 - confLevel) / 2, n - 2);
+  const r = syy > 0 ? sxy / Math.sqrt(sxx * syy) : 0;
+
+  const curve = grid(x).map(gx => {
+    const fitted = intercept + slope * gx;
+    const half = tCrit * s * Math.sqrt(1 / n + (gx - meanX) ** 2 / sxx);
+    return { x: gx, y: fitted, band: [fitted - half, fitted + half] as [number, number] };
+  });
+  return { n, intercept, slope, r, p: calculatePValue(r, n), curve };
+};
+
+/**
+ * LOESS smoother: at each grid point, a straight line fitted by weighted least squares to the
+ * nearest span × n points with tricube weights (Cleveland, 1979, without robustness iterations).
+ */
+export const loessSmooth = (x: number[], y: number[], span = 0.75): CurvePoint[] => {
+  const n = x.length;
+  if (n < 4) return [];
+  const q = Math.min(n, Math.max(3, Math.ceil(span * n)));
+  const distances = new Float64Array(n);
+
+  return grid(x).flatMap(gx => {
+    for (let i = 0; i < n; i++) distances[i] = Math.abs(x[i] - gx);
+    const radius = Float64Array.from(distances).sort()[q - 1] * 1.0000001;
+    if (radius === 0) return [];
+
+    let sw = 0;
+    let swx = 0;
+    let swy = 0;
+    let swxx = 0;
+    let swxy = 0;
+    for (let i = 0; i < n; i++) {
+      const u = distances[i] / radius;
+      if (u >= 1) continue;
+      const w = (1 - u ** 3) ** 3;
+      sw += w;
+      swx += w * x[i];
+      swy += w * y[i];
+      swxx += w * x[i] * x[i];
+      swxy += w * x[i] * y[i];
+    }
+    if (sw === 0) return [];
+    const mx = swx / sw;
+    const varX = swxx / sw - mx * mx;
+    // Falls back to the weighted mean where the neighbourhood has no spread in x
+    const slope = varX > 1e-12 * (mx * mx + 1) ? (swxy / sw - mx * (swy / sw)) / varX : 0;
+    return [{ x: gx, y: swy / sw + slope * (gx - mx) }];
+  });
+};
@@ -0,0 +1,132 @@
+
+import { describe, expect, it } from 'vitest';
+import { readSpssSav } from './spssReader';
+
+const SYSMIS = -Number.MAX_VALUE;
+const SPACE = 0x20;
+
+/** Little-endian byte writer for hand-built .sav files; text is UTF-8, padded with spaces */
+const createWriter = () => {
+  const out: number[] = [];
+  const scratch = new DataView(new ArrayBuffer(8));
+  const writer = {
+    int32: (v: number) => {
+      scratch.setInt32(0, v, true);
+      out.push(...new Uint8Array(scratch.buffer, 0, 4));
+      return writer;
+    },
+    float64: (v: number) => {
+      scratch.setFloat64(0, v, true);
+      out.push(...new Uint8Array(scratch.buffer, 0, 8));
+      return writer;
+    },
+    text: (s: string, length = new TextEncoder().encode(s).length) => {
+      const encoded = new TextEncoder().encode(s);
+      for (let i = 0; i < length; i++) out.push(i < encoded.length ? encoded[i] : SPACE);
+      return writer;
+    },
+    raw: (bytes: number[]) => {
+      out.push(...bytes);
+      return writer;
+    },
+    buffer: () => new Uint8Array(out).buffer
+  };
+  return writer;
+};
+
+type Slot = number | string;
+
+// Seconds from the 1582-10-14 SPSS epoch to 2000-01-01
+const Y2K = (Date.UTC(2000, 0, 1) - Date.UTC(1582, 9, 14)) / 1000;
+
+// Slots per case: age, sex, visit, name (A8), city (A10, two slots)
+const cases: Slot[][] = [
+  [34.5, 1, Y2K, 'Ann', 'Amsterdam'],
+  [98, 2, Y2K + 86400, 'Bob', 'Rotterdam'],
+  [SYSMIS, 9, SYSMIS, 'Zoë', '']
+];
+
+const format = (type: number, width: number, decimals = 0) => (type << 16) | (width << 8) | decimals;
+
+const buildSav = (compression: 0 | 1): ArrayBuffer => {
+  const w = createWriter();
+  w.text('$FL2').text('@(#) SPSS DATA FILE test', 60);
+  w.int32(2).int32(6).int32(compression).int32(0).int32(cases.length).float64(100);
+  w.text('01 Jan 24', 9).text('12:00:00', 8).text('', 64).raw([0, 0, 0]);
+
+  // age: F8.1 with a label and the user-missing range 97 thru 99
+  w.int32(2).int32(0).int32(1).int32(-2).int32(format(5, 8, 1)).int32(format(5, 8, 1)).text('AGE', 8);
+  w.int32(12).text('Age in years');
+  w.float64(97).float64(99);
+  // sex: F1 with the discrete missing value 9
+  w.int32(2).int32(0).int32(0).int32(1).int32(format(5, 1)).int32(format(5, 1)).text('SEX', 8).float64(9);
+  // visit: DATE11
+  w.int32(2).int32(0).int32(0).int32(0).int32(format(20, 11)).int32(format(20, 11)).text('VISIT', 8);
+  // name: A8
+  w.int32(2).int32(8).int32(0).int32(0).int32(format(1, 8)).int32(format(1, 8)).text('NAME', 8);
+  // city: A10 takes two slots, the second a continuation record
+  w.int32(2).int32(10).int32(0).int32(0).int32(format(1, 10)).int32(format(1, 10)).text('CITY', 8);
+  w.int32(2).int32(-1).int32(0).int32(0).int32(0).int32(0).text('', 8);
+
+  // Value labels 1 = Male, 2 = Female for the variable in slot 2 (1-based): sex. Each label is
+  // padded so that its length byte and text fill a multiple of 8 bytes.
+  w.int32(3).int32(2);
+  w.float64(1).raw([4]).text('Male', 7);
+  w.float64(2).raw([6]).text('Female', 7);
+  w.int32(4).int32(1).int32(2);
+
+  // Character encoding
+  w.int32(7).int32(20).int32(1).int32(5).text('UTF-8');
+  w.int32(999).int32(0);
+
+  if (compression === 0) {
+    cases.forEach(([age, sex, visit, name, city]) => {
+      w.float64(age as number).float64(sex as number).float64(visit as number).text(name as string, 8).text(city as string, 16);
+    });
+    return w.buffer();
+  }
+
+  // Bytecode compression: blocks of 8 codes, each followed by the 8-byte values of its 253 codes
+  const units: { code: number; data?: number[] }[] = [];
+  const numberBytes = (v: number) => Array.from(new Uint8Array(new Float64Array([v]).buffer));
+  const textBytes = (s: string, length: number) => Array.from(new Uint8Array(createWriter().text(s, length).buffer()));
+  cases.forEach(([age, sex, visit, name, city]) => {
+    [age, sex, visit].forEach(v => {
+      const n = v as number;
+      if (n === SYSMIS) units.push({ code: 255 });
+      else if (Number.isInteger(n) && n > -100 && n < 152) units.push({ code: n + 100 });
+      else units.push({ code: 253, data: numberBytes(n) });
+    });
+    const text = [...textBytes(name as string, 8), ...textBytes(city as string, 16)];
+    for (let i = 0; i < text.length; i += 8) {
+      const chunk = text.slice(i, i + 8);
+      units.push(chunk.every(b => b === SPACE) ? { code: 254 } : { code: 253, data: chunk });
+    }
+  });
+  units.push({ code: 252 });
+  for (let i = 0; i < units.length; i += 8) {
+    const block = units.slice(i, i + 8);
+    w.raw(Array.from({ length: 8 }, (_, j) => block[j]?.code ?? 0));
+    block.forEach(unit => unit.data && w.raw(unit.data));
+  }
+  return w.buffer();
+};
+
+describe('readSpssSav', () => {
+  it.each([['uncompressed', 0], ['bytecode-compressed', 1]] as const)('reads an %s file', (_, compression) => {
+    const { rows, metadata } = readSpssSav(buildSav(compression));
+    expect(rows).toEqual([
+      { AGE: 34.5, SEX: 1, VISIT: '2000-01-01', NAME: 'Ann', CITY: 'Amsterdam' },
+      { AGE: 98, SEX: 2, VISIT: '2000-01-02', NAME: 'Bob', CITY: 'Rotterdam' },
+      { AGE: null, SEX: 9, VISIT: null, NAME: 'Zoë', CITY: null }
+    ]);
+    expect(metadata.AGE).toEqual({ label: 'Age in years', missingRange: [97, 99] });
+    expect(metadata.SEX).toEqual({ valueLabels: { 1: 'Male', 2: 'Female' }, missingCodes: [9] });
+    expect(metadata.CITY).toEqual({});
+  });
+
+  it('rejects other files and ZLIB-compressed .zsav files', () => {
+    expect(() => readSpssSav(new TextEncoder().encode('name,age\n').buffer)).toThrow('Not an SPSS system file.');
+    expect(() => readSpssSav(new TextEncoder().encode('$FL3').buffer)).toThrow('ZLIB-compressed SPSS files');
+  });
+});
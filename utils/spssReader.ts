@@ -0,0 +1,367 @@
+
+import { StatFileResult, VariableMetadata } from '../types';
+import { BinaryReader, createBinaryReader, getTextDecoder } from './binaryReader';
+import { EPOCH_1582_MS, formatIsoDateTime } from './dates';
+
+interface SavVariable {
+  shortName: Uint8Array;
+  name: string;
+  /** 0 for numeric, otherwise the string width in bytes */
+  width: number;
+  /** Index of the variable's first 8-byte slot in each case */
+  slot: number;
+  slots: number;
+  printType: number;
+  label?: Uint8Array;
+  missingNumbers: number[];
+  missingStrings: Uint8Array[];
+  missingRange?: [number, number];
+  /** Numeric codes or raw string bytes, decoded once the file encoding is known */
+  valueLabels: { value: number | Uint8Array; label: Uint8Array }[];
+  /** Very long strings (> 255 bytes) are stored as several segment variables */
+  segments: SavVariable[];
+}
+
+const SYSMIS = -Number.MAX_VALUE;
+const COMPRESSION_BIAS = 100;
+const DATE_FORMATS = new Set([20, 23, 24, 28, 29, 30, 38, 39]);
+const DATETIME_FORMATS = new Set([22, 41]);
+const CHARACTER_CODES: Record<number, string> = {
+  1250: 'windows-1250', 1251: 'windows-1251', 1252: 'windows-1252', 1253: 'windows-1253', 1254: 'windows-1254',
+  1255: 'windows-1255', 1256: 'windows-1256', 1257: 'windows-1257', 1258: 'windows-1258',
+  28591: 'iso-8859-1', 28592: 'iso-8859-2', 20127: 'windows-1252', 65001: 'utf-8',
+  932: 'shift_jis', 936: 'gbk', 949: 'euc-kr', 950: 'big5'
+};
+
+const trimEnd = (text: string) => text.replace(/[\s\0]+$/, '');
+
+/**
+ * Numeric code to the label key used throughout the app: the number's shortest string form
+ */
+const numberKey = (value: number) => String(value);
+
+const readVariableRecord = (r: BinaryReader, slot: number): SavVariable | 'continuation' => {
+  const type = r.int32();
+  const hasLabel = r.int32();
+  const nMissing = r.int32();
+  const printFormat = r.int32();
+  r.int32(); // write format
+  const shortName = r.bytes(8);
+  let label: Uint8Array | undefined;
+  if (hasLabel) {
+    const length = r.int32();
+    label = r.bytes(length);
+    r.skip((4 - (length % 4)) % 4);
+  }
+  const missingNumbers: number[] = [];
+  const missingStrings: Uint8Array[] = [];
+  let missingRange: [number, number] | undefined;
+  if (nMissing !== 0) {
+    if (type === 0) {
+      if (nMissing < 0) {
+        const low = r.float64();
+        const high = r.float64();
+        missingRange = [low <= SYSMIS ? -Infinity : low, high >= Number.MAX_VALUE ? Infinity : high];
+      }
+      const discrete = nMissing < 0 ? (nMissing === -3 ? 1 : 0) : nMissing;
+      for (let i = 0; i < discrete; i++) missingNumbers.push(r.float64());
+    } else {
+      for (let i = 0; i < Math.abs(nMissing); i++) missingStrings.push(r.bytes(8));
+    }
+  }
+  if (type === -1) return 'continuation';
+  return {
+    shortName,
+    name: '',
+    width: type,
+    slot,
+    slots: type === 0 ? 1 : Math.ceil(type / 8),
+    printType: (printFormat >> 16) & 0xff,
+    label,
+    missingNumbers,
+    missingStrings,
+    missingRange,
+    valueLabels: [],
+    segments: []
+  };
+};
+
+/**
+ * Reads the 8-byte slots of one case, expanding bytecode compression. Each slot is either a
+ * number (null for system-missing) or 8 raw bytes; returns null at the end of the data.
+ */
+const createCaseReader = (r: BinaryReader, compression: number, slotsPerCase: number, bias: number) => {
+  const spaces = new Uint8Array(8).fill(0x20);
+  let commands: Uint8Array | null = null;
+  let commandIndex = 8;
+  let finished = false;
+
+  const nextCompressed = (): number | null | Uint8Array | undefined => {
+    while (!finished) {
+      if (commandIndex >= 8) {
+        if (r.remaining() < 8) {
+          finished = true;
+          return undefined;
+        }
+        commands = r.bytes(8);
+        commandIndex = 0;
+      }
+      const code = commands![commandIndex++];
+      if (code === 0) continue;
+      if (code === 252) {
+        finished = true;
+        return undefined;
+      }
+      if (code === 253) return r.remaining() >= 8 ? r.bytes(8) : undefined;
+      if (code === 254) return spaces;
+      if (code === 255) return null;
+      return code - bias;
+    }
+    return undefined;
+  };
+
+  return (isString: boolean[]): (number | null | Uint8Array)[] | null => {
+    const slots: (number | null | Uint8Array)[] = new Array(slotsPerCase);
+    for (let i = 0; i < slotsPerCase; i++) {
+      if (compression === 0) {
+        if (r.remaining() < 8) return null;
+        if (isString[i]) {
+          slots[i] = r.bytes(8);
+        } else {
+          const value = r.float64();
+          slots[i] = value === SYSMIS ? null : value;
+        }
+        continue;
+      }
+      const unit = nextCompressed();
+      if (unit === undefined) return null;
+      // Uncompressed numbers arrive as raw bytes after a 253 code
+      if (unit instanceof Uint8Array && !isString[i]) {
+        const value = new DataView(unit.buffer, unit.byteOffset, 8).getFloat64(0, r.littleEndian);
+        slots[i] = value === SYSMIS ? null : value;
+      } else {
+        slots[i] = unit;
+      }
+    }
+    return slots;
+  };
+};
+
+/**
+ * Reads an SPSS system file (.sav) with variable labels, value labels and user-missing values.
+ * Supports uncompressed and bytecode-compressed files; ZLIB-compressed .zsav files are rejected.
+ */
+export const readSpssSav = (buffer: ArrayBuffer): StatFileResult => {
+  const r = createBinaryReader(buffer, true);
+  const ascii = new TextDecoder('windows-1252');
+  const magic = r.string(4, ascii);
+  if (magic === '$FL3') throw new Error('ZLIB-compressed SPSS files (.zsav) are not supported; save the file uncompressed or with standard compression.');
+  if (magic !== '$FL2') throw new Error('Not an SPSS system file.');
+
+  r.skip(60);
+  const layout = r.int32();
+  if (layout !== 2 && layout !== 3) {
+    r.littleEndian = false;
+  }
+  r.seek(68);
+  const caseSize = r.int32();
+  const compression = r.int32();
+  r.int32(); // weight index
+  const caseCount = r.int32();
+  const bias = r.float64() || COMPRESSION_BIAS;
+  r.skip(9 + 8);
+  r.skip(64 + 3); // file label, padding
+
+  const variables: SavVariable[] = [];
+  const slotToVariable = new Map<number, SavVariable>();
+  let slot = 0;
+  let encoding = 'windows-1252';
+  let longNames: Uint8Array | null = null;
+  let veryLongStrings: Uint8Array | null = null;
+  let longValueLabels: Uint8Array | null = null;
+  let longMissing: Uint8Array | null = null;
+
+  for (;;) {
+    const recordType = r.int32();
+    if (recordType === 2) {
+      const variable = readVariableRecord(r, slot);
+      if (variable !== 'continuation') {
+        variables.push(variable);
+        slotToVariable.set(slot, variable);
+      }
+      slot++;
+    } else if (recordType === 3) {
+      const count = r.int32();
+      const labels: { value: Uint8Array; label: Uint8Array }[] = [];
+      for (let i = 0; i < count; i++) {
+        const value = r.bytes(8);
+        const length = r.uint8();
+        labels.push({ value, label: r.bytes(length) });
+        r.skip((8 - ((length + 1) % 8)) % 8);
+      }
+      if (r.int32() !== 4) throw new Error('Malformed SPSS file: value labels without a variable list.');
+      const varCount = r.int32();
+      for (let i = 0; i < varCount; i++) {
+        const target = slotToVariable.get(r.int32() - 1);
+        if (!target) continue;
+        labels.forEach(({ value, label }) => {
+          target.valueLabels.push({
+            value: target.width === 0 ? new DataView(value.buffer, value.byteOffset, 8).getFloat64(0, r.littleEndian) : value,
+            label
+          });
+        });
+      }
+    } else if (recordType === 6) {
+      r.skip(r.int32() * 80);
+    } else if (recordType === 7) {
+      const subtype = r.int32();
+      const size = r.int32();
+      const count = r.int32();
+      const data = r.bytes(size * count);
+      if (subtype === 3 && size === 4 && count >= 8) {
+        const code = new DataView(data.buffer, data.byteOffset).getInt32(28, r.littleEndian);
+        encoding = CHARACTER_CODES[code] ?? encoding;
+      } else if (subtype === 20) {
+        encoding = ascii.decode(data).trim().toLowerCase() || encoding;
+      } else if (subtype === 13) {
+        longNames = data;
+      } else if (subtype === 14) {
+        veryLongStrings = data;
+      } else if (subtype === 21) {
+        longValueLabels = data;
+      } else if (subtype === 22) {
+        longMissing = data;
+      }
+    } else if (recordType === 999) {
+      r.int32();
+      break;
+    } else {
+      throw new Error(`Malformed SPSS file: unexpected record type ${recordType}.`);
+    }
+  }
+
+  const decoder = getTextDecoder(encoding);
+  const decode = (bytes: Uint8Array) => trimEnd(decoder.decode(bytes));
+  const parsePairs = (bytes: Uint8Array | null, separator: RegExp) => {
+    const pairs = new Map<string, string>();
+    if (!bytes) return pairs;
+    decoder.decode(bytes).split(separator).forEach(pair => {
+      const eq = pair.indexOf('=');
+      if (eq > 0) pairs.set(pair.slice(0, eq).trim().toUpperCase(), pair.slice(eq + 1));
+    });
+    return pairs;
+  };
+
+  // Long variable names: SHORT=Long Name pairs separated by tabs
+  const longNameMap = parsePairs(longNames, /\t/);
+  variables.forEach(v => {
+    const short = decode(v.shortName).toUpperCase();
+    v.name = longNameMap.get(short) ?? decode(v.shortName);
+  });
+
+  // Very long strings: SHORT=width pairs; the following segment variables are folded into the first
+  const merged: SavVariable[] = [];
+  const veryLongWidths = parsePairs(veryLongStrings, /[\t\0]+/);
+  for (let i = 0; i < variables.length; i++) {
+    const v = variables[i];
+    const width = parseInt(veryLongWidths.get(decode(v.shortName).toUpperCase()) ?? '', 10);
+    if (width && width > 255) {
+      const segmentCount = Math.floor((width + 251) / 252);
+      v.segments = variables.slice(i, i + segmentCount);
+      v.width = width;
+      i += segmentCount - 1;
+    }
+    merged.push(v);
+  }
+
+  const byName = new Map(merged.map(v => [v.name.toUpperCase(), v]));
+  if (longValueLabels) {
+    const lr = createBinaryReader(longValueLabels.slice().buffer, r.littleEndian);
+    while (lr.remaining() > 0) {
+      const target = byName.get(decoder.decode(lr.bytes(lr.int32())).toUpperCase());
+      lr.int32(); // width
+      const n = lr.int32();
+      for (let i = 0; i < n; i++) {
+        const value = lr.bytes(lr.int32());
+        target?.valueLabels.push({ value, label: lr.bytes(lr.int32()) });
+      }
+    }
+  }
+  if (longMissing) {
+    const lr = createBinaryReader(longMissing.slice().buffer, r.littleEndian);
+    while (lr.remaining() > 0) {
+      const target = byName.get(decoder.decode(lr.bytes(lr.int32())).toUpperCase());
+      const n = lr.uint8();
+      const valueLength = lr.int32();
+      for (let i = 0; i < n; i++) target?.missingStrings.push(lr.bytes(valueLength));
+    }
+  }
+
+  const metadata: Record<string, VariableMetadata> = {};
+  merged.forEach(v => {
+    const valueLabels: Record<string, string> = {};
+    v.valueLabels.forEach(({ value, label }) => {
+      valueLabels[typeof value === 'number' ? numberKey(value) : decode(value)] = decode(label);
+    });
+    const missingCodes: (number | string)[] = v.width === 0 ? v.missingNumbers : v.missingStrings.map(decode);
+    metadata[v.name] = {
+      ...(v.label ? { label: decode(v.label) } : {}),
+      ...(Object.keys(valueLabels).length > 0 ? { valueLabels } : {}),
+      ...(missingCodes.length > 0 ? { missingCodes } : {}),
+      ...(v.missingRange ? { missingRange: v.missingRange } : {})
+    };
+  });
+
+  const slotsPerCase = Math.max(caseSize, slot);
+  const isString = new Array<boolean>(slotsPerCase).fill(false);
+  merged.forEach(v => {
+    (v.segments.length > 0 ? v.segments : [v]).forEach(segment => {
+      for (let i = 0; i < segment.slots; i++) isString[segment.slot + i] = segment.width > 0;
+    });
+  });
+
+  const readCase = createCaseReader(r, compression, slotsPerCase, bias);
+  const rows: StatFileResult['rows'] = [];
+  const stringBytes = (slots: (number | null | Uint8Array)[], from: number, count: number, width: number) => {
+    const out = new Uint8Array(count * 8);
+    for (let i = 0; i < count; i++) {
+      const unit = slots[from + i];
+      if (unit instanceof Uint8Array) out.set(unit, i * 8);
+      else out.fill(0x20, i * 8, i * 8 + 8);
+    }
+    return out.subarray(0, width);
+  };
+
+  while (caseCount < 0 || rows.length < caseCount) {
+    const slots = readCase(isString);
+    if (!slots) break;
+    const row: StatFileResult['rows'][number] = {};
+    merged.forEach(v => {
+      if (v.width === 0) {
+        const value = slots[v.slot] as number | null;
+        if (value === null || typeof value !== 'number') {
+          row[v.name] = null;
+        } else if (DATE_FORMATS.has(v.printType) || DATETIME_FORMATS.has(v.printType)) {
+          row[v.name] = formatIsoDateTime(EPOCH_1582_MS + value * 1000, DATETIME_FORMATS.has(v.printType));
+        } else {
+          row[v.name] = value;
+        }
+        return;
+      }
+      let text: string;
+      if (v.segments.length > 0) {
+        text = v.segments.map((segment, i) => {
+          const used = i < v.segments.length - 1 ? 252 : v.width - 252 * (v.segments.length - 1);
+          return decoder.decode(stringBytes(slots, segment.slot, segment.slots, used));
+        }).join('');
+      } else {
+        text = decoder.decode(stringBytes(slots, v.slot, v.slots, v.width));
+      }
+      text = trimEnd(text);
+      row[v.name] = text === '' ? null : text;
+    });
+    rows.push(row);
+  }
+
+  return { rows, metadata };
+};
@@ -0,0 +1,19 @@
+
+import { StatFileResult } from '../types';
+import { readSpssSav } from './spssReader';
+import { readStataDta } from './stataReader';
+import { readSasXport } from './sasXportReader';
+
+export const STAT_FILE_READERS: Record<string, (buffer: ArrayBuffer) => StatFileResult> = {
+  '.sav': readSpssSav,
+  '.dta': readStataDta,
+  '.xpt': readSasXport
+};
+
+/**
+ * Reader for an SPSS, Stata or SAS transport file chosen by extension, or null for other files
+ */
+export const getStatFileReader = (filename: string): ((buffer: ArrayBuffer) => StatFileResult) | null => {
+  const extension = filename.slice(filename.lastIndexOf('.')).toLowerCase();
+  return STAT_FILE_READERS[extension] ?? null;
+};
@@ -0,0 +1,170 @@
+
+import { describe, expect, it } from 'vitest';
+import { readStataDta } from './stataReader';
+
+/** Little-endian byte writer for hand-built .dta files; text is padded with NUL bytes */
+const createWriter = (encoding: 'latin1' | 'utf-8') => {
+  const out: number[] = [];
+  const scratch = new DataView(new ArrayBuffer(8));
+  const encode = (s: string) => (encoding === 'utf-8' ? Array.from(new TextEncoder().encode(s)) : Array.from(s, ch => ch.charCodeAt(0)));
+  const number = (set: (view: DataView) => void, size: number) => {
+    set(scratch);
+    out.push(...new Uint8Array(scratch.buffer, 0, size));
+    return writer;
+  };
+  const writer = {
+    position: () => out.length,
+    uint8: (v: number) => number(view => view.setUint8(0, v), 1),
+    int8: (v: number) => number(view => view.setInt8(0, v), 1),
+    uint16: (v: number) => number(view => view.setUint16(0, v, true), 2),
+    int16: (v: number) => number(view => view.setInt16(0, v, true), 2),
+    int32: (v: number) => number(view => view.setInt32(0, v, true), 4),
+    uint32: (v: number) => number(view => view.setUint32(0, v, true), 4),
+    uint64: (v: number) => number(view => view.setBigUint64(0, BigInt(v), true), 8),
+    float32: (v: number) => number(view => view.setFloat32(0, v, true), 4),
+    float64: (v: number) => number(view => view.setFloat64(0, v, true), 8),
+    /** Fixed-width field, or the bare text (e.g. a tag) when no width is given */
+    text: (s: string, width?: number) => {
+      const bytes = encode(s);
+      out.push(...(width === undefined ? bytes : Array.from({ length: width }, (_, i) => bytes[i] ?? 0)));
+      return writer;
+    },
+    raw: (bytes: ArrayBuffer) => {
+      out.push(...new Uint8Array(bytes));
+      return writer;
+    },
+    patchUint64: (at: number, v: number) => {
+      const patched = new DataView(new ArrayBuffer(8));
+      patched.setBigUint64(0, BigInt(v), true);
+      out.splice(at, 8, ...new Uint8Array(patched.buffer));
+    },
+    buffer: () => new Uint8Array(out).buffer
+  };
+  return writer;
+};
+
+type Writer = ReturnType<typeof createWriter>;
+
+/** A value label table body: count, text length, offsets, values, then the NUL-terminated texts */
+const writeLabelTable = (w: Writer, entries: [number, string][], byteLength: (s: string) => number) => {
+  const offsets: number[] = [];
+  let textLength = 0;
+  entries.forEach(([, label]) => {
+    offsets.push(textLength);
+    textLength += byteLength(label) + 1;
+  });
+  w.int32(entries.length).int32(textLength);
+  offsets.forEach(offset => w.int32(offset));
+  entries.forEach(([value]) => w.int32(value));
+  entries.forEach(([, label]) => w.text(label).uint8(0));
+  return 8 + 8 * entries.length + textLength;
+};
+
+// Stata's system missing value "." for each numeric type
+const MISSING = { byte: 101, int: 32741, long: 2147483621, float: 2 ** 127, double: 2 ** 1023 };
+
+/**
+ * Release 114 (Stata 10-12): fixed-size header, then the descriptors, expansion fields, data and
+ * value labels in sequence
+ */
+const buildDta114 = (): ArrayBuffer => {
+  const w = createWriter('latin1');
+  w.uint8(114).uint8(2).uint8(1).uint8(0).uint16(4).uint32(3);
+  w.text('Test data', 81).text(' 1 Jan 2024 12:00', 18);
+  // id byte, score double, grp int, name str5
+  [251, 255, 252, 5].forEach(code => w.uint8(code));
+  ['id', 'score', 'grp', 'name'].forEach(name => w.text(name, 33));
+  w.text('', 2 * 5);
+  ['%8.0g', '%10.0g', '%8.0g', '%5s'].forEach(f => w.text(f, 49));
+  ['', '', 'grplbl', ''].forEach(l => w.text(l, 33));
+  ['Identifier', 'Test score', 'Group', ''].forEach(l => w.text(l, 81));
+  w.uint8(0).int32(0);
+
+  w.int8(1).float64(12.5).int16(1).text('ab', 5);
+  w.int8(MISSING.byte).float64(MISSING.double).int16(2).text('xyz', 5);
+  w.int8(3).float64(-7).int16(MISSING.int + 5).text('', 5);
+
+  const table = createWriter('latin1');
+  const length = writeLabelTable(table, [[1, 'Control'], [2, 'Treated']], s => s.length);
+  w.int32(length).text('grplbl', 33).text('', 3);
+  w.raw(table.buffer());
+  return w.buffer();
+};
+
+/**
+ * Release 118 (Stata 14-18): tagged sections located through the map of byte offsets
+ */
+const buildDta118 = (): ArrayBuffer => {
+  const w = createWriter('utf-8');
+  const utf8Length = (s: string) => new TextEncoder().encode(s).length;
+  const names = ['id', 'visit', 'score', 'name', 'grp'];
+  const nvar = names.length;
+  w.text('<stata_dta><header><release>118</release><byteorder>LSF</byteorder><K>').uint16(nvar);
+  w.text('</K><N>').uint64(2).text('</N><label>').uint16(4).text('Test');
+  w.text('</label><timestamp>').uint8(17).text(' 1 Jan 2024 12:00').text('</timestamp></header>');
+  const map: number[] = new Array(14).fill(0);
+  map[1] = w.position();
+  w.text('<map>');
+  const mapStart = w.position();
+  map.forEach(() => w.uint64(0));
+  w.text('</map>');
+
+  const section = (index: number, tag: string, write: () => void) => {
+    map[index] = w.position();
+    w.text(`<${tag}>`);
+    write();
+    w.text(`</${tag}>`);
+  };
+  // byte, long (%td), float, str8, int with value labels
+  section(2, 'variable_types', () => [65530, 65528, 65527, 8, 65529].forEach(code => w.uint16(code)));
+  section(3, 'varnames', () => names.forEach(name => w.text(name, 129)));
+  section(4, 'sortlist', () => w.text('', 2 * (nvar + 1)));
+  section(5, 'formats', () => ['%8.0g', '%td', '%9.0g', '%8s', '%8.0g'].forEach(f => w.text(f, 57)));
+  section(6, 'value_label_names', () => ['', '', '', '', 'grplbl'].forEach(l => w.text(l, 129)));
+  section(7, 'variable_labels', () => ['', 'Visit date', 'Score', 'Name', 'Group'].forEach(l => w.text(l, 321)));
+  section(8, 'characteristics', () => {});
+  section(9, 'data', () => {
+    w.int8(1).int32(366).float32(1.5).text('Zoë', 8).int16(1);
+    w.int8(MISSING.byte + 1).int32(MISSING.long).float32(MISSING.float).text('', 8).int16(MISSING.int + 26);
+  });
+  section(10, 'strls', () => {});
+  section(11, 'value_labels', () => {
+    const table = createWriter('utf-8');
+    const length = writeLabelTable(table, [[1, 'Ünbehandelt'], [2, 'Behandelt']], utf8Length);
+    w.text('<lbl>').int32(length).text('grplbl', 129).text('', 3);
+    w.raw(table.buffer()).text('</lbl>');
+  });
+  map[12] = w.position();
+  w.text('</stata_dta>');
+  map[13] = w.position();
+  map.forEach((offset, i) => w.patchUint64(mapStart + 8 * i, offset));
+  return w.buffer();
+};
+
+describe('readStataDta', () => {
+  it('reads release 114 with value labels and missing values', () => {
+    const { rows, metadata } = readStataDta(buildDta114());
+    expect(rows).toEqual([
+      { id: 1, score: 12.5, grp: 1, name: 'ab' },
+      { id: null, score: null, grp: 2, name: 'xyz' },
+      { id: 3, score: -7, grp: null, name: null }
+    ]);
+    expect(metadata.id).toEqual({ label: 'Identifier' });
+    expect(metadata.grp).toEqual({ label: 'Group', valueLabels: { 1: 'Control', 2: 'Treated' } });
+    expect(metadata.name).toEqual({});
+  });
+
+  it('reads release 118 with UTF-8 text, dates, value labels and extended missing values', () => {
+    const { rows, metadata } = readStataDta(buildDta118());
+    expect(rows).toEqual([
+      { id: 1, visit: '1961-01-01', score: 1.5, name: 'Zoë', grp: 1 },
+      { id: null, visit: null, score: null, name: null, grp: null }
+    ]);
+    expect(metadata.visit).toEqual({ label: 'Visit date' });
+    expect(metadata.grp).toEqual({ label: 'Group', valueLabels: { 1: 'Ünbehandelt', 2: 'Behandelt' } });
+  });
+
+  it('rejects releases it cannot read', () => {
+    expect(() => readStataDta(new Uint8Array([110, 2, 1, 0]).buffer)).toThrow('Unsupported Stata release 110; re-save the file in Stata 8 or later.');
+  });
+});
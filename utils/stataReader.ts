@@ -0,0 +1,276 @@
+
+import { StatFileResult, VariableMetadata } from '../types';
+import { BinaryReader, createBinaryReader } from './binaryReader';
+import { EPOCH_1960_MS, formatIsoDateTime } from './dates';
+
+type StataType = 'byte' | 'int' | 'long' | 'float' | 'double' | 'strL' | number;
+
+interface DtaLayout {
+  release: number;
+  nvar: number;
+  nobs: number;
+  types: StataType[];
+  names: string[];
+  formats: string[];
+  labelNames: string[];
+  labels: string[];
+  dataOffset: number;
+  strlOffset: number;
+  valueLabelOffset: number;
+  valueLabelEnd: number;
+}
+
+const DAY_MS = 86400000;
+
+/**
+ * Tag-based formats (117+) use the extended type codes; 113-115 use single-byte codes
+ */
+const decodeNewType = (code: number): StataType => {
+  if (code <= 2045) return code;
+  switch (code) {
+    case 32768: return 'strL';
+    case 65526: return 'double';
+    case 65527: return 'float';
+    case 65528: return 'long';
+    case 65529: return 'int';
+    case 65530: return 'byte';
+    default: throw new Error(`Unsupported Stata variable type ${code}.`);
+  }
+};
+
+const decodeOldType = (code: number): StataType => {
+  switch (code) {
+    case 251: return 'byte';
+    case 252: return 'int';
+    case 253: return 'long';
+    case 254: return 'float';
+    case 255: return 'double';
+    default: return code;
+  }
+};
+
+const expectTag = (r: BinaryReader, tag: string, decoder: TextDecoder) => {
+  const found = decoder.decode(r.bytes(tag.length));
+  if (found !== tag) throw new Error(`Malformed Stata file: expected ${tag}.`);
+};
+
+const readTaggedLayout = (r: BinaryReader, ascii: TextDecoder): { layout: DtaLayout; decoder: TextDecoder } => {
+  expectTag(r, '<stata_dta><header><release>', ascii);
+  const release = Number(ascii.decode(r.bytes(3)));
+  if (release < 117 || release > 119) throw new Error(`Unsupported Stata release ${release}.`);
+  expectTag(r, '</release><byteorder>', ascii);
+  r.littleEndian = ascii.decode(r.bytes(3)) === 'LSF';
+  expectTag(r, '</byteorder><K>', ascii);
+  const nvar = release === 119 ? r.uint32() : r.uint16();
+  expectTag(r, '</K><N>', ascii);
+  const nobs = release === 117 ? r.uint32() : r.uintN(8);
+  expectTag(r, '</N><label>', ascii);
+  // Release 117 stores text as Latin-1, later releases as UTF-8
+  const decoder = new TextDecoder(release === 117 ? 'windows-1252' : 'utf-8');
+  r.skip(release === 117 ? r.uint8() : r.uint16()); // dataset label
+  expectTag(r, '</label><timestamp>', ascii);
+  r.skip(r.uint8());
+  expectTag(r, '</timestamp></header><map>', ascii);
+  const map = Array.from({ length: 14 }, () => r.uintN(8));
+
+  const nameLength = release === 117 ? 33 : 129;
+  const readList = <T,>(offset: number, tag: string, read: () => T): T[] => {
+    r.seek(offset);
+    expectTag(r, tag, ascii);
+    return Array.from({ length: nvar }, read);
+  };
+  const types = readList(map[2], '<variable_types>', () => decodeNewType(r.uint16()));
+  const names = readList(map[3], '<varnames>', () => r.string(nameLength, decoder));
+  const formats = readList(map[5], '<formats>', () => r.string(release === 117 ? 49 : 57, decoder));
+  const labelNames = readList(map[6], '<value_label_names>', () => r.string(nameLength, decoder));
+  const labels = readList(map[7], '<variable_labels>', () => r.string(release === 117 ? 81 : 321, decoder));
+
+  return {
+    decoder,
+    layout: {
+      release, nvar, nobs, types, names, formats, labelNames, labels,
+      dataOffset: map[9] + '<data>'.length,
+      strlOffset: map[10],
+      valueLabelOffset: map[11] + '<value_labels>'.length,
+      valueLabelEnd: map[12]
+    }
+  };
+};
+
+const readOldLayout = (r: BinaryReader): { layout: DtaLayout; decoder: TextDecoder } => {
+  const release = r.uint8();
+  if (release < 113 || release > 115) throw new Error(`Unsupported Stata release ${release}; re-save the file in Stata 8 or later.`);
+  r.littleEndian = r.uint8() === 2;
+  r.skip(2);
+  const nvar = r.uint16();
+  const nobs = r.uint32();
+  const decoder = new TextDecoder('windows-1252');
+  r.skip(81 + 18); // dataset label, timestamp
+  const types = Array.from({ length: nvar }, () => decodeOldType(r.uint8()));
+  const names = Array.from({ length: nvar }, () => r.string(33, decoder));
+  r.skip(2 * (nvar + 1));
+  const formats = Array.from({ length: nvar }, () => r.string(release === 113 ? 12 : 49, decoder));
+  const labelNames = Array.from({ length: nvar }, () => r.string(33, decoder));
+  const labels = Array.from({ length: nvar }, () => r.string(81, decoder));
+  // Expansion fields: (type, length, contents) until a zero type
+  for (;;) {
+    const type = r.uint8();
+    const length = r.int32();
+    if (type === 0 && length === 0) break;
+    r.skip(length);
+  }
+  const dataOffset = r.position();
+  const rowWidth = types.reduce<number>((acc, t) => acc + (typeof t === 'number' ? t : t === 'byte' ? 1 : t === 'int' ? 2 : t === 'double' ? 8 : 4), 0);
+  const valueLabelOffset = dataOffset + rowWidth * nobs;
+  return {
+    decoder,
+    layout: { release, nvar, nobs, types, names, formats, labelNames, labels, dataOffset, strlOffset: -1, valueLabelOffset, valueLabelEnd: r.length }
+  };
+};
+
+/**
+ * Value label tables: name -> (code -> label)
+ */
+const readValueLabels = (r: BinaryReader, layout: DtaLayout, decoder: TextDecoder, ascii: TextDecoder): Map<string, Record<string, string>> => {
+  const tables = new Map<string, Record<string, string>>();
+  const tagged = layout.release >= 117;
+  const nameLength = layout.release === 117 || !tagged ? 33 : 129;
+  r.seek(layout.valueLabelOffset);
+  for (;;) {
+    if (tagged ? r.remaining() < 5 || ascii.decode(r.bytes(5)) !== '<lbl>' : layout.valueLabelEnd - r.position() < 8) break;
+    const length = r.int32();
+    const name = r.string(nameLength, decoder);
+    r.skip(3);
+    const start = r.position();
+    const n = r.int32();
+    const textLength = r.int32();
+    const offsets = Array.from({ length: n }, () => r.int32());
+    const values = Array.from({ length: n }, () => r.int32());
+    const text = r.bytes(textLength);
+    const table: Record<string, string> = {};
+    offsets.forEach((offset, i) => {
+      const end = text.indexOf(0, offset);
+      table[String(values[i])] = decoder.decode(text.subarray(offset, end === -1 ? text.length : end));
+    });
+    tables.set(name, table);
+    r.seek(start + length);
+    if (tagged) expectTag(r, '</lbl>', ascii);
+  }
+  return tables;
+};
+
+/**
+ * strL contents keyed by "v,o" (variable, observation)
+ */
+const readStrls = (r: BinaryReader, layout: DtaLayout, decoder: TextDecoder, ascii: TextDecoder): Map<string, string> => {
+  const strls = new Map<string, string>();
+  if (!layout.types.includes('strL')) return strls;
+  r.seek(layout.strlOffset);
+  expectTag(r, '<strls>', ascii);
+  while (r.remaining() >= 3 && ascii.decode(r.bytes(3)) === 'GSO') {
+    const v = r.uint32();
+    const o = layout.release === 117 ? r.uint32() : r.uintN(8);
+    const binary = r.uint8() === 129;
+    const length = r.uint32();
+    const bytes = r.bytes(length);
+    strls.set(`${v},${o}`, binary ? `<binary ${length} bytes>` : decoder.decode(bytes[length - 1] === 0 ? bytes.subarray(0, length - 1) : bytes));
+  }
+  return strls;
+};
+
+/**
+ * Converts Stata %td (days) and %tc/%tC (milliseconds) dates from the 1960 epoch
+ */
+const convertDate = (value: number, format: string): number | string => {
+  if (/^%-?t?d/.test(format)) return formatIsoDateTime(EPOCH_1960_MS + value * DAY_MS);
+  if (/^%-?tc/i.test(format)) return formatIsoDateTime(EPOCH_1960_MS + value, true);
+  return value;
+};
+
+/**
+ * Reads a Stata dataset (.dta, releases 113-119: Stata 8 through 18) with variable labels and
+ * value labels. Stata's system and extended missing values (., .a-.z) become empty cells.
+ */
+export const readStataDta = (buffer: ArrayBuffer): StatFileResult => {
+  const r = createBinaryReader(buffer, true);
+  const ascii = new TextDecoder('windows-1252');
+  const tagged = ascii.decode(r.bytes(Math.min(11, r.length))) === '<stata_dta>';
+  r.seek(0);
+  const { layout, decoder } = tagged ? readTaggedLayout(r, ascii) : readOldLayout(r);
+
+  const strls = tagged ? readStrls(r, layout, decoder, ascii) : new Map<string, string>();
+  const labelTables = readValueLabels(r, layout, decoder, ascii);
+
+  const rows: StatFileResult['rows'] = [];
+  r.seek(layout.dataOffset);
+  for (let i = 0; i < layout.nobs; i++) {
+    const row: StatFileResult['rows'][number] = {};
+    layout.types.forEach((type, j) => {
+      let value: number | string | null;
+      switch (type) {
+        case 'byte': {
+          const v = r.int8();
+          value = v > 100 ? null : v;
+          break;
+        }
+        case 'int': {
+          const v = r.int16();
+          value = v > 32740 ? null : v;
+          break;
+        }
+        case 'long': {
+          const v = r.int32();
+          value = v > 2147483620 ? null : v;
+          break;
+        }
+        case 'float': {
+          const v = r.float32();
+          value = v > 1.701e38 || isNaN(v) ? null : v;
+          break;
+        }
+        case 'double': {
+          const v = r.float64();
+          value = v > 8.988e307 || isNaN(v) ? null : v;
+          break;
+        }
+        case 'strL': {
+          let key: string;
+          if (layout.release === 117) {
+            key = `${r.uint32()},${r.uint32()}`;
+          } else {
+            // v occupies the low 2 (118) or 3 (119) bytes of an 8-byte integer, o the rest
+            const vBytes = layout.release === 118 ? 2 : 3;
+            let v: number;
+            let o: number;
+            if (r.littleEndian) {
+              v = r.uintN(vBytes);
+              o = r.uintN(8 - vBytes);
+            } else {
+              o = r.uintN(8 - vBytes);
+              v = r.uintN(vBytes);
+            }
+            key = `${v},${o}`;
+          }
+          value = strls.get(key) ?? null;
+          break;
+        }
+        default:
+          value = r.string(type, decoder);
+      }
+      if (typeof value === 'number') value = convertDate(value, layout.formats[j]);
+      row[layout.names[j]] = value === '' ? null : value;
+    });
+    rows.push(row);
+  }
+
+  const metadata: Record<string, VariableMetadata> = {};
+  layout.names.forEach((name, j) => {
+    const valueLabels = layout.labelNames[j] ? labelTables.get(layout.labelNames[j]) : undefined;
+    metadata[name] = {
+      ...(layout.labels[j] ? { label: layout.labels[j] } : {}),
+      ...(valueLabels && Object.keys(valueLabels).length > 0 ? { valueLabels } : {})
+    };
+  });
+
+  return { rows, metadata };
+};
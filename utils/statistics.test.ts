@@ -0,0 +1,121 @@
+
+import { describe, expect, it } from 'vitest';
+import { calculateGroupStats, calculateKendallTauB, calculateSpearman } from './statistics';
+
+// Hollander & Wolfe's example from R's ?cor.test: tau = 0.444 (T = 26, exact p = 0.1194), rho = 0.6
+const x = [44.4, 45.9, 41.9, 53.3, 44.7, 44.1, 50.7, 45.2, 60.1];
+const y = [2.6, 3.1, 2.5, 5.0, 3.6, 4.0, 5.2, 2.8, 3.8];
+
+// Tau-b from its definition, counting every pair
+const bruteForceTauB = (a: number[], b: number[]) => {
+  let s = 0;
+  let untiedA = 0;
+  let untiedB = 0;
+  for (let i = 0; i < a.length; i++) {
+    for (let j = i + 1; j < a.length; j++) {
+      s += Math.sign(a[i] - a[j]) * Math.sign(b[i] - b[j]);
+      if (a[i] !== a[j]) untiedA++;
+      if (b[i] !== b[j]) untiedB++;
+    }
+  }
+  return s / Math.sqrt(untiedA * untiedB);
+};
+
+describe('calculateSpearman', () => {
+  it('matches R for the reference data', () => {
+    expect(calculateSpearman(x, y)).toBeCloseTo(0.6, 10);
+  });
+
+  it('uses 1 - 6Σd²/(n(n² - 1)) without ties', () => {
+    const swapped = [2, 1, 4, 3, 6, 5, 8, 7, 10, 9];
+    expect(calculateSpearman(swapped.map((_, i) => i + 1), swapped)).toBeCloseTo(1 - 60 / 990, 10);
+  });
+
+  it('gives tied values their average rank', () => {
+    // Ranks (1, 2.5, 2.5, 4) and (1, 2, 3, 4)
+    const expected = 4.5 / Math.sqrt(4.5 * 5);
+    expect(calculateSpearman([1, 2, 2, 3], [10, 20, 30, 40])).toBeCloseTo(expected, 10);
+  });
+});
+
+describe('calculateKendallTauB', () => {
+  it('gives the exact p-value without ties in small samples', () => {
+    const { tau, p } = calculateKendallTauB(x, y);
+    expect(tau).toBeCloseTo(4 / 9, 10);
+    expect(p).toBeCloseTo(0.1194, 4);
+    // Two discordant pairs out of ten: P(D <= 2) = 14/120 from the Mahonian numbers
+    expect(calculateKendallTauB([1, 2, 3, 4, 5], [2, 1, 4, 3, 5]).p).toBeCloseTo(28 / 120, 10);
+    expect(calculateKendallTauB([1, 2, 3, 4, 5], [1, 2, 3, 4, 5]).p).toBeCloseTo(2 / 120, 10);
+  });
+
+  it('matches the pairwise definition of tau-b with ties', () => {
+    const a = [1, 2, 2, 3, 3, 3, 4, 5, 5, 6];
+    const b = [2, 1, 3, 3, 2, 5, 4, 4, 6, 6];
+    expect(calculateKendallTauB(a, b).tau).toBeCloseTo(bruteForceTauB(a, b), 10);
+    let seed = 3;
+    const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+    const c = Array.from({ length: 200 }, () => Math.floor(random() * 8));
+    const d = c.map(v => Math.floor(v / 2 + random() * 4));
+    expect(calculateKendallTauB(c, d).tau).toBeCloseTo(bruteForceTauB(c, d), 10);
+  });
+
+  it('uses the normal approximation with ties', () => {
+    // S = 15 with a tie-corrected variance of 42.381, as R's cor.test(exact = FALSE): z = 2.3041
+    expect(calculateKendallTauB([1, 2, 2, 3, 4, 5, 6], [1, 3, 2, 2, 5, 4, 7]).p).toBeCloseTo(0.0212157, 6);
+  });
+
+  it('returns tau 0 and p 1 for a constant variable', () => {
+    expect(calculateKendallTauB([1, 1, 1], [1, 2, 3])).toEqual({ tau: 0, p: 1 });
+  });
+});
+
+// warpbreaks from R's datasets, breaks by tension; the post-hoc references integrate the studentized
+// range distribution numerically (the same integration reproduces R's ?TukeyHSD example exactly)
+const warpbreaks = {
+  L: [26, 30, 54, 25, 70, 52, 51, 26, 67, 27, 14, 29, 19, 29, 31, 41, 20, 44],
+  M: [18, 21, 29, 17, 12, 18, 35, 30, 36, 42, 26, 19, 16, 39, 28, 21, 39, 29],
+  H: [36, 21, 24, 18, 10, 43, 28, 15, 26, 20, 21, 24, 17, 13, 15, 15, 16, 28]
+};
+const unequal = {
+  A: [4.1, 5.2, 6.3, 5.8, 4.9, 5.5],
+  B: [7.9, 9.5, 6.2, 10.8, 8.4, 11.6, 7.1],
+  C: [5.9, 6.4, 6.1, 6.8, 6.0]
+};
+
+describe('calculateGroupStats post-hoc comparisons', () => {
+  it('matches TukeyHSD for equal group sizes', () => {
+    const result = calculateGroupStats(warpbreaks, { postHoc: 'tukey', variance: 'equal', order: ['L', 'M', 'H'] })!;
+    expect(result.postHoc).toBe('tukey');
+    expect(result.pairwise.map(pair => [pair.group1, pair.group2])).toEqual([['L', 'M'], ['L', 'H'], ['M', 'H']]);
+    expect(result.pairwise[0].meanDiff).toBeCloseTo(10, 10);
+    expect(result.pairwise.map(pair => pair.pAdjusted)).toEqual([
+      expect.closeTo(0.0384598, 6),
+      expect.closeTo(0.0014315, 6),
+      expect.closeTo(0.4630831, 6)
+    ]);
+  });
+
+  it('uses the Tukey-Kramer standard error for unequal group sizes', () => {
+    const result = calculateGroupStats(unequal, { postHoc: 'tukey', variance: 'equal' })!;
+    expect(result.pairwise.map(pair => pair.pAdjusted)).toEqual([
+      expect.closeTo(0.0007466, 6),
+      expect.closeTo(0.4878406, 6),
+      expect.closeTo(0.0132537, 6)
+    ]);
+  });
+
+  it('uses separate variances and Welch degrees of freedom for Games-Howell', () => {
+    const result = calculateGroupStats(unequal, { postHoc: 'gamesHowell', variance: 'welch' })!;
+    expect(result.postHoc).toBe('gamesHowell');
+    expect(result.pairwise.map(pair => pair.pAdjusted)).toEqual([
+      expect.closeTo(0.0061300, 6),
+      expect.closeTo(0.0689300, 6),
+      expect.closeTo(0.0309619, 6)
+    ]);
+  });
+
+  it('switches between Tukey and Games-Howell with the variance assumption', () => {
+    expect(calculateGroupStats(unequal, { postHoc: 'tukey', variance: 'welch' })!.postHoc).toBe('gamesHowell');
+    expect(calculateGroupStats({ a: [1, 2, 3], b: [4] }, { postHoc: 'gamesHowell' })!.postHoc).toBe('tukey');
+  });
+});
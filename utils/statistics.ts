@@ -1,5 +1,15 @@
 
-import { CorrelationResult, VariableType } from '../types';
+import { CorrelationMethod, CorrelationResult, PAdjustMethod, PostHocMethod, VariableMetadata, VariableType } from '../types';
+import { normalQuantile, pFromF, pFromStudentizedRange, pFromT, pFromZ, studentTQuantile } from './distributions';
+import { adjustPValues } from './multipleComparisons';
+import { calculateShape, leveneTest, NormalityTestResult, shapiroWilk, VarianceTestResult } from './assumptions';
+import { parseDateValue } from './dates';
+
+export const CORRELATION_METHODS: Record<CorrelationMethod, { label: string; symbol: string; description: string }> = {
+  pearson: { label: 'Pearson', symbol: 'r', description: "Pearson's product-moment correlation coefficient" },
+  spearman: { label: 'Spearman', symbol: 'ρ', description: "Spearman's rank-order correlation coefficient" },
+  kendall: { label: 'Kendall', symbol: 'τb', description: "Kendall's tau-b rank correlation coefficient" }
+};
 
 /**
  * Calculates Pearson Correlation Coefficient
@@ -21,34 +31,215 @@ export const calculatePearson = (x: number[], y: number[]): number => {
 };
 
 /**
- * Calculates P-value for a t-statistic using approximation
+ * Assigns 1-based ranks, giving tied values the average of the ranks they span
  */
-const getPFromT = (t: number, df: number): number => {
-  if (df <= 0) return 1.0;
-  const z = Math.abs(t);
-  // Using a more robust approximation for the normal distribution for p-values
-  const t_abs = Math.abs(t);
-  const k = 1 / (1 + 0.2316419 * t_abs);
-  const a1 = 0.319381530;
-  const a2 = -0.356563782;
-  const a3 = 1.781477937;
-  const a4 = -1.821255978;
-  const a5 = 1.330274429;
-  const poly = ((((a5 * k + a4) * k + a3) * k + a2) * k + a1) * k;
-  const normalCDF = 1 - (1 / Math.sqrt(2 * Math.PI)) * Math.exp(-0.5 * t_abs * t_abs) * poly;
-  
-  // Correction factor for low DF (t-dist vs normal-dist)
-  let p = 2 * (1 - normalCDF);
-  if (df < 30) {
-    p = p * (1 + (p * p + 1) / (4 * df)); // Very rough correction
+export const rankWithTies = (values: number[]): number[] => {
+  const order = values.map((v, i) => i).sort((a, b) => values[a] - values[b]);
+  const ranks = new Array<number>(values.length);
+  let i = 0;
+  while (i < order.length) {
+    let j = i;
+    while (j + 1 < order.length && values[order[j + 1]] === values[order[i]]) j++;
+    const avgRank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) ranks[order[k]] = avgRank;
+    i = j + 1;
+  }
+  return ranks;
+};
+
+/**
+ * Quantile of an ascending-sorted array using linear interpolation (Hyndman & Fan type 7)
+ */
+export const calculateQuantile = (sorted: number[], q: number): number => {
+  if (sorted.length === 0) return NaN;
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+};
+
+/**
+ * Calculates Spearman's rank correlation (Pearson r of the tie-corrected ranks)
+ */
+export const calculateSpearman = (x: number[], y: number[]): number => {
+  if (x.length !== y.length || x.length === 0) return 0;
+  return calculatePearson(rankWithTies(x), rankWithTies(y));
+};
+
+/**
+ * Sizes of each run of tied values in a sorted array
+ */
+const getTieGroupSizes = (sorted: number[]): number[] => {
+  const sizes: number[] = [];
+  let run = 1;
+  for (let i = 1; i <= sorted.length; i++) {
+    if (i < sorted.length && sorted[i] === sorted[i - 1]) run++;
+    else {
+      if (run > 1) sizes.push(run);
+      run = 1;
+    }
+  }
+  return sizes;
+};
+
+/** Below this size, untied samples get the exact p-value for Kendall's tau, as in R's cor.test */
+const EXACT_KENDALL_MAX_N = 50;
+
+/**
+ * Null distribution of the number of discordant pairs among n untied observations, as
+ * probabilities: the counts of permutations of n by number of inversions (Mahonian numbers)
+ */
+const discordantPairsDistribution = (n: number): number[] => {
+  let dist = [1];
+  for (let k = 2; k <= n; k++) {
+    // Inserting the k-th value adds 0 to k - 1 inversions, each equally likely
+    const next = new Array<number>(dist.length + k - 1);
+    let window = 0;
+    for (let j = 0; j < next.length; j++) {
+      if (j < dist.length) window += dist[j];
+      if (j >= k) window -= dist[j - k];
+      next[j] = window / k;
+    }
+    dist = next;
+  }
+  return dist;
+};
+
+/**
+ * Calculates Kendall's tau-b using Knight's O(n log n) algorithm.
+ * Without ties and for n < 50 the p-value is exact, from the permutation distribution of S;
+ * otherwise it comes from the normal approximation with the tie-corrected variance of S.
+ */
+export const calculateKendallTauB = (x: number[], y: number[]): { tau: number; p: number } => {
+  const n = x.length;
+  if (n !== y.length || n < 2) return { tau: 0, p: 1 };
+
+  const order = x.map((_, i) => i).sort((a, b) => x[a] - x[b] || y[a] - y[b]);
+  const xs = order.map(i => x[i]);
+  let ys = order.map(i => y[i]);
+
+  // Pairs tied on x (n1) and tied on both x and y (n3)
+  let n1 = 0;
+  let n3 = 0;
+  let xRun = 1;
+  let xyRun = 1;
+  for (let i = 1; i <= n; i++) {
+    const sameX = i < n && xs[i] === xs[i - 1];
+    const sameXY = sameX && ys[i] === ys[i - 1];
+    if (sameX) xRun++;
+    else {
+      n1 += (xRun * (xRun - 1)) / 2;
+      xRun = 1;
+    }
+    if (sameXY) xyRun++;
+    else {
+      n3 += (xyRun * (xyRun - 1)) / 2;
+      xyRun = 1;
+    }
   }
-  return Math.min(Math.max(p, 0), 1);
+
+  // Bottom-up merge sort on y counting the swaps (discordant pairs)
+  let swaps = 0;
+  let buffer = new Array<number>(n);
+  for (let width = 1; width < n; width *= 2) {
+    for (let lo = 0; lo < n; lo += 2 * width) {
+      const mid = Math.min(lo + width, n);
+      const hi = Math.min(lo + 2 * width, n);
+      let i = lo;
+      let j = mid;
+      let k = lo;
+      while (i < mid && j < hi) {
+        if (ys[j] < ys[i]) {
+          buffer[k++] = ys[j++];
+          swaps += mid - i;
+        } else {
+          buffer[k++] = ys[i++];
+        }
+      }
+      while (i < mid) buffer[k++] = ys[i++];
+      while (j < hi) buffer[k++] = ys[j++];
+    }
+    [ys, buffer] = [buffer, ys];
+  }
+
+  const xTies = getTieGroupSizes(xs);
+  const yTies = getTieGroupSizes(ys);
+  const n2 = yTies.reduce((acc, u) => acc + (u * (u - 1)) / 2, 0);
+  const n0 = (n * (n - 1)) / 2;
+
+  const s = n0 - n1 - n2 + n3 - 2 * swaps;
+  const denom = Math.sqrt((n0 - n1) * (n0 - n2));
+  if (denom === 0) return { tau: 0, p: 1 };
+  const tau = s / denom;
+
+  if (n1 === 0 && n2 === 0 && n < EXACT_KENDALL_MAX_N) {
+    const dist = discordantPairsDistribution(n);
+    const lower = dist.slice(0, swaps + 1).reduce((acc, q) => acc + q, 0);
+    const upper = dist.slice(swaps).reduce((acc, q) => acc + q, 0);
+    return { tau, p: Math.min(1, 2 * Math.min(lower, upper)) };
+  }
+
+  const sumT = (ties: number[], f: (t: number) => number) => ties.reduce((acc, t) => acc + f(t), 0);
+  const v0 = n * (n - 1) * (2 * n + 5);
+  const vt = sumT(xTies, t => t * (t - 1) * (2 * t + 5));
+  const vu = sumT(yTies, u => u * (u - 1) * (2 * u + 5));
+  const v1 = sumT(xTies, t => t * (t - 1)) * sumT(yTies, u => u * (u - 1));
+  const v2 = sumT(xTies, t => t * (t - 1) * (t - 2)) * sumT(yTies, u => u * (u - 1) * (u - 2));
+  const varS = (v0 - vt - vu) / 18
+    + v1 / (2 * n * (n - 1))
+    + (n > 2 ? v2 / (9 * n * (n - 1) * (n - 2)) : 0);
+
+  const p = varS > 0 ? pFromZ(s / Math.sqrt(varS)) : 1;
+  return { tau, p };
 };
 
+/**
+ * Two-tailed p-value for a correlation coefficient (t-test with n - 2 df)
+ */
 export const calculatePValue = (r: number, n: number): number => {
   if (n <= 2) return 1.0;
+  if (Math.abs(r) >= 1) return 0;
   const t = Math.abs(r) * Math.sqrt((n - 2) / (1 - r * r));
-  return getPFromT(t, n - 2);
+  return pFromT(t, n - 2);
+};
+
+/**
+ * Correlation coefficient and two-tailed p-value for the chosen method
+ */
+export const calculateCorrelation = (x: number[], y: number[], method: CorrelationMethod = 'pearson'): { r: number; p: number } => {
+  if (method === 'kendall') {
+    const { tau, p } = calculateKendallTauB(x, y);
+    return { r: tau, p };
+  }
+  const r = method === 'spearman' ? calculateSpearman(x, y) : calculatePearson(x, y);
+  return { r, p: calculatePValue(r, x.length) };
+};
+
+/**
+ * Fisher-z confidence interval for a correlation coefficient.
+ * Spearman uses the Bonett-Wright standard error and Kendall uses Fieller's.
+ */
+export const calculateCorrelationCI = (r: number, n: number, method: CorrelationMethod = 'pearson', confLevel = 0.95): { lower: number; upper: number } => {
+  const minN = method === 'kendall' ? 5 : 4;
+  if (n < minN || isNaN(r)) return { lower: NaN, upper: NaN };
+
+  let se: number;
+  if (method === 'spearman') se = Math.sqrt((1 + (r * r) / 2) / (n - 3));
+  else if (method === 'kendall') se = Math.sqrt(0.437 / (n - 4));
+  else se = 1 / Math.sqrt(n - 3);
+
+  const z = Math.atanh(Math.max(-1, Math.min(1, r)));
+  const crit = normalQuantile(1 - (1 - confLevel) / 2);
+  return { lower: Math.tanh(z - crit * se), upper: Math.tanh(z + crit * se) };
+};
+
+/**
+ * t-based confidence interval for a mean (or difference of means) given its standard error
+ */
+export const calculateTInterval = (estimate: number, se: number, df: number, confLevel = 0.95): { lower: number; upper: number } => {
+  if (df <= 0 || isNaN(se)) return { lower: NaN, upper: NaN };
+  const crit = studentTQuantile(1 - (1 - confLevel) / 2, df);
+  return { lower: estimate - crit * se, upper: estimate + crit * se };
 };
 
 /**
@@ -57,23 +248,66 @@ export const calculatePValue = (r: number, n: number): number => {
 export interface PairwiseComparison {
   group1: string;
   group2: string;
+  meanDiff: number;
+  ciLower: number;
+  ciUpper: number;
   p: number;
+  pAdjusted: number;
   sig: string;
 }
 
-export const calculateGroupStats = (groups: Record<string, number[]>) => {
-  const groupNames = Object.keys(groups);
+export interface GroupSummary {
+  name: string;
+  n: number;
+  mean: number;
+  ssq: number;
+  variance: number;
+  se: number;
+  ciLower: number;
+  ciUpper: number;
+}
+
+export type VarianceAssumption = 'auto' | 'equal' | 'welch';
+
+export interface GroupStatsOptions {
+  confLevel?: number;
+  postHoc?: PostHocMethod;
+  variance?: VarianceAssumption;
+  /** Group order, such as an ordinal variable's levels; other groups follow in natural sort order */
+  order?: string[];
+}
+
+export interface GroupAssumptionChecks {
+  levene: VarianceTestResult;
+  brownForsythe: VarianceTestResult;
+  normality: (NormalityTestResult & { group: string })[];
+}
+
+/**
+ * Welch-Satterthwaite degrees of freedom for the difference of two means
+ */
+const welchDf = (v1: number, n1: number, v2: number, n2: number): number => {
+  const a = v1 / n1;
+  const b = v2 / n2;
+  return (a + b) ** 2 / ((a * a) / (n1 - 1) + (b * b) / (n2 - 1));
+};
+
+export const calculateGroupStats = (groups: Record<string, number[]>, options: GroupStatsOptions = {}) => {
+  const { confLevel = 0.95, variance = 'auto' } = options;
+  const groupNames = orderGroupNames(groups, options.order);
   const k = groupNames.length;
   if (k < 2) return null;
 
   const allValues: number[] = [];
-  const groupData = groupNames.map(name => {
+  const groupData: GroupSummary[] = groupNames.map(name => {
     const vals = groups[name];
     allValues.push(...vals);
     const mean = vals.reduce((a, b) => a + b, 0) / vals.length;
     const ssq = vals.reduce((a, b) => a + (b - mean) ** 2, 0);
     const variance = ssq / (vals.length - 1 || 1);
-    return { name, n: vals.length, mean, ssq, variance };
+    const se = Math.sqrt(variance / vals.length);
+    const ci = calculateTInterval(mean, se, vals.length - 1, confLevel);
+    return { name, n: vals.length, mean, ssq, variance, se, ciLower: ci.lower, ciUpper: ci.upper };
   });
 
   const grandMean = allValues.reduce((a, b) => a + b, 0) / allValues.length;
@@ -91,45 +325,126 @@ export const calculateGroupStats = (groups: Record<string, number[]>) => {
 
   const msb = ssb / dfB;
   const msw = ssw / dfW;
-  const f = msb / msw;
-
-  // Approximate p-value for the F statistic
-  const pGlobal = getPFromT(Math.sqrt(f), dfW); 
   const etaSq = ssb / (ssb + ssw);
 
+  // Assumption checks: homogeneity of variance and per-group normality
+  const assumptions: GroupAssumptionChecks = {
+    levene: leveneTest(groupNames.map(name => groups[name]), 'mean'),
+    brownForsythe: leveneTest(groupNames.map(name => groups[name]), 'median'),
+    normality: groupNames.map(name => ({ group: name, ...shapiroWilk(groups[name]) }))
+  };
+
+  // Welch's procedures need a variance estimate in every group
+  const welchPossible = groupData.every(g => g.n >= 2 && g.variance > 0);
+  const equalVariance = !welchPossible || variance === 'equal'
+    || (variance === 'auto' && !(assumptions.brownForsythe.p < 0.05));
+
+  let f: number;
+  let dfDenominator: number;
+  if (equalVariance) {
+    f = msb / msw;
+    dfDenominator = dfW;
+  } else {
+    // Welch's ANOVA (reduces to Welch's t-test squared when k = 2)
+    const weights = groupData.map(g => g.n / g.variance);
+    const sumW = weights.reduce((a, b) => a + b, 0);
+    const weightedMean = groupData.reduce((acc, g, i) => acc + weights[i] * g.mean, 0) / sumW;
+    const a = groupData.reduce((acc, g, i) => acc + weights[i] * (g.mean - weightedMean) ** 2, 0) / (k - 1);
+    const lambda = groupData.reduce((acc, g, i) => acc + (1 - weights[i] / sumW) ** 2 / (g.n - 1), 0);
+    f = a / (1 + ((2 * (k - 2)) / (k * k - 1)) * lambda);
+    dfDenominator = (k * k - 1) / (3 * lambda);
+  }
+
+  // Upper tail of F(dfB, df); F is undefined when every observation is identical
+  const pGlobal = isNaN(f) ? 1 : pFromF(f, dfB, dfDenominator);
+
+  // Tukey HSD assumes equal variances; Games-Howell is its unequal-variance counterpart
+  let postHoc: PostHocMethod = options.postHoc ?? 'none';
+  if (postHoc === 'tukey' && !equalVariance) postHoc = 'gamesHowell';
+  if (postHoc === 'gamesHowell' && !welchPossible) postHoc = 'tukey';
+
   // Pairwise Comparisons (Post-hoc indicators)
   const pairwise: PairwiseComparison[] = [];
-  if (k >= 2) {
-    for (let i = 0; i < k; i++) {
-      for (let j = i + 1; j < k; j++) {
-        const g1 = groupData[i];
-        const g2 = groupData[j];
+  for (let i = 0; i < k; i++) {
+    for (let j = i + 1; j < k; j++) {
+      const g1 = groupData[i];
+      const g2 = groupData[j];
+      const meanDiff = g1.mean - g2.mean;
+      let seDiff: number;
+      let df: number;
+      if (equalVariance) {
         // Pooled variance t-test
         const pooledVar = ((g1.n - 1) * g1.variance + (g2.n - 1) * g2.variance) / (g1.n + g2.n - 2);
-        const t = Math.abs(g1.mean - g2.mean) / Math.sqrt(pooledVar * (1 / g1.n + 1 / g2.n));
-        const pPair = getPFromT(t, g1.n + g2.n - 2);
-        pairwise.push({
-          group1: g1.name,
-          group2: g2.name,
-          p: pPair,
-          sig: getSignificanceStars(pPair)
-        });
+        seDiff = Math.sqrt(pooledVar * (1 / g1.n + 1 / g2.n));
+        df = g1.n + g2.n - 2;
+      } else {
+        // Welch's t-test
+        seDiff = Math.sqrt(g1.variance / g1.n + g2.variance / g2.n);
+        df = welchDf(g1.variance, g1.n, g2.variance, g2.n);
       }
+      const t = Math.abs(meanDiff) / seDiff;
+      const pPair = isNaN(t) ? 1 : pFromT(t, df);
+      const ci = calculateTInterval(meanDiff, seDiff, df, confLevel);
+      pairwise.push({
+        group1: g1.name,
+        group2: g2.name,
+        meanDiff,
+        ciLower: ci.lower,
+        ciUpper: ci.upper,
+        p: pPair,
+        pAdjusted: pPair,
+        sig: ''
+      });
     }
   }
 
+  if (postHoc === 'tukey' || postHoc === 'gamesHowell') {
+    pairwise.forEach(pair => {
+      const g1 = groupData.find(g => g.name === pair.group1)!;
+      const g2 = groupData.find(g => g.name === pair.group2)!;
+      let q: number;
+      let df: number;
+      if (postHoc === 'tukey') {
+        // Tukey-Kramer: studentized range on the ANOVA error term, valid for unequal group sizes
+        q = Math.abs(pair.meanDiff) / Math.sqrt((msw / 2) * (1 / g1.n + 1 / g2.n));
+        df = dfW;
+      } else {
+        // Games-Howell: separate variances with Welch degrees of freedom
+        q = Math.abs(pair.meanDiff) / Math.sqrt((g1.variance / g1.n + g2.variance / g2.n) / 2);
+        df = welchDf(g1.variance, g1.n, g2.variance, g2.n);
+      }
+      pair.pAdjusted = isNaN(q) ? 1 : pFromStudentizedRange(q, k, df);
+    });
+  } else {
+    const adjusted = adjustPValues(pairwise.map(pair => pair.p), postHoc);
+    pairwise.forEach((pair, idx) => { pair.pAdjusted = adjusted[idx]; });
+  }
+  pairwise.forEach(pair => { pair.sig = getSignificanceStars(pair.pAdjusted); });
+
+  const test = k === 2
+    ? (equalVariance ? 'Independent T-test' : "Welch's T-test")
+    : (equalVariance ? 'One-way ANOVA' : "Welch's ANOVA");
+
   return {
-    test: k === 2 ? 'Independent T-test' : 'One-way ANOVA',
+    test,
     f,
+    // Signed t statistic for the two-group case (first group minus second)
+    t: k === 2 ? Math.sign(groupData[0].mean - groupData[1].mean) * Math.sqrt(f) : undefined,
     p: pGlobal,
     etaSq,
     groups: groupData,
     dfB,
-    dfW,
+    dfW: dfDenominator,
+    equalVariance,
+    assumptions,
+    confLevel,
+    postHoc,
     pairwise
   };
 };
 
+export type GroupStatsResult = NonNullable<ReturnType<typeof calculateGroupStats>>;
+
 export const getSignificanceStars = (p: number): string => {
   if (p < 0.001) return '***';
   if (p < 0.01) return '**';
@@ -137,69 +452,230 @@ export const getSignificanceStars = (p: number): string => {
   return '';
 };
 
-export const calculateSummaryStats = (values: any[], type: VariableType) => {
-  const filtered = values.filter(v => v !== null && v !== undefined && v !== '');
+/**
+ * Formats a confidence interval as "[lower, upper]"
+ */
+export const formatCI = (lower: number, upper: number, digits = 2): string => {
+  if (isNaN(lower) || isNaN(upper)) return 'N/A';
+  return `[${lower.toFixed(digits)}, ${upper.toFixed(digits)}]`;
+};
+
+/**
+ * Empty cells (null, undefined or blank strings) are treated as missing
+ */
+export const isMissingValue = (v: any): boolean => v === null || v === undefined || v === '';
+
+export type MissingDefinition = Pick<VariableMetadata, 'missingCodes' | 'missingRange'>;
+
+/**
+ * True when a value matches one of the variable's user-defined missing codes or falls in its
+ * missing range. Numeric codes also match their string form ("-99" vs -99).
+ */
+export const isUserMissing = (v: any, { missingCodes, missingRange }: MissingDefinition): boolean => {
+  if (isMissingValue(v)) return false;
+  if (missingCodes && missingCodes.some(code => code === v || String(code) === String(v).trim())) return true;
+  if (missingRange) {
+    const num = typeof v === 'number' ? v : Number(v);
+    return !isNaN(num) && num >= missingRange[0] && num <= missingRange[1];
+  }
+  return false;
+};
+
+/**
+ * Counts the non-missing values of a categorical variable by their string label
+ */
+export const countFrequencies = (values: any[]): Record<string, number> => {
+  const freqs: Record<string, number> = {};
+  values.forEach(v => {
+    if (isMissingValue(v)) return;
+    const key = String(v);
+    freqs[key] = (freqs[key] || 0) + 1;
+  });
+  return freqs;
+};
+
+/**
+ * Distinct labels of a categorical variable in natural sort order ("2" before "10")
+ */
+export const getCategoryLevels = (values: any[]): string[] =>
+  Object.keys(countFrequencies(values)).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+
+/**
+ * Names of the groups in the given order, then any others in natural sort order. Object key
+ * order cannot carry the level order, since integer-like keys always come first in ascending order.
+ */
+export const orderGroupNames = (groups: Record<string, unknown>, order: string[] = []): string[] => {
+  const names = Object.keys(groups);
+  return [...order.filter(name => names.includes(name)), ...getCategoryLevels(names).filter(name => !order.includes(name))];
+};
+
+/** Percentiles reported in the descriptive statistics, besides the quartiles */
+export const SUMMARY_PERCENTILES = [5, 10, 90, 95];
+/** Fraction dropped from each tail for the trimmed mean */
+const TRIM_FRACTION = 0.05;
+/** Tied modes listed before the rest are left out */
+const MAX_MODES = 5;
+
+export const calculateSummaryStats = (values: any[], type: VariableType, missingDefinition: MissingDefinition = {}) => {
+  const filtered = values.filter(v => !isMissingValue(v) && !isUserMissing(v, missingDefinition));
   const n = filtered.length;
   const missing = values.length - n;
   const unique = new Set(filtered).size;
 
-  if (type === 'categorical' || type === 'unknown') {
-    const freqs: Record<string, number> = {};
-    filtered.forEach(v => {
-      const key = String(v);
-      freqs[key] = (freqs[key] || 0) + 1;
-    });
-    return { count: n, missing, unique, frequencies: freqs };
+  if (type === 'categorical' || type === 'binary' || type === 'ordinal' || type === 'unknown') {
+    return { count: n, missing, unique, frequencies: countFrequencies(filtered) };
+  }
+  if (type === 'id') {
+    return { count: n, missing, unique };
+  }
+  if (type === 'text') {
+    const totalLength = filtered.reduce((acc, v) => acc + String(v).length, 0);
+    return { count: n, missing, unique, meanLength: n > 0 ? totalLength / n : 0 };
+  }
+  if (type === 'date' || type === 'datetime') {
+    const times = filtered.map(v => parseDateValue(v)?.ms ?? NaN).filter(t => !isNaN(t)).sort((a, b) => a - b);
+    if (times.length === 0) return { count: 0, missing: values.length, unique: 0 };
+    const mid = Math.floor(times.length / 2);
+    return {
+      count: n,
+      missing,
+      unique,
+      median: times.length % 2 === 0 ? (times[mid - 1] + times[mid]) / 2 : times[mid],
+      min: times[0],
+      max: times[times.length - 1]
+    };
   }
 
   const nums = filtered.map(Number).filter(v => !isNaN(v));
   if (nums.length === 0) return { count: 0, missing: values.length, unique: 0 };
 
   const sorted = [...nums].sort((a, b) => a - b);
-  const sum = nums.reduce((a, b) => a + b, 0);
-  const mean = sum / nums.length;
-  const median = sorted.length % 2 === 0 
-    ? (sorted[sorted.length / 2 - 1] + sorted[sorted.length / 2]) / 2 
-    : sorted[Math.floor(sorted.length / 2)];
-  
-  const sqDiffs = nums.map(v => Math.pow(v - mean, 2));
-  const std = Math.sqrt(sqDiffs.reduce((a, b) => a + b, 0) / nums.length);
+  const k = sorted.length;
+  const mean = sorted.reduce((a, b) => a + b, 0) / k;
+  const std = k > 1 ? Math.sqrt(sorted.reduce((a, b) => a + (b - mean) ** 2, 0) / (k - 1)) : NaN;
+  const se = std / Math.sqrt(k);
+  const ci = calculateTInterval(mean, se, k - 1);
+  const q1 = calculateQuantile(sorted, 0.25);
+  const q3 = calculateQuantile(sorted, 0.75);
+  const iqr = q3 - q1;
+  const trim = Math.floor(k * TRIM_FRACTION);
+  const trimmed = sorted.slice(trim, k - trim);
+  const shape = calculateShape(sorted);
+
+  // Runs of equal values in the sorted array give the mode without a frequency map
+  let modeCount = 1;
+  let mode: number[] = [];
+  let run = 0;
+  sorted.forEach((v, i) => {
+    run++;
+    if (sorted[i + 1] === v) return;
+    if (run > modeCount) {
+      modeCount = run;
+      mode = [v];
+    } else if (run === modeCount && modeCount > 1 && mode.length < MAX_MODES) {
+      mode.push(v);
+    }
+    run = 0;
+  });
 
   return {
     count: n,
     missing,
     unique,
     mean,
-    median,
+    median: calculateQuantile(sorted, 0.5),
     std,
     min: sorted[0],
-    max: sorted[sorted.length - 1]
+    max: sorted[k - 1],
+    se,
+    ciLower: ci.lower,
+    ciUpper: ci.upper,
+    q1,
+    q3,
+    iqr,
+    percentiles: Object.fromEntries(SUMMARY_PERCENTILES.map(pct => [pct, calculateQuantile(sorted, pct / 100)])),
+    trimmedMean: trimmed.reduce((a, b) => a + b, 0) / trimmed.length,
+    skewness: shape.skewness,
+    kurtosis: shape.kurtosis,
+    cv: mean !== 0 ? std / Math.abs(mean) : undefined,
+    mode,
+    modeCount: mode.length > 0 ? modeCount : undefined,
+    outliersIqr: sorted.filter(v => v < q1 - 1.5 * iqr || v > q3 + 1.5 * iqr).length,
+    outliersZ: std > 0 ? sorted.filter(v => Math.abs(v - mean) / std > 3).length : 0
   };
 };
 
-export const getCorrelationMatrix = (data: any[], vars: string[]): CorrelationResult[] => {
+/**
+ * Converts a cell to a number, treating empty cells as missing rather than 0
+ */
+export const toNumeric = (value: any): number => {
+  return isMissingValue(value) ? NaN : Number(value);
+};
+
+export interface CorrelationOptions {
+  method?: CorrelationMethod;
+  confLevel?: number;
+  adjustment?: PAdjustMethod;
+}
+
+/**
+ * Correlation matrix over numeric columns (NaN = missing), using pairwise-complete observations.
+ * onProgress receives the fraction of variable pairs computed so far.
+ */
+export const calculateCorrelationMatrix = (
+  columns: Record<string, ArrayLike<number>>,
+  vars: string[],
+  options: CorrelationOptions = {},
+  onProgress?: (fraction: number) => void
+): CorrelationResult[] => {
+  const { method = 'pearson', confLevel = 0.95, adjustment = 'none' } = options;
+  const totalPairs = (vars.length * (vars.length + 1)) / 2;
+
+  // The matrix is symmetric, so each pair is only computed once (upper triangle, i <= j)
+  const cells: { i: number; j: number; r: number; p: number; n: number; ciLower: number; ciUpper: number }[] = [];
+  for (let i = 0; i < vars.length; i++) {
+    const x = columns[vars[i]];
+    for (let j = i; j < vars.length; j++) {
+      const y = columns[vars[j]];
+      const xVals: number[] = [];
+      const yVals: number[] = [];
+      for (let k = 0; k < x.length; k++) {
+        if (!isNaN(x[k]) && !isNaN(y[k])) {
+          xVals.push(x[k]);
+          yVals.push(y[k]);
+        }
+      }
+      const { r, p } = calculateCorrelation(xVals, yVals, method);
+      const ci = calculateCorrelationCI(r, xVals.length, method, confLevel);
+      cells.push({ i, j, r, p, n: xVals.length, ciLower: ci.lower, ciUpper: ci.upper });
+      onProgress?.(cells.length / totalPairs);
+    }
+  }
+
+  // The family of tests is every distinct off-diagonal pair
+  const offDiagonal = cells.filter(c => c.i !== c.j);
+  const adjusted = adjustPValues(offDiagonal.map(c => (c.n > 2 ? c.p : NaN)), adjustment);
+  const adjustedByCell = new Map(offDiagonal.map((c, idx) => [c, isNaN(adjusted[idx]) ? c.p : adjusted[idx]]));
+
+  const lookup = new Map(cells.map(c => [`${c.i}:${c.j}`, c]));
   const results: CorrelationResult[] = [];
   for (let i = 0; i < vars.length; i++) {
     for (let j = 0; j < vars.length; j++) {
-      const xVar = vars[i];
-      const yVar = vars[j];
-      
-      const pairs = data
-        .map(row => ({ x: Number(row[xVar]), y: Number(row[yVar]) }))
-        .filter(p => !isNaN(p.x) && !isNaN(p.y));
-      
-      const xVals = pairs.map(p => p.x);
-      const yVals = pairs.map(p => p.y);
-      const r = calculatePearson(xVals, yVals);
-      const p = calculatePValue(r, pairs.length);
-      
+      const cell = lookup.get(i <= j ? `${i}:${j}` : `${j}:${i}`)!;
+      const pAdjusted = adjustedByCell.get(cell) ?? cell.p;
       results.push({
-        x: xVar,
-        y: yVar,
-        r,
-        p,
-        n: pairs.length,
-        significance: getSignificanceStars(p)
+        x: vars[i],
+        y: vars[j],
+        method,
+        r: cell.r,
+        p: cell.p,
+        pAdjusted,
+        adjustment,
+        n: cell.n,
+        ciLower: cell.ciLower,
+        ciUpper: cell.ciUpper,
+        confLevel,
+        significance: getSignificanceStars(pAdjusted)
       });
     }
   }
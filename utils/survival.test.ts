@@ -0,0 +1,46 @@
+
+import { describe, expect, it } from 'vitest';
+import { calculateSurvival } from './survival';
+
+// The aml data from R's survival package; status 1 is relapse, 0 is censored
+const aml = [
+  ...[[9, 1], [13, 1], [13, 0], [18, 1], [23, 1], [28, 0], [31, 1], [34, 1], [45, 0], [48, 1], [161, 0]]
+    .map(([time, status]) => ({ time, status, x: 'Maintained' })),
+  ...[[5, 1], [5, 1], [8, 1], [8, 1], [12, 1], [16, 0], [23, 1], [27, 1], [30, 1], [33, 1], [43, 1], [45, 1]]
+    .map(([time, status]) => ({ time, status, x: 'Nonmaintained' }))
+];
+
+describe('calculateSurvival', () => {
+  it('matches survfit for the Kaplan-Meier estimates', () => {
+    const result = calculateSurvival(aml, 'time', 'status', '1', 'x')!;
+    const maintained = result.curves[0];
+    expect(maintained.group).toBe('Maintained');
+    expect(maintained.n).toBe(11);
+    expect(maintained.events).toBe(7);
+    const survivalAt = (time: number) => maintained.steps.filter(s => s.time <= time).pop()!.survival;
+    expect(survivalAt(9)).toBeCloseTo(0.9091, 4);
+    expect(survivalAt(18)).toBeCloseTo(0.7159, 4);
+    expect(survivalAt(31)).toBeCloseTo(0.4909, 4);
+    expect(survivalAt(48)).toBeCloseTo(0.1841, 4);
+    expect(maintained.steps.find(s => s.time === 9)!.se).toBeCloseTo(0.0867, 4);
+    expect(maintained.median.estimate).toBe(31);
+    expect(result.curves[1].median.estimate).toBe(23);
+  });
+
+  it('matches survdiff for the log-rank test', () => {
+    const { logRank } = calculateSurvival(aml, 'time', 'status', '1', 'x')!;
+    expect(logRank!.chiSquare).toBeCloseTo(3.396, 3);
+    expect(logRank!.df).toBe(1);
+    expect(logRank!.p).toBeCloseTo(0.0653, 4);
+    expect(logRank!.observed).toEqual([7, 11]);
+    expect(logRank!.expected[0]).toBeCloseTo(10.69, 2);
+    expect(logRank!.expected[1]).toBeCloseTo(7.31, 2);
+  });
+
+  it('orders the groups by a given level order', () => {
+    const result = calculateSurvival(aml, 'time', 'status', '1', 'x', 0.95, ['Nonmaintained', 'Maintained'])!;
+    expect(result.curves.map(c => c.group)).toEqual(['Nonmaintained', 'Maintained']);
+    expect(result.logRank!.observed).toEqual([11, 7]);
+    expect(result.logRank!.chiSquare).toBeCloseTo(3.396, 3);
+  });
+});
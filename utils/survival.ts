@@ -0,0 +1,209 @@
+
+import { normalQuantile, pFromChiSquare } from './distributions';
+import { invert } from './matrix';
+import { isMissingValue, orderGroupNames, toNumeric } from './statistics';
+
+export interface SurvivalStep {
+  time: number;
+  nRisk: number;
+  nEvent: number;
+  nCensor: number;
+  survival: number;
+  se: number;
+  lower: number;
+  upper: number;
+}
+
+export interface KaplanMeierCurve {
+  group: string;
+  n: number;
+  events: number;
+  steps: SurvivalStep[];
+  censored: { time: number; survival: number }[];
+  median: { estimate: number; lower: number; upper: number };
+}
+
+export interface LogRankResult {
+  chiSquare: number;
+  df: number;
+  p: number;
+  observed: number[];
+  expected: number[];
+}
+
+export interface SurvivalAnalysisResult {
+  curves: KaplanMeierCurve[];
+  logRank: LogRankResult | null;
+  excluded: number;
+  confLevel: number;
+}
+
+/**
+ * First time at which a (step) curve drops to 0.5 or below; NaN when it never does
+ */
+const firstTimeAtOrBelowHalf = (steps: SurvivalStep[], key: 'survival' | 'lower' | 'upper'): number => {
+  const step = steps.find(s => s[key] <= 0.5);
+  return step ? step.time : NaN;
+};
+
+/**
+ * Kaplan-Meier estimator with Greenwood standard errors and log-log transformed confidence
+ * bands. The median's interval is read off the bands (Brookmeyer-Crowley).
+ */
+export const kaplanMeier = (group: string, times: number[], events: number[], confLevel = 0.95): KaplanMeierCurve => {
+  const z = normalQuantile(1 - (1 - confLevel) / 2);
+  const order = times.map((_, i) => i).sort((a, b) => times[a] - times[b]);
+  const n = times.length;
+
+  const steps: SurvivalStep[] = [{ time: 0, nRisk: n, nEvent: 0, nCensor: 0, survival: 1, se: 0, lower: 1, upper: 1 }];
+  const censored: { time: number; survival: number }[] = [];
+  let survival = 1;
+  let greenwood = 0;
+  let atRisk = n;
+
+  for (let k = 0; k < n;) {
+    const t = times[order[k]];
+    let nEvent = 0;
+    let nCensor = 0;
+    while (k < n && times[order[k]] === t) {
+      if (events[order[k]] === 1) nEvent++;
+      else nCensor++;
+      k++;
+    }
+    if (nEvent > 0) {
+      survival *= 1 - nEvent / atRisk;
+      greenwood += atRisk > nEvent ? nEvent / (atRisk * (atRisk - nEvent)) : 0;
+      let lower = 0;
+      let upper = 0;
+      if (survival > 0 && survival < 1) {
+        const seLogLog = Math.sqrt(greenwood) / Math.abs(Math.log(survival));
+        lower = Math.pow(survival, Math.exp(z * seLogLog));
+        upper = Math.pow(survival, Math.exp(-z * seLogLog));
+      } else if (survival === 1) {
+        lower = upper = 1;
+      }
+      steps.push({ time: t, nRisk: atRisk, nEvent, nCensor, survival, se: survival * Math.sqrt(greenwood), lower, upper });
+    } else if (t > 0 || steps.length > 1) {
+      const last = steps[steps.length - 1];
+      steps.push({ ...last, time: t, nRisk: atRisk, nEvent: 0, nCensor });
+    }
+    if (nCensor > 0) censored.push({ time: t, survival });
+    atRisk -= nEvent + nCensor;
+  }
+
+  return {
+    group,
+    n,
+    events: events.reduce((a, b) => a + b, 0),
+    steps,
+    censored,
+    median: {
+      estimate: firstTimeAtOrBelowHalf(steps, 'survival'),
+      lower: firstTimeAtOrBelowHalf(steps, 'lower'),
+      upper: firstTimeAtOrBelowHalf(steps, 'upper')
+    }
+  };
+};
+
+/**
+ * Estimated survival at time t, read from the step function
+ */
+export const survivalAt = (curve: KaplanMeierCurve, t: number): number => {
+  let value = 1;
+  for (const step of curve.steps) {
+    if (step.time > t) break;
+    value = step.survival;
+  }
+  return value;
+};
+
+/**
+ * Number of subjects still at risk just before time t. Every distinct observed time has a
+ * step, so this is the risk set of the first step at or after t.
+ */
+export const numberAtRisk = (curve: KaplanMeierCurve, t: number): number =>
+  curve.steps.find(step => step.time >= t)?.nRisk ?? 0;
+
+/**
+ * Log-rank (Mantel-Cox) test comparing survival across k groups, chi-square with k - 1 df
+ */
+export const logRankTest = (groups: { times: number[]; events: number[] }[]): LogRankResult | null => {
+  const k = groups.length;
+  if (k < 2) return null;
+  const sorted = groups.map(g => {
+    const order = g.times.map((_, i) => i).sort((a, b) => g.times[a] - g.times[b]);
+    return { times: order.map(i => g.times[i]), events: order.map(i => g.events[i]) };
+  });
+  const eventTimes = Array.from(new Set(groups.flatMap(g => g.times.filter((_, i) => g.events[i] === 1)))).sort((a, b) => a - b);
+
+  const observed = groups.map(g => g.events.reduce((a, b) => a + b, 0));
+  const expected = new Array<number>(k).fill(0);
+  const variance = Array.from({ length: k }, () => new Array<number>(k).fill(0));
+  // Per-group pointer to the first observation not yet removed from the risk set
+  const cursor = new Array<number>(k).fill(0);
+
+  eventTimes.forEach(t => {
+    const deaths = new Array<number>(k).fill(0);
+    const atRisk = sorted.map((g, j) => {
+      while (cursor[j] < g.times.length && g.times[cursor[j]] < t) cursor[j]++;
+      for (let i = cursor[j]; i < g.times.length && g.times[i] === t; i++) deaths[j] += g.events[i];
+      return g.times.length - cursor[j];
+    });
+    const total = atRisk.reduce((a, b) => a + b, 0);
+    const d = deaths.reduce((a, b) => a + b, 0);
+    if (total === 0) return;
+    const factor = total > 1 ? (d * (total - d)) / (total - 1) : 0;
+    for (let j = 0; j < k; j++) {
+      expected[j] += (atRisk[j] * d) / total;
+      for (let l = 0; l < k; l++) {
+        variance[j][l] += factor * (atRisk[j] / total) * ((j === l ? 1 : 0) - atRisk[l] / total);
+      }
+    }
+  });
+
+  // The k x k covariance is singular; drop the last group
+  const u = observed.slice(0, k - 1).map((o, j) => o - expected[j]);
+  const vInv = invert(variance.slice(0, k - 1).map(row => row.slice(0, k - 1)));
+  if (!vInv) return null;
+  const chiSquare = u.reduce((acc, uj, j) => acc + uj * vInv[j].reduce((s, v, l) => s + v * u[l], 0), 0);
+  return { chiSquare, df: k - 1, p: pFromChiSquare(chiSquare, k - 1), observed, expected };
+};
+
+/**
+ * Kaplan-Meier curves per group and the log-rank test. Rows need a non-negative numeric time and
+ * a non-missing event value; the event occurred when the value equals eventLevel, otherwise the
+ * observation is censored. Groups follow groupOrder (e.g. an ordinal variable's levels), then
+ * natural sort order.
+ */
+export const calculateSurvival = (
+  data: any[],
+  timeVar: string,
+  eventVar: string,
+  eventLevel: string,
+  groupVar = '',
+  confLevel = 0.95,
+  groupOrder: string[] = []
+): SurvivalAnalysisResult | null => {
+  const complete = data.filter(row => {
+    const t = toNumeric(row[timeVar]);
+    return !isNaN(t) && t >= 0 && !isMissingValue(row[eventVar]) && (!groupVar || !isMissingValue(row[groupVar]));
+  });
+  if (complete.length === 0) return null;
+
+  const byGroup: Record<string, { times: number[]; events: number[] }> = {};
+  complete.forEach(row => {
+    const key = groupVar ? String(row[groupVar]) : 'All subjects';
+    if (!byGroup[key]) byGroup[key] = { times: [], events: [] };
+    byGroup[key].times.push(toNumeric(row[timeVar]));
+    byGroup[key].events.push(String(row[eventVar]) === eventLevel ? 1 : 0);
+  });
+
+  const names = orderGroupNames(byGroup, groupOrder);
+  const groups = names.map(name => byGroup[name]);
+  return {
+    curves: names.map((name, i) => kaplanMeier(name, groups[i].times, groups[i].events, confLevel)),
+    logRank: groupVar ? logRankTest(groups) : null,
+    excluded: data.length - complete.length,
+    confLevel
+  };
+};
@@ -0,0 +1,78 @@
+
+import { describe, expect, it } from 'vitest';
+import { buildDataset, setVariableType } from './dataset';
+import { buildTableOne } from './tableOne';
+
+/** Rows for two arms from per-arm value lists, one row per value */
+const armRows = (columns: Record<string, [any[], any[]]>) => {
+  const [first] = Object.values(columns);
+  return ['A', 'B'].flatMap((arm, g) => first[g].map((_, i) => ({
+    arm,
+    ...Object.fromEntries(Object.entries(columns).map(([name, values]) => [name, values[g][i]]))
+  })));
+};
+
+const repeat = (counts: Record<string, number>) => Object.entries(counts).flatMap(([value, count]) => new Array(count).fill(value));
+
+const smdOf = (table: ReturnType<typeof buildTableOne>, name: string) => table!.rows.find(row => row.label.startsWith(`${name},`))!.smd;
+
+describe('standardized mean differences', () => {
+  it('reduces the multi-level SMD to the binary formula for two levels', () => {
+    const rows = armRows({ smoker: [repeat({ yes: 30, no: 70 }), repeat({ yes: 50, no: 50 })] });
+    const binary = (p1: number, p2: number) => Math.abs(p1 - p2) / Math.sqrt((p1 * (1 - p1) + p2 * (1 - p2)) / 2);
+    const smd = smdOf(buildTableOne(buildDataset(rows, 'test.csv'), 'arm', ['smoker']), 'smoker');
+    expect(smd).toBeCloseTo(binary(0.3, 0.5), 10);
+    expect(smd).toBeCloseTo(0.4170288, 7);
+  });
+
+  it('gives the Yang & Dalton distance for more levels, whichever level is dropped', () => {
+    const rows = armRows({ site: [repeat({ north: 20, south: 50, west: 30 }), repeat({ north: 40, south: 40, west: 20 })] });
+    const dataset = buildDataset(rows, 'test.csv');
+    expect(smdOf(buildTableOne(dataset, 'arm', ['site']), 'site')).toBeCloseTo(0.4534396, 7);
+    const reordered = setVariableType(dataset, 'site', 'ordinal', ['west', 'south', 'north']);
+    expect(smdOf(buildTableOne(reordered, 'arm', ['site']), 'site')).toBeCloseTo(0.4534396, 7);
+  });
+
+  it('gives 0 for identical distributions', () => {
+    const rows = armRows({ site: [repeat({ north: 2, south: 4, west: 2 }), repeat({ north: 1, south: 2, west: 1 })] });
+    expect(smdOf(buildTableOne(buildDataset(rows, 'test.csv'), 'arm', ['site']), 'site')).toBe(0);
+  });
+
+  it("uses Cohen's d with the average group variance for numerical variables", () => {
+    const a = [3, 5, 6, 8, 9, 11, 4];
+    const b = [7, 9, 10, 12, 15, 19, 20];
+    const rows = armRows({ score: [a, b] });
+    const mean = (x: number[]) => x.reduce((s, v) => s + v, 0) / x.length;
+    const variance = (x: number[]) => x.reduce((s, v) => s + (v - mean(x)) ** 2, 0) / (x.length - 1);
+    const expected = Math.abs(mean(a) - mean(b)) / Math.sqrt((variance(a) + variance(b)) / 2);
+    expect(smdOf(buildTableOne(buildDataset(rows, 'test.csv'), 'arm', ['score']), 'score')).toBeCloseTo(expected, 10);
+  });
+});
+
+describe('automatic summary', () => {
+  // Two values with proportion p of the larger one: skewness (1 - 2p) / √(p(1 - p))
+  const twoValued = (share: number) => {
+    const n = 20;
+    const high = Math.round(n * share);
+    const values = [...new Array(n - high).fill(10), ...new Array(high).fill(20)];
+    const rows = armRows({ x: [values.filter((_, i) => i % 2 === 0), values.filter((_, i) => i % 2 === 1)] });
+    return setVariableType(buildDataset(rows, 'test.csv'), 'x', 'numerical');
+  };
+
+  it.each([
+    [0.25, 'median [IQR]', 'Mann-Whitney U'],
+    [0.75, 'median [IQR]', 'Mann-Whitney U'],
+    [0.3, 'mean ± SD', 'Independent T-test'],
+    [0.7, 'mean ± SD', 'Independent T-test']
+  ])('summarises a share of %f high values by %s', (share, summary, test) => {
+    // |skewness| is 1.155 for shares of 0.25 and 0.75 and 0.873 for 0.3 and 0.7
+    const [row] = buildTableOne(twoValued(share), 'arm', ['x'])!.rows;
+    expect(row.label).toBe(`x, ${summary}`);
+    expect(row.test).toBe(test);
+  });
+
+  it('follows an explicit choice regardless of skewness', () => {
+    expect(buildTableOne(twoValued(0.25), 'arm', ['x'], { summary: 'mean' })!.rows[0].label).toBe('x, mean ± SD');
+    expect(buildTableOne(twoValued(0.3), 'arm', ['x'], { summary: 'median' })!.rows[0].label).toBe('x, median [IQR]');
+  });
+});
@@ -0,0 +1,239 @@
+
+import { Dataset, DataVariable } from '../types';
+import { calculateGroupStats, calculateQuantile, getCategoryLevels, isMissingValue, toNumeric } from './statistics';
+import { calculateRankGroupStats } from './nonparametric';
+import { calculateContingencyTable } from './contingency';
+import { invert } from './matrix';
+import { isCategoricalType } from './variableTypes';
+
+export type TableOneSummaryMethod = 'auto' | 'mean' | 'median';
+
+export const TABLE_ONE_SUMMARIES: Record<TableOneSummaryMethod, { label: string; description: string }> = {
+  auto: { label: 'Automatic', description: 'Median [IQR] for skewed variables (|skewness| > 1), otherwise mean ± SD' },
+  mean: { label: 'Mean ± SD', description: 'Mean ± SD for every numerical variable' },
+  median: { label: 'Median [IQR]', description: 'Median [IQR] for every numerical variable' }
+};
+
+/** Skewness beyond which the automatic summary switches to the median */
+const SKEWNESS_THRESHOLD = 1;
+
+export interface TableOneOptions {
+  summary?: TableOneSummaryMethod;
+  digits?: number;
+}
+
+export interface TableOneRow {
+  label: string;
+  /** Level and missing-count rows sit indented beneath their variable */
+  indent: boolean;
+  overall: string;
+  groups: string[];
+  p?: number;
+  test?: string;
+  smd?: number;
+}
+
+export interface TableOneResult {
+  groupVar: string;
+  groupLevels: string[];
+  groupCounts: number[];
+  total: number;
+  /** Records left out because the grouping value is missing */
+  excluded: number;
+  rows: TableOneRow[];
+  /** Tests in order of first use, for the table note */
+  tests: string[];
+}
+
+const mean = (x: number[]) => x.reduce((a, b) => a + b, 0) / x.length;
+const variance = (x: number[]) => {
+  const m = mean(x);
+  return x.reduce((a, b) => a + (b - m) ** 2, 0) / (x.length - 1);
+};
+
+const skewness = (x: number[]): number => {
+  const m = mean(x);
+  const m2 = x.reduce((a, b) => a + (b - m) ** 2, 0) / x.length;
+  const m3 = x.reduce((a, b) => a + (b - m) ** 3, 0) / x.length;
+  return m2 > 0 ? m3 / m2 ** 1.5 : 0;
+};
+
+const formatPercent = (count: number, total: number, digits: number) =>
+  `${count} (${total > 0 ? ((count / total) * 100).toFixed(digits) : '-'}%)`;
+
+const summariseNumbers = (x: number[], useMedian: boolean, digits: number): string => {
+  if (x.length === 0) return '-';
+  if (useMedian) {
+    const sorted = [...x].sort((a, b) => a - b);
+    return `${calculateQuantile(sorted, 0.5).toFixed(digits)} [${calculateQuantile(sorted, 0.25).toFixed(digits)}, ${calculateQuantile(sorted, 0.75).toFixed(digits)}]`;
+  }
+  return x.length > 1 ? `${mean(x).toFixed(digits)} ± ${Math.sqrt(variance(x)).toFixed(digits)}` : mean(x).toFixed(digits);
+};
+
+/**
+ * Largest absolute standardized difference over every pair of groups, so a single value
+ * summarises balance however many groups there are
+ */
+const maxPairwise = <T>(groups: T[], smd: (a: T, b: T) => number): number => {
+  let max = NaN;
+  for (let i = 0; i < groups.length; i++) {
+    for (let j = i + 1; j < groups.length; j++) {
+      const d = smd(groups[i], groups[j]);
+      if (!isNaN(d) && !(d <= max)) max = d;
+    }
+  }
+  return max;
+};
+
+/**
+ * Cohen's d with the average of the two group variances as the denominator
+ */
+const numericSmd = (a: number[], b: number[]): number => {
+  if (a.length < 2 || b.length < 2) return NaN;
+  const pooled = Math.sqrt((variance(a) + variance(b)) / 2);
+  if (pooled === 0) return mean(a) === mean(b) ? 0 : NaN;
+  return Math.abs(mean(a) - mean(b)) / pooled;
+};
+
+/**
+ * Multi-level SMD of Yang & Dalton (2012): the Mahalanobis distance between the two vectors of
+ * level proportions, dropping the first level. Reduces to the usual binary SMD for two levels.
+ */
+const categoricalSmd = (a: number[], b: number[]): number => {
+  const na = a.reduce((x, y) => x + y, 0);
+  const nb = b.reduce((x, y) => x + y, 0);
+  if (na === 0 || nb === 0) return NaN;
+  // Levels absent from both groups carry no information and would make the covariance singular
+  const present = a.map((_, k) => k).filter(k => a[k] + b[k] > 0);
+  if (present.length < 2) return 0;
+  const pa = present.slice(1).map(k => a[k] / na);
+  const pb = present.slice(1).map(k => b[k] / nb);
+  const s = pa.map((_, k) => pa.map((__, l) =>
+    k === l
+      ? (pa[k] * (1 - pa[k]) + pb[k] * (1 - pb[k])) / 2
+      : -(pa[k] * pa[l] + pb[k] * pb[l]) / 2
+  ));
+  const diff = pa.map((p, k) => p - pb[k]);
+  if (diff.every(d => d === 0)) return 0;
+  const sInv = invert(s);
+  if (!sInv) return NaN;
+  const q = diff.reduce((acc, dk, k) => acc + dk * sInv[k].reduce((sum, v, l) => sum + v * diff[l], 0), 0);
+  return Math.sqrt(Math.max(q, 0));
+};
+
+const numericalRows = (variable: DataVariable, groupOf: (string | null)[], levels: string[], options: Required<TableOneOptions>): TableOneRow[] => {
+  const nums = variable.values.map(toNumeric);
+  const included = nums.filter((_, i) => groupOf[i] !== null);
+  const observed = included.filter(x => !isNaN(x));
+  const byGroup = levels.map(level => nums.filter((x, i) => groupOf[i] === level && !isNaN(x)));
+  const useMedian = options.summary === 'median' || (options.summary === 'auto' && observed.length > 2 && Math.abs(skewness(observed)) > SKEWNESS_THRESHOLD);
+
+  const groups: Record<string, number[]> = {};
+  levels.forEach((level, g) => { if (byGroup[g].length > 0) groups[level] = byGroup[g]; });
+  let p: number | undefined;
+  let test: string | undefined;
+  if (useMedian) {
+    const result = calculateRankGroupStats(groups);
+    if (result) ({ p, test } = result);
+  } else {
+    const result = calculateGroupStats(groups);
+    if (result) ({ p, test } = result);
+  }
+
+  const rows: TableOneRow[] = [{
+    label: `${variable.name}, ${useMedian ? 'median [IQR]' : 'mean ± SD'}`,
+    indent: false,
+    overall: summariseNumbers(observed, useMedian, options.digits),
+    groups: byGroup.map(x => summariseNumbers(x, useMedian, options.digits)),
+    p,
+    test,
+    smd: maxPairwise(byGroup, numericSmd)
+  }];
+
+  const missing = included.length - observed.length;
+  if (missing > 0) {
+    rows.push({
+      label: 'Missing',
+      indent: true,
+      overall: formatPercent(missing, included.length, options.digits),
+      groups: levels.map(level => {
+        const inGroup = nums.filter((_, i) => groupOf[i] === level);
+        return formatPercent(inGroup.filter(x => isNaN(x)).length, inGroup.length, options.digits);
+      })
+    });
+  }
+  return rows;
+};
+
+const categoricalRows = (variable: DataVariable, groupVar: string, groupOf: (string | null)[], levels: string[], options: Required<TableOneOptions>): TableOneRow[] => {
+  const values = variable.values.map(v => (isMissingValue(v) ? null : String(v)));
+  const categories = (variable.levels ?? getCategoryLevels(variable.values)).filter(level => values.some((v, i) => v === level && groupOf[i] !== null));
+  const counts = levels.map(level => categories.map(category => values.filter((v, i) => v === category && groupOf[i] === level).length));
+  const groupTotals = counts.map(row => row.reduce((a, b) => a + b, 0));
+  const overallCounts = categories.map((_, k) => counts.reduce((acc, row) => acc + row[k], 0));
+  const overallTotal = groupTotals.reduce((a, b) => a + b, 0);
+
+  const pairs = values.map((v, i) => ({ [variable.name]: v, [groupVar]: groupOf[i] }));
+  const table = calculateContingencyTable(pairs, variable.name, groupVar);
+  const useFisher = table?.recommendedTest === 'fisher';
+
+  const rows: TableOneRow[] = [{
+    label: `${variable.name}, n (%)`,
+    indent: false,
+    overall: '',
+    groups: levels.map(() => ''),
+    p: table ? (useFisher ? table.fisher!.p : table.chiSquare.p) : undefined,
+    test: table ? (useFisher ? "Fisher's exact test" : 'Chi-square test') : undefined,
+    smd: maxPairwise(counts, categoricalSmd)
+  }];
+  categories.forEach((category, k) => {
+    rows.push({
+      label: category,
+      indent: true,
+      overall: formatPercent(overallCounts[k], overallTotal, options.digits),
+      groups: counts.map((row, g) => formatPercent(row[k], groupTotals[g], options.digits))
+    });
+  });
+
+  const missing = values.filter((v, i) => v === null && groupOf[i] !== null).length;
+  if (missing > 0) {
+    rows.push({
+      label: 'Missing',
+      indent: true,
+      overall: formatPercent(missing, overallTotal + missing, options.digits),
+      groups: levels.map((level, g) => {
+        const inGroup = values.filter((v, i) => v === null && groupOf[i] === level).length;
+        return formatPercent(inGroup, groupTotals[g] + inGroup, options.digits);
+      })
+    });
+  }
+  return rows;
+};
+
+/**
+ * Baseline characteristics stratified by a grouping variable: mean ± SD or median [IQR] for
+ * numerical variables and n (%) for categorical ones, with an overall column, a p-value from the
+ * matching test and the standardized mean difference. Records missing the grouping value are
+ * left out of every column. Returns null when the grouping variable has fewer than two levels.
+ */
+export const buildTableOne = (dataset: Dataset, groupVar: string, variableNames: string[], options: TableOneOptions = {}): TableOneResult | null => {
+  const resolved: Required<TableOneOptions> = { summary: options.summary ?? 'auto', digits: options.digits ?? 1 };
+  const group = dataset.variables.find(v => v.name === groupVar);
+  if (!group) return null;
+  const groupOf = group.values.map(v => (isMissingValue(v) ? null : String(v)));
+  const groupLevels = (group.levels ?? getCategoryLevels(group.values)).filter(level => groupOf.includes(level));
+  if (groupLevels.length < 2) return null;
+
+  const rows: TableOneRow[] = [];
+  variableNames.forEach(name => {
+    const variable = dataset.variables.find(v => v.name === name);
+    if (!variable || name === groupVar) return;
+    if (variable.type === 'numerical') rows.push(...numericalRows(variable, groupOf, groupLevels, resolved));
+    else if (isCategoricalType(variable.type)) rows.push(...categoricalRows(variable, groupVar, groupOf, groupLevels, resolved));
+  });
+
+  const tests = Array.from(new Set(rows.map(r => r.test).filter((t): t is string => !!t)));
+  const groupCounts = groupLevels.map(level => groupOf.filter(g => g === level).length);
+  const total = groupCounts.reduce((a, b) => a + b, 0);
+  return { groupVar, groupLevels, groupCounts, total, excluded: groupOf.length - total, rows, tests };
+};
@@ -0,0 +1,19 @@
+
+/**
+ * Evenly spaced "nice" tick values (steps of 1, 2, 2.5 or 5 × 10^k) covering lo to hi
+ */
+export const getNiceTicks = (lo: number, hi: number, count = 6): number[] => {
+  if (!(hi > lo)) return [lo];
+  const raw = (hi - lo) / count;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+  const step = ([1, 2, 2.5, 5, 10].find(m => m * magnitude >= raw) ?? 10) * magnitude;
+  const ticks: number[] = [];
+  for (let t = Math.floor(lo / step) * step; t <= hi + step * 1e-9; t += step) ticks.push(Number(t.toPrecision(12)));
+  return ticks;
+};
+
+/**
+ * Compact axis label: up to four significant digits, exponent form for very large or small values
+ */
+export const formatTick = (v: number): string =>
+  Math.abs(v) >= 10000 || (v !== 0 && Math.abs(v) < 0.01) ? v.toExponential(1) : String(Number(v.toPrecision(4)));
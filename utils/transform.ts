@@ -0,0 +1,162 @@
+
+import { Dataset, DataVariable, DateUnit, Derivation, VariableType } from '../types';
+import { calculateQuantile, getCategoryLevels, isMissingValue, toNumeric } from './statistics';
+import { isDateType } from './variableTypes';
+import { parseDateValue } from './dates';
+import { compileFormula } from './formula';
+
+export const TRANSFORM_FUNCTIONS: Record<Extract<Derivation, { kind: 'transform' }>['fn'], { label: string; description: string }> = {
+  ln: { label: 'Natural log', description: 'ln(x); zero and negative values become missing' },
+  log10: { label: 'Log base 10', description: 'log10(x); zero and negative values become missing' },
+  sqrt: { label: 'Square root', description: '√x; negative values become missing' },
+  zscore: { label: 'Z-score', description: '(x − mean) / SD, using the sample SD' }
+};
+
+/** Average unit lengths, so months and years are fractional rather than calendar counts */
+export const DATE_UNITS: Record<DateUnit, { label: string; days: number }> = {
+  days: { label: 'Days', days: 1 },
+  weeks: { label: 'Weeks', days: 7 },
+  months: { label: 'Months', days: 365.25 / 12 },
+  years: { label: 'Years', days: 365.25 }
+};
+
+const QUANTILE_NAMES: Record<number, string> = { 2: 'halves', 3: 'tertiles', 4: 'quartiles', 5: 'quintiles', 10: 'deciles' };
+
+/** Values of a derived column, with the type and level order to use instead of detection */
+export interface DerivedValues {
+  values: any[];
+  type?: VariableType;
+  levels?: string[];
+}
+
+const formatCutpoint = (x: number) => (Number.isInteger(x) ? String(x) : String(Number(x.toFixed(2))));
+
+/**
+ * Labels for the bins defined by ascending cut-points: "< 18", "18 to < 40", "≥ 65"
+ */
+export const getBinLabels = (cutpoints: number[]): string[] => {
+  if (cutpoints.length === 0) return ['All'];
+  const labels = [`< ${formatCutpoint(cutpoints[0])}`];
+  for (let i = 1; i < cutpoints.length; i++) labels.push(`${formatCutpoint(cutpoints[i - 1])} to < ${formatCutpoint(cutpoints[i])}`);
+  labels.push(`≥ ${formatCutpoint(cutpoints[cutpoints.length - 1])}`);
+  return labels;
+};
+
+/**
+ * Parses comma-separated cut-points ("18, 40, 65") into a sorted list without duplicates.
+ * Returns null if any entry is not a number.
+ */
+export const parseCutpoints = (text: string): number[] | null => {
+  const parts = text.split(',').map(p => p.trim()).filter(p => p !== '');
+  const numbers = parts.map(Number);
+  if (numbers.some(n => isNaN(n))) return null;
+  return Array.from(new Set(numbers)).sort((a, b) => a - b);
+};
+
+const findVariable = (dataset: Dataset, name: string): DataVariable => {
+  const variable = dataset.variables.find(v => v.name === name);
+  if (!variable) throw new Error('Choose a source variable.');
+  return variable;
+};
+
+const numericValues = (variable: DataVariable): number[] => {
+  const nums = variable.values.map(toNumeric);
+  if (nums.every(n => isNaN(n))) throw new Error(`${variable.name} has no numeric values.`);
+  return nums;
+};
+
+const binValues = (nums: number[], cutpoints: number[], labels: string[]): DerivedValues => {
+  const values = nums.map(x => {
+    if (isNaN(x)) return null;
+    let bin = 0;
+    while (bin < cutpoints.length && x >= cutpoints[bin]) bin++;
+    return labels[bin];
+  });
+  return { values, type: 'ordinal', levels: labels };
+};
+
+/**
+ * Computes the values of a derived variable from the dataset's current (converted) columns.
+ * Throws an Error describing the problem when the definition cannot be applied.
+ */
+export const computeDerivation = (dataset: Dataset, derivation: Derivation): DerivedValues => {
+  switch (derivation.kind) {
+    case 'recode': {
+      const source = findVariable(dataset, derivation.source);
+      const recode = (v: any) => {
+        if (isMissingValue(v)) return null;
+        const mapped = derivation.mapping[String(v)] ?? String(v);
+        return mapped.trim() === '' ? null : mapped.trim();
+      };
+      // New levels follow the order of the old ones they came from
+      const sourceLevels = source.levels ?? getCategoryLevels(source.values);
+      const levels = Array.from(new Set(sourceLevels.map(recode).filter((l): l is string => l !== null)));
+      return { values: source.values.map(recode), type: source.type === 'ordinal' ? 'ordinal' : undefined, levels };
+    }
+    case 'bin': {
+      const nums = numericValues(findVariable(dataset, derivation.source));
+      if (derivation.method === 'cutpoints') {
+        if (derivation.cutpoints.length === 0) throw new Error('Enter at least one cut-point.');
+        return binValues(nums, derivation.cutpoints, getBinLabels(derivation.cutpoints));
+      }
+      if (derivation.groups < 2) throw new Error('Choose at least two groups.');
+      const sorted = nums.filter(n => !isNaN(n)).sort((a, b) => a - b);
+      // Heavily tied data can give repeated quantiles, which merge into fewer groups
+      const cutpoints = Array.from(new Set(Array.from({ length: derivation.groups - 1 }, (_, i) => calculateQuantile(sorted, (i + 1) / derivation.groups))));
+      const labels = getBinLabels(cutpoints).map((label, i) => `Q${i + 1} (${label})`);
+      return binValues(nums, cutpoints, labels);
+    }
+    case 'transform': {
+      const nums = numericValues(findVariable(dataset, derivation.source));
+      let values: number[];
+      if (derivation.fn === 'zscore') {
+        const observed = nums.filter(n => !isNaN(n));
+        const mean = observed.reduce((a, b) => a + b, 0) / observed.length;
+        const sd = Math.sqrt(observed.reduce((a, b) => a + (b - mean) ** 2, 0) / (observed.length - 1));
+        if (!(sd > 0)) throw new Error(`${derivation.source} has no variation to standardise.`);
+        values = nums.map(x => (x - mean) / sd);
+      } else {
+        const fn = derivation.fn === 'ln' ? Math.log : derivation.fn === 'log10' ? Math.log10 : Math.sqrt;
+        values = nums.map(fn);
+      }
+      return { values: values.map(x => (isFinite(x) ? x : null)), type: 'numerical' };
+    }
+    case 'formula': {
+      const formula = compileFormula(derivation.expression, dataset.variables.map(v => v.name));
+      return { values: dataset.data.map(row => formula.evaluate(row)) };
+    }
+    case 'dateDiff': {
+      const start = findVariable(dataset, derivation.start);
+      const end = findVariable(dataset, derivation.end);
+      [start, end].forEach(v => {
+        if (!isDateType(v.type)) throw new Error(`${v.name} is not a date variable.`);
+      });
+      const unitMs = DATE_UNITS[derivation.unit].days * 86400000;
+      const values = start.values.map((s, i) => {
+        const [from, to] = [parseDateValue(s), parseDateValue(end.values[i])];
+        return from && to ? (to.ms - from.ms) / unitMs : null;
+      });
+      return { values, type: 'numerical' };
+    }
+  }
+};
+
+/**
+ * Short description of how a derived variable was made, used as its label
+ */
+export const describeDerivation = (derivation: Derivation): string => {
+  switch (derivation.kind) {
+    case 'recode':
+      return `Recode of ${derivation.source}`;
+    case 'bin':
+      return derivation.method === 'quantiles'
+        ? `${derivation.source} in ${QUANTILE_NAMES[derivation.groups] ?? `${derivation.groups} quantile groups`}`
+        : `${derivation.source} cut at ${derivation.cutpoints.map(formatCutpoint).join(', ')}`;
+    case 'transform':
+      return derivation.fn === 'zscore' ? `Z-score of ${derivation.source}` : `${derivation.fn}(${derivation.source})`;
+    case 'formula':
+      return `= ${derivation.expression}`;
+    case 'dateDiff':
+      return `${DATE_UNITS[derivation.unit].label} from ${derivation.start} to ${derivation.end}`;
+  }
+};
@@ -0,0 +1,198 @@
+
+import { DataVariable, VariableType } from '../types';
+import { detectDayMonthOrder, formatIsoDateTime, parseDateValue } from './dates';
+import { getCategoryLevels, isMissingValue } from './statistics';
+
+export const VARIABLE_TYPES: Record<VariableType, { label: string; description: string }> = {
+  numerical: { label: 'Numerical', description: 'Continuous measurements and counts' },
+  categorical: { label: 'Categorical', description: 'Unordered groups' },
+  binary: { label: 'Binary', description: 'Exactly two levels, such as yes/no or 0/1' },
+  ordinal: { label: 'Ordinal', description: 'Ordered levels, such as a Likert scale' },
+  date: { label: 'Date', description: 'Calendar dates' },
+  datetime: { label: 'Date & Time', description: 'Timestamps' },
+  id: { label: 'Identifier', description: 'Record identifiers, excluded from analyses' },
+  text: { label: 'Free Text', description: 'Open-ended responses, excluded from analyses' },
+  unknown: { label: 'Empty', description: 'No non-missing values' }
+};
+
+export interface TypeDetection {
+  type: VariableType;
+  levels?: string[];
+}
+
+/**
+ * Categorical, binary and ordinal variables are all analysed as groups
+ */
+export const isCategoricalType = (type: VariableType): boolean => type === 'categorical' || type === 'binary' || type === 'ordinal';
+
+export const isDateType = (type: VariableType): boolean => type === 'date' || type === 'datetime';
+
+// Column names such as id, patient_id, record_no or MRN, and camelCase ones such as patientId
+const ID_NAME = /^(id|uuid|guid|mrn)$|[_\s.-](id|uuid|guid|mrn)$|^(record|subject|patient|participant|case|sample)[_\s.-]?(id|no|num|number|code)$/i;
+const CAMEL_CASE_ID_NAME = /[a-z](Id|ID)$/;
+
+// Response scales whose levels have a natural order, lowest first
+const ORDERED_SCALES = [
+  ['strongly disagree', 'disagree', 'neutral', 'neither agree nor disagree', 'agree', 'strongly agree'],
+  ['never', 'rarely', 'sometimes', 'often', 'usually', 'always'],
+  ['very low', 'low', 'medium', 'moderate', 'high', 'very high'],
+  ['none', 'mild', 'moderate', 'severe', 'very severe'],
+  ['very poor', 'poor', 'fair', 'good', 'very good', 'excellent'],
+  ['very dissatisfied', 'dissatisfied', 'neutral', 'satisfied', 'very satisfied']
+];
+
+const matchOrderedScale = (levels: string[]): string[] | null => {
+  if (levels.length < 3) return null;
+  for (const scale of ORDERED_SCALES) {
+    const positions = levels.map(l => scale.indexOf(l.trim().toLowerCase()));
+    if (positions.every(p => p !== -1)) return levels.map((l, i) => ({ l, p: positions[i] })).sort((a, b) => a.p - b.p).map(x => x.l);
+  }
+  return null;
+};
+
+const isNumericValue = (v: any) => typeof v !== 'boolean' && !isNaN(Number(v));
+
+/**
+ * Guesses a column's type from its name and non-missing values:
+ * - two distinct values are binary (0/1, yes/no, M/F);
+ * - text that parses as dates (ISO or dd/mm/yyyy) is a date, or datetime when times are present;
+ * - numbers are numerical unless the name marks an identifier or codes carry leading zeros;
+ * - text that is unique for every row is an identifier, long or wordy text with mostly distinct
+ *   values is free text, and levels matching a known response scale are ordinal.
+ */
+export const detectVariableType = (name: string, values: any[]): TypeDetection => {
+  const nonNull = values.filter(v => !isMissingValue(v));
+  if (nonNull.length === 0) return { type: 'unknown' };
+  const distinct = new Set(nonNull.map(v => String(v).trim()));
+  const looksLikeId = ID_NAME.test(name.trim()) || CAMEL_CASE_ID_NAME.test(name.trim());
+
+  const strings = nonNull.filter(v => typeof v === 'string') as string[];
+  if (strings.length === nonNull.length) {
+    const order = detectDayMonthOrder(strings);
+    const dates = strings.map(v => parseDateValue(v, order));
+    // A few typos should not stop a date column from being recognised
+    if (dates.filter(d => d !== null).length >= 0.95 * strings.length) {
+      return { type: dates.some(d => d?.hasTime) ? 'datetime' : 'date' };
+    }
+  }
+
+  // Zip codes and record numbers like 00123 lose their meaning as numbers
+  const hasLeadingZeros = strings.some(v => /^0\d+$/.test(v.trim()));
+  const numeric = nonNull.filter(isNumericValue);
+  if (numeric.length / nonNull.length > 0.5 && !hasLeadingZeros) {
+    const numbers = numeric.map(Number);
+    const distinctNumbers = new Set(numbers);
+    if (distinctNumbers.size === 2) return { type: 'binary', levels: getCategoryLevels(numbers) };
+    if (looksLikeId && distinctNumbers.size > 2 && numbers.every(Number.isInteger)) return { type: 'id' };
+    return { type: 'numerical' };
+  }
+
+  const levels = getCategoryLevels(nonNull);
+  if (levels.length === 2) return { type: 'binary', levels };
+  if (looksLikeId) return { type: 'id' };
+
+  const mostlyDistinct = distinct.size > 20 && distinct.size / nonNull.length > 0.5;
+  if (mostlyDistinct) {
+    const meanLength = strings.reduce((acc, v) => acc + v.length, 0) / Math.max(1, strings.length);
+    const wordy = strings.filter(v => /\s/.test(v.trim())).length > 0.5 * strings.length;
+    if (meanLength >= 20 || wordy) return { type: 'text' };
+  }
+  if (distinct.size === nonNull.length && nonNull.length >= 10 && strings.every(v => !/\s/.test(v.trim()))) return { type: 'id' };
+
+  const scale = matchOrderedScale(levels);
+  if (scale) return { type: 'ordinal', levels: scale };
+  return { type: 'categorical', levels };
+};
+
+/**
+ * Converts imported values for the given type: numbers for numerical variables, ISO strings for
+ * dates and plain text for identifiers and free text. Values that do not fit become missing.
+ */
+export const convertValues = (values: any[], type: VariableType): any[] => {
+  const blankToNull = (v: any) => (isMissingValue(v) || String(v).trim() === '' ? null : v);
+  switch (type) {
+    case 'numerical':
+      return values.map(v => {
+        if (blankToNull(v) === null) return null;
+        const num = Number(v);
+        return isNaN(num) ? null : num;
+      });
+    case 'binary': {
+      // 0/1 flags stay numeric, with stray text such as "N/A" treated as missing like in numerical columns
+      const nonNull = values.filter(v => blankToNull(v) !== null);
+      return nonNull.filter(isNumericValue).length / nonNull.length > 0.5 ? convertValues(values, 'numerical') : values.map(blankToNull);
+    }
+    case 'date':
+    case 'datetime': {
+      const order = detectDayMonthOrder(values.filter(v => typeof v === 'string'));
+      return values.map(v => {
+        const parsed = parseDateValue(v, order);
+        return parsed ? formatIsoDateTime(parsed.ms, type === 'datetime') : null;
+      });
+    }
+    case 'id':
+    case 'text':
+      return values.map(v => (blankToNull(v) === null ? null : String(v)));
+    default:
+      return values.map(blankToNull);
+  }
+};
+
+/**
+ * Levels of a categorical variable: the given order first, then any levels it does not mention
+ */
+export const orderLevels = (values: any[], preferred: string[] = []): string[] => {
+  const present = getCategoryLevels(values);
+  return [...preferred.filter(l => present.includes(l)), ...present.filter(l => !preferred.includes(l))];
+};
+
+const formatNumber = (x: number | undefined) => (x === undefined || isNaN(x) ? '-' : Number(x.toFixed(2)).toLocaleString());
+
+/**
+ * One-line summary suited to the variable's type, shown on the Overview cards
+ */
+export const describeVariable = (variable: DataVariable): string => {
+  const { stats } = variable;
+  if (stats.count === 0) return 'No observed values';
+  switch (variable.type) {
+    case 'numerical':
+      return `Mean ${formatNumber(stats.mean)} (SD ${formatNumber(stats.std)}) · Range ${formatNumber(stats.min)} to ${formatNumber(stats.max)}`;
+    case 'date':
+    case 'datetime': {
+      const withTime = variable.type === 'datetime';
+      return `${formatIsoDateTime(stats.min!, withTime)} to ${formatIsoDateTime(stats.max!, withTime)}`;
+    }
+    case 'id': {
+      const duplicates = stats.count - stats.unique;
+      return duplicates > 0 ? `${stats.unique} unique IDs · ${duplicates} repeated` : `${stats.unique} unique IDs`;
+    }
+    case 'text':
+      return `${stats.unique} distinct responses · ${formatNumber(stats.meanLength)} characters on average`;
+    default: {
+      const frequencies = Object.entries(stats.frequencies ?? {});
+      const [top, topCount] = frequencies.reduce((best, f) => (f[1] > best[1] ? f : best), ['', 0]);
+      return `${frequencies.length} levels · Most common: ${top} (${((topCount / stats.count) * 100).toFixed(1)}%)`;
+    }
+  }
+};
+
+/**
+ * Labelled detail statistics for a numerical variable's Overview card; empty for other types
+ */
+export const describeNumericDetails = (variable: DataVariable): { label: string; value: string }[] => {
+  const { stats } = variable;
+  if (variable.type !== 'numerical' || stats.count === 0) return [];
+  const mode = stats.mode && stats.mode.length > 0
+    ? `${stats.mode.map(formatNumber).join(', ')} (${stats.modeCount}×)`
+    : 'None repeated';
+  return [
+    { label: '95% CI of Mean', value: `${formatNumber(stats.ciLower)} to ${formatNumber(stats.ciUpper)}` },
+    { label: 'SE of Mean', value: formatNumber(stats.se) },
+    { label: 'Median [Q1, Q3]', value: `${formatNumber(stats.median)} [${formatNumber(stats.q1)}, ${formatNumber(stats.q3)}]` },
+    { label: '5% Trimmed Mean', value: formatNumber(stats.trimmedMean) },
+    { label: 'Skewness · Kurtosis', value: `${formatNumber(stats.skewness)} · ${formatNumber(stats.kurtosis)}` },
+    { label: 'CV', value: stats.cv === undefined || isNaN(stats.cv) ? '-' : `${(stats.cv * 100).toFixed(1)}%` },
+    { label: 'Mode', value: mode },
+    { label: 'Outliers', value: `${stats.outliersIqr ?? 0} by IQR · ${stats.outliersZ ?? 0} by |z| > 3` }
+  ];
+};